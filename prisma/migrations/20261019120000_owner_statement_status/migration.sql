@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "OwnerStatementStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'APPROVED', 'SENT');
+
+-- AlterTable
+ALTER TABLE "OwnerStatement" ADD COLUMN     "status" "OwnerStatementStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN     "statusChangedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "OwnerStatementStatusChange" (
+    "id" TEXT NOT NULL,
+    "ownerStatementId" TEXT NOT NULL,
+    "fromStatus" "OwnerStatementStatus" NOT NULL,
+    "toStatus" "OwnerStatementStatus" NOT NULL,
+    "reason" TEXT,
+    "changedBy" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OwnerStatementStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnerStatement_managementGroupId_status_idx" ON "OwnerStatement"("managementGroupId", "status");
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementStatusChange_ownerStatementId_changedAt_idx" ON "OwnerStatementStatusChange"("ownerStatementId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementStatusChange" ADD CONSTRAINT "OwnerStatementStatusChange_ownerStatementId_fkey" FOREIGN KEY ("ownerStatementId") REFERENCES "OwnerStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "OwnerStatementIncome" ADD COLUMN     "cleaningFee" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OwnerStatementAdjustment" ADD COLUMN     "isMinimumFee" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ManagementAgreement" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "feePercent" DECIMAL(65,30) NOT NULL,
+    "minimumMonthlyFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "excludeCleaningFees" BOOLEAN NOT NULL DEFAULT false,
+    "deductPlatformFees" BOOLEAN NOT NULL DEFAULT false,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ManagementAgreement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ManagementAgreement_propertyId_effectiveFrom_idx" ON "ManagementAgreement"("propertyId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "ManagementAgreement_managementGroupId_deletedAt_idx" ON "ManagementAgreement"("managementGroupId", "deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "ManagementAgreement" ADD CONSTRAINT "ManagementAgreement_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "OwnerStatement" ADD COLUMN     "statementImportId" TEXT;
+
+-- CreateTable
+CREATE TABLE "StatementImport" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "statementMonth" TIMESTAMP(3) NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileData" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+    "confirmedAt" TIMESTAMP(3),
+    "confirmedBy" TEXT,
+
+    CONSTRAINT "StatementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StatementImport_managementGroupId_statementMonth_idx" ON "StatementImport"("managementGroupId", "statementMonth");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatement" ADD CONSTRAINT "OwnerStatement_statementImportId_fkey" FOREIGN KEY ("statementImportId") REFERENCES "StatementImport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "PropertyAlias" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "normalizedAlias" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "PropertyAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PropertyAlias_managementGroupId_normalizedAlias_key" ON "PropertyAlias"("managementGroupId", "normalizedAlias");
+
+-- CreateIndex
+CREATE INDEX "PropertyAlias_propertyId_idx" ON "PropertyAlias"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "PropertyAlias" ADD CONSTRAINT "PropertyAlias_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "VendorImportProfile" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "vendorName" TEXT,
+    "headerRowOffset" INTEGER NOT NULL DEFAULT 0,
+    "headers" TEXT[],
+    "columnMapping" JSONB NOT NULL,
+    "dateFormat" TEXT,
+    "signConvention" TEXT NOT NULL DEFAULT 'positive',
+    "defaultDescription" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "VendorImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VendorImportProfile_managementGroupId_deletedAt_idx" ON "VendorImportProfile"("managementGroupId", "deletedAt");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "VendorImportJobStatus" AS ENUM ('QUEUED', 'EXTRACTING', 'MATCHING', 'READY_FOR_REVIEW', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "VendorImportJob" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "ownerStatementId" TEXT NOT NULL,
+    "statementMonth" TIMESTAMP(3) NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileData" BYTEA NOT NULL,
+    "status" "VendorImportJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "progressMessage" TEXT,
+    "error" TEXT,
+    "result" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "VendorImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VendorImportJob_managementGroupId_statementMonth_idx" ON "VendorImportJob"("managementGroupId", "statementMonth");
+
+-- CreateIndex
+CREATE INDEX "VendorImportJob_status_updatedAt_idx" ON "VendorImportJob"("status", "updatedAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "OwnerStatementExpense" ADD COLUMN     "category" TEXT,
+ADD COLUMN     "lineDescription" TEXT,
+ADD COLUMN     "quantity" DECIMAL(65,30),
+ADD COLUMN     "unitPrice" DECIMAL(65,30);
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "OwnerStatementExpense" ADD COLUMN     "sourceDocumentId" TEXT,
+ADD COLUMN     "sourceReference" TEXT;
+
+-- AlterTable
+ALTER TABLE "VendorImportJob" ADD COLUMN     "sourceDocumentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SourceDocument" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storage" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "SourceDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementExpense_sourceDocumentId_idx" ON "OwnerStatementExpense"("sourceDocumentId");
+
+-- CreateIndex
+CREATE INDEX "SourceDocument_managementGroupId_idx" ON "SourceDocument"("managementGroupId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementExpense" ADD CONSTRAINT "OwnerStatementExpense_sourceDocumentId_fkey" FOREIGN KEY ("sourceDocumentId") REFERENCES "SourceDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorImportJob" ADD CONSTRAINT "VendorImportJob_sourceDocumentId_fkey" FOREIGN KEY ("sourceDocumentId") REFERENCES "SourceDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "OwnerStatementChangeSource" AS ENUM ('MANUAL_EDIT', 'RESERVATION_IMPORT', 'VENDOR_PDF', 'VENDOR_EXCEL', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "OwnerStatementRevision" (
+    "id" TEXT NOT NULL,
+    "ownerStatementId" TEXT NOT NULL,
+    "source" "OwnerStatementChangeSource" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OwnerStatementRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OwnerStatementAuditEntry" (
+    "id" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "section" TEXT NOT NULL,
+    "itemId" TEXT,
+    "action" TEXT NOT NULL,
+    "field" TEXT,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+
+    CONSTRAINT "OwnerStatementAuditEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementRevision_ownerStatementId_changedAt_idx" ON "OwnerStatementRevision"("ownerStatementId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementAuditEntry_revisionId_idx" ON "OwnerStatementAuditEntry"("revisionId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementRevision" ADD CONSTRAINT "OwnerStatementRevision_ownerStatementId_fkey" FOREIGN KEY ("ownerStatementId") REFERENCES "OwnerStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementAuditEntry" ADD CONSTRAINT "OwnerStatementAuditEntry_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "OwnerStatementRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "OwnerPayoutMethod" AS ENUM ('ACH', 'CHECK');
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "ownerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Owner" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "payoutMethod" "OwnerPayoutMethod" NOT NULL DEFAULT 'CHECK',
+    "bankName" TEXT,
+    "bankRoutingNumber" TEXT,
+    "bankAccountNumber" TEXT,
+    "bankAccountType" TEXT,
+    "taxIdType" TEXT,
+    "taxId" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Owner_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Owner_managementGroupId_deletedAt_idx" ON "Owner"("managementGroupId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Property_ownerId_idx" ON "Property"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "Property" ADD CONSTRAINT "Property_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: one owner per distinct owner name within a management group,
+-- taken from the JSON owner details stored on each property
+CREATE TEMP TABLE "_owner_backfill" AS
+SELECT DISTINCT ON ("managementGroupId", lower(trim("owner"->>'name')))
+    gen_random_uuid()::text AS "id",
+    "managementGroupId",
+    lower(trim("owner"->>'name')) AS "normalizedName",
+    trim("owner"->>'name') AS "name",
+    NULLIF(trim("owner"->>'email'), '') AS "email",
+    NULLIF(trim("owner"->>'phone'), '') AS "phone",
+    NULLIF(trim("owner"->>'address'), '') AS "address",
+    "createdBy"
+FROM "Property"
+WHERE NULLIF(trim("owner"->>'name'), '') IS NOT NULL
+ORDER BY "managementGroupId", lower(trim("owner"->>'name')), "updatedAt" DESC NULLS LAST;
+
+INSERT INTO "Owner" ("id", "managementGroupId", "name", "email", "phone", "address", "createdBy", "updatedBy", "updatedAt")
+SELECT "id", "managementGroupId", "name", "email", "phone", "address", "createdBy", "createdBy", CURRENT_TIMESTAMP
+FROM "_owner_backfill";
+
+UPDATE "Property" p
+SET "ownerId" = b."id"
+FROM "_owner_backfill" b
+WHERE p."managementGroupId" = b."managementGroupId"
+  AND lower(trim(p."owner"->>'name')) = b."normalizedName";
+
+DROP TABLE "_owner_backfill";
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "OwnershipSplit" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "OwnershipSplit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OwnershipShare" (
+    "id" TEXT NOT NULL,
+    "splitId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "percent" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "OwnershipShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnershipSplit_propertyId_effectiveFrom_idx" ON "OwnershipSplit"("propertyId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "OwnershipSplit_managementGroupId_deletedAt_idx" ON "OwnershipSplit"("managementGroupId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "OwnershipShare_ownerId_idx" ON "OwnershipShare"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OwnershipShare_splitId_ownerId_key" ON "OwnershipShare"("splitId", "ownerId");
+
+-- AddForeignKey
+ALTER TABLE "OwnershipSplit" ADD CONSTRAINT "OwnershipSplit_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OwnershipShare" ADD CONSTRAINT "OwnershipShare_splitId_fkey" FOREIGN KEY ("splitId") REFERENCES "OwnershipSplit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OwnershipShare" ADD CONSTRAINT "OwnershipShare_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "OwnerStatementAdjustment" ADD COLUMN     "isCarryover" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "OwnerPayout" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "ownerStatementId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "OwnerPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnerPayout_ownerStatementId_idx" ON "OwnerPayout"("ownerStatementId");
+
+-- CreateIndex
+CREATE INDEX "OwnerPayout_managementGroupId_paidAt_idx" ON "OwnerPayout"("managementGroupId", "paidAt");
+
+-- AddForeignKey
+ALTER TABLE "OwnerPayout" ADD CONSTRAINT "OwnerPayout_ownerStatementId_fkey" FOREIGN KEY ("ownerStatementId") REFERENCES "OwnerStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ReserveEntryType" AS ENUM ('CONTRIBUTION', 'DRAWDOWN');
+
+-- AlterTable
+ALTER TABLE "ManagementAgreement" ADD COLUMN     "reserveTarget" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OwnerStatementAdjustment" ADD COLUMN     "reserveEntry" "ReserveEntryType";
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "OwnerPayoutStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "ManagementGroup" ADD COLUMN     "achCompanyId" TEXT,
+ADD COLUMN     "achCompanyName" TEXT,
+ADD COLUMN     "achOriginBankName" TEXT,
+ADD COLUMN     "achOriginRoutingNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "OwnerPayout" ADD COLUMN     "batchId" TEXT,
+ADD COLUMN     "method" "OwnerPayoutMethod" NOT NULL DEFAULT 'CHECK',
+ADD COLUMN     "ownerId" TEXT,
+ADD COLUMN     "status" "OwnerPayoutStatus" NOT NULL DEFAULT 'PAID';
+
+-- CreateTable
+CREATE TABLE "OwnerPayoutBatch" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "statementMonth" TIMESTAMP(3) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileContents" TEXT NOT NULL,
+    "entryCount" INTEGER NOT NULL,
+    "totalAmount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "OwnerPayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnerPayoutBatch_managementGroupId_statementMonth_idx" ON "OwnerPayoutBatch"("managementGroupId", "statementMonth");
+
+-- CreateIndex
+CREATE INDEX "OwnerPayout_batchId_idx" ON "OwnerPayout"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerPayout" ADD CONSTRAINT "OwnerPayout_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OwnerPayout" ADD CONSTRAINT "OwnerPayout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "OwnerPayoutBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
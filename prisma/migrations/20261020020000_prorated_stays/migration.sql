@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "ManagementGroup" ADD COLUMN     "prorateReservations" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "OwnerStatementIncome" ADD COLUMN     "proratedStayId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProratedStay" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "checkIn" TEXT NOT NULL,
+    "checkOut" TEXT NOT NULL,
+    "nights" INTEGER NOT NULL,
+    "platform" TEXT NOT NULL,
+    "guest" TEXT NOT NULL,
+    "grossRevenue" DECIMAL(65,30) NOT NULL,
+    "cleaningFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "platformFee" DECIMAL(65,30) NOT NULL,
+    "statementImportId" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ProratedStay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProratedStay_managementGroupId_idx" ON "ProratedStay"("managementGroupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProratedStay_propertyId_checkIn_checkOut_guest_platform_key" ON "ProratedStay"("propertyId", "checkIn", "checkOut", "guest", "platform");
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementIncome_proratedStayId_idx" ON "OwnerStatementIncome"("proratedStayId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementIncome" ADD CONSTRAINT "OwnerStatementIncome_proratedStayId_fkey" FOREIGN KEY ("proratedStayId") REFERENCES "ProratedStay"("id") ON DELETE SET NULL ON UPDATE CASCADE;
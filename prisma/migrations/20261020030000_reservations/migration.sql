@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('CONFIRMED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "OwnerStatementIncome" ADD COLUMN     "reservationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ProratedStay" ADD COLUMN     "reservationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Reservation" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "guest" TEXT NOT NULL,
+    "checkIn" DATE NOT NULL,
+    "checkOut" DATE NOT NULL,
+    "nights" INTEGER NOT NULL,
+    "grossRevenue" DECIMAL(65,30) NOT NULL,
+    "cleaningFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "platformFee" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "taxes" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'CONFIRMED',
+    "cancelledAt" TIMESTAMP(3),
+    "statementImportId" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Reservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Reservation_managementGroupId_checkIn_idx" ON "Reservation"("managementGroupId", "checkIn");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reservation_propertyId_externalId_key" ON "Reservation"("propertyId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementIncome_reservationId_idx" ON "OwnerStatementIncome"("reservationId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementIncome" ADD CONSTRAINT "OwnerStatementIncome_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProratedStay" ADD CONSTRAINT "ProratedStay_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "OwnerStatementAdjustment" ADD COLUMN     "reservationChange" TEXT,
+ADD COLUMN     "reservationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementAdjustment_reservationId_idx" ON "OwnerStatementAdjustment"("reservationId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementAdjustment" ADD CONSTRAINT "OwnerStatementAdjustment_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
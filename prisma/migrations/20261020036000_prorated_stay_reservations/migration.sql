@@ -0,0 +1,34 @@
+-- Keep only the latest prorated stay for each reservation, moving the
+-- statement lines of older copies over to it
+WITH "ranked" AS (
+    SELECT "id",
+        FIRST_VALUE("id") OVER (
+            PARTITION BY "reservationId"
+            ORDER BY "updatedAt" DESC NULLS LAST, "createdAt" DESC NULLS LAST, "id"
+        ) AS "keepId"
+    FROM "ProratedStay"
+    WHERE "reservationId" IS NOT NULL
+)
+UPDATE "OwnerStatementIncome"
+SET "proratedStayId" = "ranked"."keepId"
+FROM "ranked"
+WHERE "OwnerStatementIncome"."proratedStayId" = "ranked"."id"
+  AND "ranked"."id" <> "ranked"."keepId";
+
+DELETE FROM "ProratedStay"
+WHERE "reservationId" IS NOT NULL
+  AND "id" NOT IN (
+    SELECT DISTINCT ON ("reservationId") "id"
+    FROM "ProratedStay"
+    WHERE "reservationId" IS NOT NULL
+    ORDER BY "reservationId", "updatedAt" DESC NULLS LAST, "createdAt" DESC NULLS LAST, "id"
+  );
+
+-- DropIndex
+DROP INDEX "ProratedStay_propertyId_checkIn_checkOut_guest_platform_key";
+
+-- CreateIndex
+CREATE INDEX "ProratedStay_propertyId_checkIn_checkOut_idx" ON "ProratedStay"("propertyId", "checkIn", "checkOut");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProratedStay_reservationId_key" ON "ProratedStay"("reservationId");
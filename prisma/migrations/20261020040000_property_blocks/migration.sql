@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "PropertyBlockReason" AS ENUM ('OWNER_STAY', 'MAINTENANCE');
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN     "bookedAt" DATE;
+
+-- CreateTable
+CREATE TABLE "PropertyBlock" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reason" "PropertyBlockReason" NOT NULL DEFAULT 'OWNER_STAY',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "PropertyBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PropertyBlock_propertyId_startDate_idx" ON "PropertyBlock"("propertyId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "PropertyBlock" ADD CONSTRAINT "PropertyBlock_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "BookingChannel" AS ENUM ('AIRBNB', 'VRBO', 'BOOKING_COM', 'EXPEDIA', 'DIRECT', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "OwnerStatementIncome" ADD COLUMN     "channel" "BookingChannel" NOT NULL DEFAULT 'OTHER';
+
+-- AlterTable: the raw channel text becomes the platform
+ALTER TABLE "Reservation" RENAME COLUMN "channel" TO "platform";
+ALTER TABLE "Reservation" ADD COLUMN     "channel" "BookingChannel" NOT NULL DEFAULT 'OTHER';
+
+-- Backfill, matching normalizeBookingChannel
+UPDATE "OwnerStatementIncome" SET "channel" = CASE
+    WHEN lower("platform") LIKE '%airbnb%' THEN 'AIRBNB'::"BookingChannel"
+    WHEN lower("platform") ~ 'vrbo|homeaway|vacation rentals' THEN 'VRBO'::"BookingChannel"
+    WHEN lower("platform") ~ 'booking\s*\.?\s*com' THEN 'BOOKING_COM'::"BookingChannel"
+    WHEN lower("platform") ~ 'expedia|hotels\s*\.?\s*com' THEN 'EXPEDIA'::"BookingChannel"
+    WHEN lower("platform") ~ 'direct|website|owner|manual|booking engine|phone|email' THEN 'DIRECT'::"BookingChannel"
+    ELSE 'OTHER'::"BookingChannel"
+END;
+
+UPDATE "Reservation" SET "channel" = CASE
+    WHEN lower("platform") LIKE '%airbnb%' THEN 'AIRBNB'::"BookingChannel"
+    WHEN lower("platform") ~ 'vrbo|homeaway|vacation rentals' THEN 'VRBO'::"BookingChannel"
+    WHEN lower("platform") ~ 'booking\s*\.?\s*com' THEN 'BOOKING_COM'::"BookingChannel"
+    WHEN lower("platform") ~ 'expedia|hotels\s*\.?\s*com' THEN 'EXPEDIA'::"BookingChannel"
+    WHEN lower("platform") ~ 'direct|website|owner|manual|booking engine|phone|email' THEN 'DIRECT'::"BookingChannel"
+    ELSE 'OTHER'::"BookingChannel"
+END;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "OwnerStatementVarianceCheck" (
+    "id" TEXT NOT NULL,
+    "ownerStatementId" TEXT NOT NULL,
+    "findingKey" TEXT NOT NULL,
+    "checkedBy" TEXT NOT NULL,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OwnerStatementVarianceCheck_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OwnerStatementVarianceCheck_ownerStatementId_findingKey_key" ON "OwnerStatementVarianceCheck"("ownerStatementId", "findingKey");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementVarianceCheck" ADD CONSTRAINT "OwnerStatementVarianceCheck_ownerStatementId_fkey" FOREIGN KEY ("ownerStatementId") REFERENCES "OwnerStatement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
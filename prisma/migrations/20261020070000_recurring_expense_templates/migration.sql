@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "RecurringExpenseAmountType" AS ENUM ('FIXED', 'PERCENT_OF_INCOME');
+
+-- CreateEnum
+CREATE TYPE "RecurringExpenseFrequency" AS ENUM ('MONTHLY', 'QUARTERLY', 'SEMIANNUALLY', 'ANNUALLY');
+
+-- AlterTable
+ALTER TABLE "OwnerStatementExpense" ADD COLUMN     "recurringExpenseTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringExpenseTemplate" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amountType" "RecurringExpenseAmountType" NOT NULL DEFAULT 'FIXED',
+    "amount" DECIMAL(65,30) NOT NULL,
+    "category" TEXT,
+    "frequency" "RecurringExpenseFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "startMonth" DATE NOT NULL,
+    "endMonth" DATE,
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RecurringExpenseTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringExpenseProperty" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+
+    CONSTRAINT "RecurringExpenseProperty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringExpenseTemplate_managementGroupId_deletedAt_idx" ON "RecurringExpenseTemplate"("managementGroupId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "RecurringExpenseProperty_propertyId_idx" ON "RecurringExpenseProperty"("propertyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringExpenseProperty_templateId_propertyId_key" ON "RecurringExpenseProperty"("templateId", "propertyId");
+
+-- CreateIndex
+CREATE INDEX "OwnerStatementExpense_recurringExpenseTemplateId_idx" ON "OwnerStatementExpense"("recurringExpenseTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "OwnerStatementExpense" ADD CONSTRAINT "OwnerStatementExpense_recurringExpenseTemplateId_fkey" FOREIGN KEY ("recurringExpenseTemplateId") REFERENCES "RecurringExpenseTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpenseProperty" ADD CONSTRAINT "RecurringExpenseProperty_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "RecurringExpenseTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpenseProperty" ADD CONSTRAINT "RecurringExpenseProperty_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
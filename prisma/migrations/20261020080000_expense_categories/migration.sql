@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ScheduleELine" AS ENUM ('ADVERTISING', 'AUTO_TRAVEL', 'CLEANING_MAINTENANCE', 'COMMISSIONS', 'INSURANCE', 'LEGAL_PROFESSIONAL', 'MANAGEMENT_FEES', 'MORTGAGE_INTEREST', 'OTHER_INTEREST', 'REPAIRS', 'SUPPLIES', 'TAXES', 'UTILITIES', 'DEPRECIATION', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "ManagementGroup" ADD COLUMN     "groupExpensesByCategory" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ExpenseCategory" (
+    "id" TEXT NOT NULL,
+    "managementGroupId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "scheduleELine" "ScheduleELine",
+    "createdAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ExpenseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseCategory_managementGroupId_key_key" ON "ExpenseCategory"("managementGroupId", "key");
@@ -0,0 +1,43 @@
+import { auth } from '@clerk/nextjs/server'
+import { type NextRequest } from 'next/server'
+import { db } from '~/server/db'
+import { getDocumentStorage } from '~/server/document-storage'
+
+// Serve a retained import document to members of the owning organization
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const session = await auth()
+
+  if (!session?.orgId) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const { id } = await params
+  const document = await db.sourceDocument.findUnique({ where: { id } })
+
+  if (document?.managementGroupId !== session.orgId) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  try {
+    const download = await getDocumentStorage(document.storage).get(
+      document.storageKey
+    )
+
+    if ('url' in download) {
+      return Response.redirect(download.url)
+    }
+
+    return new Response(new Uint8Array(download.data), {
+      headers: {
+        'Content-Type': document.mimeType,
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.fileName)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Source document download error:', error)
+    return new Response('Source document unavailable', { status: 500 })
+  }
+}
@@ -1,13 +1,23 @@
 import { auth } from '@clerk/nextjs/server'
-import { type Prisma } from '@prisma/client'
 import { type NextRequest } from 'next/server'
 import { z } from 'zod'
+import {
+  findUnknownExpenseCategories,
+  suggestExpenseCategories,
+} from '~/lib/OwnerStatement/expense-category'
+import { auditStatementChanges } from '~/lib/OwnerStatement/statement-audit'
+import { isStatementLocked } from '~/lib/OwnerStatement/statement-status'
+import { recalculateStatementTotals } from '~/lib/OwnerStatement/statement-totals'
 import { VendorCache } from '~/lib/OwnerStatement/vendor-cache'
 import type { VendorImportConfirmResponse } from '~/lib/OwnerStatement/vendor-import'
 import { db } from '~/server/db'
 
 const confirmSchema = z.object({
   currentStatementId: z.string(),
+  jobId: z.string().optional(),
+  sourceDocumentId: z.string().nullish(),
+  // Recorded on the statements' audit history
+  importSource: z.enum(['VENDOR_PDF', 'VENDOR_EXCEL']).default('VENDOR_PDF'),
   approvedMatches: z.array(
     z.object({
       property: z.object({
@@ -23,6 +33,15 @@ const confirmSchema = z.object({
           description: z.string(),
           vendor: z.string(),
           amount: z.number(),
+          lineDescription: z
+            .string()
+            .trim()
+            .nullish()
+            .transform((value) => (value?.length ? value : null)),
+          quantity: z.number().nullable().optional(),
+          unitPrice: z.number().nullable().optional(),
+          category: z.string().nullable().optional(),
+          sourceReference: z.string().nullable().optional(),
         })
       ),
       totalAmount: z.number(),
@@ -30,69 +49,6 @@ const confirmSchema = z.object({
   ),
 })
 
-// Safe decimal parsing function - same as in other files
-const safeParseDecimal = (value: any): number => {
-  if (value === null || value === undefined) return 0
-  if (typeof value === 'object' && value.toString) {
-    return parseFloat(value.toString()) || 0
-  }
-  return parseFloat(String(value)) || 0
-}
-
-// Calculate totals from individual items
-function calculateTotals(incomes: any[], expenses: any[], adjustments: any[]) {
-  const totalIncome = incomes.reduce(
-    (sum, i) => sum + safeParseDecimal(i.grossIncome),
-    0
-  )
-  const totalExpenses = expenses.reduce(
-    (sum, e) => sum + safeParseDecimal(e.amount),
-    0
-  )
-  const totalAdjustments = adjustments.reduce(
-    (sum, a) => sum + safeParseDecimal(a.amount),
-    0
-  )
-
-  return {
-    totalIncome: parseFloat(totalIncome.toFixed(2)),
-    totalExpenses: parseFloat(totalExpenses.toFixed(2)),
-    totalAdjustments: parseFloat(totalAdjustments.toFixed(2)),
-    grandTotal: parseFloat(
-      (totalIncome - totalExpenses + totalAdjustments).toFixed(2)
-    ),
-  }
-}
-
-async function recalculateStatementTotals(
-  tx: Prisma.TransactionClient,
-  statementId: string,
-  userId: string
-) {
-  const [incomes, expenses, adjustments] = await Promise.all([
-    tx.ownerStatementIncome.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-    tx.ownerStatementExpense.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-    tx.ownerStatementAdjustment.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-  ])
-
-  const totals = calculateTotals(incomes, expenses, adjustments)
-
-  return tx.ownerStatement.update({
-    where: { id: statementId },
-    data: {
-      ...totals,
-      updatedAt: new Date(),
-      updatedBy: userId,
-    },
-  })
-}
-
 function chunkArray<T>(array: T[], chunkSize: number): T[][] {
   const chunks: T[][] = []
   for (let i = 0; i < array.length; i += chunkSize) {
@@ -176,6 +132,59 @@ export async function POST(request: NextRequest): Promise<Response> {
       return { ...match, statementId }
     })
 
+    // Approved and sent statements are locked against vendor imports.
+    // Statuses are read fresh since the month cache does not carry them.
+    const targetStatements = await db.ownerStatement.findMany({
+      where: { id: { in: validatedMatches.map((match) => match.statementId) } },
+      select: { status: true, property: { select: { name: true } } },
+    })
+    const lockedStatements = targetStatements.filter((statement) =>
+      isStatementLocked(statement.status)
+    )
+    if (lockedStatements.length > 0) {
+      throw new Error(
+        `Cannot import into approved or sent statements: ${lockedStatements.map((s) => s.property.name).join(', ')}. Reopen them first.`
+      )
+    }
+
+    // The uploaded file the preview was read from, when it was retained
+    const sourceDocument = input.sourceDocumentId
+      ? await db.sourceDocument.findUnique({
+          where: { id: input.sourceDocumentId },
+          select: { id: true, managementGroupId: true },
+        })
+      : null
+
+    if (
+      input.sourceDocumentId &&
+      sourceDocument?.managementGroupId !== session.orgId
+    ) {
+      throw new Error('Source document not found')
+    }
+
+    // Categories must be the group's own. Lines left without one get the
+    // category the vendor's earlier expenses were most often given.
+    const approvedExpenses = input.approvedMatches.flatMap(
+      (match) => match.expenses
+    )
+    const unknownCategories = await findUnknownExpenseCategories(
+      db,
+      session.orgId,
+      approvedExpenses.map((expense) => expense.category)
+    )
+    if (unknownCategories.length > 0) {
+      throw new Error(
+        `Unknown expense category: ${unknownCategories.join(', ')}`
+      )
+    }
+    const suggestedCategories = await suggestExpenseCategories(
+      db,
+      session.orgId,
+      approvedExpenses
+        .filter((expense) => !expense.category)
+        .map((expense) => expense.vendor)
+    )
+
     // Prepare all expense data for bulk creation
     const allExpenseData: Array<{
       ownerStatementId: string
@@ -183,6 +192,12 @@ export async function POST(request: NextRequest): Promise<Response> {
       description: string
       vendor: string
       amount: number
+      lineDescription: string | null
+      quantity: number | null
+      unitPrice: number | null
+      category: string | null
+      sourceDocumentId: string | null
+      sourceReference: string | null
     }> = []
 
     const statementsToUpdate = new Set<string>()
@@ -199,6 +214,15 @@ export async function POST(request: NextRequest): Promise<Response> {
           description: expense.description,
           vendor: expense.vendor,
           amount: expense.amount,
+          lineDescription: expense.lineDescription,
+          quantity: expense.quantity ?? null,
+          unitPrice: expense.unitPrice ?? null,
+          category:
+            expense.category ?? suggestedCategories[expense.vendor] ?? null,
+          sourceDocumentId: sourceDocument?.id ?? null,
+          sourceReference: sourceDocument
+            ? (expense.sourceReference ?? null)
+            : null,
         })
       }
     }
@@ -212,22 +236,32 @@ export async function POST(request: NextRequest): Promise<Response> {
     for (const chunk of chunks) {
       await db.$transaction(
         async (tx) => {
-          // Create all expenses in one operation
-          await tx.ownerStatementExpense.createMany({
-            data: chunk,
-            skipDuplicates: true, // Safety guard
-          })
-
           // Get unique statement IDs for efficient updates
           const chunkStatementIds = [
             ...new Set(chunk.map((expense) => expense.ownerStatementId)),
           ]
 
-          // Parallel recalculation for better performance
-          await Promise.all(
-            chunkStatementIds.map((statementId) =>
-              recalculateStatementTotals(tx, statementId, session.userId)
-            )
+          await auditStatementChanges(
+            tx,
+            {
+              statementIds: chunkStatementIds,
+              source: input.importSource,
+              changedBy: session.userId,
+            },
+            async () => {
+              // Create all expenses in one operation
+              await tx.ownerStatementExpense.createMany({
+                data: chunk,
+                skipDuplicates: true, // Safety guard
+              })
+
+              // Parallel recalculation for better performance
+              await Promise.all(
+                chunkStatementIds.map((statementId) =>
+                  recalculateStatementTotals(tx, statementId, session.userId)
+                )
+              )
+            }
           )
 
           totalCreatedCount += chunk.length
@@ -241,6 +275,14 @@ export async function POST(request: NextRequest): Promise<Response> {
     // Invalidate cache after successful creation
     await VendorCache.invalidateMonth(session.orgId, monthKey)
 
+    // Take the background job off the open list
+    if (input.jobId) {
+      await db.vendorImportJob.updateMany({
+        where: { id: input.jobId, managementGroupId: session.orgId },
+        data: { confirmedAt: new Date() },
+      })
+    }
+
     const response: VendorImportConfirmResponse = {
       success: true,
       createdCount: totalCreatedCount,
@@ -0,0 +1,33 @@
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs'
+import { z } from 'zod'
+import { env } from '~/env'
+import { runVendorImportJob } from '~/lib/OwnerStatement/vendor-import-jobs'
+
+// Gemini extraction of long invoices can take minutes
+export const maxDuration = 300
+
+const inputSchema = z.object({
+  jobId: z.string(),
+})
+
+async function handler(request: Request): Promise<Response> {
+  const body: unknown = await request.json()
+  const input = inputSchema.safeParse(body)
+
+  if (!input.success) {
+    return new Response('Invalid job payload', { status: 400 })
+  }
+
+  await runVendorImportJob(input.data.jobId)
+
+  return Response.json({ success: true })
+}
+
+// Only QStash may trigger jobs; without signing keys jobs run in-process instead
+export const POST =
+  env.QSTASH_CURRENT_SIGNING_KEY && env.QSTASH_NEXT_SIGNING_KEY
+    ? verifySignatureAppRouter(handler, {
+        currentSigningKey: env.QSTASH_CURRENT_SIGNING_KEY,
+        nextSigningKey: env.QSTASH_NEXT_SIGNING_KEY,
+      })
+    : () => new Response('Not found', { status: 404 })
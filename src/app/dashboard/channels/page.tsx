@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import ChannelMixTable from '~/components/dashboard/ChannelMixTable'
+import { Label, Select } from '~/components/ui'
+import dayjs from '~/lib/utils/day'
+import { api } from '~/trpc/react'
+
+export default function ChannelsPage() {
+  const [from, setFrom] = useState<Date | undefined>(
+    dayjs().subtract(11, 'month').startOf('month').toDate()
+  )
+  const [to, setTo] = useState<Date | undefined>(new Date())
+  const [propertyId, setPropertyId] = useState('')
+
+  const { data: properties } = api.property.getMany.useQuery()
+  const fromMonth = from ? dayjs(from).format('YYYY-MM') : undefined
+  const toMonth = to ? dayjs(to).format('YYYY-MM') : undefined
+  const isRangeValid = !!fromMonth && !!toMonth && fromMonth <= toMonth
+
+  const { data, isLoading } = api.property.getChannelMix.useQuery(
+    {
+      from: fromMonth!,
+      to: toMonth!,
+      propertyId: propertyId || undefined,
+    },
+    { enabled: isRangeValid }
+  )
+
+  return (
+    <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-zinc-900 dark:text-zinc-50">
+          Channel Mix
+        </h1>
+        <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+          Revenue, nights and platform fees by booking channel, from owner
+          statements
+        </p>
+      </div>
+
+      <div className="mb-8 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <Label>From</Label>
+          <DatePicker
+            selected={from}
+            onChange={(date) => setFrom(date ?? undefined)}
+            showMonthYearPicker
+          />
+        </div>
+        <div>
+          <Label>To</Label>
+          <DatePicker
+            selected={to}
+            onChange={(date) => setTo(date ?? undefined)}
+            showMonthYearPicker
+          />
+        </div>
+        <div>
+          <Label htmlFor="channel-property">Property</Label>
+          <Select
+            id="channel-property"
+            value={propertyId}
+            onChange={(e) => setPropertyId(e.target.value)}
+          >
+            <option value="">All properties</option>
+            {properties?.map((property) => (
+              <option key={property.id} value={property.id}>
+                {property.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      {!isRangeValid ? (
+        <p className="text-sm text-zinc-500">
+          Select a first month on or before the last month.
+        </p>
+      ) : isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
+        </div>
+      ) : !data?.channels.length ? (
+        <p className="text-sm text-zinc-500">
+          No statement income for these months.
+        </p>
+      ) : (
+        <div className="space-y-8">
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">All Channels</h2>
+            <ChannelMixTable
+              groupLabel="Period"
+              rows={[
+                {
+                  key: 'total',
+                  label: `${dayjs(from).format('MMM YYYY')} to ${dayjs(to).format('MMM YYYY')}`,
+                  channels: data.channels,
+                },
+              ]}
+            />
+          </div>
+
+          {!propertyId && (
+            <div>
+              <h2 className="mb-4 text-xl font-semibold">By Property</h2>
+              <ChannelMixTable
+                groupLabel="Property"
+                rows={data.properties.map((property) => ({
+                  key: property.propertyId,
+                  label: property.propertyName,
+                  channels: property.channels,
+                }))}
+              />
+            </div>
+          )}
+
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">By Month</h2>
+            <ChannelMixTable
+              groupLabel="Month"
+              rows={data.months.map((month) => ({
+                key: month.month,
+                label: dayjs(month.month).format('MMM YYYY'),
+                channels: month.channels,
+              }))}
+            />
+          </div>
+        </div>
+      )}
+    </main>
+  )
+}
@@ -1,13 +1,21 @@
 'use client'
 
+import type { OwnerStatementStatus } from '@prisma/client'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useEffect, useMemo, useState } from 'react'
 import DatePicker from '~/components/DatePicker'
+import ExpenseCategories from '~/components/owner-statement/ExpenseCategories'
+import ExportAnnualOwnerReports from '~/components/owner-statement/ExportAnnualOwnerReports'
 import ExportMonthlyIndividualStatements from '~/components/owner-statement/ExportMonthlyIndividualStatements'
 import ExportMonthlyStatements from '~/components/owner-statement/ExportMonthlyStatements'
+import ExportOwnerConsolidatedStatement from '~/components/owner-statement/ExportOwnerConsolidatedStatement'
 import MonthlyImportModal from '~/components/owner-statement/MonthlyImportModal'
 import OwnerStatementContent from '~/components/owner-statement/OwnerStatementContent'
-import { Button, Heading, Input } from '~/components/ui'
+import PayApprovedStatements from '~/components/owner-statement/PayApprovedStatements'
+import RecurringExpenseTemplates from '~/components/owner-statement/RecurringExpenseTemplates'
+import StatementStatusBadge from '~/components/owner-statement/StatementStatusBadge'
+import VarianceReviewChecklist from '~/components/owner-statement/VarianceReviewChecklist'
+import { Button, Heading, Input, Select } from '~/components/ui'
 import {
   Dialog,
   DialogActions,
@@ -21,6 +29,10 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '~/components/ui/dropdown-menu'
+import {
+  STATEMENT_STATUSES,
+  STATEMENT_STATUS_LABELS,
+} from '~/lib/OwnerStatement/statement-status'
 import { cn } from '~/lib/utils/cn'
 import dayjs from '~/lib/utils/day'
 import { formatCurrency } from '~/lib/utils/format'
@@ -38,6 +50,9 @@ export default function OwnerStatementsPage() {
 
   // Search state
   const [searchQuery, setSearchQuery] = useState('')
+  const [statusFilter, setStatusFilter] = useState<OwnerStatementStatus | ''>(
+    ''
+  )
 
   // Calculate month query from selected date
   const monthQuery = useMemo(() => {
@@ -50,6 +65,13 @@ export default function OwnerStatementsPage() {
     useState(false)
   const [isExportAllIndividualDialogOpen, setIsExportAllIndividualDialogOpen] =
     useState(false)
+  const [isExportOwnerDialogOpen, setIsExportOwnerDialogOpen] = useState(false)
+  const [isPayDialogOpen, setIsPayDialogOpen] = useState(false)
+  const [isAnnualReportDialogOpen, setIsAnnualReportDialogOpen] =
+    useState(false)
+  const [isVarianceReviewOpen, setIsVarianceReviewOpen] = useState(false)
+  const [isRecurringExpensesOpen, setIsRecurringExpensesOpen] = useState(false)
+  const [isExpenseCategoriesOpen, setIsExpenseCategoriesOpen] = useState(false)
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false)
   const [selectedStatementId, setSelectedStatementId] = useState<string | null>(
     null
@@ -99,7 +121,7 @@ export default function OwnerStatementsPage() {
     error: queryError,
     refetch,
   } = api.ownerStatement.getMany.useQuery(
-    { month: monthQuery! },
+    { month: monthQuery!, status: statusFilter || undefined },
     { enabled: !!monthQuery }
   )
 
@@ -181,6 +203,22 @@ export default function OwnerStatementsPage() {
               className="w-full text-sm"
             />
 
+            {/* Status Filter */}
+            <Select
+              value={statusFilter}
+              onChange={(e) =>
+                setStatusFilter(e.target.value as OwnerStatementStatus | '')
+              }
+              aria-label="Filter by status"
+            >
+              <option value="">All statuses</option>
+              {STATEMENT_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {STATEMENT_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </Select>
+
             <div className="flex gap-2">
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -189,6 +227,11 @@ export default function OwnerStatementsPage() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() => setIsVarianceReviewOpen(true)}
+                  >
+                    Variance Review
+                  </DropdownMenuItem>
                   <DropdownMenuItem
                     onClick={() => setIsExportSummaryDialogOpen(true)}
                   >
@@ -199,6 +242,29 @@ export default function OwnerStatementsPage() {
                   >
                     Export All Statements
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setIsExportOwnerDialogOpen(true)}
+                  >
+                    Export Owner Statement
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsPayDialogOpen(true)}>
+                    Pay Approved Statements
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setIsAnnualReportDialogOpen(true)}
+                  >
+                    Year-End Owner Reports
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setIsRecurringExpensesOpen(true)}
+                  >
+                    Recurring Expenses
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setIsExpenseCategoriesOpen(true)}
+                  >
+                    Expense Categories
+                  </DropdownMenuItem>
                   {filteredStatements && filteredStatements.length > 0 && (
                     <>
                       <div className="border-t my-1" />
@@ -242,7 +308,9 @@ export default function OwnerStatementsPage() {
             <div className="p-4 text-sm text-muted-foreground">
               {searchQuery.trim()
                 ? `No statements found matching "${searchQuery}"`
-                : 'No statements found.'}
+                : statusFilter
+                  ? `No ${STATEMENT_STATUS_LABELS[statusFilter].toLowerCase()} statements found.`
+                  : 'No statements found.'}
             </div>
           )}
 
@@ -265,8 +333,11 @@ export default function OwnerStatementsPage() {
                       <h3 className="font-semibold text-sm">
                         {statement.property?.name ?? 'Unknown Property'}
                       </h3>
-                      <div className="text-xs text-muted-foreground bg-zinc-100 dark:bg-zinc-800 px-2 py-1 rounded">
-                        {dayjs(statement.statementMonth).format('MMM YYYY')}
+                      <div className="flex items-center gap-1">
+                        <StatementStatusBadge status={statement.status} />
+                        <div className="text-xs text-muted-foreground bg-zinc-100 dark:bg-zinc-800 px-2 py-1 rounded">
+                          {dayjs(statement.statementMonth).format('MMM YYYY')}
+                        </div>
                       </div>
                     </div>
                     <div className="space-y-1">
@@ -395,6 +466,40 @@ export default function OwnerStatementsPage() {
         initialMonth={selectedDate ?? null}
       />
 
+      <ExportOwnerConsolidatedStatement
+        open={isExportOwnerDialogOpen}
+        onOpenChange={setIsExportOwnerDialogOpen}
+        initialMonth={selectedDate ?? null}
+      />
+
+      <PayApprovedStatements
+        open={isPayDialogOpen}
+        onOpenChange={setIsPayDialogOpen}
+        initialMonth={selectedDate ?? null}
+      />
+
+      <ExportAnnualOwnerReports
+        open={isAnnualReportDialogOpen}
+        onOpenChange={setIsAnnualReportDialogOpen}
+      />
+
+      <VarianceReviewChecklist
+        open={isVarianceReviewOpen}
+        onOpenChange={setIsVarianceReviewOpen}
+        initialMonth={selectedDate ?? null}
+        onSelectStatement={handleSelectStatement}
+      />
+
+      <RecurringExpenseTemplates
+        open={isRecurringExpensesOpen}
+        onOpenChange={setIsRecurringExpensesOpen}
+      />
+
+      <ExpenseCategories
+        open={isExpenseCategoriesOpen}
+        onOpenChange={setIsExpenseCategoriesOpen}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={isDeleteConfirmOpen}
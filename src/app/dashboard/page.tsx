@@ -3,6 +3,7 @@
 import { useMemo, useState } from 'react'
 import DatePicker from '~/components/DatePicker'
 import MonthlyOverview from '~/components/dashboard/MonthlyOverview'
+import PropertyPerformance from '~/components/dashboard/PropertyPerformance'
 import YearlyInvoicesLineChart from '~/components/home/YearlyInvoicesLineChart'
 import dayjs from '~/lib/utils/day'
 import { api } from '~/trpc/react'
@@ -72,6 +73,12 @@ export default function DashboardPage() {
             </p>
           )}
         </div>
+
+        {/* Occupancy and rates for the same month */}
+        <div>
+          <h2 className="mb-4 text-xl font-semibold">Occupancy &amp; Rates</h2>
+          <PropertyPerformance monthQuery={monthQuery} />
+        </div>
       </div>
     </main>
   )
@@ -18,6 +18,12 @@ import DatePicker from 'react-datepicker'
 import { useForm } from 'react-hook-form'
 import { type z } from 'zod'
 import PlacesAutocomplete from '~/components/google/PlacesAutocomplete'
+import BalanceHistoryCard from '~/components/property/BalanceHistoryCard'
+import BlockedNightsCard from '~/components/property/BlockedNightsCard'
+import ManagementAgreementCard from '~/components/property/ManagementAgreementCard'
+import OwnerFormDialog from '~/components/property/OwnerFormDialog'
+import OwnershipSplitCard from '~/components/property/OwnershipSplitCard'
+import PropertyAliasesCard from '~/components/property/PropertyAliasesCard'
 import { DataTable } from '~/components/table/data-table'
 import { DataTableColumnHeader } from '~/components/table/data-table-column-header'
 import {
@@ -40,15 +46,13 @@ import {
   Popover,
   PopoverContent,
   PopoverTrigger,
+  Select,
 } from '~/components/ui'
 import { ROUTES } from '~/lib/constants/routes'
 import dayjs from '~/lib/utils/day'
 import { formatCurrency } from '~/lib/utils/format'
 import { type ParsedProperty } from '~/server/api/routers/property'
-import {
-  type editLocationSchema,
-  type editOwnerSchema,
-} from '~/server/api/routers/property'
+import { type editLocationSchema } from '~/server/api/routers/property'
 import { api } from '~/trpc/react'
 
 function EditNameDialog({
@@ -288,115 +292,6 @@ function EditLocationDialog({
   )
 }
 
-function EditOwnerDialog({
-  isOpen,
-  onClose,
-  property,
-}: {
-  isOpen: boolean
-  onClose: () => void
-  property: ParsedProperty
-}) {
-  const utils = api.useUtils()
-  const { mutate: editOwner, isPending } = api.property.editOwner.useMutation({
-    onSuccess: () => {
-      void utils.property.getOne.invalidate()
-      form.reset()
-      onClose()
-    },
-  })
-
-  const form = useForm<z.infer<typeof editOwnerSchema>>({
-    defaultValues: {
-      propertyId: property.id,
-      name: property.owner?.name ?? '',
-      email: property.owner?.email ?? '',
-      phone: property.owner?.phone ?? '',
-    },
-  })
-
-  function onSubmit(data: z.infer<typeof editOwnerSchema>) {
-    editOwner(data)
-  }
-
-  return (
-    <Dialog open={isOpen} onClose={onClose}>
-      <DialogTitle>Edit Owner</DialogTitle>
-      <DialogDescription>Update the property owner details.</DialogDescription>
-
-      <DialogBody>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Enter owner name" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="email"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Email</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="email"
-                      placeholder="Enter owner email"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="phone"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Phone</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="tel"
-                      placeholder="Enter owner phone"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <DialogActions>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={onClose}
-                disabled={isPending}
-              >
-                Cancel
-              </Button>
-              <Button type="submit" variant="default" disabled={isPending}>
-                {isPending ? 'Saving...' : 'Save Changes'}
-              </Button>
-            </DialogActions>
-          </form>
-        </Form>
-      </DialogBody>
-    </Dialog>
-  )
-}
-
 function LocationInfo({ property }: { property: ParsedProperty | null }) {
   const [isEditing, setIsEditing] = useState(false)
 
@@ -450,7 +345,29 @@ function LocationInfo({ property }: { property: ParsedProperty | null }) {
 }
 
 function OwnerInfo({ property }: { property: ParsedProperty | null }) {
-  const [isEditing, setIsEditing] = useState(false)
+  const [editing, setEditing] = useState<{
+    ownerId: string | null
+  } | null>(null)
+  const utils = api.useUtils()
+
+  const { data: owners } = api.owner.getMany.useQuery()
+  const { mutate: setOwner, isPending } = api.property.setOwner.useMutation({
+    onSuccess: () => {
+      void utils.property.getOne.invalidate()
+      void utils.owner.getMany.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update owner: ${error.message}`)
+    },
+  })
+
+  const owner = owners?.find((o) => o.id === property?.owner?.id) ?? null
+  const otherProperties =
+    owner?.properties.filter((p) => p.id !== property?.id) ?? []
+
+  const assignOwner = (ownerId: string | null) => {
+    if (property) setOwner({ propertyId: property.id, ownerId })
+  }
 
   return (
     <Card>
@@ -458,16 +375,39 @@ function OwnerInfo({ property }: { property: ParsedProperty | null }) {
         <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
           Owner
         </h2>
-        <Button variant="ghost" onClick={() => setIsEditing(true)}>
-          <Pencil className="size-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            onClick={() => setEditing({ ownerId: null })}
+            aria-label="Add owner"
+          >
+            <Plus className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setEditing({ ownerId: owner?.id ?? null })}
+            disabled={!owner}
+            aria-label="Edit owner"
+          >
+            <Pencil className="size-4" />
+          </Button>
+        </div>
       </div>
       <div className="p-4 sm:p-6">
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-          <div>
-            <dt className="text-sm font-medium text-neutral-500">Name</dt>
-            <dd className="text-sm">{property?.owner?.name ?? 'n/a'}</dd>
-          </div>
+        <Select
+          value={property?.owner?.id ?? ''}
+          onChange={(e) => assignOwner(e.target.value || null)}
+          disabled={!property || isPending}
+          aria-label="Property owner"
+        >
+          <option value="">No owner</option>
+          {owners?.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          ))}
+        </Select>
+        <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
           <div>
             <dt className="text-sm font-medium text-neutral-500">Email</dt>
             <dd className="text-sm">{property?.owner?.email ?? 'n/a'}</dd>
@@ -476,13 +416,37 @@ function OwnerInfo({ property }: { property: ParsedProperty | null }) {
             <dt className="text-sm font-medium text-neutral-500">Phone</dt>
             <dd className="text-sm">{property?.owner?.phone ?? 'n/a'}</dd>
           </div>
+          <div>
+            <dt className="text-sm font-medium text-neutral-500">Payout</dt>
+            <dd className="text-sm">
+              {!owner
+                ? 'n/a'
+                : owner.payoutMethod === 'ACH'
+                  ? `ACH${owner.bankAccountLast4 ? ` ending ${owner.bankAccountLast4}` : ''}`
+                  : 'Check'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-neutral-500">
+              Other properties
+            </dt>
+            <dd className="text-sm">
+              {otherProperties.length
+                ? otherProperties.map((p) => p.name).join(', ')
+                : 'None'}
+            </dd>
+          </div>
         </div>
       </div>
-      {property && (
-        <EditOwnerDialog
-          isOpen={isEditing}
-          onClose={() => setIsEditing(false)}
-          property={property}
+      {editing && (
+        <OwnerFormDialog
+          key={editing.ownerId ?? 'new'}
+          isOpen
+          onClose={() => setEditing(null)}
+          owner={owners?.find((o) => o.id === editing.ownerId) ?? null}
+          onSaved={(ownerId) => {
+            if (!editing.ownerId) assignOwner(ownerId)
+          }}
         />
       )}
     </Card>
@@ -1055,6 +1019,13 @@ function PropertyContent({ propertyId }: { propertyId: string }) {
           </Suspense>
         </div>
 
+        <ManagementAgreementCard propertyId={propertyId} />
+        <OwnershipSplitCard propertyId={propertyId} />
+        <BalanceHistoryCard propertyId={propertyId} />
+        <BlockedNightsCard propertyId={propertyId} />
+
+        <PropertyAliasesCard propertyId={propertyId} />
+
         <Card className="mt-6">
           <div className="border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
             <div className="flex items-center justify-between">
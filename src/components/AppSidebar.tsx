@@ -2,7 +2,7 @@
 
 import { useOrganization } from '@clerk/nextjs'
 import { OrganizationProfile, UserButton } from '@clerk/nextjs'
-import { Building2, File, Home, Package } from 'lucide-react'
+import { Building2, ChartPie, File, Home, Package } from 'lucide-react'
 import { Moon, Sun } from 'lucide-react'
 import { useTheme } from 'next-themes'
 import { usePathname } from 'next/navigation'
@@ -65,6 +65,12 @@ const mainItems: NavigationItem[] = [
     icon: File,
     exact: true,
   },
+  {
+    title: 'Channel Mix',
+    url: ROUTES.DASHBOARD.CHANNELS,
+    icon: ChartPie,
+    exact: true,
+  },
 ]
 
 export function AppSidebar({ children }: { children: ReactNode }) {
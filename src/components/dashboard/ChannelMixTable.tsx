@@ -0,0 +1,85 @@
+'use client'
+
+import { BOOKING_CHANNEL_LABELS } from '~/lib/OwnerStatement/booking-channel'
+import { type ChannelTotals } from '~/lib/OwnerStatement/channel-mix'
+import { formatCurrency } from '~/lib/utils/format'
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+const percent = (value: number | null) =>
+  value === null ? '-' : `${(value * 100).toFixed(1)}%`
+
+export interface ChannelMixRow {
+  key: string
+  label: string
+  channels: ChannelTotals[]
+}
+
+// One group of channel rows per property or month, with its share of revenue
+export default function ChannelMixTable({
+  groupLabel,
+  rows,
+}: {
+  groupLabel: string
+  rows: ChannelMixRow[]
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead className="bg-zinc-100 dark:bg-zinc-800">
+          <tr>
+            <th className="border px-3 py-2 text-left">{groupLabel}</th>
+            <th className="border px-3 py-2 text-left">Channel</th>
+            <th className="border px-3 py-2 text-right">Revenue</th>
+            <th className="border px-3 py-2 text-right">Share</th>
+            <th className="border px-3 py-2 text-right">Nights</th>
+            <th className="border px-3 py-2 text-right">Bookings</th>
+            <th className="border px-3 py-2 text-right">Platform Fees</th>
+            <th className="border px-3 py-2 text-right">Effective Fee</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const revenue = row.channels.reduce(
+              (sum, item) => sum + item.revenue,
+              0
+            )
+            return row.channels.map((item, index) => (
+              <tr
+                key={`${row.key}-${item.channel}`}
+                className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+              >
+                {index === 0 && (
+                  <td
+                    rowSpan={row.channels.length}
+                    className="border px-3 py-2 align-top font-medium"
+                  >
+                    {row.label}
+                  </td>
+                )}
+                <td className="border px-3 py-2">
+                  {BOOKING_CHANNEL_LABELS[item.channel]}
+                </td>
+                <td className="border px-3 py-2 text-right">
+                  {money(item.revenue)}
+                </td>
+                <td className="border px-3 py-2 text-right">
+                  {percent(revenue > 0 ? item.revenue / revenue : null)}
+                </td>
+                <td className="border px-3 py-2 text-right">{item.nights}</td>
+                <td className="border px-3 py-2 text-right">{item.bookings}</td>
+                <td className="border px-3 py-2 text-right">
+                  {money(item.platformFees)}
+                </td>
+                <td className="border px-3 py-2 text-right">
+                  {percent(item.feePercent)}
+                </td>
+              </tr>
+            ))
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
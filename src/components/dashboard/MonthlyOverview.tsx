@@ -28,6 +28,7 @@ type PropertyWithMonthlyData = Property & {
         // adjustments: OwnerStatementAdjustment[];
       })
     | null
+  reserveBalance: number
 }
 
 // Type for property summaries
@@ -43,6 +44,7 @@ interface PropertySummary {
   osTotalHostFee: number
   osTotalPlatformFee: number
   osTotalDays: number
+  reserveBalance: number
 }
 
 // Interface for component props - Updated
@@ -165,6 +167,7 @@ export default function MonthlyOverview({
         osTotalHostFee,
         osTotalPlatformFee,
         osTotalDays,
+        reserveBalance: propertyData.reserveBalance ?? 0,
       }
     })
 
@@ -191,6 +194,7 @@ export default function MonthlyOverview({
           osTotalHostFee: acc.osTotalHostFee + item.osTotalHostFee,
           osTotalPlatformFee: acc.osTotalPlatformFee + item.osTotalPlatformFee,
           osTotalDays: acc.osTotalDays + item.osTotalDays,
+          reserveBalance: acc.reserveBalance + item.reserveBalance,
         }
       },
       {
@@ -203,6 +207,7 @@ export default function MonthlyOverview({
         osTotalHostFee: 0,
         osTotalPlatformFee: 0,
         osTotalDays: 0,
+        reserveBalance: 0,
       }
     )
 
@@ -228,6 +233,7 @@ export default function MonthlyOverview({
       'Days',
       'Expenses',
       'Adjustments',
+      'Reserve',
     ]
 
     // Create table data rows
@@ -268,6 +274,11 @@ export default function MonthlyOverview({
         : formatCurrency(item.osTotalAdjustments, 'USD', {
             centsToDollars: false,
           }),
+      item.reserveBalance === 0
+        ? '-'
+        : formatCurrency(item.reserveBalance, 'USD', {
+            centsToDollars: false,
+          }),
     ])
 
     // Add totals footer row
@@ -314,6 +325,11 @@ export default function MonthlyOverview({
         : formatCurrency(totals.osTotalAdjustments, 'USD', {
             centsToDollars: false,
           }),
+      totals.reserveBalance === 0
+        ? '-'
+        : formatCurrency(totals.reserveBalance, 'USD', {
+            centsToDollars: false,
+          }),
     ]
 
     // Add title
@@ -348,6 +364,7 @@ export default function MonthlyOverview({
         7: { halign: 'right' },
         8: { halign: 'right' },
         9: { halign: 'right' },
+        10: { halign: 'right' },
       },
     })
 
@@ -407,6 +424,7 @@ export default function MonthlyOverview({
                     <th className="border px-3 py-2 text-right">Days</th>
                     <th className="border px-3 py-2 text-right">Expenses</th>
                     <th className="border px-3 py-2 text-right">Adjustments</th>
+                    <th className="border px-3 py-2 text-right">Reserve</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -485,6 +503,11 @@ export default function MonthlyOverview({
                             }
                           )}
                         </td>
+                        <td className="border px-3 py-2 text-right">
+                          {formatCurrencyOrDash(item.reserveBalance, 'USD', {
+                            centsToDollars: false,
+                          })}
+                        </td>
                       </tr>
                     ))
                   )}
@@ -548,6 +571,11 @@ export default function MonthlyOverview({
                           }
                         )}
                       </td>
+                      <td className="border px-3 py-2 text-right">
+                        {formatCurrencyOrDash(totals.reserveBalance, 'USD', {
+                          centsToDollars: false,
+                        })}
+                      </td>
                     </tr>
                   </tfoot>
                 )}
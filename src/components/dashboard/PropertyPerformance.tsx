@@ -0,0 +1,203 @@
+'use client'
+
+import {
+  type PerformanceComparison,
+  type StayMetrics,
+} from '~/lib/OwnerStatement/stay-metrics'
+import { formatCurrency } from '~/lib/utils/format'
+import { api } from '~/trpc/react'
+
+type MetricKey = keyof Pick<
+  StayMetrics,
+  'occupancy' | 'adr' | 'revpar' | 'averageLengthOfStay' | 'averageLeadTime'
+>
+
+interface MetricColumn {
+  key: MetricKey
+  label: string
+  format: (value: number) => string
+  // Occupancy changes read as percentage points, everything else as percent
+  change: (current: number, previous: number) => number
+  changeLabel: (change: number) => string
+}
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+const percentChange = (current: number, previous: number) =>
+  previous === 0 ? 0 : ((current - previous) / previous) * 100
+
+const signed = (value: number, suffix: string) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`
+
+const COLUMNS: MetricColumn[] = [
+  {
+    key: 'occupancy',
+    label: 'Occupancy',
+    format: (value) => `${(value * 100).toFixed(1)}%`,
+    change: (current, previous) => (current - previous) * 100,
+    changeLabel: (change) => signed(change, ' pts'),
+  },
+  {
+    key: 'adr',
+    label: 'ADR',
+    format: money,
+    change: percentChange,
+    changeLabel: (change) => signed(change, '%'),
+  },
+  {
+    key: 'revpar',
+    label: 'RevPAR',
+    format: money,
+    change: percentChange,
+    changeLabel: (change) => signed(change, '%'),
+  },
+  {
+    key: 'averageLengthOfStay',
+    label: 'Avg Stay',
+    format: (value) => `${value.toFixed(1)} nights`,
+    change: percentChange,
+    changeLabel: (change) => signed(change, '%'),
+  },
+  {
+    key: 'averageLeadTime',
+    label: 'Lead Time',
+    format: (value) => `${value} days`,
+    change: percentChange,
+    changeLabel: (change) => signed(change, '%'),
+  },
+]
+
+function ChangeLine({
+  label,
+  column,
+  current,
+  previous,
+}: {
+  label: string
+  column: MetricColumn
+  current: number | null
+  previous: number | null | undefined
+}) {
+  if (current === null || previous === null || previous === undefined) {
+    return (
+      <div className="text-xs text-zinc-400">
+        {label} <span>-</span>
+      </div>
+    )
+  }
+
+  const change = column.change(current, previous)
+  const color =
+    Math.abs(change) < 0.05
+      ? 'text-zinc-500'
+      : change > 0
+        ? 'text-green-600 dark:text-green-400'
+        : 'text-red-600 dark:text-red-400'
+
+  return (
+    <div className={`text-xs ${color}`}>
+      {label} {column.changeLabel(change)}
+    </div>
+  )
+}
+
+function MetricCells({ comparison }: { comparison: PerformanceComparison }) {
+  return (
+    <>
+      {COLUMNS.map((column) => {
+        const current = comparison.current?.[column.key] ?? null
+        return (
+          <td key={column.key} className="border px-3 py-2 text-right">
+            <div>{current === null ? '-' : column.format(current)}</div>
+            <ChangeLine
+              label="MoM"
+              column={column}
+              current={current}
+              previous={comparison.previousMonth?.[column.key]}
+            />
+            <ChangeLine
+              label="YoY"
+              column={column}
+              current={current}
+              previous={comparison.previousYear?.[column.key]}
+            />
+          </td>
+        )
+      })}
+    </>
+  )
+}
+
+export default function PropertyPerformance({
+  monthQuery,
+}: {
+  monthQuery: string | undefined
+}) {
+  const { data, isLoading } = api.property.getPerformance.useQuery(
+    { month: monthQuery! },
+    { enabled: !!monthQuery }
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!data?.properties.length) {
+    return (
+      <p className="text-sm text-zinc-500">
+        No owner statements for this month yet.
+      </p>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead className="bg-zinc-100 dark:bg-zinc-800">
+          <tr>
+            <th className="border px-3 py-2 text-left">Property</th>
+            <th className="border px-3 py-2 text-right">Nights</th>
+            {COLUMNS.map((column) => (
+              <th key={column.key} className="border px-3 py-2 text-right">
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="bg-zinc-50 font-medium dark:bg-zinc-800/50">
+            <td className="border px-3 py-2">Portfolio</td>
+            <td className="border px-3 py-2 text-right">
+              {data.portfolio.current?.bookedNights ?? 0} /{' '}
+              {data.portfolio.current?.availableNights ?? 0}
+            </td>
+            <MetricCells comparison={data.portfolio} />
+          </tr>
+          {data.properties.map((property) => (
+            <tr
+              key={property.propertyId}
+              className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+            >
+              <td className="border px-3 py-2">{property.propertyName}</td>
+              <td className="border px-3 py-2 text-right">
+                {property.current?.bookedNights ?? 0} /{' '}
+                {property.current?.availableNights ?? 0}
+                {!!property.current?.blockedNights && (
+                  <div className="text-xs text-zinc-500">
+                    {property.current.blockedNights} blocked
+                  </div>
+                )}
+              </td>
+              <MetricCells comparison={property} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { type ScheduleELine } from '@prisma/client'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import {
+  type ExpenseCategoryOption,
+  SCHEDULE_E_LINES,
+  SCHEDULE_E_LINE_LABELS,
+} from '~/lib/OwnerStatement/expense-category'
+import { api } from '~/trpc/react'
+
+interface ExpenseCategoriesProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface CategoryFormState {
+  name: string
+  scheduleELine: ScheduleELine | ''
+}
+
+export default function ExpenseCategories({
+  open,
+  onOpenChange,
+}: ExpenseCategoriesProps) {
+  const [editing, setEditing] = useState<ExpenseCategoryOption | 'new' | null>(
+    null
+  )
+  const [form, setForm] = useState<CategoryFormState>({
+    name: '',
+    scheduleELine: '',
+  })
+  const utils = api.useUtils()
+
+  const { data, isLoading } = api.expenseCategory.getMany.useQuery(undefined, {
+    enabled: open,
+  })
+
+  const onSuccess = () => {
+    SuccessToast(editing === 'new' ? 'Category added' : 'Category saved')
+    void utils.expenseCategory.getMany.invalidate()
+    setEditing(null)
+  }
+  const onError = (error: { message: string }) => {
+    ErrorToast(`Failed to save category: ${error.message}`)
+  }
+
+  const createMutation = api.expenseCategory.create.useMutation({
+    onSuccess,
+    onError,
+  })
+  const updateMutation = api.expenseCategory.update.useMutation({
+    onSuccess,
+    onError,
+  })
+  const deleteMutation = api.expenseCategory.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Category removed')
+      void utils.expenseCategory.getMany.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove category: ${error.message}`)
+    },
+  })
+  const settingsMutation = api.expenseCategory.updateSettings.useMutation({
+    onSuccess: () => {
+      void utils.expenseCategory.getMany.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update setting: ${error.message}`)
+    },
+  })
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const startEditing = (category: ExpenseCategoryOption | null) => {
+    setForm({
+      name: category?.name ?? '',
+      scheduleELine: category?.scheduleELine ?? '',
+    })
+    setEditing(category ?? 'new')
+  }
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      ErrorToast('Enter a name')
+      return
+    }
+
+    const terms = {
+      name: form.name,
+      scheduleELine: form.scheduleELine || null,
+    }
+
+    if (editing && editing !== 'new') {
+      updateMutation.mutate({ key: editing.key, ...terms })
+    } else {
+      createMutation.mutate(terms)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)} size="2xl">
+      <DialogTitle>Expense Categories</DialogTitle>
+      <DialogBody>
+        {editing ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="expense-category-name">Name</Label>
+              <Input
+                id="expense-category-name"
+                value={form.name}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="e.g., HOA Dues"
+              />
+            </div>
+            <div>
+              <Label htmlFor="expense-category-schedule-e">
+                Schedule E line
+              </Label>
+              <Select
+                id="expense-category-schedule-e"
+                value={form.scheduleELine}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    scheduleELine: e.target.value as ScheduleELine | '',
+                  }))
+                }
+              >
+                <option value="">Not mapped</option>
+                {SCHEDULE_E_LINES.map((line) => (
+                  <option key={line} value={line}>
+                    {SCHEDULE_E_LINE_LABELS[line]}
+                  </option>
+                ))}
+              </Select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Expenses in the category are totalled under this line in annual
+                owner reports.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              Categories offered for expenses entered by hand and from vendor
+              imports. Lines without a category get the one the vendor&apos;s
+              earlier expenses were given.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="group-expenses-by-category"
+                checked={data?.groupExpensesByCategory ?? false}
+                disabled={!data || settingsMutation.isPending}
+                onCheckedChange={(checked) =>
+                  settingsMutation.mutate({
+                    groupExpensesByCategory: checked === true,
+                  })
+                }
+              />
+              <Label htmlFor="group-expenses-by-category" className="text-sm">
+                Group expenses by category on statement PDFs
+              </Label>
+            </div>
+
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">
+                Loading categories...
+              </div>
+            ) : !data?.categories.length ? (
+              <p className="text-sm text-zinc-500">No categories yet.</p>
+            ) : (
+              <ul className="max-h-96 divide-y divide-zinc-200 overflow-y-auto text-sm dark:divide-zinc-800">
+                {data.categories.map((category) => (
+                  <li
+                    key={category.key}
+                    className="flex items-center justify-between gap-2 py-2"
+                  >
+                    <div>
+                      <div className="font-medium">{category.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {category.scheduleELine
+                          ? SCHEDULE_E_LINE_LABELS[category.scheduleELine]
+                          : 'Not mapped to Schedule E'}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        onClick={() => startEditing(category)}
+                        aria-label="Edit category"
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={() =>
+                          deleteMutation.mutate({ key: category.key })
+                        }
+                        disabled={deleteMutation.isPending}
+                        aria-label="Remove category"
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogBody>
+      <DialogActions>
+        {editing ? (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => setEditing(null)}
+              disabled={isPending}
+            >
+              Back
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={() => startEditing(null)}>
+              <Plus className="mr-1 size-4" /> Add Category
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  type AnnualOwnerReportData,
+  exportAnnualOwnerReport,
+} from '~/components/owner-statement/ExportOwnerStatement'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { FORM_1099_MISC_THRESHOLD } from '~/lib/OwnerStatement/annual-owner-report'
+import { formatCurrency } from '~/lib/utils/format'
+import { api } from '~/trpc/react'
+
+interface ExportAnnualOwnerReportsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+// Year-end work is usually for the year that just ended
+const defaultYear = () => new Date().getFullYear() - 1
+
+function downloadCsv(fileName: string, contents: string) {
+  const blob = new Blob([contents], { type: 'text/csv;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.setAttribute('href', url)
+  link.setAttribute('download', fileName)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+function reportFlags(report: AnnualOwnerReportData): string[] {
+  const flags: string[] = []
+  if (!report.ownerId) flags.push('No owner on file')
+  else if (report.missingTaxId) flags.push('Tax ID missing')
+  if (report.totals.grossRevenue < FORM_1099_MISC_THRESHOLD) {
+    flags.push('Below 1099 threshold')
+  }
+  const unapproved = report.properties.reduce(
+    (sum, property) => sum + property.unapprovedCount,
+    0
+  )
+  if (unapproved) {
+    flags.push(
+      `${unapproved} statement${unapproved === 1 ? '' : 's'} not approved`
+    )
+  }
+  return flags
+}
+
+export default function ExportAnnualOwnerReports({
+  open,
+  onOpenChange,
+}: ExportAnnualOwnerReportsProps) {
+  const [year, setYear] = useState(defaultYear)
+  const years = Array.from(
+    { length: 6 },
+    (_, index) => defaultYear() + 1 - index
+  )
+
+  const { data: reports, isLoading } = api.owner.getAnnualReport.useQuery(
+    { year },
+    { enabled: open }
+  )
+
+  const csvMutation = api.owner.export1099Csv.useMutation({
+    onSuccess: ({ fileName, contents }) => {
+      downloadCsv(fileName, contents)
+      SuccessToast('1099-MISC file exported')
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to export 1099 file: ${error.message}`)
+    },
+  })
+
+  const missingTaxIds =
+    reports?.filter((report) => report.ownerId && report.missingTaxId) ?? []
+
+  function handleExportPdf(report: AnnualOwnerReportData) {
+    try {
+      exportAnnualOwnerReport(report, year)
+    } catch (error) {
+      console.error('PDF Export Error:', error)
+      ErrorToast('Failed to export owner summary. Please check console.')
+    }
+  }
+
+  function handleExportAllPdfs() {
+    const owned = reports?.filter((report) => report.ownerId) ?? []
+    if (!owned.length) {
+      ErrorToast(`No owner statements found for ${year}.`)
+      return
+    }
+
+    owned.forEach(handleExportPdf)
+    SuccessToast(
+      `Exported ${owned.length} owner summar${owned.length === 1 ? 'y' : 'ies'}`
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)} size="3xl">
+      <DialogTitle>Year-End Owner Reports</DialogTitle>
+      <DialogBody>
+        <div className="space-y-4">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Totals every owner&apos;s statements for the calendar year. Export
+            PDF summaries for owners and a 1099-MISC file for your tax preparer
+            with rents for owners at or above {money(FORM_1099_MISC_THRESHOLD)}.
+          </p>
+
+          <div className="w-40">
+            <Label htmlFor="annual-report-year">Tax year</Label>
+            <Select
+              id="annual-report-year"
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="mt-1"
+            >
+              {years.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          {isLoading && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              Loading statements...
+            </p>
+          )}
+
+          {reports &&
+            (reports.length === 0 ? (
+              <p className="text-sm text-yellow-600 dark:text-yellow-500">
+                No statements found for {year}.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500">
+                    <th className="py-1 font-medium">Owner</th>
+                    <th className="py-1 text-right font-medium">Rents</th>
+                    <th className="py-1 text-right font-medium">Expenses</th>
+                    <th className="py-1 text-right font-medium">
+                      Net Distributions
+                    </th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                  {reports.map((report) => {
+                    const flags = reportFlags(report)
+
+                    return (
+                      <tr key={report.ownerId ?? ''} className="align-top">
+                        <td className="py-1">
+                          {report.ownerName}
+                          <div className="text-xs text-muted-foreground">
+                            {report.properties
+                              .map((property) => property.propertyName)
+                              .join(', ')}
+                          </div>
+                          {flags.length > 0 && (
+                            <div className="text-xs text-yellow-600 dark:text-yellow-500">
+                              {flags.join(' · ')}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-1 text-right">
+                          {money(report.totals.grossRevenue)}
+                        </td>
+                        <td className="py-1 text-right">
+                          {money(report.totals.expenses)}
+                        </td>
+                        <td className="py-1 text-right">
+                          {money(report.totals.netDistributions)}
+                        </td>
+                        <td className="py-1 text-right">
+                          {report.ownerId && (
+                            <Button
+                              variant="ghost"
+                              onClick={() => handleExportPdf(report)}
+                            >
+                              PDF
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            ))}
+
+          {missingTaxIds.length > 0 && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              Add tax IDs before filing:{' '}
+              {missingTaxIds.map((report) => report.ownerName).join(', ')}
+            </p>
+          )}
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onOpenChange(false)}
+        >
+          Close
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!reports?.length}
+          onClick={handleExportAllPdfs}
+        >
+          Export PDFs
+        </Button>
+        <Button
+          variant="default"
+          disabled={!reports?.length || csvMutation.isPending}
+          onClick={() => csvMutation.mutate({ year })}
+        >
+          {csvMutation.isPending ? 'Exporting...' : 'Export 1099 CSV'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
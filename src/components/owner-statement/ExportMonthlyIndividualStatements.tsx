@@ -17,6 +17,7 @@ import {
   Label,
 } from '~/components/ui'
 import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { useExpenseCategoryNames } from '~/lib/hooks/useExpenseCategoryNames'
 import dayjs from '~/lib/utils/day'
 import { api } from '~/trpc/react'
 
@@ -60,6 +61,8 @@ export default function ExportMonthlyIndividualStatements({
     }
   }, [open, initialMonth, selectedDate])
 
+  const expenseCategoryNames = useExpenseCategoryNames(open)
+
   const { data: detailedStatements, isLoading: isLoadingStatements } =
     api.ownerStatement.getManyWithDetails.useQuery(
       {
@@ -167,6 +170,7 @@ export default function ExportMonthlyIndividualStatements({
           grandTotal: statement.grandTotal
             ? Number(statement.grandTotal)
             : null,
+          expenseCategoryNames,
         }
         addOwnerStatementToPdf(doc, statementDataForPdf, currentY)
       }
@@ -0,0 +1,203 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import { exportConsolidatedOwnerStatement } from '~/components/owner-statement/ExportOwnerStatement'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { useExpenseCategoryNames } from '~/lib/hooks/useExpenseCategoryNames'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+import { api } from '~/trpc/react'
+
+interface ExportOwnerConsolidatedStatementProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialMonth: Date | null
+}
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+export default function ExportOwnerConsolidatedStatement({
+  open,
+  onOpenChange,
+  initialMonth,
+}: ExportOwnerConsolidatedStatementProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(initialMonth)
+  const [ownerId, setOwnerId] = useState('')
+
+  useEffect(() => {
+    if (open && initialMonth) {
+      setSelectedDate(initialMonth)
+    }
+  }, [open, initialMonth])
+
+  const expenseCategoryNames = useExpenseCategoryNames(open)
+
+  const { data: owners, isLoading: isLoadingOwners } =
+    api.owner.getMany.useQuery(undefined, { enabled: open })
+
+  const { data: consolidated, isLoading: isLoadingStatement } =
+    api.ownerStatement.getConsolidatedForOwner.useQuery(
+      {
+        ownerId,
+        month: selectedDate ? dayjs(selectedDate).format('YYYY-MM') : '',
+      },
+      { enabled: open && !!ownerId && !!selectedDate }
+    )
+
+  function handleExport() {
+    if (!consolidated?.sections.length) {
+      ErrorToast('No statements found for this owner and month.')
+      return
+    }
+
+    try {
+      exportConsolidatedOwnerStatement({
+        ownerName: consolidated.owner.name,
+        statementMonth: consolidated.statementMonth,
+        totals: consolidated.totals,
+        sections: consolidated.sections.map(
+          ({ propertyName, statement, totals }) => ({
+            propertyName,
+            statementMonth: statement.statementMonth,
+            incomes: statement.incomes.map((income) => ({
+              ...income,
+              grossRevenue: Number(income.grossRevenue),
+              hostFee: Number(income.hostFee),
+              platformFee: Number(income.platformFee),
+              grossIncome: Number(income.grossIncome),
+            })),
+            expenses: statement.expenses.map((expense) => ({
+              ...expense,
+              amount: Number(expense.amount),
+            })),
+            adjustments: statement.adjustments.map((adjustment) => ({
+              ...adjustment,
+              amount: Number(adjustment.amount),
+            })),
+            notes: statement.notes,
+            grandTotal: totals.grandTotal,
+            totals,
+            expenseCategoryNames,
+          })
+        ),
+      })
+      SuccessToast(
+        `Exported ${consolidated.sections.length} propert${consolidated.sections.length === 1 ? 'y' : 'ies'} for ${consolidated.owner.name}`
+      )
+      onOpenChange(false)
+    } catch (error) {
+      console.error('PDF Export Error:', error)
+      ErrorToast('Failed to export owner statement. Please check console.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)}>
+      <DialogTitle>Export Owner Statement</DialogTitle>
+      <DialogBody>
+        <div className="space-y-4">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Combine the month&apos;s statements for all of an owner&apos;s
+            properties into one PDF with a single payout total.
+          </p>
+
+          <div>
+            <Label htmlFor="consolidated-owner">Owner</Label>
+            <Select
+              id="consolidated-owner"
+              value={ownerId}
+              onChange={(e) => setOwnerId(e.target.value)}
+              disabled={isLoadingOwners}
+              className="mt-1"
+            >
+              <option value="">Select an owner</option>
+              {owners?.map((owner) => (
+                <option key={owner.id} value={owner.id}>
+                  {owner.name} ({owner.properties.length})
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <DatePicker
+            selected={selectedDate ?? undefined}
+            onChange={(date: Date | null) => setSelectedDate(date)}
+            showMonthYearPicker
+            placeholderText="Select a month"
+          />
+
+          {ownerId && selectedDate && isLoadingStatement && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              Loading statements...
+            </p>
+          )}
+
+          {consolidated && (
+            <div className="space-y-2">
+              {consolidated.sections.length === 0 ? (
+                <p className="text-sm text-yellow-600 dark:text-yellow-500">
+                  No statements found for{' '}
+                  {dayjs(selectedDate).format('MMMM YYYY')}.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                    {consolidated.sections.map((section) => (
+                      <tr key={section.propertyId}>
+                        <td className="py-1">{section.propertyName}</td>
+                        <td className="py-1 text-right">
+                          {money(section.totals.grandTotal)}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="py-1">Combined Payout</td>
+                      <td className="py-1 text-right">
+                        {money(consolidated.totals.grandTotal)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+              {consolidated.propertiesWithoutStatement.length > 0 && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-500">
+                  No statement yet for:{' '}
+                  {consolidated.propertiesWithoutStatement
+                    .map((property) => property.name)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onOpenChange(false)}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="default"
+          disabled={!consolidated?.sections.length}
+          onClick={handleExport}
+        >
+          Export PDF
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -3,6 +3,16 @@
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import { type CellHookData, type UserOptions } from 'jspdf-autotable'
+import {
+  type AnnualOwnerReport,
+  FORM_1099_MISC_THRESHOLD,
+} from '~/lib/OwnerStatement/annual-owner-report'
+import { type StatementTotals } from '~/lib/OwnerStatement/consolidated-statement'
+import { type ReserveStatus } from '~/lib/OwnerStatement/owner-reserve'
+import {
+  type ExpenseSourceLink,
+  listSourceDocuments,
+} from '~/lib/OwnerStatement/source-document'
 import dayjs from '~/lib/utils/day'
 import { formatCurrency } from '~/lib/utils/format'
 
@@ -27,11 +37,13 @@ interface IncomeItem {
   grossIncome: number | null
 }
 
-interface ExpenseItem {
+interface ExpenseItem extends ExpenseSourceLink {
   date: string | null | Date
   description: string | null
   vendor: string | null
   amount: number | null
+  lineDescription?: string | null
+  category?: string | null
 }
 
 interface AdjustmentItem {
@@ -50,6 +62,58 @@ export interface OwnerStatementData {
   adjustments?: AdjustmentItem[]
   notes?: string | null
   grandTotal?: number | null
+  reserve?: ReserveStatus | null
+  // Category names by key; expenses are listed under their category when set
+  expenseCategoryNames?: Record<string, string> | null
+}
+
+const UNCATEGORIZED_EXPENSES = 'Uncategorized'
+
+// Expenses under a heading row per category, each followed by its subtotal
+function groupExpenseRows(
+  expenses: ExpenseItem[],
+  categoryNames: Record<string, string>,
+  toRow: (item: ExpenseItem) => CellContent[]
+): CellContent[][] {
+  const groups = new Map<string, ExpenseItem[]>()
+  for (const item of expenses) {
+    const name = item.category
+      ? (categoryNames[item.category] ?? item.category)
+      : UNCATEGORIZED_EXPENSES
+    groups.set(name, [...(groups.get(name) ?? []), item])
+  }
+
+  return [...groups]
+    .sort(
+      ([a], [b]) =>
+        Number(a === UNCATEGORIZED_EXPENSES) -
+          Number(b === UNCATEGORIZED_EXPENSES) || a.localeCompare(b)
+    )
+    .flatMap(([name, items]) => [
+      [
+        {
+          content: name,
+          colSpan: 4,
+          styles: { fontStyle: 'bold', halign: 'left' },
+        },
+      ],
+      ...items.map(toRow),
+      [
+        {
+          content: `${name} Subtotal`,
+          colSpan: 3,
+          styles: { fontStyle: 'italic', halign: 'right' },
+        },
+        {
+          content: formatCurrency(
+            items.reduce((sum, item) => sum + (item.amount ?? 0), 0),
+            'USD',
+            { centsToDollars: false }
+          ),
+          styles: { fontStyle: 'italic', halign: 'right' },
+        },
+      ],
+    ])
 }
 
 const getLastTableY = (doc: jsPDF): number => {
@@ -75,6 +139,8 @@ export function addOwnerStatementToPdf(
     expenses = [],
     adjustments = [],
     notes,
+    reserve,
+    expenseCategoryNames,
   } = statementData
 
   const leftMargin = 15
@@ -256,12 +322,17 @@ export function addOwnerStatementToPdf(
     currentY += 5
 
     const expenseHead = [['Date', 'Description', 'Vendor', 'Amount']]
-    const expenseBody: CellContent[][] = expenses.map((item) => [
+    const expenseRow = (item: ExpenseItem): CellContent[] => [
       item.date ? dayjs(item.date).format('YYYY-MM-DD') : '-',
-      item.description ?? '-',
+      item.lineDescription
+        ? `${item.description ?? ''}: ${item.lineDescription}`
+        : (item.description ?? '-'),
       item.vendor ?? '-',
       formatCurrency(item.amount, 'USD', { centsToDollars: false }),
-    ])
+    ]
+    const expenseBody: CellContent[][] = expenseCategoryNames
+      ? groupExpenseRows(expenses, expenseCategoryNames, expenseRow)
+      : expenses.map(expenseRow)
 
     // Add total row
     expenseBody.push([
@@ -306,6 +377,24 @@ export function addOwnerStatementToPdf(
       },
     })
     currentY = getLastTableY(doc) + 8
+
+    // Receipts the expenses were imported from, kept on file for audits
+    const sourceDocuments = listSourceDocuments(expenses)
+    if (sourceDocuments.length > 0) {
+      autoTable(doc, {
+        startY: currentY - 5,
+        head: [['Source Document', 'Pages / Rows']],
+        body: sourceDocuments.map((source) => [
+          source.fileName,
+          source.references.length ? source.references.join(', ') : '-',
+        ]),
+        theme: 'plain',
+        margin: { left: leftMargin, right: rightMargin },
+        styles: { fontSize: 7, cellPadding: 1, textColor: [90, 90, 90] },
+        headStyles: { fontStyle: 'bold' },
+      })
+      currentY = getLastTableY(doc) + 8
+    }
   }
 
   // --- Adjustments Section ---
@@ -460,17 +549,29 @@ export function addOwnerStatementToPdf(
   )
   currentY += 8 // Add some space after grand total
 
+  // Reserve held back for the property, when its agreement sets one
+  if (reserve && (reserve.target > 0 || reserve.closingBalance !== 0)) {
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'normal')
+    const target =
+      reserve.target > 0
+        ? ` (target ${formatCurrency(reserve.target, 'USD', { centsToDollars: false })})`
+        : ''
+    doc.text(`Reserve Balance${target}:`, leftMargin, currentY)
+    doc.text(
+      formatCurrency(reserve.closingBalance, 'USD', { centsToDollars: false }),
+      leftMargin + usableWidth,
+      currentY,
+      { align: 'right' }
+    )
+    currentY += 6
+  }
+
   return currentY // Return the final Y position
 }
 
-/**
- * Exports a single owner statement to a PDF file.
- */
-export function exportSingleOwnerStatement(statementData: OwnerStatementData) {
-  const doc = new jsPDF()
-  addOwnerStatementToPdf(doc, statementData, 20) // Start at Y=20
-
-  // Add page numbers
+// Numbers every page once all content has been drawn
+function addPageNumbers(doc: jsPDF) {
   const pageCount = doc.getNumberOfPages()
   for (let i = 1; i <= pageCount; i++) {
     doc.setPage(i)
@@ -483,9 +584,408 @@ export function exportSingleOwnerStatement(statementData: OwnerStatementData) {
       { align: 'center' }
     )
   }
+}
+
+/**
+ * Exports a single owner statement to a PDF file.
+ */
+export function exportSingleOwnerStatement(statementData: OwnerStatementData) {
+  const doc = new jsPDF()
+  addOwnerStatementToPdf(doc, statementData, 20) // Start at Y=20
+
+  addPageNumbers(doc)
 
   const filename = `OwnerStatement-${statementData.propertyName}-${dayjs(
     statementData.statementMonth
   ).format('YYYY-MM')}.pdf`
   doc.save(filename)
 }
+
+export interface CoOwnerShare {
+  ownerName: string
+  percent: number
+  amount: number
+}
+
+/**
+ * Exports one PDF per co-owner. Each has the full property statement followed
+ * by that owner's ownership percentage and portion of the grand total.
+ */
+export function exportCoOwnerStatements(
+  statementData: OwnerStatementData,
+  shares: CoOwnerShare[]
+) {
+  const leftMargin = 15
+  const rightMargin = 15
+  const month = dayjs(statementData.statementMonth).format('YYYY-MM')
+  const money = (value: number) =>
+    formatCurrency(value, 'USD', { centsToDollars: false })
+
+  for (const share of shares) {
+    const doc = new jsPDF()
+    let currentY = addOwnerStatementToPdf(doc, statementData, 20)
+
+    // Keep the share heading and its table together
+    if (currentY > doc.internal.pageSize.height - 50) {
+      doc.addPage()
+      currentY = 20
+    }
+
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Ownership Share', leftMargin, currentY)
+    currentY += 4
+
+    autoTable(doc, {
+      startY: currentY,
+      head: [['Owner', 'Ownership', 'Property Total', 'Your Portion']],
+      body: [
+        [
+          share.ownerName,
+          `${share.percent}%`,
+          money(statementData.grandTotal ?? 0),
+          {
+            content: money(share.amount),
+            styles: { fontStyle: 'bold', halign: 'right' },
+          },
+        ],
+      ],
+      theme: 'grid',
+      margin: { left: leftMargin, right: rightMargin },
+      styles: { fontSize: 9, cellPadding: 1.5 },
+      headStyles: {
+        fillColor: [240, 240, 240],
+        textColor: [50, 50, 50],
+        fontStyle: 'bold',
+        halign: 'center',
+      },
+      columnStyles: {
+        0: { cellWidth: 'auto', halign: 'left' }, // Owner
+        1: { cellWidth: 28, halign: 'right' }, // Ownership
+        2: { cellWidth: 34, halign: 'right' }, // Property Total
+        3: { cellWidth: 34, halign: 'right' }, // Your Portion
+      },
+    })
+
+    addPageNumbers(doc)
+
+    doc.save(
+      `OwnerStatement-${statementData.propertyName}-${share.ownerName}-${month}.pdf`
+    )
+  }
+}
+
+export interface ConsolidatedOwnerStatementData {
+  ownerName: string
+  statementMonth: string | Date
+  sections: Array<OwnerStatementData & { totals: StatementTotals }>
+  totals: StatementTotals
+}
+
+/**
+ * Exports one owner's statements for a month as a single PDF: a summary page
+ * with the combined payout, then each property's statement on its own pages.
+ */
+export function exportConsolidatedOwnerStatement(
+  data: ConsolidatedOwnerStatementData
+) {
+  const doc = new jsPDF()
+  const leftMargin = 15
+  const rightMargin = 15
+  let currentY = 20
+
+  // --- Header ---
+  doc.setFontSize(14)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Consolidated Owner Statement', leftMargin, currentY)
+
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  doc.text(
+    `${data.ownerName} - ${dayjs(data.statementMonth).format('MMMM YYYY')}`,
+    doc.internal.pageSize.width - rightMargin,
+    currentY,
+    { align: 'right' }
+  )
+  currentY += 8
+  doc.setDrawColor(200)
+  doc.line(
+    leftMargin,
+    currentY,
+    doc.internal.pageSize.width - rightMargin,
+    currentY
+  )
+  currentY += 8
+
+  // --- Per-property Summary ---
+  const money = (value: number) =>
+    formatCurrency(value, 'USD', { centsToDollars: false })
+  const summaryBody: CellContent[][] = data.sections.map((section) => [
+    section.propertyName,
+    money(section.totals.totalIncome),
+    money(section.totals.totalExpenses),
+    money(section.totals.totalAdjustments),
+    money(section.totals.grandTotal),
+  ])
+
+  summaryBody.push([
+    {
+      content: 'Combined Payout',
+      styles: { fontStyle: 'bold', halign: 'left' },
+    },
+    {
+      content: money(data.totals.totalIncome),
+      styles: { fontStyle: 'bold', halign: 'right' },
+    },
+    {
+      content: money(data.totals.totalExpenses),
+      styles: { fontStyle: 'bold', halign: 'right' },
+    },
+    {
+      content: money(data.totals.totalAdjustments),
+      styles: { fontStyle: 'bold', halign: 'right' },
+    },
+    {
+      content: money(data.totals.grandTotal),
+      styles: { fontStyle: 'bold', halign: 'right' },
+    },
+  ])
+
+  autoTable(doc, {
+    startY: currentY,
+    head: [['Property', 'Income', 'Expenses', 'Adjustments', 'Total']],
+    body: summaryBody,
+    theme: 'grid',
+    margin: { left: leftMargin, right: rightMargin },
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: {
+      fillColor: [240, 240, 240],
+      textColor: [50, 50, 50],
+      fontStyle: 'bold',
+      halign: 'center',
+    },
+    columnStyles: {
+      0: { cellWidth: 'auto', halign: 'left' }, // Property
+      1: { cellWidth: 28, halign: 'right' }, // Income
+      2: { cellWidth: 28, halign: 'right' }, // Expenses
+      3: { cellWidth: 28, halign: 'right' }, // Adjustments
+      4: { cellWidth: 28, halign: 'right' }, // Total
+    },
+    didParseCell: function (data: CellHookData) {
+      if (data.row.index === summaryBody.length - 1) {
+        data.cell.styles = data.cell.styles ?? {}
+        data.cell.styles.fillColor = [245, 245, 245]
+        data.cell.styles.fontStyle = 'bold'
+      }
+    },
+  })
+
+  // --- Property Sections ---
+  for (const section of data.sections) {
+    doc.addPage()
+    addOwnerStatementToPdf(doc, section, 20)
+  }
+
+  addPageNumbers(doc)
+
+  doc.save(
+    `OwnerStatement-${data.ownerName}-${dayjs(data.statementMonth).format('YYYY-MM')}.pdf`
+  )
+}
+
+export interface AnnualOwnerReportData extends Omit<
+  AnnualOwnerReport,
+  'taxId'
+> {
+  taxIdLast4: string | null
+}
+
+/**
+ * Exports an owner's year-end summary: property totals for the calendar year,
+ * expenses by category and the rents figure reported on their 1099-MISC.
+ */
+export function exportAnnualOwnerReport(
+  report: AnnualOwnerReportData,
+  year: number
+) {
+  const doc = new jsPDF()
+  const leftMargin = 15
+  const rightMargin = 15
+  const pageWidth = doc.internal.pageSize.width
+  const money = (value: number) =>
+    formatCurrency(value, 'USD', { centsToDollars: false })
+  const tableStyles = {
+    theme: 'grid' as const,
+    margin: { left: leftMargin, right: rightMargin },
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: {
+      fillColor: [240, 240, 240] as [number, number, number],
+      textColor: [50, 50, 50] as [number, number, number],
+      fontStyle: 'bold' as const,
+      halign: 'center' as const,
+    },
+  }
+  let currentY = 20
+
+  // --- Header ---
+  doc.setFontSize(14)
+  doc.setFont('helvetica', 'bold')
+  doc.text(`Annual Owner Summary ${year}`, leftMargin, currentY)
+
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  doc.text(report.ownerName, pageWidth - rightMargin, currentY, {
+    align: 'right',
+  })
+  currentY += 8
+  doc.setDrawColor(200)
+  doc.line(leftMargin, currentY, pageWidth - rightMargin, currentY)
+  currentY += 6
+
+  // --- Owner Details ---
+  doc.setFontSize(9)
+  if (report.address) {
+    doc.text(report.address, leftMargin, currentY)
+    currentY += 5
+  }
+  if (report.missingTaxId) {
+    doc.setTextColor(200, 0, 0)
+    doc.text('Tax ID missing - required for 1099 filing', leftMargin, currentY)
+    doc.setTextColor(0)
+  } else {
+    doc.text(
+      `${report.taxIdType} ending in ${report.taxIdLast4}`,
+      leftMargin,
+      currentY
+    )
+  }
+  currentY += 8
+
+  // --- Property Totals ---
+  const propertyRows: CellContent[][] = report.properties.map((property) => [
+    property.unapprovedCount
+      ? `${property.propertyName} (${property.unapprovedCount} not approved)`
+      : property.propertyName,
+    money(property.figures.grossRevenue),
+    money(property.figures.managementFees),
+    money(property.figures.platformFees),
+    money(property.figures.expenses),
+    money(property.figures.adjustments),
+    money(property.figures.netDistributions),
+  ])
+  const bold = (content: string, halign: 'left' | 'right' = 'right') => ({
+    content,
+    styles: { fontStyle: 'bold' as const, halign },
+  })
+  propertyRows.push([
+    bold('Total', 'left'),
+    bold(money(report.totals.grossRevenue)),
+    bold(money(report.totals.managementFees)),
+    bold(money(report.totals.platformFees)),
+    bold(money(report.totals.expenses)),
+    bold(money(report.totals.adjustments)),
+    bold(money(report.totals.netDistributions)),
+  ])
+
+  autoTable(doc, {
+    ...tableStyles,
+    startY: currentY,
+    head: [
+      [
+        'Property',
+        'Gross Revenue',
+        'Mgmt Fees',
+        'Platform Fees',
+        'Expenses',
+        'Adjustments',
+        'Net Distributions',
+      ],
+    ],
+    body: propertyRows,
+    columnStyles: {
+      0: { cellWidth: 'auto', halign: 'left' }, // Property
+      1: { cellWidth: 24, halign: 'right' }, // Gross Revenue
+      2: { cellWidth: 22, halign: 'right' }, // Mgmt Fees
+      3: { cellWidth: 22, halign: 'right' }, // Platform Fees
+      4: { cellWidth: 22, halign: 'right' }, // Expenses
+      5: { cellWidth: 22, halign: 'right' }, // Adjustments
+      6: { cellWidth: 26, halign: 'right' }, // Net Distributions
+    },
+  })
+  currentY = getLastTableY(doc) + 10
+
+  // --- Expenses by Category ---
+  const categories = Object.entries(report.totals.expensesByCategory).sort(
+    ([a], [b]) => a.localeCompare(b)
+  )
+  if (categories.length) {
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Expenses by Category', leftMargin, currentY)
+    currentY += 4
+
+    autoTable(doc, {
+      ...tableStyles,
+      startY: currentY,
+      head: [['Category', 'Amount']],
+      body: [
+        ...categories.map(([category, amount]) => [category, money(amount)]),
+        [bold('Total', 'left'), bold(money(report.totals.expenses))],
+      ],
+      columnStyles: {
+        0: { cellWidth: 'auto', halign: 'left' }, // Category
+        1: { cellWidth: 34, halign: 'right' }, // Amount
+      },
+    })
+    currentY = getLastTableY(doc) + 10
+  }
+
+  // --- Expenses by Schedule E line, in line order ---
+  const scheduleELines = Object.entries(
+    report.totals.expensesByScheduleELine
+  ).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+  if (scheduleELines.length) {
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Expenses by Schedule E Line', leftMargin, currentY)
+    currentY += 4
+
+    autoTable(doc, {
+      ...tableStyles,
+      startY: currentY,
+      head: [['Schedule E Line', 'Amount']],
+      body: [
+        ...scheduleELines.map(([line, amount]) => [line, money(amount)]),
+        [bold('Total', 'left'), bold(money(report.totals.expenses))],
+      ],
+      columnStyles: {
+        0: { cellWidth: 'auto', halign: 'left' }, // Schedule E Line
+        1: { cellWidth: 34, halign: 'right' }, // Amount
+      },
+    })
+    currentY = getLastTableY(doc) + 10
+  }
+
+  // --- 1099-MISC ---
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'bold')
+  doc.text(
+    `Form 1099-MISC Box 1 (Rents): ${money(report.totals.grossRevenue)}`,
+    leftMargin,
+    currentY
+  )
+  if (report.totals.grossRevenue < FORM_1099_MISC_THRESHOLD) {
+    currentY += 5
+    doc.setFontSize(8)
+    doc.setFont('helvetica', 'normal')
+    doc.text(
+      `Below the ${money(FORM_1099_MISC_THRESHOLD)} filing threshold`,
+      leftMargin,
+      currentY
+    )
+  }
+
+  addPageNumbers(doc)
+
+  doc.save(`AnnualOwnerSummary-${report.ownerName}-${year}.pdf`)
+}
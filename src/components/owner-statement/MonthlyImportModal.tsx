@@ -1,181 +1,181 @@
 import { useRouter } from 'next/navigation'
 import React, { useRef, useState } from 'react'
-import * as XLSX from 'xlsx'
 import DatePicker from '~/components/DatePicker'
 import {
   Button,
+  Checkbox,
   Dialog,
   DialogActions,
   DialogBody,
   DialogTitle,
+  Label,
+  Select,
 } from '~/components/ui'
 import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import type { ReservationImportSource } from '~/lib/OwnerStatement/import-adapters'
+import type {
+  PropertyReservationDiff,
+  ReservationChange,
+} from '~/lib/OwnerStatement/reservation-diff'
+import type {
+  ReservationImportPreview,
+  UnmatchedListingPreview,
+} from '~/lib/OwnerStatement/reservation-import'
 import dayjs from '~/lib/utils/day'
+import { readFileAsBase64 } from '~/lib/utils/file'
+import { formatCurrency } from '~/lib/utils/format'
 import { api } from '~/trpc/react'
 
-interface ParsedHostawayData {
-  propertyId: string
-  propertyName: string
-  incomes: Array<{
-    checkIn: string
-    checkOut: string
-    days: number
-    platform: string
-    guest: string
-    grossRevenue: number
-    hostFee: number
-    platformFee: number
-    grossIncome: number
-  }>
-  expenses: Array<{
-    date: string
-    description: string
-    vendor: string
-    amount: number
-  }>
-  adjustments: Array<{
-    checkIn?: string
-    checkOut?: string
-    description: string
-    amount: number
-  }>
-  notes: string
-}
-
 // Consolidated state interface
 interface ImportState {
   month: Date | null
-  hostawayFile: File | null
-  isParsing: boolean
+  importFile: File | null
+  isReading: boolean
   error: string | null
   userChoice: 'skip' | 'replace' | null
+  preview: ReservationImportPreview | null
 }
 
-/**
- * Safely parse a number from Excel data, returning 0 for invalid values
- */
-function safeParseNumber(value: any): number {
-  if (value === null || value === undefined || value === "") {
-    return 0
-  }
-  const parsed = Number(value)
-  return isNaN(parsed) ? 0 : parsed
-}
+const formatAmount = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
 
 /**
- * Parse dates from Excel with multiple format support
+ * Unmatched listing with a property picker. Saving stores a property alias so
+ * future imports match this listing automatically.
  */
-function parseExcelDate(dateValue: any): string {
-  if (!dateValue) return ""
-  
-  if (dateValue instanceof Date) {
-    return dayjs(dateValue).format('YYYY-MM-DD')
-  }
-  
-  const dateStr = String(dateValue)
-  if (/\d{1,2}\/\d{1,2}\/\d{2,4}/.test(dateStr)) {
-    return dayjs(dateStr, ['M/D/YY', 'MM/DD/YYYY', 'YYYY-MM-DD']).format('YYYY-MM-DD')
-  }
-  
-  return dateStr
-}
+function UnmatchedListingRow({
+  listing,
+  source,
+  properties,
+  onMapped,
+}: {
+  listing: UnmatchedListingPreview
+  source: ReservationImportSource
+  properties: Array<{ id: string; name: string }>
+  onMapped: () => void
+}) {
+  const [propertyId, setPropertyId] = useState('')
 
-/**
- * Create property lookup map with name normalization
- */
-function createPropertyMap(properties: any[]) {
-  return new Map(
-    properties.map((p: any) => [
-      p.name?.replace(/\s+/g, '').toLowerCase() ?? '',
-      p,
-    ])
+  const createAliasMutation = api.propertyAlias.create.useMutation({
+    onSuccess: () => {
+      SuccessToast(`"${listing.listingName}" will now import to the selected property`)
+      onMapped()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to save mapping: ${error.message}`)
+    },
+  })
+
+  return (
+    <li className="flex items-center gap-2 py-1">
+      <div className="flex-1">
+        <div className="font-medium">{listing.listingName}</div>
+        <div>
+          {listing.reservationCount} reservation
+          {listing.reservationCount !== 1 ? 's' : ''},{' '}
+          {formatAmount(listing.grossRevenue)}
+        </div>
+      </div>
+      <Select
+        value={propertyId}
+        onChange={(e) => setPropertyId(e.target.value)}
+        className="w-48"
+        aria-label={`Property for ${listing.listingName}`}
+      >
+        <option value="">Map to property...</option>
+        {properties.map((property) => (
+          <option key={property.id} value={property.id}>
+            {property.name}
+          </option>
+        ))}
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-xs"
+        disabled={!propertyId || createAliasMutation.isPending}
+        onClick={() =>
+          createAliasMutation.mutate({
+            propertyId,
+            alias: listing.listingName,
+            source,
+          })
+        }
+      >
+        {createAliasMutation.isPending ? 'Saving...' : 'Remember'}
+      </Button>
+    </li>
   )
 }
 
-/**
- * Normalize property name for matching
- */
-function normalizePropertyName(name: string): string {
-  return name.replace(/\s*\((OLD|NEW)\)\s*$/i, '').replace(/\s+/g, '').toLowerCase()
+const CHANGE_LABELS: Record<ReservationChange['kind'], string> = {
+  ADDED: 'Added',
+  CHANGED: 'Changed',
+  CANCELLED: 'Cancelled',
 }
 
-/**
- * Process a single income row from Excel
- */
-function processIncomeRow(row: any): {
-  checkIn: string
-  checkOut: string
-  days: number
-  platform: string
-  guest: string
-  grossRevenue: number
-  hostFee: number
-  platformFee: number
-  grossIncome: number
-} {
-  const rentalRevenue = safeParseNumber(row['Rental Revenue'])
-  const airbnbTax = safeParseNumber(row['Airbnb Transient Occupancy Tax'])
-  let grossRevenue = rentalRevenue
-  if (airbnbTax > 0) {
-    grossRevenue = rentalRevenue - airbnbTax
-  }
+const formatDelta = (value: number) =>
+  `${value > 0 ? '+' : ''}${formatAmount(value)}`
 
-  const hostFee = Math.round(grossRevenue * 0.15 * 100) / 100
-  const channel = (row.Channel || '').toLowerCase()
-  const platformFee =
-    channel === 'vrbo'
-      ? safeParseNumber(row['Payment Fees'])
-      : safeParseNumber(row['Host Channel Fee'])
-
-  return {
-    guest: String(row.Guest ?? ''),
-    checkIn: parseExcelDate(row['Check-in Date']),
-    checkOut: parseExcelDate(row['Check-out Date']),
-    days: safeParseNumber(row.Nights),
-    platform: String(row.Channel ?? ''),
-    grossRevenue,
-    hostFee,
-    platformFee,
-    grossIncome: grossRevenue - hostFee - platformFee,
-  }
-}
-
-/**
- * Validate parsed statement data
- */
-function validateStatementData(statements: ParsedHostawayData[]): void {
-  for (const statement of statements) {
-    // Check incomes
-    for (const income of statement.incomes) {
-      if ([income.grossRevenue, income.hostFee, income.platformFee, income.grossIncome].some(isNaN)) {
-        throw new Error(`Invalid numeric data found for property "${statement.propertyName}". Please check the Excel file.`)
-      }
-    }
-    // Check expenses and adjustments
-    for (const expense of statement.expenses) {
-      if (isNaN(expense.amount)) {
-        throw new Error(`Invalid expense amount for property "${statement.propertyName}".`)
-      }
-    }
-    for (const adjustment of statement.adjustments) {
-      if (isNaN(adjustment.amount)) {
-        throw new Error(`Invalid adjustment amount for property "${statement.propertyName}".`)
-      }
-    }
-  }
-}
+// Identifies a change across properties when choosing which to apply
+const changeSelectionKey = (statementId: string, change: ReservationChange) =>
+  `${statementId}:${change.key}`
 
 /**
- * Parse Excel file and return raw data
+ * Stays on an existing statement that differ from the re-imported file, with
+ * what each change does to gross revenue and the owner's income. Each change
+ * can be left out of the apply.
  */
-async function parseExcelFile(file: File): Promise<any[]> {
-  const data = await file.arrayBuffer()
-  const workbook = XLSX.read(data, { type: 'array' })
-  const sheetName = workbook.SheetNames[0]
-  if (!sheetName) throw new Error('No sheet found')
-  const worksheet = workbook.Sheets[sheetName]
-  if (!worksheet) throw new Error('No worksheet found')
-  return XLSX.utils.sheet_to_json(worksheet, { defval: '' })
+function ReservationDiffRow({
+  diff,
+  skipped,
+  onToggle,
+}: {
+  diff: PropertyReservationDiff
+  skipped: Set<string>
+  onToggle: (key: string, selected: boolean) => void
+}) {
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">
+          {diff.propertyName}
+          {diff.isLocked && (
+            <span className="ml-2 font-normal text-zinc-500">
+              Locked, changes will be added as adjustments
+            </span>
+          )}
+        </div>
+        <div className="font-medium">{formatDelta(diff.ownerIncomeDelta)}</div>
+      </div>
+      <ul className="mt-1 space-y-0.5 text-zinc-600">
+        {diff.changes.map((change) => {
+          const income = change.after ?? change.before
+          const key = changeSelectionKey(diff.statementId, change)
+          return (
+            <li key={key} className="flex justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <Checkbox
+                  checked={!skipped.has(key)}
+                  onCheckedChange={(checked) => onToggle(key, checked === true)}
+                  aria-label={`Apply change to ${income?.guest ?? change.externalId}`}
+                />
+                <span>
+                  {CHANGE_LABELS[change.kind]}: {income?.guest} ({income?.checkIn} to {income?.checkOut})
+                  {change.changedFields.length > 0 && (
+                    <span className="text-zinc-500"> · {change.changedFields.join(', ')}</span>
+                  )}
+                </span>
+              </span>
+              <span>
+                {formatDelta(change.revenueDelta)} revenue, {formatDelta(change.ownerIncomeDelta)} owner
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </li>
+  )
 }
 
 export default function MonthlyImportModal({
@@ -191,13 +191,14 @@ export default function MonthlyImportModal({
   // Consolidated state
   const [state, setState] = useState<ImportState>({
     month: null,
-    hostawayFile: null,
-    isParsing: false,
+    importFile: null,
+    isReading: false,
     error: null,
     userChoice: null,
+    preview: null,
   })
-
-  const utils = api.useUtils()
+  // Changes unticked in the preview; everything else is applied
+  const [skippedChanges, setSkippedChanges] = useState<Set<string>>(new Set())
 
   // Check for existing statements
   const { data: existingStatements, isLoading: isCheckingExisting } =
@@ -209,7 +210,72 @@ export default function MonthlyImportModal({
   // Derived state
   const hasExistingStatements = existingStatements && existingStatements.length > 0
   const needsUserChoice = hasExistingStatements && state.userChoice === null
-  const canProceed = state.month && state.hostawayFile && !needsUserChoice
+  const canPreview = state.month && state.importFile
+  const canProceed = state.preview && !needsUserChoice
+
+  const utils = api.useUtils()
+
+  const { data: properties } = api.property.getMany.useQuery(undefined, {
+    enabled: open && !!state.preview?.unmatched.length,
+  })
+
+  // Re-run the server preview so newly remembered listings move to matched
+  const refreshPreview = async () => {
+    if (!state.preview) return
+    try {
+      const preview = await utils.ownerStatement.getReservationImportPreview.fetch(
+        { importId: state.preview.importId },
+        { staleTime: 0 }
+      )
+      setState(prev => ({ ...prev, preview }))
+    } catch (err) {
+      ErrorToast(err instanceof Error ? err.message : 'Failed to refresh preview')
+    }
+  }
+
+  const importSettingsMutation = api.ownerStatement.updateImportSettings.useMutation({
+    onSuccess: () => refreshPreview(),
+    onError: (error) => {
+      ErrorToast(`Failed to update import settings: ${error.message}`)
+    },
+  })
+
+  const applyChangesMutation = api.ownerStatement.applyReservationChanges.useMutation({
+    onSuccess: async (data) => {
+      let message = `Updated ${data.statementCount} existing statement${data.statementCount !== 1 ? 's' : ''}`
+      if (data.adjustmentCount > 0) message += ` (${data.adjustmentCount} adjustment${data.adjustmentCount !== 1 ? 's' : ''} on locked statements)`
+      SuccessToast(message)
+      await utils.ownerStatement.invalidate()
+      await refreshPreview()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to apply changes: ${error.message}`)
+    },
+  })
+
+  const toggleChange = (key: string, selected: boolean) => {
+    setSkippedChanges(prev => {
+      const next = new Set(prev)
+      if (selected) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const selectedChanges = (state.preview?.changes ?? []).flatMap(diff =>
+    diff.changes
+      .filter(change => !skippedChanges.has(changeSelectionKey(diff.statementId, change)))
+      .map(change => ({ statementId: diff.statementId, key: change.key }))
+  )
+
+  const previewMutation = api.ownerStatement.previewReservationImport.useMutation({
+    onSuccess: (preview) => {
+      setState(prev => ({ ...prev, preview }))
+    },
+    onError: (error) => {
+      setState(prev => ({ ...prev, error: error.message }))
+    },
+  })
 
   // Create batch mutation
   const createBatchMutation = api.ownerStatement.createMonthlyBatch.useMutation({
@@ -222,6 +288,9 @@ export default function MonthlyImportModal({
       let message = `Created ${data.createdCount} owner statement${data.createdCount !== 1 ? 's' : ''} successfully!`
       if (data.existingCount > 0) message += ` (Skipped ${data.existingCount} existing)`
       if (data.replacedCount > 0) message += ` (Replaced ${data.replacedCount} existing)`
+      if (data.recurringExpenseCount > 0) message += ` Added ${data.recurringExpenseCount} recurring expense${data.recurringExpenseCount !== 1 ? 's' : ''}.`
+      if (data.proratedUpdatedCount > 0) message += ` Added split stays to ${data.proratedUpdatedCount} other month${data.proratedUpdatedCount !== 1 ? 's' : ''}.`
+      if (data.proratedLockedCount > 0) message += ` ${data.proratedLockedCount} locked statement${data.proratedLockedCount !== 1 ? 's were' : ' was'} left unchanged.`
 
       SuccessToast(message)
 
@@ -237,7 +306,11 @@ export default function MonthlyImportModal({
 
   // Event handlers
   const handleMonthChange = (newMonth: Date | null) => {
-    setState(prev => ({ ...prev, month: newMonth, userChoice: null }))
+    setState(prev => ({ ...prev, month: newMonth, userChoice: null, preview: null }))
+  }
+
+  const handleFileSelected = (file: File) => {
+    setState(prev => ({ ...prev, importFile: file, error: null, preview: null }))
   }
 
   const handleUserChoice = (choice: 'skip' | 'replace') => {
@@ -250,7 +323,7 @@ export default function MonthlyImportModal({
     setState(prev => ({ ...prev, userChoice: choice }))
   }
 
-  const handleHostawayDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
     const file = e.dataTransfer.files[0]
     if (!file) return
@@ -258,93 +331,51 @@ export default function MonthlyImportModal({
     if (
       file.type ===
         'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-      file.name.endsWith('.xlsx')
+      file.type === 'text/csv' ||
+      /\.(xlsx|csv)$/i.test(file.name)
     ) {
-      setState(prev => ({ ...prev, hostawayFile: file, error: null }))
+      handleFileSelected(file)
     } else {
-      setState(prev => ({ ...prev, error: 'Please upload a valid .xlsx file.' }))
+      setState(prev => ({ ...prev, error: 'Please upload a valid .xlsx or .csv file.' }))
     }
   }
 
 
 
-  // Main processing function - now much simpler
-  async function handleProcessAndCreate() {
-    if (!canProceed) return
+  // Upload the file for a server-side parse and preview
+  async function handlePreview() {
+    if (!canPreview) return
 
-    setState(prev => ({ ...prev, isParsing: true, error: null }))
+    setState(prev => ({ ...prev, isReading: true, error: null, preview: null }))
 
     try {
-      // Parse Excel file
-      const rawData = await parseExcelFile(state.hostawayFile!)
-
-      // Get properties
-      const formattedMonth = dayjs(state.month).format('YYYY-MM')
-      const properties = await utils.property.getMany.fetch({ month: formattedMonth })
-      if (!properties || properties.length === 0) {
-        throw new Error('No properties found for the selected month.')
-      }
-
-      // Process data
-      const propertyMap = createPropertyMap(properties)
-      const grouped: Record<string, ParsedHostawayData> = {}
-
-      // Process each row
-      for (const row of rawData) {
-        const rawListingName = row.Listing || ''
-        const normalizedName = normalizePropertyName(rawListingName)
-        if (!normalizedName) continue
-
-        const property = propertyMap.get(normalizedName)
-        if (!property) continue
-
-        if (!grouped[property.id]) {
-          grouped[property.id] = {
-            propertyId: property.id,
-            propertyName: property.name,
-            incomes: [],
-            expenses: [],
-            adjustments: [],
-            notes: '',
-          }
-        }
-
-        // Process income
-        const income = processIncomeRow(row)
-        grouped[property.id]?.incomes.push(income)
-
-        // Process adjustments
-        const resolutionSum = safeParseNumber(row['Airbnb Closed Resolutions Sum'])
-        if (resolutionSum !== 0) {
-          grouped[property.id]?.adjustments.push({
-            description: 'Airbnb Resolution',
-            amount: resolutionSum,
-            checkIn: income.checkIn || undefined,
-            checkOut: income.checkOut || undefined,
-          })
-        }
-      }
-
-      const parsedStatements = Object.values(grouped)
-      validateStatementData(parsedStatements)
-
-      // Create statements
-      createBatchMutation.mutate({
+      const fileBase64 = await readFileAsBase64(state.importFile!)
+      previewMutation.mutate({
         statementMonth: state.month!,
-        hostawayData: parsedStatements,
-        skipExisting: state.userChoice === 'skip',
+        fileName: state.importFile!.name,
+        fileBase64,
       })
     } catch (err) {
-      console.error('Error processing files:', err)
-      setState(prev => ({ 
-        ...prev, 
-        error: err instanceof Error ? err.message : 'Failed to process files' 
+      console.error('Error reading file:', err)
+      setState(prev => ({
+        ...prev,
+        error: err instanceof Error ? err.message : 'Failed to read file',
       }))
     } finally {
-      setState(prev => ({ ...prev, isParsing: false }))
+      setState(prev => ({ ...prev, isReading: false }))
     }
   }
 
+  // Statements are created from the server's own parse of the stored upload
+  function handleCreate() {
+    if (!canProceed) return
+
+    createBatchMutation.mutate({
+      importId: state.preview!.importId,
+      skipExisting: state.userChoice === 'skip',
+    })
+  }
+
   return (
     <Dialog open={open} onClose={onClose} size="lg">
       <DialogTitle>Import Monthly Owner Statements</DialogTitle>
@@ -429,7 +460,7 @@ export default function MonthlyImportModal({
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => setState(prev => ({ ...prev, month: null }))}
+                      onClick={() => setState(prev => ({ ...prev, month: null, preview: null }))}
                       className="text-xs"
                     >
                       Choose Different Month
@@ -461,35 +492,36 @@ export default function MonthlyImportModal({
             </div>
           )}
 
-          {/* Hostaway File Upload */}
+          {/* Reservation Export Upload */}
           <div>
             <label className="block text-sm font-medium mb-2">
-              Hostaway Data (.xlsx)
+              Reservation Export (.xlsx or .csv)
             </label>
             <div
               className="border-2 border-dashed border-zinc-300 rounded-lg p-6 text-center cursor-pointer hover:bg-zinc-50"
-              onDrop={handleHostawayDrop}
+              onDrop={handleFileDrop}
               onDragOver={(e) => e.preventDefault()}
               onClick={() => fileInputRef.current?.click()}
             >
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".xlsx"
+                accept=".xlsx,.csv"
                 className="hidden"
                 onChange={(e) => {
                   const file = e.target.files?.[0]
                   if (file) {
-                    setState(prev => ({ ...prev, hostawayFile: file, error: null }))
+                    handleFileSelected(file)
                   }
                 }}
               />
               <div className="text-zinc-500 mb-2">
-                Drag and drop your Hostaway Excel file here, or click to select
+                Drag and drop a Hostaway, Airbnb, VRBO, Guesty or OwnerRez
+                export here, or click to select
               </div>
-              {state.hostawayFile && (
+              {state.importFile && (
                 <div className="text-zinc-700 font-medium">
-                  {state.hostawayFile.name}
+                  {state.importFile.name}
                 </div>
               )}
             </div>
@@ -497,9 +529,173 @@ export default function MonthlyImportModal({
 
 
 
+          {/* Import Preview */}
+          {state.preview && (
+            <div className="space-y-4">
+              <div className="text-xs text-zinc-500">
+                Detected format: {state.preview.sourceLabel}
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="prorate-reservations"
+                  checked={state.preview.prorateReservations}
+                  disabled={importSettingsMutation.isPending}
+                  onCheckedChange={(checked) =>
+                    importSettingsMutation.mutate({ prorateReservations: checked === true })
+                  }
+                />
+                <Label htmlFor="prorate-reservations" className="text-sm">
+                  Split stays that cross months by night
+                </Label>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-2">
+                  Matched Properties ({state.preview.matched.length})
+                </h3>
+                {state.preview.matched.length === 0 ? (
+                  <div className="text-sm text-zinc-500">
+                    No listings in this file matched a property.
+                  </div>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto border rounded-lg">
+                    <table className="w-full text-xs">
+                      <thead className="bg-zinc-50 dark:bg-zinc-800/50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Property</th>
+                          <th className="px-3 py-2 text-right">Reservations</th>
+                          <th className="px-3 py-2 text-right">Gross Revenue</th>
+                          <th className="px-3 py-2 text-right">Host Fee</th>
+                          <th className="px-3 py-2 text-right">Platform Fee</th>
+                          <th className="px-3 py-2 text-right">Recurring Expenses</th>
+                          <th className="px-3 py-2 text-right">Grand Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {state.preview.matched.map((match) => (
+                          <tr key={match.propertyId} className="border-t">
+                            <td className="px-3 py-2">
+                              <div className="font-medium">{match.propertyName}</div>
+                              {match.listingNames.some(name => name !== match.propertyName) && (
+                                <div className="text-zinc-500">
+                                  {match.listingNames.join(', ')}
+                                </div>
+                              )}
+                              {match.hasExistingStatement && (
+                                <div className="text-yellow-700">
+                                  Has an existing statement
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              {match.reservationCount}
+                              {match.proratedStayCount > 0 && (
+                                <div className="text-zinc-500">
+                                  {match.proratedStayCount} split
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-right">{formatAmount(match.totals.grossRevenue)}</td>
+                            <td className="px-3 py-2 text-right">{formatAmount(match.totals.hostFee)}</td>
+                            <td className="px-3 py-2 text-right">{formatAmount(match.totals.platformFee)}</td>
+                            <td className="px-3 py-2 text-right">
+                              {match.recurringExpenses.length > 0 ? formatAmount(match.totals.totalExpenses) : '-'}
+                              {match.recurringExpenses.map((expense, index) => (
+                                <div key={index} className="text-zinc-500">
+                                  {expense.vendor}: {formatAmount(expense.amount)}
+                                </div>
+                              ))}
+                            </td>
+                            <td className="px-3 py-2 text-right font-medium">{formatAmount(match.totals.grandTotal)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              {state.preview.changes.length > 0 && (
+                <div className="border border-blue-300 bg-blue-50 rounded-lg p-3">
+                  <h3 className="text-sm font-medium text-blue-800">
+                    Changes to Existing Statements ({state.preview.changes.length})
+                  </h3>
+                  <p className="text-xs text-blue-700 mt-1">
+                    These stays were added, changed or cancelled since the
+                    statements were created. Applying updates only the ticked lines.
+                  </p>
+                  <ul className="mt-2 divide-y divide-blue-200 text-xs text-blue-900">
+                    {state.preview.changes.map((diff) => (
+                      <ReservationDiffRow
+                        key={diff.propertyId}
+                        diff={diff}
+                        skipped={skippedChanges}
+                        onToggle={toggleChange}
+                      />
+                    ))}
+                  </ul>
+                  <div className="mt-2 flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                      disabled={applyChangesMutation.isPending || selectedChanges.length === 0}
+                      onClick={() =>
+                        applyChangesMutation.mutate({
+                          importId: state.preview!.importId,
+                          changes: selectedChanges,
+                        })
+                      }
+                    >
+                      {applyChangesMutation.isPending ? 'Applying...' : 'Apply Changes'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {state.preview.unmatched.length > 0 && (
+                <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-3">
+                  <h3 className="text-sm font-medium text-yellow-800">
+                    Unmatched Listings ({state.preview.unmatched.length})
+                  </h3>
+                  <p className="text-xs text-yellow-700 mt-1">
+                    These reservations will not be imported. Map a listing to a
+                    property once and future imports will match it.
+                  </p>
+                  <ul className="mt-2 divide-y divide-yellow-200 text-xs text-yellow-800">
+                    {state.preview.unmatched.map((listing) => (
+                      <UnmatchedListingRow
+                        key={listing.listingName}
+                        listing={listing}
+                        source={state.preview!.source}
+                        properties={properties ?? []}
+                        onMapped={refreshPreview}
+                      />
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {state.preview.skipped.length > 0 && (
+                <div className="border border-zinc-200 rounded-lg p-3">
+                  <h3 className="text-sm font-medium">
+                    Skipped Rows ({state.preview.skipped.length})
+                  </h3>
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-zinc-600">
+                    {state.preview.skipped.map((row) => (
+                      <li key={row.rowNumber}>
+                        Row {row.rowNumber}
+                        {row.listingName ? ` (${row.listingName})` : ''}: {row.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Status Messages */}
-          {state.isParsing && (
-            <div className="text-blue-600 text-sm">Processing files...</div>
+          {(state.isReading || previewMutation.isPending) && (
+            <div className="text-blue-600 text-sm">Uploading and parsing file...</div>
           )}
           {state.error && <div className="text-red-600 text-sm">{state.error}</div>}
         </div>
@@ -508,18 +704,35 @@ export default function MonthlyImportModal({
         <Button variant="outline" onClick={onClose}>
           Cancel
         </Button>
-        <Button
-          variant="default"
-          disabled={
-            !canProceed ||
-            state.isParsing ||
-            createBatchMutation.isPending ||
-            isCheckingExisting
-          }
-          onClick={handleProcessAndCreate}
-        >
-          {createBatchMutation.isPending ? 'Creating...' : 'Create Statements'}
-        </Button>
+        {state.preview ? (
+          <Button
+            variant="default"
+            disabled={
+              !canProceed ||
+              state.preview.matched.length === 0 ||
+              createBatchMutation.isPending ||
+              isCheckingExisting
+            }
+            onClick={handleCreate}
+          >
+            {createBatchMutation.isPending
+              ? 'Creating...'
+              : `Create ${state.preview.matched.length} Statement${state.preview.matched.length !== 1 ? 's' : ''}`}
+          </Button>
+        ) : (
+          <Button
+            variant="default"
+            disabled={
+              !canPreview ||
+              state.isReading ||
+              previewMutation.isPending ||
+              isCheckingExisting
+            }
+            onClick={handlePreview}
+          >
+            {previewMutation.isPending ? 'Parsing...' : 'Preview Import'}
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   )
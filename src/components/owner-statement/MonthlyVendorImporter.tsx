@@ -1,5 +1,5 @@
 import { FilePlus } from 'lucide-react'
-import React, { useRef, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import {
   Button,
   Dialog,
@@ -8,11 +8,18 @@ import {
   DialogTitle,
   Input,
   Label,
+  Select,
 } from '~/components/ui'
 import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
-import type {
-  VendorImportPreviewResponse,
-  VendorImportConfirmResponse,
+import {
+  type VendorImportExpense,
+  type VendorImportPreviewResponse,
+  type VendorImportConfirmResponse,
+  type VendorImportJobStartResponse,
+  type VendorImportJobView,
+  VENDOR_IMPORT_JOB_STATUS_LABELS,
+  isVendorImportJobFinished,
+  summarizeVendorImportPreview,
 } from '~/lib/OwnerStatement/vendor-import'
 import { formatCurrency } from '~/lib/utils/format'
 import { tryCatch } from '~/lib/utils/try-catch'
@@ -36,7 +43,65 @@ export default function MonthlyVendorImporter({
   const [currentStep, setCurrentStep] = useState<ProcessingStep>('upload')
   const [processingMessage, setProcessingMessage] = useState('')
   const [previewData, setPreviewData] = useState<VendorImportPreviewResponse | null>(null)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [editingMatchIndex, setEditingMatchIndex] = useState<number | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const utils = api.useUtils()
+
+  const { data: categoryData } = api.expenseCategory.getMany.useQuery(undefined, {
+    enabled: isOpen,
+  })
+
+  // Imports started earlier for this month that haven't been confirmed yet
+  const { data: openJobs } = api.vendorImportJob.getOpenForMonth.useQuery(
+    { ownerStatementId: currentStatementId },
+    { enabled: isOpen && currentStep === 'upload' }
+  )
+
+  // Poll the running job until it is ready for review or fails
+  const { data: job } = api.vendorImportJob.get.useQuery(
+    { id: jobId ?? '' },
+    {
+      enabled: !!jobId && currentStep === 'ai-processing',
+      refetchInterval: (query) =>
+        query.state.data && isVendorImportJobFinished(query.state.data.status)
+          ? false
+          : 2000,
+    }
+  )
+
+  useEffect(() => {
+    if (!job || currentStep !== 'ai-processing') return
+
+    if (job.status === 'READY_FOR_REVIEW' && job.preview) {
+      setPreviewData({ success: true, preview: job.preview })
+      setCurrentStep('preview')
+    } else if (job.status === 'FAILED') {
+      ErrorToast(job.error ?? 'Failed to process invoice')
+      setJobId(null)
+      setCurrentStep('upload')
+    }
+  }, [job, currentStep])
+
+  const dismissJobMutation = api.vendorImportJob.dismiss.useMutation({
+    onSuccess: () => {
+      void utils.vendorImportJob.getOpenForMonth.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to dismiss import: ${error.message}`)
+    },
+  })
+
+  const handleResumeJob = (openJob: VendorImportJobView) => {
+    setJobId(openJob.id)
+    if (openJob.status === 'READY_FOR_REVIEW' && openJob.preview) {
+      setPreviewData({ success: true, preview: openJob.preview })
+      setCurrentStep('preview')
+    } else {
+      setProcessingMessage('Processing PDF with AI...')
+      setCurrentStep('ai-processing')
+    }
+  }
 
   // Get current statement to find the month
   const { data: currentStatement } = api.ownerStatement.getOne.useQuery(
@@ -88,6 +153,8 @@ export default function MonthlyVendorImporter({
     setCurrentStep('upload')
     setProcessingMessage('')
     setPreviewData(null)
+    setJobId(null)
+    setEditingMatchIndex(null)
   }
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -175,7 +242,7 @@ export default function MonthlyVendorImporter({
 
     const base64String = fileResult.data
 
-    // Step 2: Get preview from server
+    // Step 2: Queue background processing; the job is polled for the preview
     const result = await tryCatch(
       fetch('/api/vendor-import/process', {
         method: 'POST',
@@ -184,6 +251,7 @@ export default function MonthlyVendorImporter({
           currentStatementId,
           vendor,
           description,
+          fileName: selectedFile.name,
           pdfBase64: base64String,
         }),
       }).then(async (response) => {
@@ -201,17 +269,52 @@ export default function MonthlyVendorImporter({
       return
     }
 
-    const data = result.data as VendorImportPreviewResponse
+    const data = result.data as VendorImportJobStartResponse
 
     if (data.success) {
-      setPreviewData(data)
-      setCurrentStep('preview')
+      setJobId(data.jobId)
     } else {
       ErrorToast('Processing failed')
       setCurrentStep('upload')
     }
   }
 
+  const updatePreviewExpense = (
+    matchIndex: number,
+    expenseIndex: number,
+    changes: Partial<VendorImportExpense>
+  ) => {
+    setPreviewData((current) => {
+      if (!current) return current
+
+      const matched = current.preview.matched.map((match, i) =>
+        i !== matchIndex
+          ? match
+          : {
+              ...match,
+              expenses: match.expenses.map((expense, j) => {
+                if (j !== expenseIndex) return expense
+                const updated = { ...expense, ...changes }
+                // Quantity × unit price drives the amount when both are known
+                if (
+                  ('quantity' in changes || 'unitPrice' in changes) &&
+                  typeof updated.quantity === 'number' &&
+                  typeof updated.unitPrice === 'number'
+                ) {
+                  updated.amount = parseFloat((updated.quantity * updated.unitPrice).toFixed(2))
+                }
+                return updated
+              }),
+            }
+      )
+
+      return {
+        ...current,
+        preview: summarizeVendorImportPreview(matched, current.preview.unmatched),
+      }
+    })
+  }
+
   const handleConfirm = async () => {
     if (!previewData?.preview.matched.length) {
       ErrorToast('No matched properties to import')
@@ -227,6 +330,9 @@ export default function MonthlyVendorImporter({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           currentStatementId,
+          jobId: jobId ?? undefined,
+          sourceDocumentId: previewData.preview.sourceDocumentId,
+          importSource: 'VENDOR_PDF',
           approvedMatches: previewData.preview.matched,
         }),
       }).then(async (response) => {
@@ -248,6 +354,7 @@ export default function MonthlyVendorImporter({
 
     if (confirmData.success) {
       SuccessToast(`Successfully created ${confirmData.createdCount} expenses`)
+      void utils.vendorImportJob.getOpenForMonth.invalidate()
       setCurrentStep('complete')
       handleClose()
       onSuccess?.()
@@ -257,8 +364,8 @@ export default function MonthlyVendorImporter({
     }
   }
 
-  const isProcessing = ['ai-processing', 'confirming'].includes(currentStep)
-  const canClose = !isProcessing
+  // Background jobs keep running if the dialog is closed mid-processing
+  const canClose = currentStep !== 'confirming'
 
   return (
     <>
@@ -303,6 +410,51 @@ export default function MonthlyVendorImporter({
                   month.
                 </p>
 
+                {/* Open Imports */}
+                {openJobs && openJobs.length > 0 && (
+                  <div className="border border-zinc-200 rounded-lg p-3">
+                    <div className="text-sm font-medium mb-2">Imports in progress</div>
+                    <ul className="divide-y divide-zinc-100 text-xs">
+                      {openJobs.map((openJob) => (
+                        <li key={openJob.id} className="flex items-center justify-between gap-2 py-1.5">
+                          <div>
+                            <div className="font-medium">
+                              {openJob.vendor} – {openJob.description}
+                            </div>
+                            <div className="text-muted-foreground">
+                              {openJob.fileName} • {VENDOR_IMPORT_JOB_STATUS_LABELS[openJob.status]}
+                              {openJob.error && `: ${openJob.error}`}
+                            </div>
+                          </div>
+                          <div className="flex gap-1">
+                            {openJob.status !== 'FAILED' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-xs"
+                                onClick={() => handleResumeJob(openJob)}
+                              >
+                                {openJob.status === 'READY_FOR_REVIEW' ? 'Review' : 'View Progress'}
+                              </Button>
+                            )}
+                            {isVendorImportJobFinished(openJob.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-xs"
+                                disabled={dismissJobMutation.isPending}
+                                onClick={() => dismissJobMutation.mutate({ id: openJob.id })}
+                              >
+                                Dismiss
+                              </Button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Vendor Input */}
                 <div>
                   <Label htmlFor="vendor">Vendor Name</Label>
@@ -406,8 +558,15 @@ export default function MonthlyVendorImporter({
                     {processingMessage}
                   </span>
                 </div>
+                {job && (
+                  <p className="text-sm text-blue-800 mb-1">
+                    {VENDOR_IMPORT_JOB_STATUS_LABELS[job.status]}
+                    {job.progressMessage && ` – ${job.progressMessage}`}
+                  </p>
+                )}
                 <p className="text-xs text-blue-600">
-                  AI is extracting expenses and matching properties. This may take 20-40 seconds.
+                  AI is extracting expenses and matching properties. Large invoices can take a few
+                  minutes. You can close this dialog and come back to review the results later.
                 </p>
               </div>
             )}
@@ -443,7 +602,7 @@ export default function MonthlyVendorImporter({
                     <div className="text-sm font-medium text-green-700 mb-2">
                       ✓ Matched Properties (Will be imported)
                     </div>
-                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
                       {previewData.preview.matched.map((match, index) => (
                         <div key={index} className="border border-green-200 bg-green-50 rounded p-3">
                           <div className="flex justify-between items-start mb-1">
@@ -462,6 +621,97 @@ export default function MonthlyVendorImporter({
                             Confidence: {Math.round(match.confidence * 100)}%
                             {match.reason && ` • ${match.reason}`}
                           </div>
+                          <button
+                            type="button"
+                            className="text-xs text-primary underline mt-1"
+                            onClick={() =>
+                              setEditingMatchIndex(editingMatchIndex === index ? null : index)
+                            }
+                          >
+                            {editingMatchIndex === index ? 'Hide line items' : 'Edit line items'}
+                          </button>
+                          {editingMatchIndex === index && (
+                            <div className="mt-2 space-y-1">
+                              <div className="grid grid-cols-12 gap-1 text-[10px] font-medium text-muted-foreground">
+                                <div className="col-span-4">Line item</div>
+                                <div className="col-span-2">Qty</div>
+                                <div className="col-span-2">Unit price</div>
+                                <div className="col-span-2">Amount</div>
+                                <div className="col-span-2">Category</div>
+                              </div>
+                              {match.expenses.map((expense, expenseIndex) => (
+                                <div key={expenseIndex} className="grid grid-cols-12 gap-1">
+                                  <Input
+                                    aria-label="Line item description"
+                                    value={expense.lineDescription ?? ''}
+                                    onChange={(e) =>
+                                      updatePreviewExpense(index, expenseIndex, {
+                                        lineDescription: e.target.value,
+                                      })
+                                    }
+                                    placeholder={expense.description}
+                                    wrapperClassName="col-span-4"
+                                    className="h-7 text-xs"
+                                  />
+                                  <Input
+                                    aria-label="Quantity"
+                                    type="number"
+                                    value={expense.quantity ?? ''}
+                                    onChange={(e) =>
+                                      updatePreviewExpense(index, expenseIndex, {
+                                        quantity: e.target.value === '' ? null : Number(e.target.value),
+                                      })
+                                    }
+                                    wrapperClassName="col-span-2"
+                                    className="h-7 text-xs"
+                                  />
+                                  <Input
+                                    aria-label="Unit price"
+                                    type="number"
+                                    step="0.01"
+                                    value={expense.unitPrice ?? ''}
+                                    onChange={(e) =>
+                                      updatePreviewExpense(index, expenseIndex, {
+                                        unitPrice: e.target.value === '' ? null : Number(e.target.value),
+                                      })
+                                    }
+                                    wrapperClassName="col-span-2"
+                                    className="h-7 text-xs"
+                                  />
+                                  <Input
+                                    aria-label="Amount"
+                                    type="number"
+                                    step="0.01"
+                                    value={expense.amount}
+                                    onChange={(e) =>
+                                      updatePreviewExpense(index, expenseIndex, {
+                                        amount: Number(e.target.value),
+                                      })
+                                    }
+                                    wrapperClassName="col-span-2"
+                                    className="h-7 text-xs"
+                                  />
+                                  <Select
+                                    aria-label="Category"
+                                    value={expense.category ?? ''}
+                                    onChange={(e) =>
+                                      updatePreviewExpense(index, expenseIndex, {
+                                        category: e.target.value || null,
+                                      })
+                                    }
+                                    className="col-span-2 h-7 text-xs"
+                                  >
+                                    <option value="">None</option>
+                                    {categoryData?.categories.map((category) => (
+                                      <option key={category.key} value={category.key}>
+                                        {category.name}
+                                      </option>
+                                    ))}
+                                  </Select>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
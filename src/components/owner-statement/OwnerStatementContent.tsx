@@ -1,8 +1,21 @@
-import { FileDown, MoreHorizontal, Trash2 } from 'lucide-react'
+import {
+  FileDown,
+  History,
+  MoreHorizontal,
+  PiggyBank,
+  Trash2,
+  Users,
+} from 'lucide-react'
 import { useMemo } from 'react'
-import { exportSingleOwnerStatement } from '~/components/owner-statement/ExportOwnerStatement'
+import {
+  exportCoOwnerStatements,
+  exportSingleOwnerStatement,
+} from '~/components/owner-statement/ExportOwnerStatement'
 import MonthlyVendorImporter from '~/components/owner-statement/MonthlyVendorImporter'
 import OwnerStatementReviewTable from '~/components/owner-statement/OwnerStatementReviewTable'
+import ReserveDrawdownDialog from '~/components/owner-statement/ReserveDrawdownDialog'
+import StatementHistoryPanel from '~/components/owner-statement/StatementHistoryPanel'
+import StatementStatusActions from '~/components/owner-statement/StatementStatusActions'
 import VendorExcelImporter from '~/components/owner-statement/VendorExcelImporter'
 import {
   Button,
@@ -19,8 +32,13 @@ import {
   DropdownMenuTrigger,
 } from '~/components/ui/dropdown-menu'
 import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { toReserveStatus } from '~/lib/OwnerStatement/owner-reserve'
+import { splitAmount } from '~/lib/OwnerStatement/ownership-split'
+import { isStatementLocked } from '~/lib/OwnerStatement/statement-status'
+import { useExpenseCategoryNames } from '~/lib/hooks/useExpenseCategoryNames'
 import { useToggle } from '~/lib/hooks/useToggle'
 import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
 import { api } from '~/trpc/react'
 
 interface OwnerStatementContentProps {
@@ -54,6 +72,7 @@ function transformStatementData(statement: any) {
           ? income.days
           : Number(income.days || 0),
       grossRevenue: convertDecimal(income.grossRevenue),
+      cleaningFee: convertDecimal(income.cleaningFee),
       hostFee: convertDecimal(income.hostFee),
       platformFee: convertDecimal(income.platformFee),
       grossIncome: convertDecimal(income.grossIncome),
@@ -85,6 +104,8 @@ export default function OwnerStatementContent({
   onRefresh,
 }: OwnerStatementContentProps) {
   const [isDeleteDialogOpen, toggleDeleteDialog] = useToggle(false)
+  const [isHistoryOpen, toggleHistory] = useToggle(false)
+  const [isDrawdownOpen, toggleDrawdown] = useToggle(false)
 
   // Fetch statement data
   const {
@@ -104,6 +125,43 @@ export default function OwnerStatementContent({
     [statement]
   )
 
+  const { data: ownership } = api.ownerStatement.getOwnerShares.useQuery(
+    { id: statementId },
+    { enabled: !!statementId, refetchOnWindowFocus: false }
+  )
+
+  // Split the current grand total so the shares follow edits in the table
+  const grandTotal = Number(statement?.grandTotal?.toString() ?? 0) || 0
+  const coOwnerShares = useMemo(
+    () => splitAmount(grandTotal, ownership?.shares ?? []),
+    [grandTotal, ownership]
+  )
+
+  const expenseCategoryNames = useExpenseCategoryNames()
+
+  const { data: reserveStatus } = api.ownerStatement.getReserveStatus.useQuery(
+    { id: statementId },
+    { enabled: !!statementId, refetchOnWindowFocus: false }
+  )
+
+  // Contributions are rewritten on every edit, so read them off the statement
+  const reserve = useMemo(
+    () =>
+      reserveStatus && statement
+        ? toReserveStatus(
+            reserveStatus.target,
+            reserveStatus.openingBalance,
+            statement.adjustments
+          )
+        : null,
+    [reserveStatus, statement]
+  )
+  const hasReserve =
+    !!reserve && (reserve.target > 0 || reserve.openingBalance > 0)
+  const reserveAvailable = reserve
+    ? Math.max(reserve.openingBalance - reserve.drawdowns, 0)
+    : 0
+
   const deleteMutation = api.ownerStatement.delete.useMutation({
     onSuccess: () => {
       SuccessToast('Statement deleted successfully')
@@ -125,7 +183,23 @@ export default function OwnerStatementContent({
       ErrorToast('Statement data is not available for export.')
       return
     }
-    exportSingleOwnerStatement(statementData)
+    exportSingleOwnerStatement({
+      ...statementData,
+      reserve,
+      expenseCategoryNames,
+    })
+  }
+
+  const handleExportCoOwnerPdfs = () => {
+    if (!statementData) {
+      ErrorToast('Statement data is not available for export.')
+      return
+    }
+    exportCoOwnerStatements(
+      { ...statementData, grandTotal, reserve, expenseCategoryNames },
+      coOwnerShares
+    )
+    SuccessToast(`Exported ${coOwnerShares.length} co-owner statements`)
   }
 
 
@@ -148,6 +222,8 @@ export default function OwnerStatementContent({
     )
   }
 
+  const isLocked = isStatementLocked(statement.status)
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -161,20 +237,29 @@ export default function OwnerStatementContent({
               </Heading>
             </div>
             <div className="flex gap-2">
-              <MonthlyVendorImporter
-                currentStatementId={statementId}
-                onSuccess={() => {
-                  void refetch()
-                  onRefresh()
-                }}
-              />
-              <VendorExcelImporter
-                currentStatementId={statementId}
-                onSuccess={() => {
-                  void refetch()
-                  onRefresh()
-                }}
+              <StatementStatusActions
+                statementId={statementId}
+                status={statement.status}
+                onChanged={onRefresh}
               />
+              {!isLocked && (
+                <>
+                  <MonthlyVendorImporter
+                    currentStatementId={statementId}
+                    onSuccess={() => {
+                      void refetch()
+                      onRefresh()
+                    }}
+                  />
+                  <VendorExcelImporter
+                    currentStatementId={statementId}
+                    onSuccess={() => {
+                      void refetch()
+                      onRefresh()
+                    }}
+                  />
+                </>
+              )}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" className="text-xs py-1 h-7">
@@ -189,9 +274,31 @@ export default function OwnerStatementContent({
                     <FileDown className="w-4 h-4 mr-2" />
                     Export PDF
                   </DropdownMenuItem>
+                  {coOwnerShares.length > 1 && (
+                    <DropdownMenuItem
+                      onClick={handleExportCoOwnerPdfs}
+                      disabled={!statementData || isLoading}
+                    >
+                      <Users className="w-4 h-4 mr-2" />
+                      Export Co-owner PDFs
+                    </DropdownMenuItem>
+                  )}
+                  {hasReserve && !isLocked && (
+                    <DropdownMenuItem
+                      onClick={toggleDrawdown}
+                      disabled={reserveAvailable <= 0}
+                    >
+                      <PiggyBank className="w-4 h-4 mr-2" />
+                      Draw from Reserve
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={toggleHistory}>
+                    <History className="w-4 h-4 mr-2" />
+                    Change History
+                  </DropdownMenuItem>
                   <DropdownMenuItem
                     onClick={toggleDeleteDialog}
-                    disabled={deleteMutation.isPending}
+                    disabled={deleteMutation.isPending || isLocked}
                     className="text-red-600 dark:text-red-400"
                   >
                     <Trash2 className="w-4 h-4 mr-2" />
@@ -201,18 +308,57 @@ export default function OwnerStatementContent({
               </DropdownMenu>
             </div>
           </div>
+          {coOwnerShares.length > 1 && (
+            <div className="mt-1 text-xs text-muted-foreground">
+              {coOwnerShares
+                .map(
+                  (share) =>
+                    `${share.ownerName} ${share.percent}%: ${formatCurrency(share.amount, 'USD', { centsToDollars: false })}`
+                )
+                .join(' · ')}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4">
+        {isLocked && (
+          <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3 text-xs text-blue-800 dark:border-blue-900 dark:bg-blue-900/20 dark:text-blue-300">
+            This statement is locked. Reopen it with a reason to make changes.
+          </div>
+        )}
         <OwnerStatementReviewTable
           statementDraft={statementData}
-          readOnly={false}
+          readOnly={isLocked}
           statementId={statement.id}
         />
       </div>
 
+      <StatementHistoryPanel
+        statementId={statementId}
+        open={isHistoryOpen}
+        onClose={toggleHistory}
+        readOnly={isLocked}
+        onRestored={() => {
+          void refetch()
+          onRefresh()
+        }}
+      />
+
+      {isDrawdownOpen && statementData && (
+        <ReserveDrawdownDialog
+          statementId={statementId}
+          available={reserveAvailable}
+          expenses={statementData.expenses}
+          onClose={toggleDrawdown}
+          onDrawn={() => {
+            void refetch()
+            onRefresh()
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onClose={toggleDeleteDialog} size="sm">
         <DialogTitle>Confirm Delete</DialogTitle>
@@ -5,11 +5,15 @@ import {
   getCoreRowModel,
   useReactTable,
 } from '@tanstack/react-table'
-import { Plus, Trash2 } from 'lucide-react'
+import { Paperclip, Plus, Trash2 } from 'lucide-react'
 import {  useEffect, useMemo, useState } from 'react'
 import { DataTable } from '~/components/table/data-table'
-import { Button, Card, Input } from '~/components/ui'
+import { Button, Card, Input, Select } from '~/components/ui'
 import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import {
+  type ExpenseSourceLink,
+  getSourceDocumentUrl,
+} from '~/lib/OwnerStatement/source-document'
 import dayjs from '~/lib/utils/day'
 import { formatCurrency } from '~/lib/utils/format'
 import { api } from '~/trpc/react'
@@ -39,16 +43,19 @@ interface IncomeItem {
   platform: string | null
   guest: string | null
   grossRevenue: number | null
+  cleaningFee: number | null
   hostFee: number | null
   platformFee: number | null
   grossIncome: number | null
 }
 
-interface ExpenseItem {
+interface ExpenseItem extends ExpenseSourceLink {
   date: string | null | Date
   description: string | null
+  lineDescription?: string | null
   vendor: string | null
   amount: number | null
+  category?: string | null
   id?: string
 }
 
@@ -161,8 +168,9 @@ const createEditableCell = <TData extends { id?: string }>(
         }
       } else {
         if (
-          section === 'adjustments' &&
-          (field === 'checkIn' || field === 'checkOut') &&
+          ((section === 'adjustments' &&
+            (field === 'checkIn' || field === 'checkOut')) ||
+            (section === 'expenses' && field === 'lineDescription')) &&
           editValue.trim() === ''
         ) {
           processedValue = null
@@ -295,6 +303,71 @@ const createEditableCell = <TData extends { id?: string }>(
   return CellComponent
 }
 
+// Picked from the management group's categories. Uncategorised lines are
+// filled in from the vendor's earlier expenses when the vendor is entered.
+const ExpenseCategoryCell = ({
+  row,
+  table,
+}: {
+  row: Row<ExpenseItem>
+  table: Table<ExpenseItem>
+}) => {
+  const meta = table.options.meta as TableMeta | undefined
+  const { data: categoryData } = api.expenseCategory.getMany.useQuery()
+
+  const updateItemMutation = api.ownerStatement.updateItemField.useMutation({
+    onSuccess: () => {
+      SuccessToast('Updated successfully')
+      if (meta?.utils && meta.statementId) {
+        void meta.utils.ownerStatement.getOne.invalidate({ id: meta.statementId })
+      }
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update item: ${error.message}`)
+    },
+  })
+
+  const { id, category } = row.original
+  const categories = categoryData?.categories ?? []
+  const name = categories.find((item) => item.key === category)?.name ?? category
+
+  if (!meta || meta.readOnly || !meta.statementId || !id || id === 'temp-id') {
+    return (
+      <div className="px-2 py-1.5 text-right text-xs text-zinc-700 dark:text-zinc-300">
+        {name ?? <span className="text-zinc-400 dark:text-zinc-600">—</span>}
+      </div>
+    )
+  }
+
+  return (
+    <Select
+      aria-label="Category"
+      value={category ?? ''}
+      disabled={updateItemMutation.isPending}
+      onChange={(e) =>
+        updateItemMutation.mutate({
+          id,
+          section: 'expenses',
+          field: 'category',
+          value: e.target.value || null,
+        })
+      }
+      className="h-8 text-xs"
+    >
+      <option value="">None</option>
+      {categories.map((item) => (
+        <option key={item.key} value={item.key}>
+          {item.name}
+        </option>
+      ))}
+      {/* Categories since removed stay selectable on lines that have them */}
+      {category && !categories.some((item) => item.key === category) && (
+        <option value={category}>{category}</option>
+      )}
+    </Select>
+  )
+}
+
 export default function OwnerStatementReviewTable({
   statementDraft,
   readOnly = false,
@@ -316,6 +389,10 @@ export default function OwnerStatementReviewTable({
     (sum: number, i: any) => sum + (Number(i.grossRevenue) || 0),
     0
   )
+  const totalCleaningFee = incomes.reduce(
+    (sum: number, i: any) => sum + (Number(i.cleaningFee) || 0),
+    0
+  )
   const totalHostFee = incomes.reduce(
     (sum: number, i: any) => sum + (Number(i.hostFee) || 0),
     0
@@ -512,6 +589,11 @@ export default function OwnerStatementReviewTable({
         header: () => <div className="text-right">Gross Revenue</div>,
         cell: createEditableCell('number', true),
       },
+      {
+        accessorKey: 'cleaningFee',
+        header: () => <div className="text-right">Cleaning Fee</div>,
+        cell: createEditableCell('number', true),
+      },
       {
         accessorKey: 'hostFee',
         header: () => <div className="text-right">Host Fee</div>,
@@ -571,16 +653,52 @@ export default function OwnerStatementReviewTable({
         header: () => <div className="text-right">Description</div>,
         cell: createEditableCell('text', true),
       },
+      {
+        accessorKey: 'lineDescription',
+        header: () => <div className="text-right">Line Item</div>,
+        cell: createEditableCell('text', true),
+      },
       {
         accessorKey: 'vendor',
         header: () => <div className="text-right">Vendor</div>,
         cell: createEditableCell('text', true),
       },
+      {
+        id: 'category',
+        header: () => <div className="text-right">Category</div>,
+        cell: ({ row, table }: { row: Row<ExpenseItem>; table: Table<ExpenseItem> }) => (
+          <ExpenseCategoryCell row={row} table={table} />
+        ),
+      },
       {
         accessorKey: 'amount',
         header: () => <div className="text-right">Amount</div>,
         cell: createEditableCell('number', true),
       },
+      {
+        id: 'source',
+        header: () => <div className="text-right">Source</div>,
+        cell: ({ row }: { row: Row<ExpenseItem> }) => {
+          const { sourceDocument, sourceReference } = row.original
+          if (!sourceDocument) {
+            return <div className="text-right text-xs text-muted-foreground">-</div>
+          }
+          return (
+            <div className="text-right">
+              <a
+                href={getSourceDocumentUrl(sourceDocument.id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={sourceDocument.fileName}
+                className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <Paperclip className="w-3 h-3" />
+                {sourceReference ?? 'View'}
+              </a>
+            </div>
+          )
+        },
+      },
       ...(!readOnly
         ? [
             {
@@ -785,6 +903,14 @@ export default function OwnerStatementReviewTable({
                       centsToDollars: false,
                     })}
                   </td>
+                  <td
+                    className="px-3 py-2 text-right"
+                    style={{ width: '11.11%' }}
+                  >
+                    {formatCurrency(totalCleaningFee, 'USD', {
+                      centsToDollars: false,
+                    })}
+                  </td>
                   <td
                     className="px-3 py-2 text-right"
                     style={{ width: '11.11%' }}
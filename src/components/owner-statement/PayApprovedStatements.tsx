@@ -0,0 +1,355 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Input,
+  Label,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { type AchOriginator } from '~/lib/OwnerStatement/ach-file'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+import { api } from '~/trpc/react'
+
+interface PayApprovedStatementsProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialMonth: Date | null
+}
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+const emptyOriginator: AchOriginator = {
+  companyName: '',
+  companyId: '',
+  originRoutingNumber: '',
+  originBankName: '',
+}
+
+// Next weekday, the earliest a bank will settle a file uploaded today
+function nextBusinessDay() {
+  let day = dayjs().add(1, 'day')
+  while (day.day() === 0 || day.day() === 6) day = day.add(1, 'day')
+  return day.startOf('day').toDate()
+}
+
+function downloadAchFile(fileName: string, contents: string) {
+  const blob = new Blob([contents], { type: 'text/plain;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.setAttribute('href', url)
+  link.setAttribute('download', fileName)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export default function PayApprovedStatements({
+  open,
+  onOpenChange,
+  initialMonth,
+}: PayApprovedStatementsProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(initialMonth)
+  const [effectiveDate, setEffectiveDate] = useState<Date | null>(
+    nextBusinessDay
+  )
+  const [originator, setOriginator] = useState<AchOriginator>(emptyOriginator)
+  const utils = api.useUtils()
+
+  useEffect(() => {
+    if (open && initialMonth) {
+      setSelectedDate(initialMonth)
+    }
+  }, [open, initialMonth])
+
+  const month = selectedDate ? dayjs(selectedDate).format('YYYY-MM') : ''
+
+  const { data: savedOriginator } = api.ownerPayout.getAchOriginator.useQuery(
+    undefined,
+    { enabled: open }
+  )
+
+  useEffect(() => {
+    if (savedOriginator) setOriginator(savedOriginator)
+  }, [savedOriginator])
+
+  const { data: run, isLoading } = api.ownerPayout.getPayoutRun.useQuery(
+    { month },
+    { enabled: open && !!month }
+  )
+
+  const { data: batches } = api.ownerPayout.getBatches.useQuery(
+    { month },
+    { enabled: open && !!month }
+  )
+
+  const createBatchMutation = api.ownerPayout.createAchBatch.useMutation({
+    onSuccess: (batch) => {
+      downloadAchFile(batch.fileName, batch.fileContents)
+      SuccessToast(
+        `ACH file created: ${batch.entryCount} payout${batch.entryCount === 1 ? '' : 's'} totaling ${money(batch.totalAmount)}`
+      )
+      void utils.ownerPayout.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to create ACH file: ${error.message}`)
+    },
+  })
+
+  const handleDownload = async (batchId: string) => {
+    try {
+      const file = await utils.ownerPayout.getBatchFile.fetch({ id: batchId })
+      downloadAchFile(file.fileName, file.fileContents)
+    } catch (error) {
+      console.error('ACH Download Error:', error)
+      ErrorToast('Failed to download ACH file. Please check console.')
+    }
+  }
+
+  const setOriginatorField = (field: keyof AchOriginator, value: string) =>
+    setOriginator((current) => ({ ...current, [field]: value }))
+
+  const handleGenerate = () => {
+    if (!effectiveDate) {
+      ErrorToast('Select the date the payouts should settle')
+      return
+    }
+
+    createBatchMutation.mutate({ month, effectiveDate, originator })
+  }
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)} size="3xl">
+      <DialogTitle>Pay Approved Statements</DialogTitle>
+      <DialogBody>
+        <div className="space-y-4">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Creates a NACHA file paying every owner of an approved statement who
+            is set up for ACH. Upload the file to your bank, then mark the
+            payouts settled from each property&apos;s balance history.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Statement month</Label>
+              <DatePicker
+                selected={selectedDate ?? undefined}
+                onChange={(date: Date | null) => setSelectedDate(date)}
+                showMonthYearPicker
+                placeholderText="Select a month"
+              />
+            </div>
+            <div>
+              <Label>Settlement date</Label>
+              <DatePicker
+                selected={effectiveDate ?? undefined}
+                onChange={(date: Date | null) => setEffectiveDate(date)}
+                placeholderText="Effective entry date"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="ach-company-name">Company name</Label>
+              <Input
+                id="ach-company-name"
+                value={originator.companyName}
+                onChange={(e) =>
+                  setOriginatorField('companyName', e.target.value)
+                }
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ach-company-id">Company ID</Label>
+              <Input
+                id="ach-company-id"
+                value={originator.companyId}
+                onChange={(e) =>
+                  setOriginatorField('companyId', e.target.value)
+                }
+                placeholder="e.g., 1 followed by your EIN"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ach-bank-name">Your bank</Label>
+              <Input
+                id="ach-bank-name"
+                value={originator.originBankName}
+                onChange={(e) =>
+                  setOriginatorField('originBankName', e.target.value)
+                }
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ach-bank-routing">Your bank routing number</Label>
+              <Input
+                id="ach-bank-routing"
+                value={originator.originRoutingNumber}
+                onChange={(e) =>
+                  setOriginatorField('originRoutingNumber', e.target.value)
+                }
+                inputMode="numeric"
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {month && isLoading && (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+              Loading approved statements...
+            </p>
+          )}
+
+          {run &&
+            (run.statements.length === 0 ? (
+              <p className="text-sm text-yellow-600 dark:text-yellow-500">
+                No approved statements for{' '}
+                {dayjs(selectedDate).format('MMMM YYYY')}.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500">
+                    <th className="py-1 font-medium">Property</th>
+                    <th className="py-1 font-medium">Owner</th>
+                    <th className="py-1 text-right font-medium">Grand Total</th>
+                    <th className="py-1 text-right font-medium">Paid</th>
+                    <th className="py-1 text-right font-medium">To Pay</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+                  {run.statements.map((statement) => {
+                    const { reconciliation } = statement
+                    const flagged =
+                      reconciliation.isOverpaid ||
+                      reconciliation.hasDuplicatePayout
+
+                    return (
+                      <tr key={statement.statementId} className="align-top">
+                        <td className="py-1">
+                          {statement.propertyName}
+                          {flagged && (
+                            <div className="text-xs font-medium text-red-600 dark:text-red-400">
+                              {reconciliation.isOverpaid
+                                ? 'Paid twice? Paid more than the grand total'
+                                : 'Possible duplicate payout'}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-1">
+                          {statement.lines.length === 0 ? (
+                            <span className="text-xs text-yellow-600 dark:text-yellow-500">
+                              No owner on file
+                            </span>
+                          ) : (
+                            statement.lines.map((line) => (
+                              <div key={line.ownerId}>
+                                {line.ownerName}
+                                {line.accountLast4 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    {' '}
+                                    ····{line.accountLast4}
+                                  </span>
+                                )}
+                                {line.skipReason && (
+                                  <span className="text-xs text-yellow-600 dark:text-yellow-500">
+                                    {' '}
+                                    · {line.skipReason}
+                                  </span>
+                                )}
+                              </div>
+                            ))
+                          )}
+                        </td>
+                        <td className="py-1 text-right">
+                          {money(reconciliation.grandTotal)}
+                        </td>
+                        <td
+                          className={`py-1 text-right ${flagged ? 'text-red-600 dark:text-red-400' : ''}`}
+                        >
+                          {money(reconciliation.paid)}
+                        </td>
+                        <td className="py-1 text-right">
+                          {statement.lines.map((line) => (
+                            <div
+                              key={line.ownerId}
+                              className={
+                                line.skipReason ? 'text-muted-foreground' : ''
+                              }
+                            >
+                              {money(line.amount)}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                  <tr className="font-semibold">
+                    <td className="py-1" colSpan={4}>
+                      ACH total ({run.readyCount} payout
+                      {run.readyCount === 1 ? '' : 's'})
+                    </td>
+                    <td className="py-1 text-right">{money(run.readyTotal)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            ))}
+
+          {!!batches?.length && (
+            <div>
+              <Label>Files created for this month</Label>
+              <ul className="mt-1 space-y-1 text-sm">
+                {batches.map((batch) => (
+                  <li
+                    key={batch.id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span>
+                      {dayjs(batch.createdAt).format('MMM D, h:mm A')} ·{' '}
+                      {batch.entryCount} payouts · {money(batch.totalAmount)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      onClick={() => void handleDownload(batch.id)}
+                    >
+                      Download
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onOpenChange(false)}
+        >
+          Close
+        </Button>
+        <Button
+          variant="default"
+          disabled={!run?.readyCount || createBatchMutation.isPending}
+          onClick={handleGenerate}
+        >
+          {createBatchMutation.isPending ? 'Creating...' : 'Create ACH File'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
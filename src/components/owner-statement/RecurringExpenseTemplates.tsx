@@ -0,0 +1,432 @@
+'use client'
+
+import {
+  type RecurringExpenseAmountType,
+  type RecurringExpenseFrequency,
+} from '@prisma/client'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import {
+  RECURRING_EXPENSE_FREQUENCIES,
+  RECURRING_EXPENSE_FREQUENCY_LABELS,
+} from '~/lib/OwnerStatement/recurring-expense'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+import { type RecurringExpenseTemplateWithProperties } from '~/server/api/routers/recurringExpense'
+import { api } from '~/trpc/react'
+
+interface RecurringExpenseTemplatesProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface TemplateFormState {
+  propertyIds: string[]
+  vendor: string
+  description: string
+  amountType: RecurringExpenseAmountType
+  amount: string
+  category: string
+  frequency: RecurringExpenseFrequency
+  startMonth: Date | null
+  endMonth: Date | null
+}
+
+// Stored as calendar dates, so show them without a timezone shift
+const formatMonth = (date: Date) => dayjs.utc(date).format('MMM YYYY')
+
+function toFormState(
+  template: RecurringExpenseTemplateWithProperties | null
+): TemplateFormState {
+  return {
+    propertyIds:
+      template?.properties.map((property) => property.propertyId) ?? [],
+    vendor: template?.vendor ?? '',
+    description: template?.description ?? '',
+    amountType: template?.amountType ?? 'FIXED',
+    amount: template ? String(template.amount) : '',
+    category: template?.category ?? '',
+    frequency: template?.frequency ?? 'MONTHLY',
+    // Local dates for the month picker
+    startMonth: template
+      ? dayjs(dayjs.utc(template.startMonth).format('YYYY-MM-DD')).toDate()
+      : dayjs().startOf('month').toDate(),
+    endMonth: template?.endMonth
+      ? dayjs(dayjs.utc(template.endMonth).format('YYYY-MM-DD')).toDate()
+      : null,
+  }
+}
+
+function describeAmount(template: RecurringExpenseTemplateWithProperties) {
+  return template.amountType === 'FIXED'
+    ? formatCurrency(template.amount, 'USD', { centsToDollars: false })
+    : `${template.amount}% of income`
+}
+
+export default function RecurringExpenseTemplates({
+  open,
+  onOpenChange,
+}: RecurringExpenseTemplatesProps) {
+  const [editing, setEditing] = useState<
+    RecurringExpenseTemplateWithProperties | 'new' | null
+  >(null)
+  const [form, setForm] = useState<TemplateFormState>(() => toFormState(null))
+  const utils = api.useUtils()
+
+  const { data: templates, isLoading } = api.recurringExpense.getMany.useQuery(
+    undefined,
+    { enabled: open }
+  )
+  const { data: properties } = api.property.getMany.useQuery(undefined, {
+    enabled: open,
+  })
+  const { data: categoryData } = api.expenseCategory.getMany.useQuery(
+    undefined,
+    { enabled: open }
+  )
+
+  const onSuccess = () => {
+    SuccessToast(
+      editing === 'new' ? 'Recurring expense added' : 'Recurring expense saved'
+    )
+    void utils.recurringExpense.getMany.invalidate()
+    void utils.ownerStatement.getReservationImportPreview.invalidate()
+    setEditing(null)
+  }
+  const onError = (error: { message: string }) => {
+    ErrorToast(`Failed to save recurring expense: ${error.message}`)
+  }
+
+  const createMutation = api.recurringExpense.create.useMutation({
+    onSuccess,
+    onError,
+  })
+  const updateMutation = api.recurringExpense.update.useMutation({
+    onSuccess,
+    onError,
+  })
+  const deleteMutation = api.recurringExpense.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Recurring expense removed')
+      void utils.recurringExpense.getMany.invalidate()
+      void utils.ownerStatement.getReservationImportPreview.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove recurring expense: ${error.message}`)
+    },
+  })
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const startEditing = (
+    template: RecurringExpenseTemplateWithProperties | null
+  ) => {
+    setForm(toFormState(template))
+    setEditing(template ?? 'new')
+  }
+
+  const toggleProperty = (propertyId: string, checked: boolean) =>
+    setForm((prev) => ({
+      ...prev,
+      propertyIds: checked
+        ? [...prev.propertyIds, propertyId]
+        : prev.propertyIds.filter((id) => id !== propertyId),
+    }))
+
+  const handleSubmit = () => {
+    const amount = Number(form.amount)
+    if (!form.propertyIds.length) {
+      ErrorToast('Select at least one property')
+      return
+    }
+    if (!form.vendor.trim() || !form.description.trim()) {
+      ErrorToast('Enter a vendor and description')
+      return
+    }
+    if (isNaN(amount) || amount <= 0) {
+      ErrorToast('Enter an amount above 0')
+      return
+    }
+    if (!form.startMonth) {
+      ErrorToast('Select the first month')
+      return
+    }
+
+    const terms = {
+      propertyIds: form.propertyIds,
+      vendor: form.vendor,
+      description: form.description,
+      amountType: form.amountType,
+      amount,
+      category: form.category || null,
+      frequency: form.frequency,
+      startMonth: dayjs(form.startMonth).format('YYYY-MM'),
+      endMonth: form.endMonth ? dayjs(form.endMonth).format('YYYY-MM') : null,
+    }
+
+    if (editing && editing !== 'new') {
+      updateMutation.mutate({ id: editing.id, ...terms })
+    } else {
+      createMutation.mutate(terms)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)} size="3xl">
+      <DialogTitle>Recurring Expenses</DialogTitle>
+      <DialogBody>
+        {editing ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recurring-vendor">Vendor</Label>
+                <Input
+                  id="recurring-vendor"
+                  value={form.vendor}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, vendor: e.target.value }))
+                  }
+                  placeholder="e.g., Blue Water Pools"
+                />
+              </div>
+              <div>
+                <Label htmlFor="recurring-description">Description</Label>
+                <Input
+                  id="recurring-description"
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      description: e.target.value,
+                    }))
+                  }
+                  placeholder="e.g., Weekly pool service"
+                />
+              </div>
+              <div>
+                <Label htmlFor="recurring-amount-type">Amount</Label>
+                <div className="flex gap-2">
+                  <Select
+                    id="recurring-amount-type"
+                    value={form.amountType}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        amountType: e.target
+                          .value as RecurringExpenseAmountType,
+                      }))
+                    }
+                  >
+                    <option value="FIXED">Fixed ($)</option>
+                    <option value="PERCENT_OF_INCOME">% of income</option>
+                  </Select>
+                  <Input
+                    aria-label="Amount"
+                    type="number"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, amount: e.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="recurring-category">Category</Label>
+                <Select
+                  id="recurring-category"
+                  value={form.category}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      category: e.target.value,
+                    }))
+                  }
+                >
+                  <option value="">None</option>
+                  {categoryData?.categories.map((category) => (
+                    <option key={category.key} value={category.key}>
+                      {category.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="recurring-frequency">Frequency</Label>
+                <Select
+                  id="recurring-frequency"
+                  value={form.frequency}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      frequency: e.target.value as RecurringExpenseFrequency,
+                    }))
+                  }
+                >
+                  {RECURRING_EXPENSE_FREQUENCIES.map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {RECURRING_EXPENSE_FREQUENCY_LABELS[frequency]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>First month</Label>
+                  <DatePicker
+                    selected={form.startMonth ?? undefined}
+                    onChange={(date: Date | null) =>
+                      setForm((prev) => ({ ...prev, startMonth: date }))
+                    }
+                    showMonthYearPicker
+                    placeholderText="Start"
+                  />
+                </div>
+                <div>
+                  <Label>Last month</Label>
+                  <DatePicker
+                    selected={form.endMonth ?? undefined}
+                    onChange={(date: Date | null) =>
+                      setForm((prev) => ({ ...prev, endMonth: date }))
+                    }
+                    showMonthYearPicker
+                    isClearable
+                    placeholderText="No end"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label>Properties ({form.propertyIds.length} selected)</Label>
+              <div className="mt-1 max-h-48 space-y-1 overflow-y-auto rounded border border-zinc-200 p-2 dark:border-zinc-700">
+                {properties?.map((property) => (
+                  <div key={property.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`recurring-property-${property.id}`}
+                      checked={form.propertyIds.includes(property.id)}
+                      onCheckedChange={(checked) =>
+                        toggleProperty(property.id, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`recurring-property-${property.id}`}
+                      className="text-sm"
+                    >
+                      {property.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              Added to each selected property&apos;s statement when a
+              month&apos;s statements are created from a reservation import.
+              Percentages are taken from the statement&apos;s income.
+            </p>
+
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">
+                Loading recurring expenses...
+              </div>
+            ) : !templates?.length ? (
+              <p className="text-sm text-zinc-500">
+                No recurring expenses yet.
+              </p>
+            ) : (
+              <ul className="divide-y divide-zinc-200 text-sm dark:divide-zinc-800">
+                {templates.map((template) => (
+                  <li
+                    key={template.id}
+                    className="flex items-start justify-between gap-2 py-2"
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {template.vendor}
+                        <span className="ml-2 font-normal text-muted-foreground">
+                          {template.description}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {describeAmount(template)} ·{' '}
+                        {RECURRING_EXPENSE_FREQUENCY_LABELS[template.frequency]}{' '}
+                        from {formatMonth(template.startMonth)}
+                        {template.endMonth
+                          ? ` to ${formatMonth(template.endMonth)}`
+                          : ''}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {template.properties
+                          .map((property) => property.propertyName)
+                          .join(', ')}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        onClick={() => startEditing(template)}
+                        aria-label="Edit recurring expense"
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={() =>
+                          deleteMutation.mutate({ id: template.id })
+                        }
+                        disabled={deleteMutation.isPending}
+                        aria-label="Remove recurring expense"
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogBody>
+      <DialogActions>
+        {editing ? (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => setEditing(null)}
+              disabled={isPending}
+            >
+              Back
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={() => startEditing(null)}>
+              <Plus className="mr-1 size-4" /> Add Recurring Expense
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
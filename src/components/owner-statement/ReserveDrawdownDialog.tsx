@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { RESERVE_DRAWDOWN_DESCRIPTION } from '~/lib/OwnerStatement/owner-reserve'
+import { formatCurrency } from '~/lib/utils/format'
+import { api } from '~/trpc/react'
+
+interface ReserveDrawdownDialogProps {
+  statementId: string
+  available: number
+  expenses: Array<{
+    id: string
+    vendor: string
+    description: string
+    amount: number
+  }>
+  onClose: () => void
+  onDrawn?: () => void
+}
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+export default function ReserveDrawdownDialog({
+  statementId,
+  available,
+  expenses,
+  onClose,
+  onDrawn,
+}: ReserveDrawdownDialogProps) {
+  // Largest expenses first, since those are what the reserve is for
+  const [sortedExpenses] = useState(() =>
+    [...expenses].sort((a, b) => b.amount - a.amount)
+  )
+  const [expenseId, setExpenseId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState(RESERVE_DRAWDOWN_DESCRIPTION)
+  const utils = api.useUtils()
+
+  const drawMutation = api.ownerStatement.drawFromReserve.useMutation({
+    onSuccess: () => {
+      SuccessToast('Reserve drawdown recorded')
+      void utils.ownerStatement.getOne.invalidate({ id: statementId })
+      void utils.ownerStatement.getReserveStatus.invalidate({
+        id: statementId,
+      })
+      onDrawn?.()
+      onClose()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to draw from reserve: ${error.message}`)
+    },
+  })
+
+  const handleExpenseChange = (id: string) => {
+    setExpenseId(id)
+    const expense = sortedExpenses.find((item) => item.id === id)
+    if (!expense) return
+
+    setAmount(String(Math.min(expense.amount, available)))
+    setDescription(
+      `${RESERVE_DRAWDOWN_DESCRIPTION}: ${expense.vendor || expense.description}`
+    )
+  }
+
+  const handleSubmit = () => {
+    const value = Number(amount)
+
+    if (isNaN(value) || value <= 0) {
+      ErrorToast('Amount must be more than zero')
+      return
+    }
+    if (value > available) {
+      ErrorToast(`Only ${money(available)} is available in the reserve`)
+      return
+    }
+
+    drawMutation.mutate({
+      ownerStatementId: statementId,
+      amount: value,
+      description,
+    })
+  }
+
+  return (
+    <Dialog open onClose={onClose}>
+      <DialogTitle>Draw from Reserve</DialogTitle>
+      <DialogDescription>
+        Pays toward this statement&apos;s expenses from the property&apos;s
+        reserve. {money(available)} is available.
+      </DialogDescription>
+      <DialogBody>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="drawdown-expense">Expense</Label>
+            <Select
+              id="drawdown-expense"
+              value={expenseId}
+              onChange={(e) => handleExpenseChange(e.target.value)}
+              className="mt-1"
+            >
+              <option value="">Not tied to one expense</option>
+              {sortedExpenses.map((expense) => (
+                <option key={expense.id} value={expense.id}>
+                  {expense.vendor || expense.description} ·{' '}
+                  {money(expense.amount)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="drawdown-amount">Amount ($)</Label>
+            <Input
+              id="drawdown-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="drawdown-description">Statement line</Label>
+            <Input
+              id="drawdown-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={drawMutation.isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="default"
+          onClick={handleSubmit}
+          disabled={drawMutation.isPending}
+        >
+          {drawMutation.isPending ? 'Saving...' : 'Draw from Reserve'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,198 @@
+import type { Prisma } from '@prisma/client'
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import {
+  AUDIT_SECTION_LABELS,
+  type AuditSection,
+  CHANGE_SOURCE_LABELS,
+  getAuditFieldLabel,
+} from '~/lib/OwnerStatement/statement-audit'
+import dayjs from '~/lib/utils/day'
+import { api } from '~/trpc/react'
+
+interface StatementHistoryPanelProps {
+  statementId: string
+  open: boolean
+  onClose: () => void
+  readOnly?: boolean
+  onRestored?: () => void
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  CREATE: 'added',
+  UPDATE: 'changed',
+  DELETE: 'removed',
+}
+
+function formatValue(value: Prisma.JsonValue): string {
+  if (value === null || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// One-line summary of a created or removed row
+function describeItem(section: string, value: Prisma.JsonValue): string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ''
+  const parts =
+    section === 'incomes'
+      ? [value.guest, value.checkIn, value.grossIncome]
+      : section === 'expenses'
+        ? [value.vendor, value.description, value.amount]
+        : [value.description, value.amount]
+  return parts
+    .filter((part) => part !== null && part !== undefined && part !== '')
+    .map((part) => formatValue(part!))
+    .join(' · ')
+}
+
+export default function StatementHistoryPanel({
+  statementId,
+  open,
+  onClose,
+  readOnly = false,
+  onRestored,
+}: StatementHistoryPanelProps) {
+  const [restoreTarget, setRestoreTarget] = useState<string | null>(null)
+
+  const utils = api.useUtils()
+
+  // Edits happen elsewhere on the page, so always refetch when opened
+  const { data: history, isLoading } = api.ownerStatement.getHistory.useQuery(
+    { id: statementId },
+    { enabled: open && !!statementId, staleTime: 0 }
+  )
+
+  const restoreMutation = api.ownerStatement.restoreRevision.useMutation({
+    onSuccess: () => {
+      SuccessToast('Statement restored')
+      setRestoreTarget(null)
+      void utils.ownerStatement.getOne.invalidate({ id: statementId })
+      void utils.ownerStatement.getHistory.invalidate({ id: statementId })
+      onRestored?.()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to restore statement: ${error.message}`)
+    },
+  })
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} size="2xl">
+        <DialogTitle>Change History</DialogTitle>
+        <DialogDescription>
+          Every change to incomes, expenses, adjustments and notes. Restoring
+          puts the statement back the way it was before the selected change.
+        </DialogDescription>
+        <DialogBody>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : !history?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No changes recorded yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {history.map((revision) => (
+                <li key={revision.id} className="py-3 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium">
+                        {CHANGE_SOURCE_LABELS[revision.source]}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {revision.changedByName} ·{' '}
+                        {dayjs(revision.changedAt).format('MMM D, YYYY h:mm A')}
+                      </div>
+                    </div>
+                    {!readOnly && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setRestoreTarget(revision.id)}
+                        disabled={restoreMutation.isPending}
+                        className="text-xs py-1 h-7"
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {revision.entries.map((entry) => (
+                      <li key={entry.id}>
+                        <span className="text-muted-foreground">
+                          {AUDIT_SECTION_LABELS[entry.section as AuditSection]}{' '}
+                          {ACTION_LABELS[entry.action]}
+                        </span>{' '}
+                        {entry.action === 'UPDATE' ? (
+                          <>
+                            {getAuditFieldLabel(entry.field ?? '')}:{' '}
+                            <span className="line-through text-muted-foreground">
+                              {formatValue(entry.oldValue)}
+                            </span>{' '}
+                            → {formatValue(entry.newValue)}
+                          </>
+                        ) : (
+                          describeItem(
+                            entry.section,
+                            entry.action === 'CREATE'
+                              ? entry.newValue
+                              : entry.oldValue
+                          )
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogBody>
+        <DialogActions>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Restore Confirmation Dialog */}
+      <Dialog
+        open={!!restoreTarget}
+        onClose={() => setRestoreTarget(null)}
+        size="sm"
+      >
+        <DialogTitle>Restore Statement</DialogTitle>
+        <DialogDescription>
+          Incomes, expenses, adjustments and notes will be replaced with how
+          they were before this change. The restore itself is recorded in the
+          history and can be undone the same way.
+        </DialogDescription>
+        <DialogActions>
+          <Button
+            variant="outline"
+            onClick={() => setRestoreTarget(null)}
+            disabled={restoreMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="default"
+            onClick={() =>
+              restoreTarget &&
+              restoreMutation.mutate({ revisionId: restoreTarget })
+            }
+            disabled={restoreMutation.isPending}
+          >
+            {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,235 @@
+import type { OwnerStatementStatus } from '@prisma/client'
+import { useState } from 'react'
+import StatementStatusBadge from '~/components/owner-statement/StatementStatusBadge'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import {
+  STATEMENT_STATUS_LABELS,
+  getAllowedTransitions,
+  isReopenTransition,
+} from '~/lib/OwnerStatement/statement-status'
+import dayjs from '~/lib/utils/day'
+import { api } from '~/trpc/react'
+
+interface StatementStatusActionsProps {
+  statementId: string
+  status: OwnerStatementStatus
+  onChanged?: () => void
+}
+
+const ACTION_LABELS: Partial<
+  Record<`${OwnerStatementStatus}>${OwnerStatementStatus}`, string>
+> = {
+  'DRAFT>IN_REVIEW': 'Submit for Review',
+  'IN_REVIEW>DRAFT': 'Back to Draft',
+  'IN_REVIEW>APPROVED': 'Approve',
+  'APPROVED>SENT': 'Mark as Sent',
+}
+
+export default function StatementStatusActions({
+  statementId,
+  status,
+  onChanged,
+}: StatementStatusActionsProps) {
+  const [reopenTarget, setReopenTarget] = useState<OwnerStatementStatus | null>(
+    null
+  )
+  const [reason, setReason] = useState('')
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+
+  const utils = api.useUtils()
+
+  const { data: history } = api.ownerStatement.getStatusHistory.useQuery(
+    { id: statementId },
+    { enabled: !!statementId, refetchOnWindowFocus: false }
+  )
+
+  const updateStatusMutation = api.ownerStatement.updateStatus.useMutation({
+    onSuccess: (updated) => {
+      SuccessToast(
+        `Statement marked as ${STATEMENT_STATUS_LABELS[updated.status]}`
+      )
+      setReopenTarget(null)
+      setReason('')
+      void utils.ownerStatement.getOne.invalidate({ id: statementId })
+      void utils.ownerStatement.getStatusHistory.invalidate({
+        id: statementId,
+      })
+      onChanged?.()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update status: ${error.message}`)
+    },
+  })
+
+  const transitions = getAllowedTransitions(status)
+  const forwardTransitions = transitions.filter(
+    (to) => !isReopenTransition(status, to)
+  )
+  const reopenTransitions = transitions.filter((to) =>
+    isReopenTransition(status, to)
+  )
+  const lastChange = history?.[0]
+
+  const handleTransition = (to: OwnerStatementStatus) => {
+    updateStatusMutation.mutate({ id: statementId, status: to })
+  }
+
+  const handleReopen = () => {
+    if (!reopenTarget || !reason.trim()) return
+    updateStatusMutation.mutate({
+      id: statementId,
+      status: reopenTarget,
+      reason: reason.trim(),
+    })
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => setIsHistoryOpen(true)}
+        className="flex items-center gap-2 text-left"
+        aria-label="View status history"
+      >
+        <StatementStatusBadge status={status} />
+        {lastChange && (
+          <span className="hidden text-xs text-muted-foreground lg:inline">
+            by {lastChange.changedByName},{' '}
+            {dayjs(lastChange.changedAt).fromNow()}
+          </span>
+        )}
+      </button>
+
+      {forwardTransitions.map((to) => (
+        <Button
+          key={to}
+          variant={to === 'DRAFT' ? 'outline' : 'default'}
+          onClick={() => handleTransition(to)}
+          disabled={updateStatusMutation.isPending}
+          className="text-xs py-1 h-7"
+        >
+          {ACTION_LABELS[`${status}>${to}`] ?? STATEMENT_STATUS_LABELS[to]}
+        </Button>
+      ))}
+
+      {reopenTransitions.length > 0 && (
+        <Button
+          variant="outline"
+          onClick={() => setReopenTarget(reopenTransitions[0] ?? null)}
+          disabled={updateStatusMutation.isPending}
+          className="text-xs py-1 h-7"
+        >
+          Reopen
+        </Button>
+      )}
+
+      {/* Reopen Dialog */}
+      <Dialog
+        open={!!reopenTarget}
+        onClose={() => setReopenTarget(null)}
+        size="sm"
+      >
+        <DialogTitle>Reopen Statement</DialogTitle>
+        <DialogDescription>
+          This statement is {STATEMENT_STATUS_LABELS[status].toLowerCase()}.
+          Reopening unlocks it for edits and is recorded in its history.
+        </DialogDescription>
+        <DialogBody>
+          <div className="space-y-4">
+            <div>
+              <Label>Move back to</Label>
+              <div className="mt-1 flex gap-2">
+                {reopenTransitions.map((to) => (
+                  <Button
+                    key={to}
+                    variant={reopenTarget === to ? 'default' : 'outline'}
+                    onClick={() => setReopenTarget(to)}
+                    className="text-xs py-1 h-7"
+                  >
+                    {STATEMENT_STATUS_LABELS[to]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="reopen-reason">Reason</Label>
+              <Input
+                id="reopen-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Owner disputed cleaning charge"
+                className="mt-1"
+              />
+            </div>
+          </div>
+        </DialogBody>
+        <DialogActions>
+          <Button
+            variant="outline"
+            onClick={() => setReopenTarget(null)}
+            disabled={updateStatusMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="default"
+            onClick={handleReopen}
+            disabled={!reason.trim() || updateStatusMutation.isPending}
+          >
+            {updateStatusMutation.isPending ? 'Reopening...' : 'Reopen'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* History Dialog */}
+      <Dialog
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        size="md"
+      >
+        <DialogTitle>Status History</DialogTitle>
+        <DialogBody>
+          {!history?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No status changes yet. This statement is still a draft.
+            </p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {history.map((change) => (
+                <li key={change.id} className="py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <StatementStatusBadge status={change.fromStatus} />
+                    <span className="text-muted-foreground">→</span>
+                    <StatementStatusBadge status={change.toStatus} />
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {change.changedByName} ·{' '}
+                    {dayjs(change.changedAt).format('MMM D, YYYY h:mm A')}
+                  </div>
+                  {change.reason && (
+                    <div className="mt-1 text-xs">Reason: {change.reason}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogBody>
+        <DialogActions>
+          <Button variant="outline" onClick={() => setIsHistoryOpen(false)}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  )
+}
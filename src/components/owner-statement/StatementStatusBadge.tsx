@@ -0,0 +1,27 @@
+import type { OwnerStatementStatus } from '@prisma/client'
+import { Badge } from '~/components/ui'
+import {
+  STATEMENT_STATUS_BADGE_CLASSES,
+  STATEMENT_STATUS_LABELS,
+} from '~/lib/OwnerStatement/statement-status'
+import { cn } from '~/lib/utils/cn'
+
+export default function StatementStatusBadge({
+  status,
+  className,
+}: {
+  status: OwnerStatementStatus
+  className?: string
+}) {
+  return (
+    <Badge
+      className={cn(
+        'shadow-none',
+        STATEMENT_STATUS_BADGE_CLASSES[status],
+        className
+      )}
+    >
+      {STATEMENT_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import StatementStatusBadge from '~/components/owner-statement/StatementStatusBadge'
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogTitle,
+  Input,
+  Label,
+} from '~/components/ui'
+import { ErrorToast } from '~/components/ui/sonner'
+import {
+  DEFAULT_INCOME_DROP_PERCENT,
+  type VarianceFindingKind,
+} from '~/lib/OwnerStatement/statement-variance'
+import dayjs from '~/lib/utils/day'
+import { api } from '~/trpc/react'
+
+interface VarianceReviewChecklistProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialMonth: Date | null
+  onSelectStatement: (statementId: string) => void
+}
+
+const KIND_LABELS: Record<VarianceFindingKind, string> = {
+  INCOME_DROP: 'Income drop',
+  NEW_VENDOR: 'New vendor',
+  EXPENSE_ABOVE_RANGE: 'High expenses',
+  MISSING_RECURRING_EXPENSE: 'Missing expense',
+}
+
+export default function VarianceReviewChecklist({
+  open,
+  onOpenChange,
+  initialMonth,
+  onSelectStatement,
+}: VarianceReviewChecklistProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(initialMonth)
+  const [incomeDropPercent, setIncomeDropPercent] = useState(
+    DEFAULT_INCOME_DROP_PERCENT
+  )
+  const utils = api.useUtils()
+
+  useEffect(() => {
+    if (open && initialMonth) {
+      setSelectedDate(initialMonth)
+    }
+  }, [open, initialMonth])
+
+  const month = selectedDate ? dayjs(selectedDate).format('YYYY-MM') : ''
+
+  const { data: reviews, isLoading } = api.statementVariance.getMany.useQuery(
+    { month, incomeDropPercent },
+    { enabled: open && !!month }
+  )
+
+  const setCheckedMutation = api.statementVariance.setChecked.useMutation({
+    onSuccess: () => {
+      void utils.statementVariance.getMany.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update the checklist: ${error.message}`)
+    },
+  })
+
+  const findingCount =
+    reviews?.reduce((sum, review) => sum + review.findings.length, 0) ?? 0
+  const checkedCount =
+    reviews?.reduce(
+      (sum, review) =>
+        sum + review.findings.filter((finding) => finding.isChecked).length,
+      0
+    ) ?? 0
+
+  return (
+    <Dialog open={open} onClose={() => onOpenChange(false)} size="3xl">
+      <DialogTitle>Variance Review</DialogTitle>
+      <DialogBody>
+        <div className="space-y-4">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Each statement compared with the property&apos;s earlier months and
+            the same month last year. Tick off each finding once you&apos;ve
+            looked into it, before approving the statement.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Statement month</Label>
+              <DatePicker
+                selected={selectedDate ?? undefined}
+                onChange={(date: Date | null) => setSelectedDate(date)}
+                showMonthYearPicker
+                placeholderText="Select a month"
+              />
+            </div>
+            <div>
+              <Label htmlFor="variance-income-drop">
+                Flag income drops above (%)
+              </Label>
+              <Input
+                id="variance-income-drop"
+                type="number"
+                min={0}
+                max={100}
+                value={incomeDropPercent}
+                onChange={(e) =>
+                  setIncomeDropPercent(
+                    Math.min(Math.max(Number(e.target.value) || 0, 0), 100)
+                  )
+                }
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {month && isLoading && (
+            <div className="text-sm text-muted-foreground">
+              Checking statements...
+            </div>
+          )}
+
+          {reviews && !reviews.length && (
+            <p className="text-sm text-zinc-500">
+              Nothing out of line for this month.
+            </p>
+          )}
+
+          {!!reviews?.length && (
+            <>
+              <div className="text-sm font-medium">
+                {checkedCount} of {findingCount} finding
+                {findingCount === 1 ? '' : 's'} reviewed
+              </div>
+              <div className="max-h-[28rem] space-y-4 overflow-y-auto">
+                {reviews.map((review) => (
+                  <div
+                    key={review.statementId}
+                    className="rounded border border-zinc-200 p-3 dark:border-zinc-700"
+                  >
+                    <div className="mb-2 flex items-center justify-between">
+                      <button
+                        type="button"
+                        className="text-sm font-semibold hover:underline"
+                        onClick={() => {
+                          onSelectStatement(review.statementId)
+                          onOpenChange(false)
+                        }}
+                      >
+                        {review.propertyName}
+                      </button>
+                      <StatementStatusBadge status={review.status} />
+                    </div>
+                    <ul className="space-y-2">
+                      {review.findings.map((finding) => {
+                        const id = `${review.statementId}-${finding.key}`
+                        return (
+                          <li key={finding.key} className="flex gap-2">
+                            <Checkbox
+                              id={id}
+                              checked={finding.isChecked}
+                              disabled={setCheckedMutation.isPending}
+                              onCheckedChange={(checked) =>
+                                setCheckedMutation.mutate({
+                                  statementId: review.statementId,
+                                  findingKey: finding.key,
+                                  checked: checked === true,
+                                })
+                              }
+                            />
+                            <Label
+                              htmlFor={id}
+                              className={
+                                finding.isChecked
+                                  ? 'text-sm text-zinc-400 line-through'
+                                  : 'text-sm'
+                              }
+                            >
+                              <span className="mr-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                                {KIND_LABELS[finding.kind]}
+                              </span>
+                              {finding.message}
+                            </Label>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -1,19 +1,39 @@
-import { FileSpreadsheet } from 'lucide-react'
+import { FileSpreadsheet, X } from 'lucide-react'
 import React, { useRef, useState } from 'react'
 import * as XLSX from 'xlsx'
 import {
   Button,
+  Checkbox,
   Dialog,
   DialogActions,
   DialogBody,
   DialogTitle,
+  Input,
   Label,
+  Select,
 } from '~/components/ui'
 import { SuccessToast, ErrorToast } from '~/components/ui/sonner'
 import type {
   VendorImportPreviewResponse,
   VendorImportConfirmResponse,
 } from '~/lib/OwnerStatement/vendor-import'
+import {
+  SIGN_CONVENTIONS,
+  SIGN_CONVENTION_LABELS,
+  VENDOR_DATE_FORMATS,
+  VENDOR_EXPENSE_FIELDS,
+  type SignConvention,
+  type VendorSheetLayout,
+  applySignConvention,
+  findMatchingProfile,
+  getMissingFields,
+  guessSheetLayout,
+  normalizeSheetHeaders,
+  parseVendorDate,
+  toSheetLayout,
+} from '~/lib/OwnerStatement/vendor-excel-profile'
+import { rowReference } from '~/lib/OwnerStatement/source-document'
+import { readFileAsBase64 } from '~/lib/utils/file'
 import { formatCurrency } from '~/lib/utils/format'
 import { api } from '~/trpc/react'
 
@@ -28,9 +48,10 @@ interface ExcelExpense {
   description: string
   vendor: string
   amount: number
+  sourceReference: string
 }
 
-type ProcessingStep = 'upload' | 'processing' | 'preview' | 'confirming' | 'complete'
+type ProcessingStep = 'upload' | 'mapping' | 'processing' | 'preview' | 'confirming' | 'complete'
 
 // Utility functions for Excel parsing
 const parseExcelCell = (cell: unknown): string => {
@@ -51,29 +72,24 @@ const parseExcelCell = (cell: unknown): string => {
   return ''
 }
 
-const validateHeaders = (headers: string[]): string[] => {
-  const required = ['property', 'date', 'description', 'vendor', 'amount']
-  const normalizedHeaders = headers.map((h) => h.toLowerCase().trim())
-
-  return required.filter(
-    (col) => !normalizedHeaders.some((h) => h.includes(col))
-  )
-}
-
 const parseExpenseRow = (
   row: unknown[],
-  columnIndices: Record<string, number>,
+  layout: VendorSheetLayout,
   rowIndex: number
 ): { expense?: ExcelExpense; error?: string } => {
   if (!row || !Array.isArray(row) || row.every((cell) => !cell)) {
     return {}
   }
 
-  const property = parseExcelCell(row[columnIndices.property!])
-  const date = parseExcelCell(row[columnIndices.date!])
-  const description = parseExcelCell(row[columnIndices.description!])
-  const vendor = parseExcelCell(row[columnIndices.vendor!])
-  const amountStr = parseExcelCell(row[columnIndices.amount!])
+  const { columnMapping } = layout
+  const cellAt = (index: number | null) =>
+    index === null ? '' : parseExcelCell(row[index])
+
+  const property = cellAt(columnMapping.property)
+  const date = cellAt(columnMapping.date)
+  const description = cellAt(columnMapping.description) || (layout.defaultDescription ?? '')
+  const vendor = cellAt(columnMapping.vendor) || (layout.vendorName ?? '')
+  const amountStr = cellAt(columnMapping.amount)
 
   // Validate required fields
   if (!property || !date || !description || !vendor || !amountStr) {
@@ -109,8 +125,15 @@ const parseExpenseRow = (
     return { error: `Row ${rowIndex}: Invalid amount "${amountStr}"` }
   }
 
-  // Just keep the date as-is from Excel
-  const formattedDate = date.trim()
+  // Keep the date as-is from Excel unless the layout says how to read it
+  let formattedDate = date.trim()
+  if (layout.dateFormat && columnMapping.date !== null) {
+    const parsedDate = parseVendorDate(row[columnMapping.date], layout.dateFormat)
+    if (!parsedDate) {
+      return { error: `Row ${rowIndex}: Date "${date}" does not match ${layout.dateFormat}` }
+    }
+    formattedDate = parsedDate
+  }
 
   // Basic validation - just check it's not empty
   if (!formattedDate) {
@@ -123,14 +146,15 @@ const parseExpenseRow = (
       date: formattedDate,
       description,
       vendor,
-      amount,
+      amount: applySignConvention(amount, layout.signConvention),
+      sourceReference: rowReference(rowIndex),
     },
   }
 }
 
-const parseExcelFile = async (
+const readSheetRows = async (
   file: File
-): Promise<{ expenses?: ExcelExpense[]; error?: string }> => {
+): Promise<{ rows?: unknown[][]; error?: string }> => {
   // Early validation - file size check
   const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
   if (file.size > MAX_FILE_SIZE) {
@@ -153,9 +177,9 @@ const parseExcelFile = async (
           return
         }
 
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 })
+        const rows: unknown[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 })
 
-        if (jsonData.length < 2) {
+        if (rows.length < 2) {
           resolve({
             error: 'Excel file needs at least 2 rows (headers + data)',
           })
@@ -163,65 +187,14 @@ const parseExcelFile = async (
         }
 
         // Early validation - row count check
-        if (jsonData.length > 1002) { // 1000 data rows + 2 for headers + buffer
+        if (rows.length > 1002) { // 1000 data rows + 2 for headers + buffer
           resolve({
             error: 'File has too many rows. Please limit to 1000 expense rows.',
           })
           return
         }
 
-        // Validate headers
-        const headers = (jsonData[0] as unknown[]).map((h) => parseExcelCell(h))
-        const missingColumns = validateHeaders(headers)
-
-        if (missingColumns.length > 0) {
-          resolve({ error: `Missing columns: ${missingColumns.join(', ')}` })
-          return
-        }
-
-        // Find column indices
-        const normalizedHeaders = headers.map((h) => h.toLowerCase().trim())
-        const columnIndices = {
-          property: normalizedHeaders.findIndex((h) => h.includes('property')),
-          date: normalizedHeaders.findIndex((h) => h.includes('date')),
-          description: normalizedHeaders.findIndex((h) =>
-            h.includes('description')
-          ),
-          vendor: normalizedHeaders.findIndex((h) => h.includes('vendor')),
-          amount: normalizedHeaders.findIndex((h) => h.includes('amount')),
-        }
-
-        // Parse rows
-        const expenses: ExcelExpense[] = []
-        const errors: string[] = []
-
-        for (let i = 1; i < jsonData.length; i++) {
-          const result = parseExpenseRow(
-            jsonData[i] as unknown[],
-            columnIndices,
-            i + 1
-          )
-
-          if (result.expense) {
-            expenses.push(result.expense)
-          } else if (result.error) {
-            errors.push(result.error)
-          }
-        }
-
-        if (errors.length > 0) {
-          resolve({
-            error: `Found ${errors.length} errors:\n${errors.slice(0, 3).join('\n')}${errors.length > 3 ? '\n...and more' : ''}`,
-          })
-          return
-        }
-
-        if (expenses.length === 0) {
-          resolve({ error: 'No valid expenses found' })
-          return
-        }
-
-        resolve({ expenses })
+        resolve({ rows })
       } catch (err) {
         resolve({ error: `Failed to parse Excel file ${err instanceof Error ? err.message : 'Unknown error'}` })
       }
@@ -232,6 +205,43 @@ const parseExcelFile = async (
   })
 }
 
+const parseExpenseRows = (
+  rows: unknown[][],
+  layout: VendorSheetLayout
+): { expenses?: ExcelExpense[]; error?: string } => {
+  const missingFields = getMissingFields(layout)
+  if (missingFields.length > 0) {
+    return { error: `Missing columns: ${missingFields.join(', ')}` }
+  }
+
+  const expenses: ExcelExpense[] = []
+  const errors: string[] = []
+
+  for (let i = layout.headerRowOffset + 1; i < rows.length; i++) {
+    const result = parseExpenseRow(rows[i]!, layout, i + 1)
+
+    if (result.expense) {
+      expenses.push(result.expense)
+    } else if (result.error) {
+      errors.push(result.error)
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      error: `Found ${errors.length} errors:\n${errors.slice(0, 3).join('\n')}${errors.length > 3 ? '\n...and more' : ''}`,
+    }
+  }
+
+  if (expenses.length === 0) {
+    return { error: 'No valid expenses found' }
+  }
+
+  return { expenses }
+}
+
+const columnLabel = (index: number) => XLSX.utils.encode_col(index)
+
 export default function VendorExcelImporter({
   currentStatementId,
   onSuccess,
@@ -243,6 +253,11 @@ export default function VendorExcelImporter({
   const [currentStep, setCurrentStep] = useState<ProcessingStep>('upload')
   const [previewData, setPreviewData] = useState<VendorImportPreviewResponse | null>(null)
   const [processingMessage, setProcessingMessage] = useState('')
+  const [sheetRows, setSheetRows] = useState<unknown[][]>([])
+  const [layout, setLayout] = useState<VendorSheetLayout | null>(null)
+  const [activeProfile, setActiveProfile] = useState<{ id: string; name: string } | null>(null)
+  const [saveProfile, setSaveProfile] = useState(false)
+  const [profileName, setProfileName] = useState('')
 
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -266,6 +281,22 @@ export default function VendorExcelImporter({
 
   const importMutation = api.ownerStatement.importVendorExpensesFromExcel.useMutation()
 
+  const utils = api.useUtils()
+  const { data: profiles } = api.vendorImportProfile.getMany.useQuery(undefined, {
+    enabled: isOpen,
+  })
+  const createProfileMutation = api.vendorImportProfile.create.useMutation()
+  const updateProfileMutation = api.vendorImportProfile.update.useMutation()
+  const deleteProfileMutation = api.vendorImportProfile.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Mapping profile deleted')
+      void utils.vendorImportProfile.getMany.invalidate()
+    },
+    onError: (err) => {
+      ErrorToast(`Failed to delete mapping profile: ${err.message}`)
+    },
+  })
+
   const handleClose = () => {
     setIsOpen(false)
     setFile(null)
@@ -274,6 +305,11 @@ export default function VendorExcelImporter({
     setCurrentStep('upload')
     setPreviewData(null)
     setProcessingMessage('')
+    setSheetRows([])
+    setLayout(null)
+    setActiveProfile(null)
+    setSaveProfile(false)
+    setProfileName('')
   }
 
   const handleFileChange = async (newFile: File | null) => {
@@ -289,28 +325,113 @@ export default function VendorExcelImporter({
     setProcessingMessage('Parsing Excel file...')
     setError(null)
 
-    const result = await parseExcelFile(newFile)
+    const result = await readSheetRows(newFile)
+
+    if (!result.rows) {
+      setError(result.error ?? 'Unable to read Excel file')
+      setCurrentStep('upload')
+      return
+    }
+
+    setSheetRows(result.rows)
+
+    // A saved profile for this header layout wins over guessing from headers
+    const profile = findMatchingProfile(result.rows, profiles ?? [])
+    if (profile) {
+      setActiveProfile({ id: profile.id, name: profile.name })
+      setProfileName(profile.name)
+      await importWithLayout(result.rows, toSheetLayout(profile), newFile)
+      return
+    }
+
+    const guessed = guessSheetLayout(result.rows)
+    if (getMissingFields(guessed).length > 0) {
+      setLayout(guessed)
+      setCurrentStep('mapping')
+      return
+    }
+
+    await importWithLayout(result.rows, guessed, newFile)
+  }
+
+  // The file is passed along since state set while handling the upload isn't visible yet
+  const importWithLayout = async (
+    rows: unknown[][],
+    sheetLayout: VendorSheetLayout,
+    sourceFile: File
+  ) => {
+    setLayout(sheetLayout)
+    const result = parseExpenseRows(rows, sheetLayout)
 
     if (result.error) {
+      // Let the user fix the mapping rather than starting over
       setError(result.error)
-      setCurrentStep('upload')
+      setCurrentStep('mapping')
       return
     }
 
     if (result.expenses) {
       setExpenses(result.expenses)
       // Automatically get preview after parsing
-      await getPreview(result.expenses)
+      await getPreview(result.expenses, sourceFile)
     }
   }
 
-     const getPreview = async (expenseData: ExcelExpense[]) => {
+  const updateLayout = (changes: Partial<VendorSheetLayout>) => {
+    setLayout((prev) => (prev ? { ...prev, ...changes } : prev))
+  }
+
+  const handleApplyMapping = async () => {
+    if (!layout || !file) return
+    setError(null)
+
+    if (saveProfile) {
+      if (!profileName.trim()) {
+        setError('Enter a name for the mapping profile')
+        return
+      }
+
+      const { columnMapping } = layout
+      if (columnMapping.property === null || columnMapping.date === null || columnMapping.amount === null) {
+        setError(`Missing columns: ${getMissingFields(layout).join(', ')}`)
+        return
+      }
+
+      const profileInput = {
+        ...layout,
+        name: profileName.trim(),
+        headers: normalizeSheetHeaders(sheetRows[layout.headerRowOffset]),
+        columnMapping: { ...columnMapping, property: columnMapping.property, date: columnMapping.date, amount: columnMapping.amount },
+      }
+
+      try {
+        const saved = activeProfile
+          ? await updateProfileMutation.mutateAsync({ id: activeProfile.id, ...profileInput })
+          : await createProfileMutation.mutateAsync(profileInput)
+        setActiveProfile({ id: saved.id, name: saved.name })
+        void utils.vendorImportProfile.getMany.invalidate()
+        SuccessToast(`Saved mapping profile "${saved.name}"`)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save mapping profile')
+        return
+      }
+    }
+
+    setCurrentStep('processing')
+    setProcessingMessage('Parsing Excel file...')
+    await importWithLayout(sheetRows, layout, file)
+  }
+
+     const getPreview = async (expenseData: ExcelExpense[], sourceFile: File) => {
      setCurrentStep('processing')
      setProcessingMessage('Matching properties with AI...')
 
      try {
+       // The original spreadsheet is kept so expenses can link back to their rows
        const previewResult = await importMutation.mutateAsync({
          currentStatementId,
+         fileName: sourceFile.name,
+         fileBase64: await readFileAsBase64(sourceFile),
          expenses: expenseData,
        })
 
@@ -342,6 +463,8 @@ export default function VendorExcelImporter({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           currentStatementId,
+          sourceDocumentId: previewData.preview.sourceDocumentId,
+          importSource: 'VENDOR_EXCEL',
           approvedMatches: previewData.preview.matched,
         }),
       })
@@ -395,7 +518,7 @@ export default function VendorExcelImporter({
           <div className="space-y-4">
             {/* Progress Indicator */}
             <div className="flex items-center justify-between text-xs text-muted-foreground">
-              <span className={currentStep === 'upload' ? 'text-primary font-medium' : ''}>
+              <span className={['upload', 'mapping'].includes(currentStep) ? 'text-primary font-medium' : ''}>
                 1. Upload
               </span>
               <span className={currentStep === 'processing' ? 'text-primary font-medium' : ''}>
@@ -414,7 +537,9 @@ export default function VendorExcelImporter({
               <>
                 <p className="text-sm text-muted-foreground">
                   Upload an Excel file with columns:{' '}
-                  <strong>property, date, description, vendor, amount</strong>
+                  <strong>property, date, description, vendor, amount</strong>.
+                  Other layouts can be mapped by hand, and saved mapping
+                  profiles are applied automatically.
                 </p>
 
                 {/* Available Properties */}
@@ -431,6 +556,32 @@ export default function VendorExcelImporter({
                   </div>
                 )}
 
+                {/* Saved Mapping Profiles */}
+                {profiles && profiles.length > 0 && (
+                  <div className="text-xs">
+                    <div className="font-medium mb-1">Saved mapping profiles</div>
+                    <div className="flex flex-wrap gap-2">
+                      {profiles.map((profile) => (
+                        <span
+                          key={profile.id}
+                          className="inline-flex items-center gap-1 rounded border border-zinc-200 px-2 py-0.5"
+                        >
+                          {profile.name}
+                          <button
+                            type="button"
+                            onClick={() => deleteProfileMutation.mutate({ id: profile.id })}
+                            disabled={deleteProfileMutation.isPending}
+                            aria-label={`Delete mapping profile ${profile.name}`}
+                            className="text-muted-foreground hover:text-red-600"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* File Upload */}
                 <div>
                   <Label>Excel File</Label>
@@ -473,6 +624,145 @@ export default function VendorExcelImporter({
               </>
             )}
 
+            {/* Mapping Step */}
+            {currentStep === 'mapping' && layout && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Tell us which columns hold each field in{' '}
+                  <strong>{file?.name}</strong>. Save the layout as a profile and
+                  this vendor&apos;s files will import automatically next time.
+                </p>
+
+                {error && (
+                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                    <div className="text-sm text-red-800 dark:text-red-200 whitespace-pre-line">
+                      {error}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="vendor-header-row">Header row</Label>
+                    <Input
+                      id="vendor-header-row"
+                      type="number"
+                      min={1}
+                      value={layout.headerRowOffset + 1}
+                      onChange={(e) =>
+                        updateLayout({
+                          headerRowOffset: Math.max(0, (parseInt(e.target.value, 10) || 1) - 1),
+                        })
+                      }
+                      className="mt-1"
+                    />
+                  </div>
+                  {VENDOR_EXPENSE_FIELDS.map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`vendor-column-${field}`} className="capitalize">
+                        {field} column
+                      </Label>
+                      <Select
+                        id={`vendor-column-${field}`}
+                        value={layout.columnMapping[field] ?? ''}
+                        onChange={(e) =>
+                          updateLayout({
+                            columnMapping: {
+                              ...layout.columnMapping,
+                              [field]: e.target.value === '' ? null : Number(e.target.value),
+                            },
+                          })
+                        }
+                        className="mt-1"
+                      >
+                        <option value="">Not in sheet</option>
+                        {(sheetRows[layout.headerRowOffset] ?? []).map((header, index) => (
+                          <option key={index} value={index}>
+                            {columnLabel(index)}: {parseExcelCell(header) || '(blank)'}
+                          </option>
+                        ))}
+                      </Select>
+                    </div>
+                  ))}
+                  <div>
+                    <Label htmlFor="vendor-date-format">Date format</Label>
+                    <Select
+                      id="vendor-date-format"
+                      value={layout.dateFormat ?? ''}
+                      onChange={(e) => updateLayout({ dateFormat: e.target.value || null })}
+                      className="mt-1"
+                    >
+                      <option value="">Keep as written</option>
+                      {VENDOR_DATE_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {format}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="vendor-sign-convention">Amounts</Label>
+                    <Select
+                      id="vendor-sign-convention"
+                      value={layout.signConvention}
+                      onChange={(e) =>
+                        updateLayout({ signConvention: e.target.value as SignConvention })
+                      }
+                      className="mt-1"
+                    >
+                      {SIGN_CONVENTIONS.map((convention) => (
+                        <option key={convention} value={convention}>
+                          {SIGN_CONVENTION_LABELS[convention]}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="vendor-name">Vendor name</Label>
+                    <Input
+                      id="vendor-name"
+                      value={layout.vendorName ?? ''}
+                      onChange={(e) => updateLayout({ vendorName: e.target.value || null })}
+                      placeholder="Used when there is no vendor column"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="vendor-default-description">Default description</Label>
+                    <Input
+                      id="vendor-default-description"
+                      value={layout.defaultDescription ?? ''}
+                      onChange={(e) =>
+                        updateLayout({ defaultDescription: e.target.value || null })
+                      }
+                      placeholder="e.g., Monthly pool service"
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2 border-t pt-4">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={saveProfile}
+                      onCheckedChange={(checked) => setSaveProfile(checked === true)}
+                    />
+                    {activeProfile
+                      ? `Update saved profile "${activeProfile.name}"`
+                      : 'Save as a mapping profile'}
+                  </label>
+                  {saveProfile && (
+                    <Input
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="e.g., Blue Wave Pool Service"
+                      aria-label="Profile name"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Processing Step */}
             {currentStep === 'processing' && (
               <div className="p-6 bg-blue-50 border border-blue-200 rounded-lg text-center">
@@ -494,7 +784,25 @@ export default function VendorExcelImporter({
             {/* Preview Step */}
             {currentStep === 'preview' && previewData && (
               <div className="space-y-4">
-                <div className="text-sm font-medium">Preview Import Results</div>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-medium">Preview Import Results</div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {activeProfile
+                      ? `Mapping: ${activeProfile.name}`
+                      : 'Mapping: detected from headers'}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-xs"
+                      onClick={() => {
+                        setPreviewData(null)
+                        setCurrentStep('mapping')
+                      }}
+                    >
+                      Change mapping
+                    </Button>
+                  </div>
+                </div>
                 
                 {/* Summary */}
                 <div className="grid grid-cols-2 gap-4 p-3 bg-zinc-50 rounded-lg text-xs">
@@ -599,6 +907,16 @@ export default function VendorExcelImporter({
             {currentStep === 'preview' ? 'Cancel' : 'Close'}
           </Button>
 
+          {currentStep === 'mapping' && (
+            <Button
+              variant="default"
+              onClick={() => void handleApplyMapping()}
+              disabled={createProfileMutation.isPending || updateProfileMutation.isPending}
+            >
+              {saveProfile ? 'Save and Continue' : 'Continue'}
+            </Button>
+          )}
+
           {currentStep === 'preview' && (
             <Button
               variant="default"
@@ -0,0 +1,376 @@
+'use client'
+
+import { Ban, Check, Plus, X } from 'lucide-react'
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import StatementStatusBadge from '~/components/owner-statement/StatementStatusBadge'
+import {
+  Button,
+  Card,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+import { type BalanceLedgerRowWithPayouts } from '~/server/api/routers/ownerPayout'
+import { api } from '~/trpc/react'
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+function balanceClassName(value: number) {
+  return value < 0 ? 'text-red-600 dark:text-red-400' : ''
+}
+
+function PayoutDialog({
+  isOpen,
+  onClose,
+  propertyId,
+  row,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  propertyId: string
+  row: BalanceLedgerRowWithPayouts
+}) {
+  const [amount, setAmount] = useState(() =>
+    row.endingBalance > 0 ? String(row.endingBalance) : ''
+  )
+  const [method, setMethod] = useState<'ACH' | 'CHECK'>('CHECK')
+  const [paidAt, setPaidAt] = useState<Date | null>(() => new Date())
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const utils = api.useUtils()
+
+  const createMutation = api.ownerPayout.create.useMutation({
+    onSuccess: () => {
+      SuccessToast('Payout recorded')
+      void utils.ownerPayout.getBalanceLedger.invalidate({ propertyId })
+      onClose()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to record payout: ${error.message}`)
+    },
+  })
+
+  const handleSubmit = () => {
+    const value = Number(amount)
+
+    if (isNaN(value) || value <= 0) {
+      ErrorToast('Amount must be more than zero')
+      return
+    }
+    if (!paidAt) {
+      ErrorToast('Select the date the owner was paid')
+      return
+    }
+
+    createMutation.mutate({
+      ownerStatementId: row.statementId,
+      amount: value,
+      method,
+      paidAt,
+      reference,
+      notes,
+    })
+  }
+
+  return (
+    <Dialog open={isOpen} onClose={onClose}>
+      <DialogTitle>Record Payout</DialogTitle>
+      <DialogDescription>
+        Payment to the owner against the{' '}
+        {dayjs(row.statementMonth).format('MMMM YYYY')} statement.
+      </DialogDescription>
+      <DialogBody>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payout-amount">Amount ($)</Label>
+              <Input
+                id="payout-amount"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Paid on</Label>
+              <DatePicker
+                selected={paidAt ?? undefined}
+                onChange={(date) => setPaidAt(date)}
+                placeholderText="Payment date"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="payout-method">Method</Label>
+            <Select
+              id="payout-method"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as 'ACH' | 'CHECK')}
+              className="mt-1"
+            >
+              <option value="CHECK">Check</option>
+              <option value="ACH">ACH</option>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="payout-reference">Reference</Label>
+            <Input
+              id="payout-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="e.g., Check #1042"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="payout-notes">Notes</Label>
+            <Input
+              id="payout-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={createMutation.isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="default"
+          onClick={handleSubmit}
+          disabled={createMutation.isPending}
+        >
+          {createMutation.isPending ? 'Saving...' : 'Record Payout'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default function BalanceHistoryCard({
+  propertyId,
+}: {
+  propertyId: string
+}) {
+  const [payingRow, setPayingRow] =
+    useState<BalanceLedgerRowWithPayouts | null>(null)
+  const utils = api.useUtils()
+
+  const { data: ledger, isLoading } = api.ownerPayout.getBalanceLedger.useQuery(
+    { propertyId }
+  )
+
+  const { data: reserve } = api.property.getReserve.useQuery({ propertyId })
+
+  const statusMutation = api.ownerPayout.updateStatus.useMutation({
+    onSuccess: () => {
+      void utils.ownerPayout.getBalanceLedger.invalidate({ propertyId })
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to update payout: ${error.message}`)
+    },
+  })
+
+  const deleteMutation = api.ownerPayout.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Payout removed')
+      void utils.ownerPayout.getBalanceLedger.invalidate({ propertyId })
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove payout: ${error.message}`)
+    },
+  })
+
+  const currentBalance = ledger?.[0]?.endingBalance ?? 0
+
+  return (
+    <Card className="mt-6">
+      <div className="flex items-center justify-between border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Balance History
+        </h2>
+        <div className="flex gap-6 text-sm">
+          {!!reserve && (reserve.target > 0 || reserve.balance !== 0) && (
+            <span>
+              Reserve:{' '}
+              <span className="font-semibold">{money(reserve.balance)}</span>
+              {reserve.target > 0 && (
+                <span className="text-muted-foreground">
+                  {' '}
+                  of {money(reserve.target)}
+                </span>
+              )}
+            </span>
+          )}
+          {!!ledger?.length && (
+            <span>
+              Current balance:{' '}
+              <span
+                className={`font-semibold ${balanceClassName(currentBalance)}`}
+              >
+                {money(currentBalance)}
+              </span>
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="p-4 sm:p-6">
+        {isLoading ? (
+          <div className="h-12 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
+        ) : !ledger?.length ? (
+          <p className="text-sm text-muted-foreground">
+            No statements yet. Balances appear once statements are created.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="py-2 font-medium">Month</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 text-right font-medium">Beginning</th>
+                <th className="py-2 text-right font-medium">Statement Net</th>
+                <th className="py-2 text-right font-medium">Payouts</th>
+                <th className="py-2 text-right font-medium">Ending</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800">
+              {ledger.map((row) => (
+                <tr key={row.statementId} className="align-top">
+                  <td className="py-2">
+                    {dayjs(row.statementMonth).format('MMM YYYY')}
+                  </td>
+                  <td className="py-2">
+                    <StatementStatusBadge status={row.status} />
+                  </td>
+                  <td
+                    className={`py-2 text-right ${balanceClassName(row.beginningBalance)}`}
+                  >
+                    {money(row.beginningBalance)}
+                  </td>
+                  <td
+                    className={`py-2 text-right ${balanceClassName(row.statementNet)}`}
+                  >
+                    {money(row.statementNet)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {money(row.payouts)}
+                    {(row.reconciliation.isOverpaid ||
+                      row.reconciliation.hasDuplicatePayout) && (
+                      <div className="text-xs font-medium text-red-600 dark:text-red-400">
+                        {row.reconciliation.isOverpaid
+                          ? `Paid twice? ${money(row.reconciliation.paid)} paid against ${money(row.grandTotal)}`
+                          : 'Possible duplicate payout'}
+                      </div>
+                    )}
+                    {row.payoutRecords.map((payout) => (
+                      <div
+                        key={payout.id}
+                        className={`flex items-center justify-end gap-1 text-xs text-muted-foreground ${payout.status === 'FAILED' ? 'line-through' : ''}`}
+                      >
+                        {dayjs(payout.paidAt).format('MMM D')} ·{' '}
+                        {payout.method === 'ACH' ? 'ACH' : 'Check'}
+                        {payout.reference && ` · ${payout.reference}`} ·{' '}
+                        {money(payout.amount)}
+                        {payout.status !== 'PAID' &&
+                          ` (${payout.status.toLowerCase()})`}
+                        {payout.status === 'PENDING' && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                statusMutation.mutate({
+                                  id: payout.id,
+                                  status: 'PAID',
+                                })
+                              }
+                              disabled={statusMutation.isPending}
+                              aria-label="Mark payout settled"
+                              className="hover:text-green-600"
+                            >
+                              <Check className="size-3" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                statusMutation.mutate({
+                                  id: payout.id,
+                                  status: 'FAILED',
+                                })
+                              }
+                              disabled={statusMutation.isPending}
+                              aria-label="Mark payout failed"
+                              className="hover:text-red-600"
+                            >
+                              <Ban className="size-3" />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            deleteMutation.mutate({ id: payout.id })
+                          }
+                          disabled={deleteMutation.isPending}
+                          aria-label="Remove payout"
+                          className="hover:text-red-600"
+                        >
+                          <X className="size-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </td>
+                  <td
+                    className={`py-2 text-right font-medium ${balanceClassName(row.endingBalance)}`}
+                  >
+                    {money(row.endingBalance)}
+                  </td>
+                  <td className="py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      onClick={() => setPayingRow(row)}
+                      aria-label="Record payout"
+                    >
+                      <Plus className="size-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-3 text-xs text-muted-foreground">
+          A negative ending balance is carried into the next statement as a
+          &quot;Balance Carried Forward&quot; adjustment.
+        </p>
+      </div>
+      {payingRow && (
+        <PayoutDialog
+          key={payingRow.statementId}
+          isOpen
+          onClose={() => setPayingRow(null)}
+          propertyId={propertyId}
+          row={payingRow}
+        />
+      )}
+    </Card>
+  )
+}
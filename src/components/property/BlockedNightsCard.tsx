@@ -0,0 +1,180 @@
+'use client'
+
+import { type PropertyBlockReason } from '@prisma/client'
+import { Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import { Button, Card, Input, Label, Select } from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import dayjs from '~/lib/utils/day'
+import { api } from '~/trpc/react'
+
+const REASON_LABELS: Record<PropertyBlockReason, string> = {
+  OWNER_STAY: 'Owner stay',
+  MAINTENANCE: 'Maintenance',
+}
+
+// Stored as calendar dates, so show them without a timezone shift
+const formatDate = (date: Date) => dayjs.utc(date).format('MMM D, YYYY')
+
+export default function BlockedNightsCard({
+  propertyId,
+}: {
+  propertyId: string
+}) {
+  const [startDate, setStartDate] = useState<Date | null>(null)
+  const [endDate, setEndDate] = useState<Date | null>(null)
+  const [reason, setReason] = useState<PropertyBlockReason>('OWNER_STAY')
+  const [notes, setNotes] = useState('')
+  const utils = api.useUtils()
+
+  const { data: blocks, isLoading } = api.propertyBlock.getMany.useQuery({
+    propertyId,
+  })
+
+  const invalidate = () => {
+    void utils.propertyBlock.getMany.invalidate({ propertyId })
+    void utils.property.getPerformance.invalidate()
+  }
+
+  const createMutation = api.propertyBlock.create.useMutation({
+    onSuccess: () => {
+      SuccessToast('Blocked nights added')
+      setStartDate(null)
+      setEndDate(null)
+      setNotes('')
+      invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to block nights: ${error.message}`)
+    },
+  })
+
+  const deleteMutation = api.propertyBlock.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Blocked nights removed')
+      invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove blocked nights: ${error.message}`)
+    },
+  })
+
+  const handleAdd = () => {
+    if (!startDate || !endDate) {
+      ErrorToast('Select the first night and the day the block ends')
+      return
+    }
+    createMutation.mutate({
+      propertyId,
+      startDate,
+      endDate,
+      reason,
+      notes: notes.trim() || undefined,
+    })
+  }
+
+  return (
+    <Card className="mt-6">
+      <div className="border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Blocked Nights
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Owner stays and other nights guests can&apos;t book. They don&apos;t
+          count as available nights in occupancy and RevPAR.
+        </p>
+      </div>
+      <div className="space-y-4 p-4 sm:p-6">
+        {isLoading ? (
+          <div className="h-8 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
+        ) : !blocks?.length ? (
+          <p className="text-sm text-muted-foreground">No blocked nights.</p>
+        ) : (
+          <ul className="divide-y divide-zinc-200 text-sm dark:divide-zinc-800">
+            {blocks.map((block) => (
+              <li
+                key={block.id}
+                className="flex items-center justify-between gap-2 py-2"
+              >
+                <div>
+                  <div className="font-medium">
+                    {formatDate(block.startDate)} to {formatDate(block.endDate)}
+                    <span className="ml-2 font-normal text-muted-foreground">
+                      {dayjs
+                        .utc(block.endDate)
+                        .diff(dayjs.utc(block.startDate), 'day')}{' '}
+                      nights
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {REASON_LABELS[block.reason]}
+                    {block.notes ? ` · ${block.notes}` : ''}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate({ id: block.id })}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Remove blocked nights"
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          <div>
+            <Label>First night</Label>
+            <DatePicker
+              selected={startDate ?? undefined}
+              onChange={(date: Date | null) => setStartDate(date)}
+              placeholderText="Start"
+            />
+          </div>
+          <div>
+            <Label>Ends (check-out)</Label>
+            <DatePicker
+              selected={endDate ?? undefined}
+              onChange={(date: Date | null) => setEndDate(date)}
+              placeholderText="End"
+            />
+          </div>
+          <div>
+            <Label htmlFor="block-reason">Reason</Label>
+            <Select
+              id="block-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as PropertyBlockReason)}
+            >
+              {Object.entries(REASON_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="block-notes">Notes</Label>
+            <Input
+              id="block-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={createMutation.isPending}
+          >
+            <Plus className="mr-1 size-4" /> Block Nights
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,408 @@
+'use client'
+
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import {
+  Button,
+  Card,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { DEFAULT_MANAGEMENT_FEE_PERCENT } from '~/lib/OwnerStatement/management-fee'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+import { type ManagementAgreementWithUser } from '~/server/api/routers/managementAgreement'
+import { api } from '~/trpc/react'
+
+interface AgreementFormState {
+  feePercent: string
+  minimumMonthlyFee: string
+  excludeCleaningFees: boolean
+  deductPlatformFees: boolean
+  reserveTarget: string
+  effectiveFrom: Date | null
+  effectiveTo: Date | null
+  notes: string
+}
+
+function toFormState(
+  agreement: ManagementAgreementWithUser | null
+): AgreementFormState {
+  return {
+    feePercent: String(agreement?.feePercent ?? DEFAULT_MANAGEMENT_FEE_PERCENT),
+    minimumMonthlyFee: String(agreement?.minimumMonthlyFee ?? 0),
+    excludeCleaningFees: agreement?.excludeCleaningFees ?? false,
+    deductPlatformFees: agreement?.deductPlatformFees ?? false,
+    reserveTarget: String(agreement?.reserveTarget ?? 0),
+    effectiveFrom:
+      agreement?.effectiveFrom ?? dayjs().startOf('month').toDate(),
+    effectiveTo: agreement?.effectiveTo ?? null,
+    notes: agreement?.notes ?? '',
+  }
+}
+
+function describeFeeBase(agreement: ManagementAgreementWithUser) {
+  const exclusions = [
+    agreement.excludeCleaningFees && 'cleaning fees',
+    agreement.deductPlatformFees && 'platform fees',
+  ].filter(Boolean)
+
+  return exclusions.length > 0
+    ? `Gross revenue less ${exclusions.join(' and ')}`
+    : 'Gross revenue'
+}
+
+function AgreementDialog({
+  isOpen,
+  onClose,
+  propertyId,
+  agreement,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  propertyId: string
+  agreement: ManagementAgreementWithUser | null
+}) {
+  const [form, setForm] = useState<AgreementFormState>(() =>
+    toFormState(agreement)
+  )
+  const utils = api.useUtils()
+
+  const onSuccess = () => {
+    SuccessToast(agreement ? 'Agreement updated' : 'Agreement added')
+    void utils.managementAgreement.getMany.invalidate({ propertyId })
+    onClose()
+  }
+  const onError = (error: { message: string }) => {
+    ErrorToast(`Failed to save agreement: ${error.message}`)
+  }
+
+  const createMutation = api.managementAgreement.create.useMutation({
+    onSuccess,
+    onError,
+  })
+  const updateMutation = api.managementAgreement.update.useMutation({
+    onSuccess,
+    onError,
+  })
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const handleSubmit = () => {
+    const feePercent = Number(form.feePercent)
+    const minimumMonthlyFee = Number(form.minimumMonthlyFee || 0)
+    const reserveTarget = Number(form.reserveTarget || 0)
+
+    if (isNaN(feePercent) || isNaN(minimumMonthlyFee) || isNaN(reserveTarget)) {
+      ErrorToast('Fee, minimum and reserve target must be numbers')
+      return
+    }
+    if (!form.effectiveFrom) {
+      ErrorToast('Select the month the agreement starts')
+      return
+    }
+
+    const terms = {
+      feePercent,
+      minimumMonthlyFee,
+      excludeCleaningFees: form.excludeCleaningFees,
+      deductPlatformFees: form.deductPlatformFees,
+      reserveTarget,
+      effectiveFrom: form.effectiveFrom,
+      effectiveTo: form.effectiveTo,
+      notes: form.notes.trim() || undefined,
+    }
+
+    if (agreement) {
+      updateMutation.mutate({ id: agreement.id, ...terms })
+    } else {
+      createMutation.mutate({ propertyId, ...terms })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onClose={onClose}>
+      <DialogTitle>
+        {agreement ? 'Edit Management Agreement' : 'New Management Agreement'}
+      </DialogTitle>
+      <DialogDescription>
+        Fee terms apply to statements for months within the effective period.
+      </DialogDescription>
+      <DialogBody>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="agreement-fee-percent">Management fee (%)</Label>
+              <Input
+                id="agreement-fee-percent"
+                type="number"
+                step="0.01"
+                value={form.feePercent}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, feePercent: e.target.value }))
+                }
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="agreement-minimum-fee">Monthly minimum ($)</Label>
+              <Input
+                id="agreement-minimum-fee"
+                type="number"
+                step="0.01"
+                value={form.minimumMonthlyFee}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    minimumMonthlyFee: e.target.value,
+                  }))
+                }
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="agreement-reserve-target">Reserve target ($)</Label>
+            <Input
+              id="agreement-reserve-target"
+              type="number"
+              step="0.01"
+              value={form.reserveTarget}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, reserveTarget: e.target.value }))
+              }
+              className="mt-1"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Income is held back from payouts until the reserve reaches this
+              amount. Leave at 0 for no reserve.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fee base</Label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.excludeCleaningFees}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    excludeCleaningFees: checked === true,
+                  }))
+                }
+              />
+              Exclude cleaning fees
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.deductPlatformFees}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    deductPlatformFees: checked === true,
+                  }))
+                }
+              />
+              Deduct platform fees before calculating
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Effective from</Label>
+              <DatePicker
+                selected={form.effectiveFrom ?? undefined}
+                onChange={(date) =>
+                  setForm((prev) => ({ ...prev, effectiveFrom: date }))
+                }
+                showMonthYearPicker
+                placeholderText="Start month"
+              />
+            </div>
+            <div>
+              <Label>Effective through</Label>
+              <DatePicker
+                selected={form.effectiveTo ?? undefined}
+                onChange={(date) =>
+                  setForm((prev) => ({ ...prev, effectiveTo: date }))
+                }
+                showMonthYearPicker
+                isClearable
+                placeholderText="Ongoing"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="agreement-notes">Notes</Label>
+            <Input
+              id="agreement-notes"
+              value={form.notes}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, notes: e.target.value }))
+              }
+              placeholder="e.g., Renewed contract, signed 2025-01-05"
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button variant="outline" onClick={onClose} disabled={isPending}>
+          Cancel
+        </Button>
+        <Button variant="default" onClick={handleSubmit} disabled={isPending}>
+          {isPending ? 'Saving...' : 'Save Agreement'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default function ManagementAgreementCard({
+  propertyId,
+}: {
+  propertyId: string
+}) {
+  const [editing, setEditing] = useState<{
+    agreement: ManagementAgreementWithUser | null
+  } | null>(null)
+  const utils = api.useUtils()
+
+  const { data: agreements, isLoading } =
+    api.managementAgreement.getMany.useQuery({ propertyId })
+
+  const deleteMutation = api.managementAgreement.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Agreement removed')
+      void utils.managementAgreement.getMany.invalidate({ propertyId })
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove agreement: ${error.message}`)
+    },
+  })
+
+  return (
+    <Card className="mt-6">
+      <div className="flex items-center justify-between border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Management Agreement
+        </h2>
+        <Button
+          variant="outline"
+          onClick={() => setEditing({ agreement: null })}
+        >
+          <Plus className="mr-1 size-4" /> Add Agreement
+        </Button>
+      </div>
+      <div className="p-4 sm:p-6">
+        {isLoading ? (
+          <div className="h-12 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
+        ) : !agreements?.length ? (
+          <p className="text-sm text-muted-foreground">
+            No agreement on file. Statements use the default{' '}
+            {DEFAULT_MANAGEMENT_FEE_PERCENT}% of gross revenue.
+          </p>
+        ) : (
+          <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {agreements.map((agreement) => (
+              <li
+                key={agreement.id}
+                className="flex items-start justify-between gap-4 py-3"
+              >
+                <div className="grid flex-1 grid-cols-1 gap-4 sm:grid-cols-5">
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Fee
+                    </dt>
+                    <dd className="text-sm">{agreement.feePercent}%</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Monthly minimum
+                    </dt>
+                    <dd className="text-sm">
+                      {agreement.minimumMonthlyFee > 0
+                        ? formatCurrency(agreement.minimumMonthlyFee, 'USD', {
+                            centsToDollars: false,
+                          })
+                        : 'None'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Reserve target
+                    </dt>
+                    <dd className="text-sm">
+                      {agreement.reserveTarget > 0
+                        ? formatCurrency(agreement.reserveTarget, 'USD', {
+                            centsToDollars: false,
+                          })
+                        : 'None'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Fee base
+                    </dt>
+                    <dd className="text-sm">{describeFeeBase(agreement)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Effective
+                    </dt>
+                    <dd className="text-sm">
+                      {dayjs(agreement.effectiveFrom).format('MMM YYYY')} –{' '}
+                      {agreement.effectiveTo
+                        ? dayjs(agreement.effectiveTo).format('MMM YYYY')
+                        : 'Ongoing'}
+                    </dd>
+                  </div>
+                  {agreement.notes && (
+                    <p className="text-xs text-muted-foreground sm:col-span-5">
+                      {agreement.notes}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    onClick={() => setEditing({ agreement })}
+                    aria-label="Edit agreement"
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate({ id: agreement.id })}
+                    disabled={deleteMutation.isPending}
+                    aria-label="Remove agreement"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {editing && (
+        <AgreementDialog
+          key={editing.agreement?.id ?? 'new'}
+          isOpen
+          onClose={() => setEditing(null)}
+          propertyId={propertyId}
+          agreement={editing.agreement}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,286 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { type OwnerWithProperties } from '~/server/api/routers/owner'
+import { api } from '~/trpc/react'
+
+interface OwnerFormState {
+  name: string
+  email: string
+  phone: string
+  address: string
+  payoutMethod: 'ACH' | 'CHECK'
+  bankName: string
+  bankRoutingNumber: string
+  bankAccountNumber: string
+  bankAccountType: '' | 'checking' | 'savings'
+  taxIdType: '' | 'SSN' | 'EIN'
+  taxId: string
+}
+
+// Account number and tax ID start blank; leaving them blank keeps what is on file
+function toFormState(owner: OwnerWithProperties | null): OwnerFormState {
+  return {
+    name: owner?.name ?? '',
+    email: owner?.email ?? '',
+    phone: owner?.phone ?? '',
+    address: owner?.address ?? '',
+    payoutMethod: owner?.payoutMethod ?? 'CHECK',
+    bankName: owner?.bankName ?? '',
+    bankRoutingNumber: owner?.bankRoutingNumber ?? '',
+    bankAccountNumber: '',
+    bankAccountType:
+      owner?.bankAccountType === 'checking' ||
+      owner?.bankAccountType === 'savings'
+        ? owner.bankAccountType
+        : '',
+    taxIdType:
+      owner?.taxIdType === 'SSN' || owner?.taxIdType === 'EIN'
+        ? owner.taxIdType
+        : '',
+    taxId: '',
+  }
+}
+
+export default function OwnerFormDialog({
+  isOpen,
+  onClose,
+  owner,
+  onSaved,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  owner: OwnerWithProperties | null
+  onSaved?: (ownerId: string) => void
+}) {
+  const [form, setForm] = useState<OwnerFormState>(() => toFormState(owner))
+  const utils = api.useUtils()
+
+  const onSuccess = (ownerId: string) => {
+    SuccessToast(owner ? 'Owner updated' : 'Owner added')
+    void utils.owner.getMany.invalidate()
+    void utils.property.getOne.invalidate()
+    onSaved?.(ownerId)
+    onClose()
+  }
+  const onError = (error: { message: string }) => {
+    ErrorToast(`Failed to save owner: ${error.message}`)
+  }
+
+  const createMutation = api.owner.create.useMutation({ onSuccess, onError })
+  const updateMutation = api.owner.update.useMutation({ onSuccess, onError })
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const setField = <K extends keyof OwnerFormState>(
+    key: K,
+    value: OwnerFormState[K]
+  ) => setForm((prev) => ({ ...prev, [key]: value }))
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) {
+      ErrorToast('Owner name is required')
+      return
+    }
+
+    const details = {
+      ...form,
+      bankAccountType: form.bankAccountType || null,
+      taxIdType: form.taxIdType || null,
+    }
+
+    if (owner) {
+      updateMutation.mutate({ id: owner.id, ...details })
+    } else {
+      createMutation.mutate(details)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} size="2xl">
+      <DialogTitle>{owner ? 'Edit Owner' : 'New Owner'}</DialogTitle>
+      <DialogDescription>
+        Contact details are shared by every property this owner is linked to.
+      </DialogDescription>
+      <DialogBody>
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="owner-name">Name</Label>
+              <Input
+                id="owner-name"
+                value={form.name}
+                onChange={(e) => setField('name', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="owner-email">Email</Label>
+              <Input
+                id="owner-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setField('email', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="owner-phone">Phone</Label>
+              <Input
+                id="owner-phone"
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setField('phone', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="owner-address">Mailing address</Label>
+              <Input
+                id="owner-address"
+                value={form.address}
+                onChange={(e) => setField('address', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="owner-payout-method">Payout method</Label>
+              <Select
+                id="owner-payout-method"
+                value={form.payoutMethod}
+                onChange={(e) =>
+                  setField(
+                    'payoutMethod',
+                    e.target.value as OwnerFormState['payoutMethod']
+                  )
+                }
+                className="mt-1"
+              >
+                <option value="CHECK">Check</option>
+                <option value="ACH">ACH direct deposit</option>
+              </Select>
+            </div>
+            {form.payoutMethod === 'ACH' && (
+              <>
+                <div>
+                  <Label htmlFor="owner-bank-name">Bank</Label>
+                  <Input
+                    id="owner-bank-name"
+                    value={form.bankName}
+                    onChange={(e) => setField('bankName', e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="owner-account-type">Account type</Label>
+                  <Select
+                    id="owner-account-type"
+                    value={form.bankAccountType}
+                    onChange={(e) =>
+                      setField(
+                        'bankAccountType',
+                        e.target.value as OwnerFormState['bankAccountType']
+                      )
+                    }
+                    className="mt-1"
+                  >
+                    <option value="">Select</option>
+                    <option value="checking">Checking</option>
+                    <option value="savings">Savings</option>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="owner-routing-number">Routing number</Label>
+                  <Input
+                    id="owner-routing-number"
+                    inputMode="numeric"
+                    value={form.bankRoutingNumber}
+                    onChange={(e) =>
+                      setField('bankRoutingNumber', e.target.value)
+                    }
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="owner-account-number">Account number</Label>
+                  <Input
+                    id="owner-account-number"
+                    inputMode="numeric"
+                    value={form.bankAccountNumber}
+                    onChange={(e) =>
+                      setField('bankAccountNumber', e.target.value)
+                    }
+                    placeholder={
+                      owner?.bankAccountLast4
+                        ? `On file, ending ${owner.bankAccountLast4}`
+                        : undefined
+                    }
+                    className="mt-1"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="owner-tax-id-type">Tax ID type</Label>
+              <Select
+                id="owner-tax-id-type"
+                value={form.taxIdType}
+                onChange={(e) =>
+                  setField(
+                    'taxIdType',
+                    e.target.value as OwnerFormState['taxIdType']
+                  )
+                }
+                className="mt-1"
+              >
+                <option value="">Select</option>
+                <option value="SSN">SSN</option>
+                <option value="EIN">EIN</option>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="owner-tax-id">Tax ID</Label>
+              <Input
+                id="owner-tax-id"
+                inputMode="numeric"
+                value={form.taxId}
+                onChange={(e) => setField('taxId', e.target.value)}
+                placeholder={
+                  owner?.taxIdLast4
+                    ? `On file, ending ${owner.taxIdLast4}`
+                    : undefined
+                }
+                className="mt-1"
+              />
+            </div>
+          </div>
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button variant="outline" onClick={onClose} disabled={isPending}>
+          Cancel
+        </Button>
+        <Button variant="default" onClick={handleSubmit} disabled={isPending}>
+          {isPending ? 'Saving...' : 'Save Owner'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,375 @@
+'use client'
+
+import { Pencil, Plus, Trash2, X } from 'lucide-react'
+import { useState } from 'react'
+import DatePicker from '~/components/DatePicker'
+import {
+  Button,
+  Card,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogDescription,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+} from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { sharesAddUpToWhole } from '~/lib/OwnerStatement/ownership-split'
+import dayjs from '~/lib/utils/day'
+import { type OwnershipSplitWithShares } from '~/server/api/routers/ownershipSplit'
+import { api } from '~/trpc/react'
+
+interface SplitFormState {
+  shares: Array<{ ownerId: string; percent: string }>
+  effectiveFrom: Date | null
+  effectiveTo: Date | null
+  notes: string
+}
+
+function toFormState(split: OwnershipSplitWithShares | null): SplitFormState {
+  return {
+    shares: split?.shares.map((share) => ({
+      ownerId: share.ownerId,
+      percent: String(share.percent),
+    })) ?? [
+      { ownerId: '', percent: '50' },
+      { ownerId: '', percent: '50' },
+    ],
+    effectiveFrom: split?.effectiveFrom ?? dayjs().startOf('month').toDate(),
+    effectiveTo: split?.effectiveTo ?? null,
+    notes: split?.notes ?? '',
+  }
+}
+
+function SplitDialog({
+  isOpen,
+  onClose,
+  propertyId,
+  split,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  propertyId: string
+  split: OwnershipSplitWithShares | null
+}) {
+  const [form, setForm] = useState<SplitFormState>(() => toFormState(split))
+  const utils = api.useUtils()
+
+  const { data: owners } = api.owner.getMany.useQuery()
+
+  const onSuccess = () => {
+    SuccessToast(split ? 'Ownership split updated' : 'Ownership split added')
+    void utils.ownershipSplit.getMany.invalidate({ propertyId })
+    void utils.ownerStatement.getOwnerShares.invalidate()
+    onClose()
+  }
+  const onError = (error: { message: string }) => {
+    ErrorToast(`Failed to save ownership split: ${error.message}`)
+  }
+
+  const createMutation = api.ownershipSplit.create.useMutation({
+    onSuccess,
+    onError,
+  })
+  const updateMutation = api.ownershipSplit.update.useMutation({
+    onSuccess,
+    onError,
+  })
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const totalPercent = form.shares.reduce(
+    (sum, share) => sum + (Number(share.percent) || 0),
+    0
+  )
+
+  const updateShare = (
+    index: number,
+    changes: Partial<SplitFormState['shares'][number]>
+  ) =>
+    setForm((prev) => ({
+      ...prev,
+      shares: prev.shares.map((share, i) =>
+        i === index ? { ...share, ...changes } : share
+      ),
+    }))
+
+  const handleSubmit = () => {
+    const shares = form.shares.map((share) => ({
+      ownerId: share.ownerId,
+      percent: Number(share.percent),
+    }))
+
+    if (shares.some((share) => !share.ownerId)) {
+      ErrorToast('Select an owner for every share')
+      return
+    }
+    if (shares.some((share) => isNaN(share.percent) || share.percent <= 0)) {
+      ErrorToast('Every share must be a percentage above 0')
+      return
+    }
+    if (!sharesAddUpToWhole(shares.map((share) => share.percent))) {
+      ErrorToast('Shares must add up to 100%')
+      return
+    }
+    if (!form.effectiveFrom) {
+      ErrorToast('Select the month the split starts')
+      return
+    }
+
+    const terms = {
+      shares,
+      effectiveFrom: form.effectiveFrom,
+      effectiveTo: form.effectiveTo,
+      notes: form.notes.trim() || undefined,
+    }
+
+    if (split) {
+      updateMutation.mutate({ id: split.id, ...terms })
+    } else {
+      createMutation.mutate({ propertyId, ...terms })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onClose={onClose}>
+      <DialogTitle>
+        {split ? 'Edit Ownership Split' : 'New Ownership Split'}
+      </DialogTitle>
+      <DialogDescription>
+        Each owner receives their percentage of the grand total on statements
+        for months within the effective period.
+      </DialogDescription>
+      <DialogBody>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Owners</Label>
+            {form.shares.map((share, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  aria-label="Owner"
+                  value={share.ownerId}
+                  onChange={(e) =>
+                    updateShare(index, { ownerId: e.target.value })
+                  }
+                >
+                  <option value="">Select an owner</option>
+                  {owners?.map((owner) => (
+                    <option key={owner.id} value={owner.id}>
+                      {owner.name}
+                    </option>
+                  ))}
+                </Select>
+                <div className="w-28 shrink-0">
+                  <Input
+                    aria-label="Share (%)"
+                    type="number"
+                    step="0.001"
+                    value={share.percent}
+                    onChange={(e) =>
+                      updateShare(index, { percent: e.target.value })
+                    }
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setForm((prev) => ({
+                      ...prev,
+                      shares: prev.shares.filter((_, i) => i !== index),
+                    }))
+                  }
+                  disabled={form.shares.length <= 1}
+                  aria-label="Remove owner"
+                >
+                  <X className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setForm((prev) => ({
+                    ...prev,
+                    shares: [...prev.shares, { ownerId: '', percent: '' }],
+                  }))
+                }
+              >
+                <Plus className="mr-1 size-4" /> Add Owner
+              </Button>
+              <span
+                className={`text-sm ${sharesAddUpToWhole([totalPercent]) ? 'text-muted-foreground' : 'text-red-600 dark:text-red-400'}`}
+              >
+                Total: {parseFloat(totalPercent.toFixed(3))}%
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Effective from</Label>
+              <DatePicker
+                selected={form.effectiveFrom ?? undefined}
+                onChange={(date) =>
+                  setForm((prev) => ({ ...prev, effectiveFrom: date }))
+                }
+                showMonthYearPicker
+                placeholderText="Start month"
+              />
+            </div>
+            <div>
+              <Label>Effective through</Label>
+              <DatePicker
+                selected={form.effectiveTo ?? undefined}
+                onChange={(date) =>
+                  setForm((prev) => ({ ...prev, effectiveTo: date }))
+                }
+                showMonthYearPicker
+                isClearable
+                placeholderText="Ongoing"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="split-notes">Notes</Label>
+            <Input
+              id="split-notes"
+              value={form.notes}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, notes: e.target.value }))
+              }
+              placeholder="e.g., Per deed recorded 2025-03-01"
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </DialogBody>
+      <DialogActions>
+        <Button variant="outline" onClick={onClose} disabled={isPending}>
+          Cancel
+        </Button>
+        <Button variant="default" onClick={handleSubmit} disabled={isPending}>
+          {isPending ? 'Saving...' : 'Save Split'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+export default function OwnershipSplitCard({
+  propertyId,
+}: {
+  propertyId: string
+}) {
+  const [editing, setEditing] = useState<{
+    split: OwnershipSplitWithShares | null
+  } | null>(null)
+  const utils = api.useUtils()
+
+  const { data: splits, isLoading } = api.ownershipSplit.getMany.useQuery({
+    propertyId,
+  })
+
+  const deleteMutation = api.ownershipSplit.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Ownership split removed')
+      void utils.ownershipSplit.getMany.invalidate({ propertyId })
+      void utils.ownerStatement.getOwnerShares.invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove ownership split: ${error.message}`)
+    },
+  })
+
+  return (
+    <Card className="mt-6">
+      <div className="flex items-center justify-between border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Co-ownership
+        </h2>
+        <Button variant="outline" onClick={() => setEditing({ split: null })}>
+          <Plus className="mr-1 size-4" /> Add Split
+        </Button>
+      </div>
+      <div className="p-4 sm:p-6">
+        {isLoading ? (
+          <div className="h-12 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
+        ) : !splits?.length ? (
+          <p className="text-sm text-muted-foreground">
+            No ownership split on file. The property&apos;s owner receives the
+            full statement total.
+          </p>
+        ) : (
+          <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {splits.map((split) => (
+              <li
+                key={split.id}
+                className="flex items-start justify-between gap-4 py-3"
+              >
+                <div className="grid flex-1 grid-cols-1 gap-4 sm:grid-cols-4">
+                  <div className="sm:col-span-3">
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Owners
+                    </dt>
+                    <dd className="text-sm">
+                      {split.shares
+                        .map(
+                          (share) => `${share.ownerName} (${share.percent}%)`
+                        )
+                        .join(', ')}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm font-medium text-neutral-500">
+                      Effective
+                    </dt>
+                    <dd className="text-sm">
+                      {dayjs(split.effectiveFrom).format('MMM YYYY')} –{' '}
+                      {split.effectiveTo
+                        ? dayjs(split.effectiveTo).format('MMM YYYY')
+                        : 'Ongoing'}
+                    </dd>
+                  </div>
+                  {split.notes && (
+                    <p className="text-xs text-muted-foreground sm:col-span-4">
+                      {split.notes}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    onClick={() => setEditing({ split })}
+                    aria-label="Edit ownership split"
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate({ id: split.id })}
+                    disabled={deleteMutation.isPending}
+                    aria-label="Remove ownership split"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {editing && (
+        <SplitDialog
+          key={editing.split?.id ?? 'new'}
+          isOpen
+          onClose={() => setEditing(null)}
+          propertyId={propertyId}
+          split={editing.split}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { Plus, X } from 'lucide-react'
+import { useState } from 'react'
+import { Badge, Button, Card, Input } from '~/components/ui'
+import { ErrorToast, SuccessToast } from '~/components/ui/sonner'
+import { api } from '~/trpc/react'
+
+export default function PropertyAliasesCard({
+  propertyId,
+}: {
+  propertyId: string
+}) {
+  const [newAlias, setNewAlias] = useState('')
+  const utils = api.useUtils()
+
+  const { data: aliases, isLoading } = api.propertyAlias.getMany.useQuery({
+    propertyId,
+  })
+
+  const invalidate = () =>
+    void utils.propertyAlias.getMany.invalidate({ propertyId })
+
+  const createMutation = api.propertyAlias.create.useMutation({
+    onSuccess: () => {
+      SuccessToast('Alias added')
+      setNewAlias('')
+      invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to add alias: ${error.message}`)
+    },
+  })
+
+  const deleteMutation = api.propertyAlias.delete.useMutation({
+    onSuccess: () => {
+      SuccessToast('Alias removed')
+      invalidate()
+    },
+    onError: (error) => {
+      ErrorToast(`Failed to remove alias: ${error.message}`)
+    },
+  })
+
+  const handleAdd = () => {
+    if (!newAlias.trim()) return
+    createMutation.mutate({ propertyId, alias: newAlias.trim() })
+  }
+
+  return (
+    <Card className="mt-6">
+      <div className="border-b border-zinc-950/5 px-4 py-3 dark:border-white/5 sm:px-6">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-50">
+          Import Aliases
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Other names this property appears under in reservation and vendor
+          files.
+        </p>
+      </div>
+      <div className="space-y-4 p-4 sm:p-6">
+        {isLoading ? (
+          <div className="h-8 animate-pulse rounded bg-zinc-100 dark:bg-zinc-800" />
+        ) : !aliases?.length ? (
+          <p className="text-sm text-muted-foreground">No aliases yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {aliases.map((alias) => (
+              <Badge
+                key={alias.id}
+                variant="outline"
+                className="gap-1 shadow-none"
+              >
+                {alias.alias}
+                <span className="text-muted-foreground">({alias.source})</span>
+                <button
+                  type="button"
+                  onClick={() => deleteMutation.mutate({ id: alias.id })}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Remove alias ${alias.alias}`}
+                  className="ml-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                >
+                  <X className="size-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            value={newAlias}
+            onChange={(e) => setNewAlias(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+            placeholder="e.g., Ocean View 2BR (OLD)"
+          />
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!newAlias.trim() || createMutation.isPending}
+          >
+            <Plus className="mr-1 size-4" /> Add
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -18,7 +18,15 @@ export const env = createEnv({
     GEMINI_API_KEY: z.string(),
     UPSTASH_REDIS_REST_URL: z.string(),
     UPSTASH_REDIS_REST_TOKEN: z.string(),
-    OPENAI_API_KEY: z.string(),
+    // Property matching falls back to local fuzzy matching without a key
+    OPENAI_API_KEY: z.string().optional(),
+    // Background jobs run in-process when QStash is not configured
+    QSTASH_TOKEN: z.string().optional(),
+    QSTASH_CURRENT_SIGNING_KEY: z.string().optional(),
+    QSTASH_NEXT_SIGNING_KEY: z.string().optional(),
+    // Where imported source documents are kept
+    DOCUMENT_STORAGE: z.enum(['uploadthing', 'local']).default('uploadthing'),
+    LOCAL_STORAGE_DIR: z.string().default('.storage'),
   },
 
   /**
@@ -63,6 +71,11 @@ export const env = createEnv({
     UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    QSTASH_TOKEN: process.env.QSTASH_TOKEN,
+    QSTASH_CURRENT_SIGNING_KEY: process.env.QSTASH_CURRENT_SIGNING_KEY,
+    QSTASH_NEXT_SIGNING_KEY: process.env.QSTASH_NEXT_SIGNING_KEY,
+    DOCUMENT_STORAGE: process.env.DOCUMENT_STORAGE,
+    LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AchCreditEntry,
+  type AchOriginator,
+  buildAchFile,
+  isValidRoutingNumber,
+} from '~/lib/OwnerStatement/ach-file'
+
+const originator: AchOriginator = {
+  companyName: 'Lakeside Property Management LLC',
+  companyId: '1123456789',
+  originRoutingNumber: '021000021',
+  originBankName: 'First National Bank',
+}
+
+const entry = (overrides: Partial<AchCreditEntry> = {}): AchCreditEntry => ({
+  name: 'Jane Owner',
+  routingNumber: '011000015',
+  accountNumber: '123456789',
+  accountType: 'checking',
+  amount: 1234.56,
+  individualId: 'STMT-2025-03',
+  ...overrides,
+})
+
+const build = (entries: AchCreditEntry[]) =>
+  buildAchFile({
+    originator,
+    entries,
+    effectiveDate: new Date(Date.UTC(2025, 3, 2)),
+    descriptiveDate: 'MAR25',
+    createdAt: new Date(2025, 3, 1, 9, 30),
+  })
+
+const records = (contents: string) => contents.trimEnd().split('\n')
+
+describe('buildAchFile', () => {
+  it('writes every record at 94 characters and pads to blocks of ten', () => {
+    const file = build([entry(), entry({ name: 'Sam Owner' })])
+    const lines = records(file.contents)
+
+    expect(lines).toHaveLength(10)
+    for (const line of lines) expect(line).toHaveLength(94)
+    expect(lines.map((line) => line[0]).join('')).toBe('1566899999')
+    expect(lines.slice(6)).toEqual(Array(4).fill('9'.repeat(94)))
+    expect(file.contents.endsWith('\n')).toBe(true)
+  })
+
+  it('starts a new block once ten records are used', () => {
+    const full = records(
+      build(Array.from({ length: 6 }, () => entry())).contents
+    )
+    expect(full).toHaveLength(10)
+    expect(full[9]?.slice(0, 13)).toBe('9000001000001')
+
+    const over = records(
+      build(Array.from({ length: 7 }, () => entry())).contents
+    )
+    expect(over).toHaveLength(20)
+    expect(over[10]?.slice(0, 13)).toBe('9000001000002')
+    expect(over.slice(11)).toEqual(Array(9).fill('9'.repeat(94)))
+  })
+
+  it('fills the header fields at their positions', () => {
+    const [fileHeader, batchHeader] = records(build([entry()]).contents)
+
+    expect(fileHeader?.slice(0, 3)).toBe('101')
+    expect(fileHeader?.slice(3, 13)).toBe(' 021000021')
+    expect(fileHeader?.slice(13, 23)).toBe('1123456789')
+    expect(fileHeader?.slice(23, 33)).toBe('2504010930')
+    expect(fileHeader?.slice(34, 40)).toBe('094101')
+    expect(fileHeader?.slice(40, 63)).toBe('FIRST NATIONAL BANK    ')
+    expect(fileHeader?.slice(63, 86)).toBe('LAKESIDE PROPERTY MANAG')
+
+    expect(batchHeader?.slice(0, 4)).toBe('5220')
+    expect(batchHeader?.slice(50, 53)).toBe('PPD')
+    expect(batchHeader?.slice(53, 63)).toBe('OWNER PAY ')
+    expect(batchHeader?.slice(63, 69)).toBe('MAR25 ')
+    expect(batchHeader?.slice(69, 75)).toBe('250402')
+    expect(batchHeader?.slice(79, 94)).toBe('021000020000001')
+  })
+
+  it('writes entries with amounts in cents and trace numbers', () => {
+    const file = build([
+      entry(),
+      entry({ accountType: 'savings', amount: 0.1, name: 'José Øwner' }),
+    ])
+    const [, , first, second] = records(file.contents)
+
+    expect(first?.slice(0, 12)).toBe('622011000015')
+    expect(first?.slice(12, 29)).toBe('123456789        ')
+    expect(first?.slice(29, 39)).toBe('0000123456')
+    expect(first?.slice(39, 54)).toBe('STMT-2025-03   ')
+    expect(first?.slice(79, 94)).toBe('021000020000001')
+
+    expect(second?.slice(1, 3)).toBe('32')
+    expect(second?.slice(29, 39)).toBe('0000000010')
+    // Characters banks reject are dropped
+    expect(second?.slice(54, 76)).toBe('JOS WNER              ')
+
+    expect(file.traceNumbers).toEqual(['021000020000001', '021000020000002'])
+    expect(file.entryCount).toBe(2)
+    expect(file.totalAmount).toBe(1234.66)
+  })
+
+  it('carries trace numbers on from earlier files', () => {
+    const file = buildAchFile({
+      originator,
+      entries: [entry(), entry()],
+      effectiveDate: new Date(Date.UTC(2025, 3, 2)),
+      descriptiveDate: 'MAR25',
+      firstTraceSequence: 41,
+    })
+    const [, , first, second] = records(file.contents)
+
+    expect(file.traceNumbers).toEqual(['021000020000041', '021000020000042'])
+    expect(first?.slice(79, 94)).toBe('021000020000041')
+    expect(second?.slice(79, 94)).toBe('021000020000042')
+  })
+
+  it('totals the batch and file with the routing number hash', () => {
+    const lines = records(
+      build([
+        entry({ amount: 0.07 }),
+        entry({ routingNumber: '091000019', amount: 100.005 }),
+      ]).contents
+    )
+    const batchControl = lines[4]
+    const fileControl = lines[5]
+
+    // 01100001 + 09100001
+    expect(batchControl?.slice(0, 10)).toBe('8220000002')
+    expect(batchControl?.slice(10, 20)).toBe('0010200002')
+    expect(batchControl?.slice(20, 32)).toBe('000000000000')
+    expect(batchControl?.slice(32, 44)).toBe('000000010008')
+    expect(fileControl?.slice(0, 13)).toBe('9000001000001')
+    expect(fileControl?.slice(13, 21)).toBe('00000002')
+    expect(fileControl?.slice(21, 31)).toBe('0010200002')
+    expect(fileControl?.slice(43, 55)).toBe('000000010008')
+  })
+
+  it('keeps only the low ten digits of a large entry hash', () => {
+    const lines = records(
+      build(
+        Array.from({ length: 200 }, () => entry({ routingNumber: '091000019' }))
+      ).contents
+    )
+    const batchControl = lines[202]
+
+    // 200 x 09100001 = 1820000200
+    expect(batchControl?.slice(10, 20)).toBe('1820000200')
+  })
+})
+
+describe('isValidRoutingNumber', () => {
+  it('checks the ABA check digit', () => {
+    expect(isValidRoutingNumber('021000021')).toBe(true)
+    expect(isValidRoutingNumber('011000015')).toBe(true)
+    expect(isValidRoutingNumber('021000022')).toBe(false)
+    expect(isValidRoutingNumber('02100002')).toBe(false)
+    expect(isValidRoutingNumber('02100002a')).toBe(false)
+  })
+})
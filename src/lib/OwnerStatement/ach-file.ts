@@ -0,0 +1,193 @@
+import dayjs from '~/lib/utils/day'
+
+// NACHA file of PPD credits, one entry per owner payout. Records are fixed
+// width (94 characters) and the file is padded to blocks of ten records.
+
+const RECORD_LENGTH = 94
+const BLOCKING_FACTOR = 10
+const CREDITS_ONLY = '220'
+
+export interface AchOriginator {
+  companyName: string
+  companyId: string // 10 characters, usually "1" followed by the EIN
+  originRoutingNumber: string // Bank the file is uploaded to
+  originBankName: string
+}
+
+export interface AchCreditEntry {
+  name: string
+  routingNumber: string
+  accountNumber: string
+  accountType: 'checking' | 'savings'
+  amount: number // Dollars
+  individualId: string // Shows on the owner's bank statement, up to 15 characters
+}
+
+export interface AchFile {
+  contents: string
+  entryCount: number
+  totalAmount: number
+  // Trace numbers in the same order as the entries passed in
+  traceNumbers: string[]
+}
+
+// ABA check digit: weights 3, 7, 1 across the nine digits
+export function isValidRoutingNumber(value: string): boolean {
+  if (!/^\d{9}$/.test(value)) return false
+
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1]
+  const total = value
+    .split('')
+    .reduce((sum, digit, index) => sum + Number(digit) * weights[index]!, 0)
+
+  return total % 10 === 0
+}
+
+// Upper-case ASCII only, cut or padded to the field width
+function alpha(value: string, width: number): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ,.&'/-]/g, '')
+    .slice(0, width)
+    .padEnd(width, ' ')
+}
+
+function numeric(value: number | string, width: number): string {
+  return String(value).slice(-width).padStart(width, '0')
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+export function buildAchFile({
+  originator,
+  entries,
+  effectiveDate,
+  descriptiveDate,
+  firstTraceSequence = 1,
+  createdAt = new Date(),
+}: {
+  originator: AchOriginator
+  entries: AchCreditEntry[]
+  effectiveDate: Date
+  descriptiveDate: string // e.g. the statement month, up to 6 characters
+  // Trace numbers carry on from earlier files, so no two payouts share one
+  firstTraceSequence?: number
+  createdAt?: Date
+}): AchFile {
+  const odfi = originator.originRoutingNumber.slice(0, 8)
+  const companyId = originator.companyId.padStart(10, ' ').slice(-10)
+  const batchNumber = numeric(1, 7)
+  const created = dayjs(createdAt)
+
+  const fileHeader = [
+    '1',
+    '01',
+    ` ${originator.originRoutingNumber}`,
+    companyId,
+    created.format('YYMMDD'),
+    created.format('HHmm'),
+    'A',
+    numeric(RECORD_LENGTH, 3),
+    numeric(BLOCKING_FACTOR, 2),
+    '1',
+    alpha(originator.originBankName, 23),
+    alpha(originator.companyName, 23),
+    alpha('', 8),
+  ].join('')
+
+  const batchHeader = [
+    '5',
+    CREDITS_ONLY,
+    alpha(originator.companyName, 16),
+    alpha('', 20),
+    companyId,
+    'PPD',
+    alpha('OWNER PAY', 10),
+    alpha(descriptiveDate, 6),
+    dayjs.utc(effectiveDate).format('YYMMDD'),
+    '   ',
+    '1',
+    odfi,
+    batchNumber,
+  ].join('')
+
+  const traceNumbers = entries.map(
+    (_entry, index) => `${odfi}${numeric(firstTraceSequence + index, 7)}`
+  )
+
+  const entryRecords = entries.map((entry, index) =>
+    [
+      '6',
+      entry.accountType === 'savings' ? '32' : '22',
+      entry.routingNumber.slice(0, 8),
+      entry.routingNumber.slice(8, 9),
+      alpha(entry.accountNumber, 17),
+      numeric(toCents(entry.amount), 10),
+      alpha(entry.individualId, 15),
+      alpha(entry.name, 22),
+      '  ',
+      '0',
+      traceNumbers[index],
+    ].join('')
+  )
+
+  const entryHash = numeric(
+    entries.reduce(
+      (sum, entry) => sum + Number(entry.routingNumber.slice(0, 8)),
+      0
+    ),
+    10
+  )
+  const totalCents = entries.reduce(
+    (sum, entry) => sum + toCents(entry.amount),
+    0
+  )
+
+  const batchControl = [
+    '8',
+    CREDITS_ONLY,
+    numeric(entries.length, 6),
+    entryHash,
+    numeric(0, 12),
+    numeric(totalCents, 12),
+    companyId,
+    alpha('', 19),
+    alpha('', 6),
+    odfi,
+    batchNumber,
+  ].join('')
+
+  // File and batch headers and controls around the entries
+  const recordCount = entryRecords.length + 4
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR)
+
+  const fileControl = [
+    '9',
+    numeric(1, 6),
+    numeric(blockCount, 6),
+    numeric(entries.length, 8),
+    entryHash,
+    numeric(0, 12),
+    numeric(totalCents, 12),
+    alpha('', 39),
+  ].join('')
+
+  const records = [
+    fileHeader,
+    batchHeader,
+    ...entryRecords,
+    batchControl,
+    fileControl,
+  ]
+  const padding = Array.from(
+    { length: blockCount * BLOCKING_FACTOR - records.length },
+    () => '9'.repeat(RECORD_LENGTH)
+  )
+
+  return {
+    contents: [...records, ...padding].join('\n') + '\n',
+    entryCount: entries.length,
+    totalAmount: totalCents / 100,
+    traceNumbers,
+  }
+}
@@ -0,0 +1,314 @@
+import type { Prisma } from '@prisma/client'
+import {
+  SCHEDULE_E_LINE_LABELS,
+  expenseCategoryName,
+  getExpenseCategories,
+} from '~/lib/OwnerStatement/expense-category'
+import {
+  getOwnershipShares,
+  splitAmount,
+} from '~/lib/OwnerStatement/ownership-split'
+import dayjs from '~/lib/utils/day'
+
+// Calendar-year totals per owner and property for 1099 reporting. Co-owned
+// statements are divided by the ownership split in effect that month, so each
+// owner's figures are their own portion.
+
+// Rents below this don't need a 1099-MISC
+export const FORM_1099_MISC_THRESHOLD = 600
+
+// Expenses whose category has no Schedule E line, or that have no category
+export const UNMAPPED_SCHEDULE_E_LABEL = 'Not mapped to Schedule E'
+
+export interface AnnualFigures {
+  grossRevenue: number
+  cleaningFees: number
+  managementFees: number
+  platformFees: number
+  ownerIncome: number // Gross revenue less management and platform fees
+  expenses: number
+  adjustments: number
+  netDistributions: number // Statement grand totals
+  expensesByCategory: Record<string, number>
+  expensesByScheduleELine: Record<string, number>
+}
+
+export interface AnnualPropertySummary {
+  propertyId: string
+  propertyName: string
+  statementCount: number
+  unapprovedCount: number // Statements still in draft or review
+  figures: AnnualFigures
+}
+
+export interface AnnualOwnerReport {
+  ownerId: string | null // Null for properties with no owner on file
+  ownerName: string
+  email: string | null
+  address: string | null
+  taxIdType: string | null
+  taxId: string | null
+  missingTaxId: boolean
+  properties: AnnualPropertySummary[]
+  totals: AnnualFigures
+}
+
+const FIGURE_KEYS = [
+  'grossRevenue',
+  'cleaningFees',
+  'managementFees',
+  'platformFees',
+  'ownerIncome',
+  'expenses',
+  'adjustments',
+  'netDistributions',
+] as const
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+const emptyFigures = (): AnnualFigures => ({
+  grossRevenue: 0,
+  cleaningFees: 0,
+  managementFees: 0,
+  platformFees: 0,
+  ownerIncome: 0,
+  expenses: 0,
+  adjustments: 0,
+  netDistributions: 0,
+  expensesByCategory: {},
+  expensesByScheduleELine: {},
+})
+
+// Expense breakdowns, keyed by label
+const BREAKDOWN_KEYS = [
+  'expensesByCategory',
+  'expensesByScheduleELine',
+] as const
+
+function addFigures(target: AnnualFigures, source: AnnualFigures) {
+  for (const key of FIGURE_KEYS) {
+    target[key] = roundCents(target[key] + source[key])
+  }
+  for (const breakdown of BREAKDOWN_KEYS) {
+    for (const [label, amount] of Object.entries(source[breakdown])) {
+      target[breakdown][label] = roundCents(
+        (target[breakdown][label] ?? 0) + amount
+      )
+    }
+  }
+}
+
+export async function getAnnualOwnerReports(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  year: number
+): Promise<AnnualOwnerReport[]> {
+  const start = dayjs.utc(`${year}-01-01`).startOf('year')
+
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      deletedAt: null,
+      statementMonth: {
+        gte: start.toDate(),
+        lte: start.endOf('year').toDate(),
+      },
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      statementMonth: true,
+      status: true,
+      totalAdjustments: true,
+      grandTotal: true,
+      property: { select: { name: true } },
+      incomes: {
+        select: {
+          grossRevenue: true,
+          cleaningFee: true,
+          hostFee: true,
+          platformFee: true,
+          grossIncome: true,
+        },
+      },
+      expenses: { select: { amount: true, category: true } },
+    },
+    orderBy: [{ property: { name: 'asc' } }, { statementMonth: 'asc' }],
+  })
+
+  const categories = await getExpenseCategories(db, managementGroupId, {
+    includeRemoved: true,
+  })
+  const scheduleELines = new Map(
+    categories.map((category) => [category.key, category.scheduleELine])
+  )
+
+  const reports = new Map<string, AnnualOwnerReport>()
+  const noOwnerKey = ''
+
+  for (const statement of statements) {
+    const figures = emptyFigures()
+    for (const income of statement.incomes) {
+      figures.grossRevenue += toAmount(income.grossRevenue)
+      figures.cleaningFees += toAmount(income.cleaningFee)
+      figures.managementFees += toAmount(income.hostFee)
+      figures.platformFees += toAmount(income.platformFee)
+      figures.ownerIncome += toAmount(income.grossIncome)
+    }
+    for (const expense of statement.expenses) {
+      const amount = toAmount(expense.amount)
+      const label = expenseCategoryName(categories, expense.category)
+      const line = expense.category
+        ? scheduleELines.get(expense.category)
+        : null
+      const lineLabel = line
+        ? SCHEDULE_E_LINE_LABELS[line]
+        : UNMAPPED_SCHEDULE_E_LABEL
+      figures.expenses += amount
+      figures.expensesByCategory[label] =
+        (figures.expensesByCategory[label] ?? 0) + amount
+      figures.expensesByScheduleELine[lineLabel] =
+        (figures.expensesByScheduleELine[lineLabel] ?? 0) + amount
+    }
+    figures.adjustments = toAmount(statement.totalAdjustments)
+    figures.netDistributions = toAmount(statement.grandTotal)
+
+    const shares = await getOwnershipShares(
+      db,
+      statement.propertyId,
+      statement.statementMonth
+    )
+
+    // Each figure is split on its own so every owner's portions add back up
+    // to the statement exactly
+    const portions = shares.length
+      ? shares.map((share, index) => {
+          const portion = emptyFigures()
+          for (const key of FIGURE_KEYS) {
+            portion[key] = splitAmount(figures[key], shares)[index]?.amount ?? 0
+          }
+          for (const breakdown of BREAKDOWN_KEYS) {
+            for (const [label, amount] of Object.entries(figures[breakdown])) {
+              portion[breakdown][label] =
+                splitAmount(amount, shares)[index]?.amount ?? 0
+            }
+          }
+          return { key: share.ownerId, ownerName: share.ownerName, portion }
+        })
+      : [{ key: noOwnerKey, ownerName: 'No owner on file', portion: figures }]
+
+    for (const { key, ownerName, portion } of portions) {
+      let report = reports.get(key)
+      if (!report) {
+        report = {
+          ownerId: key || null,
+          ownerName,
+          email: null,
+          address: null,
+          taxIdType: null,
+          taxId: null,
+          missingTaxId: true,
+          properties: [],
+          totals: emptyFigures(),
+        }
+        reports.set(key, report)
+      }
+
+      let property = report.properties.find(
+        (item) => item.propertyId === statement.propertyId
+      )
+      if (!property) {
+        property = {
+          propertyId: statement.propertyId,
+          propertyName: statement.property.name,
+          statementCount: 0,
+          unapprovedCount: 0,
+          figures: emptyFigures(),
+        }
+        report.properties.push(property)
+      }
+
+      property.statementCount += 1
+      if (statement.status === 'DRAFT' || statement.status === 'IN_REVIEW') {
+        property.unapprovedCount += 1
+      }
+      addFigures(property.figures, portion)
+      addFigures(report.totals, portion)
+    }
+  }
+
+  const owners = await db.owner.findMany({
+    where: { id: { in: [...reports.keys()].filter(Boolean) } },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      address: true,
+      taxIdType: true,
+      taxId: true,
+    },
+  })
+
+  for (const owner of owners) {
+    const report = reports.get(owner.id)
+    if (!report) continue
+
+    report.ownerName = owner.name
+    report.email = owner.email
+    report.address = owner.address
+    report.taxIdType = owner.taxIdType
+    report.taxId = owner.taxId
+    report.missingTaxId = !owner.taxId || !owner.taxIdType
+  }
+
+  return [...reports.values()].sort(
+    (a, b) =>
+      Number(!a.ownerId) - Number(!b.ownerId) ||
+      a.ownerName.localeCompare(b.ownerName)
+  )
+}
+
+// Column layout of the 1099-MISC import file; Box 1 is rents
+const FORM_1099_MISC_COLUMNS = [
+  'Recipient Name',
+  'Recipient TIN Type',
+  'Recipient TIN',
+  'Address',
+  'Email',
+  'Account Number',
+  'Box 1 Rents',
+] as const
+
+const csvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/**
+ * One row per owner whose rents reach the filing threshold. Owners without a
+ * tax ID are still included with the TIN left blank, so the filing software
+ * flags them too rather than dropping them silently.
+ */
+export function build1099MiscCsv(reports: AnnualOwnerReport[]): string {
+  const rows = reports
+    .filter(
+      (report) =>
+        report.ownerId && report.totals.grossRevenue >= FORM_1099_MISC_THRESHOLD
+    )
+    .map((report) => [
+      report.ownerName,
+      report.taxIdType ?? '',
+      report.taxId ?? '',
+      report.address ?? '',
+      report.email ?? '',
+      report.ownerId ?? '',
+      report.totals.grossRevenue.toFixed(2),
+    ])
+
+  return (
+    [FORM_1099_MISC_COLUMNS, ...rows]
+      .map((row) => row.map(csvCell).join(','))
+      .join('\n') + '\n'
+  )
+}
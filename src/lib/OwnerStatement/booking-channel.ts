@@ -0,0 +1,45 @@
+import type { BookingChannel } from '@prisma/client'
+
+// Booking channels reservations are grouped under. Imports keep the raw
+// channel text as the platform and store the channel it maps to alongside.
+
+export const BOOKING_CHANNELS = [
+  'AIRBNB',
+  'VRBO',
+  'BOOKING_COM',
+  'EXPEDIA',
+  'DIRECT',
+  'OTHER',
+] as const satisfies readonly BookingChannel[]
+
+export const BOOKING_CHANNEL_LABELS: Record<BookingChannel, string> = {
+  AIRBNB: 'Airbnb',
+  VRBO: 'VRBO',
+  BOOKING_COM: 'Booking.com',
+  EXPEDIA: 'Expedia',
+  DIRECT: 'Direct',
+  OTHER: 'Other',
+}
+
+// Checked in order, so VRBO wins over Expedia for "Expedia Vacation Rentals"
+const CHANNEL_PATTERNS: Array<[RegExp, BookingChannel]> = [
+  [/airbnb/, 'AIRBNB'],
+  [/vrbo|homeaway|vacation rentals/, 'VRBO'],
+  [/booking\s*\.?\s*com/, 'BOOKING_COM'],
+  [/expedia|hotels\s*\.?\s*com/, 'EXPEDIA'],
+  [/direct|website|owner|manual|booking engine|phone|email/, 'DIRECT'],
+]
+
+export function normalizeBookingChannel(platform: string): BookingChannel {
+  const text = platform.trim().toLowerCase()
+  return (
+    CHANNEL_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'OTHER'
+  )
+}
+
+// Income line data with the channel set from its platform text
+export function withBookingChannel<T extends { platform: string }>(
+  income: T
+): T & { channel: BookingChannel } {
+  return { ...income, channel: normalizeBookingChannel(income.platform) }
+}
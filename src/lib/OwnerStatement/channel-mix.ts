@@ -0,0 +1,141 @@
+import type { BookingChannel, Prisma } from '@prisma/client'
+import { BOOKING_CHANNELS } from '~/lib/OwnerStatement/booking-channel'
+import dayjs from '~/lib/utils/day'
+
+// Revenue and fees by booking channel from owner statement income lines, for
+// the portfolio, each property and each statement month.
+
+export interface ChannelTotals {
+  channel: BookingChannel
+  revenue: number // Gross revenue on the statements
+  nights: number
+  bookings: number
+  platformFees: number
+  feePercent: number | null // Platform fees as a share of revenue, 0 to 1
+}
+
+export interface PropertyChannelMix {
+  propertyId: string
+  propertyName: string
+  channels: ChannelTotals[]
+}
+
+export interface MonthChannelMix {
+  month: string // YYYY-MM
+  channels: ChannelTotals[]
+}
+
+export interface ChannelMix {
+  channels: ChannelTotals[]
+  properties: PropertyChannelMix[]
+  months: MonthChannelMix[]
+}
+
+type IncomeLine = {
+  channel: BookingChannel
+  days: number
+  grossRevenue: Prisma.Decimal
+  platformFee: Prisma.Decimal
+}
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+// Totals for each channel with any lines, in the order channels are listed
+function totalsByChannel(lines: IncomeLine[]): ChannelTotals[] {
+  return BOOKING_CHANNELS.flatMap((channel) => {
+    const matching = lines.filter((line) => line.channel === channel)
+    if (!matching.length) return []
+
+    const revenue = matching.reduce(
+      (sum, line) => sum + toAmount(line.grossRevenue),
+      0
+    )
+    const platformFees = matching.reduce(
+      (sum, line) => sum + toAmount(line.platformFee),
+      0
+    )
+
+    return [
+      {
+        channel,
+        revenue: roundCents(revenue),
+        nights: matching.reduce((sum, line) => sum + line.days, 0),
+        bookings: matching.filter((line) => line.days > 0).length,
+        platformFees: roundCents(platformFees),
+        feePercent: revenue > 0 ? platformFees / revenue : null,
+      },
+    ]
+  })
+}
+
+/**
+ * Channel totals for statements from the first month to the last, both
+ * included, optionally for a single property.
+ */
+export async function getChannelMix(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  { from, to, propertyId }: { from: Date; to: Date; propertyId?: string }
+): Promise<ChannelMix> {
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      propertyId,
+      deletedAt: null,
+      statementMonth: {
+        gte: dayjs.utc(from).startOf('month').toDate(),
+        lte: dayjs.utc(to).endOf('month').toDate(),
+      },
+    },
+    select: {
+      propertyId: true,
+      statementMonth: true,
+      property: { select: { name: true } },
+      incomes: {
+        select: {
+          channel: true,
+          days: true,
+          grossRevenue: true,
+          platformFee: true,
+        },
+      },
+    },
+  })
+
+  const byProperty = new Map<
+    string,
+    { propertyName: string; lines: IncomeLine[] }
+  >()
+  const byMonth = new Map<string, IncomeLine[]>()
+
+  for (const statement of statements) {
+    const property = byProperty.get(statement.propertyId) ?? {
+      propertyName: statement.property.name,
+      lines: [],
+    }
+    property.lines.push(...statement.incomes)
+    byProperty.set(statement.propertyId, property)
+
+    const month = dayjs.utc(statement.statementMonth).format('YYYY-MM')
+    byMonth.set(month, [...(byMonth.get(month) ?? []), ...statement.incomes])
+  }
+
+  return {
+    channels: totalsByChannel(
+      statements.flatMap((statement) => statement.incomes)
+    ),
+    properties: [...byProperty.entries()]
+      .map(([id, { propertyName, lines }]) => ({
+        propertyId: id,
+        propertyName,
+        channels: totalsByChannel(lines),
+      }))
+      .sort((a, b) => a.propertyName.localeCompare(b.propertyName)),
+    months: [...byMonth.entries()]
+      .map(([month, lines]) => ({ month, channels: totalsByChannel(lines) }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  }
+}
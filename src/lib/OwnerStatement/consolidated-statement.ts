@@ -0,0 +1,41 @@
+// Rolls the month's statements for all of an owner's properties up into one
+// combined payout (shared by the server query and the PDF export)
+
+type DecimalLike = { toString(): string } | number | null | undefined
+
+export interface StatementTotals {
+  totalIncome: number
+  totalExpenses: number
+  totalAdjustments: number
+  grandTotal: number
+}
+
+const toAmount = (value: DecimalLike) => Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+export function toStatementTotals(statement: {
+  totalIncome: DecimalLike
+  totalExpenses: DecimalLike
+  totalAdjustments: DecimalLike
+  grandTotal: DecimalLike
+}): StatementTotals {
+  return {
+    totalIncome: toAmount(statement.totalIncome),
+    totalExpenses: toAmount(statement.totalExpenses),
+    totalAdjustments: toAmount(statement.totalAdjustments),
+    grandTotal: toAmount(statement.grandTotal),
+  }
+}
+
+export function sumStatementTotals(totals: StatementTotals[]): StatementTotals {
+  const sum = (key: keyof StatementTotals) =>
+    roundCents(totals.reduce((total, item) => total + item[key], 0))
+
+  return {
+    totalIncome: sum('totalIncome'),
+    totalExpenses: sum('totalExpenses'),
+    totalAdjustments: sum('totalAdjustments'),
+    grandTotal: sum('grandTotal'),
+  }
+}
@@ -0,0 +1,217 @@
+import type { Prisma, ScheduleELine } from '@prisma/client'
+
+// Each management group keeps its own list of expense categories, starting
+// from the defaults below. Expenses store the category key.
+
+export interface ExpenseCategoryOption {
+  key: string
+  name: string
+  scheduleELine: ScheduleELine | null
+}
+
+export const SCHEDULE_E_LINES = [
+  'ADVERTISING',
+  'AUTO_TRAVEL',
+  'CLEANING_MAINTENANCE',
+  'COMMISSIONS',
+  'INSURANCE',
+  'LEGAL_PROFESSIONAL',
+  'MANAGEMENT_FEES',
+  'MORTGAGE_INTEREST',
+  'OTHER_INTEREST',
+  'REPAIRS',
+  'SUPPLIES',
+  'TAXES',
+  'UTILITIES',
+  'DEPRECIATION',
+  'OTHER',
+] as const satisfies readonly ScheduleELine[]
+
+export const SCHEDULE_E_LINE_LABELS: Record<ScheduleELine, string> = {
+  ADVERTISING: 'Line 5: Advertising',
+  AUTO_TRAVEL: 'Line 6: Auto and travel',
+  CLEANING_MAINTENANCE: 'Line 7: Cleaning and maintenance',
+  COMMISSIONS: 'Line 8: Commissions',
+  INSURANCE: 'Line 9: Insurance',
+  LEGAL_PROFESSIONAL: 'Line 10: Legal and other professional fees',
+  MANAGEMENT_FEES: 'Line 11: Management fees',
+  MORTGAGE_INTEREST: 'Line 12: Mortgage interest paid to banks, etc.',
+  OTHER_INTEREST: 'Line 13: Other interest',
+  REPAIRS: 'Line 14: Repairs',
+  SUPPLIES: 'Line 15: Supplies',
+  TAXES: 'Line 16: Taxes',
+  UTILITIES: 'Line 17: Utilities',
+  DEPRECIATION: 'Line 18: Depreciation expense or depletion',
+  OTHER: 'Line 19: Other',
+}
+
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategoryOption[] = [
+  { key: 'cleaning', name: 'Cleaning', scheduleELine: 'CLEANING_MAINTENANCE' },
+  {
+    key: 'maintenance',
+    name: 'Maintenance',
+    scheduleELine: 'CLEANING_MAINTENANCE',
+  },
+  { key: 'repairs', name: 'Repairs', scheduleELine: 'REPAIRS' },
+  { key: 'supplies', name: 'Supplies', scheduleELine: 'SUPPLIES' },
+  { key: 'utilities', name: 'Utilities', scheduleELine: 'UTILITIES' },
+  {
+    key: 'landscaping',
+    name: 'Landscaping',
+    scheduleELine: 'CLEANING_MAINTENANCE',
+  },
+  {
+    key: 'pest_control',
+    name: 'Pest Control',
+    scheduleELine: 'CLEANING_MAINTENANCE',
+  },
+  {
+    key: 'pool_spa',
+    name: 'Pool & Spa',
+    scheduleELine: 'CLEANING_MAINTENANCE',
+  },
+  {
+    key: 'linens',
+    name: 'Linens & Laundry',
+    scheduleELine: 'CLEANING_MAINTENANCE',
+  },
+  { key: 'hoa', name: 'HOA Dues', scheduleELine: 'OTHER' },
+  { key: 'insurance', name: 'Insurance', scheduleELine: 'INSURANCE' },
+  { key: 'taxes', name: 'Taxes & Licenses', scheduleELine: 'TAXES' },
+  { key: 'advertising', name: 'Advertising', scheduleELine: 'ADVERTISING' },
+  { key: 'other', name: 'Other', scheduleELine: 'OTHER' },
+]
+
+const vendorKey = (vendor: string) => vendor.trim().toLowerCase()
+
+/**
+ * The group's categories in name order. Groups that have never changed their
+ * list get the defaults, which are only saved once the list is edited.
+ * Removed categories are included when naming expenses that still use them.
+ */
+export async function getExpenseCategories(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  { includeRemoved = false } = {}
+): Promise<ExpenseCategoryOption[]> {
+  const categories = await db.expenseCategory.findMany({
+    where: { managementGroupId },
+    select: { key: true, name: true, scheduleELine: true, deletedAt: true },
+    orderBy: { name: 'asc' },
+  })
+
+  if (!categories.length) {
+    return [...DEFAULT_EXPENSE_CATEGORIES].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    )
+  }
+
+  return categories
+    .filter((category) => includeRemoved || !category.deletedAt)
+    .map(({ key, name, scheduleELine }) => ({ key, name, scheduleELine }))
+}
+
+// Saves the defaults for a group that has no categories yet, before its first edit
+export async function seedExpenseCategories(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  userId: string
+) {
+  const count = await db.expenseCategory.count({ where: { managementGroupId } })
+  if (count) return
+
+  await db.expenseCategory.createMany({
+    data: DEFAULT_EXPENSE_CATEGORIES.map((category) => ({
+      managementGroupId,
+      ...category,
+      createdBy: userId,
+      updatedBy: userId,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * The keys that aren't among the group's categories. Removed categories still
+ * count, so statements saved before a removal can be saved again. Empty
+ * values are skipped, as expenses don't need a category.
+ */
+export async function findUnknownExpenseCategories(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  keys: Array<string | null | undefined>
+): Promise<string[]> {
+  const used = [...new Set(keys.filter((key): key is string => !!key))]
+  if (!used.length) return []
+
+  const known = new Set(
+    (
+      await getExpenseCategories(db, managementGroupId, {
+        includeRemoved: true,
+      })
+    ).map((category) => category.key)
+  )
+  return used.filter((key) => !known.has(key))
+}
+
+/**
+ * The category each vendor's earlier expenses were most often given, keyed
+ * by the vendor names passed in. Vendors are matched ignoring case, and
+ * vendors without categorised history are left out.
+ */
+export async function suggestExpenseCategories(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  vendors: string[]
+): Promise<Record<string, string>> {
+  const names = [...new Set(vendors.map((vendor) => vendor.trim()))].filter(
+    Boolean
+  )
+  if (!names.length) return {}
+
+  const [categories, history] = await Promise.all([
+    getExpenseCategories(db, managementGroupId),
+    db.ownerStatementExpense.groupBy({
+      by: ['vendor', 'category'],
+      where: {
+        category: { not: null },
+        ownerStatement: { managementGroupId, deletedAt: null },
+        OR: names.map((vendor) => ({
+          vendor: { equals: vendor, mode: 'insensitive' as const },
+        })),
+      },
+      _count: { _all: true },
+    }),
+  ])
+
+  const known = new Set(categories.map((category) => category.key))
+  const counts = new Map<string, Map<string, number>>()
+  for (const row of history) {
+    if (!row.category || !known.has(row.category)) continue
+    const key = vendorKey(row.vendor)
+    const byCategory = counts.get(key) ?? new Map<string, number>()
+    byCategory.set(
+      row.category,
+      (byCategory.get(row.category) ?? 0) + row._count._all
+    )
+    counts.set(key, byCategory)
+  }
+
+  const suggestions: Record<string, string> = {}
+  for (const vendor of vendors) {
+    const byCategory = counts.get(vendorKey(vendor))
+    if (!byCategory) continue
+    const [category] = [...byCategory].sort((a, b) => b[1] - a[1])[0]!
+    suggestions[vendor] = category
+  }
+  return suggestions
+}
+
+// The category's name, falling back to the key for categories not in the list
+export function expenseCategoryName(
+  categories: ExpenseCategoryOption[],
+  key: string | null
+): string {
+  if (!key) return 'Uncategorized'
+  return categories.find((category) => category.key === key)?.name ?? key
+}
@@ -0,0 +1,73 @@
+import { type ReservationImportAdapter, addNights } from './types'
+
+// Transaction types that carry money for the owner but no stay
+const ADJUSTMENT_TYPES: Record<string, string> = {
+  'resolution adjustment': 'Airbnb Resolution',
+  'resolution payout': 'Airbnb Resolution',
+  adjustment: 'Airbnb Adjustment',
+}
+
+/**
+ * Airbnb transaction history CSV (Earnings > Transaction history > Download CSV).
+ * Payout lines only move money that is already counted on reservation lines.
+ */
+export const airbnbAdapter: ReservationImportAdapter = {
+  source: 'airbnb',
+  label: 'Airbnb transaction history',
+  requiredHeaders: ['type', 'confirmationcode', 'listing'],
+  parseRow: (row) => {
+    const listingName = row.text('Listing')
+    const type = row.text('Type').toLowerCase()
+    const checkIn = row.date('Start date')
+    const nights = row.amount('Nights')
+    const checkOut = row.date('End date') || addNights(checkIn, nights)
+
+    const adjustmentDescription = ADJUSTMENT_TYPES[type]
+    if (adjustmentDescription) {
+      return {
+        listingName,
+        income: null,
+        adjustments: [
+          {
+            description: adjustmentDescription,
+            amount: row.amount('Amount'),
+            checkIn: checkIn || undefined,
+            checkOut: checkOut || undefined,
+          },
+        ],
+      }
+    }
+
+    if (type !== 'reservation') {
+      return {
+        listingName,
+        skipReason: `${row.text('Type') || 'Blank'} transaction`,
+      }
+    }
+
+    // Gross earnings include occupancy taxes Airbnb collects and remits
+    const taxes = row.amount('Occupancy taxes')
+    const grossRevenue = row.amount('Gross earnings') - taxes
+
+    return {
+      listingName,
+      income: {
+        guest: row.text('Guest'),
+        checkIn,
+        checkOut,
+        days: nights,
+        platform: 'Airbnb',
+        grossRevenue,
+        cleaningFee: row.amount('Cleaning fee'),
+        platformFee: Math.abs(row.amount('Service fee', 'Host fee')),
+      },
+      booking: {
+        externalId: row.text('Confirmation code'),
+        taxes,
+        isCancelled: false,
+        bookedAt: row.date('Booking date'),
+      },
+      adjustments: [],
+    }
+  },
+}
@@ -0,0 +1,48 @@
+import { type ReservationImportAdapter, addNights } from './types'
+
+/**
+ * Guesty reservations report exported to CSV or Excel.
+ * Canceled reservations are kept only when the guest paid a cancellation fee.
+ */
+export const guestyAdapter: ReservationImportAdapter = {
+  source: 'guesty',
+  label: 'Guesty reservations report',
+  requiredHeaders: ['listingsnickname', 'accommodationfare'],
+  parseRow: (row) => {
+    const listingName = row.text("Listing's nickname", 'Listing')
+    const accommodationFare = row.amount('Accommodation fare')
+    const cleaningFee = row.amount('Cleaning fare', 'Cleaning fee')
+    const isCanceled = /cancel/i.test(row.text('Status'))
+
+    if (isCanceled && accommodationFare === 0) {
+      return { listingName, skipReason: 'Canceled reservation' }
+    }
+
+    const checkIn = row.date('Check in', 'Check-in')
+    const nights = row.amount('Nights', 'Number of nights')
+
+    return {
+      listingName,
+      income: {
+        guest: row.text("Guest's name", 'Guest name', 'Guest'),
+        checkIn,
+        checkOut:
+          row.date('Check out', 'Check-out') || addNights(checkIn, nights),
+        days: nights,
+        platform: row.text('Source', 'Channel'),
+        grossRevenue: accommodationFare + cleaningFee,
+        cleaningFee,
+        platformFee: Math.abs(
+          row.amount('Channel commission', 'Host service fee')
+        ),
+      },
+      booking: {
+        externalId: row.text('Confirmation code', 'Reservation ID'),
+        taxes: row.amount('Total taxes', 'Taxes'),
+        isCancelled: isCanceled,
+        bookedAt: row.date('Creation date', 'Created at', 'Confirmed at'),
+      },
+      adjustments: [],
+    }
+  },
+}
@@ -0,0 +1,62 @@
+import type { ImportedAdjustment } from '~/lib/OwnerStatement/reservation-import'
+
+import type { ReservationImportAdapter } from './types'
+
+// Column holding the channel fee, keyed by lowercase channel name
+const PLATFORM_FEE_COLUMNS: Record<string, string> = {
+  vrbo: 'Payment Fees',
+}
+const DEFAULT_PLATFORM_FEE_COLUMN = 'Host Channel Fee'
+
+function getPlatformFeeColumn(channel: string): string {
+  return (
+    PLATFORM_FEE_COLUMNS[channel.trim().toLowerCase()] ??
+    DEFAULT_PLATFORM_FEE_COLUMN
+  )
+}
+
+export const hostawayAdapter: ReservationImportAdapter = {
+  source: 'hostaway',
+  label: 'Hostaway reservations export',
+  requiredHeaders: ['listing', 'rentalrevenue'],
+  parseRow: (row) => {
+    const channel = row.text('Channel')
+    const rentalRevenue = row.amount('Rental Revenue')
+    const airbnbTax = row.amount('Airbnb Transient Occupancy Tax')
+
+    const income = {
+      guest: row.text('Guest'),
+      checkIn: row.date('Check-in Date'),
+      checkOut: row.date('Check-out Date'),
+      days: row.amount('Nights'),
+      platform: channel,
+      grossRevenue: airbnbTax > 0 ? rentalRevenue - airbnbTax : rentalRevenue,
+      cleaningFee: row.amount('Cleaning Fee'),
+      platformFee: row.amount(getPlatformFeeColumn(channel)),
+    }
+
+    const adjustments: ImportedAdjustment[] = []
+    const resolutionSum = row.amount('Airbnb Closed Resolutions Sum')
+    if (resolutionSum !== 0) {
+      adjustments.push({
+        description: 'Airbnb Resolution',
+        amount: resolutionSum,
+        checkIn: income.checkIn || undefined,
+        checkOut: income.checkOut || undefined,
+      })
+    }
+
+    const booking = {
+      externalId: row.text(
+        'Reservation ID',
+        'Reservation Id',
+        'Channel Reservation ID'
+      ),
+      taxes: airbnbTax + row.amount('Total Tax', 'Tax'),
+      isCancelled: /cancel/i.test(row.text('Status')),
+      bookedAt: row.date('Reservation Date', 'Booking Date'),
+    }
+
+    return { listingName: row.text('Listing'), income, booking, adjustments }
+  },
+}
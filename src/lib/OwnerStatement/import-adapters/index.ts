@@ -0,0 +1,38 @@
+import { airbnbAdapter } from './airbnb'
+import { guestyAdapter } from './guesty'
+import { hostawayAdapter } from './hostaway'
+import { ownerRezAdapter } from './ownerrez'
+import {
+  type ReservationImportAdapter,
+  type ReservationImportSource,
+  normalizeHeader,
+} from './types'
+import { vrboAdapter } from './vrbo'
+
+export * from './types'
+
+// Checked in order; the first adapter whose required headers are all present wins
+export const RESERVATION_IMPORT_ADAPTERS: ReservationImportAdapter[] = [
+  hostawayAdapter,
+  airbnbAdapter,
+  vrboAdapter,
+  guestyAdapter,
+  ownerRezAdapter,
+]
+
+export function detectReservationImportAdapter(
+  headers: string[]
+): ReservationImportAdapter | undefined {
+  const normalized = new Set(headers.map((header) => normalizeHeader(header)))
+  return RESERVATION_IMPORT_ADAPTERS.find((adapter) =>
+    adapter.requiredHeaders.every((header) => normalized.has(header))
+  )
+}
+
+export function getReservationImportAdapter(
+  source: string
+): ReservationImportAdapter | undefined {
+  return RESERVATION_IMPORT_ADAPTERS.find(
+    (adapter) => adapter.source === (source as ReservationImportSource)
+  )
+}
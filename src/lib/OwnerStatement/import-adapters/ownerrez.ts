@@ -0,0 +1,47 @@
+import { type ReservationImportAdapter, addNights } from './types'
+
+/**
+ * OwnerRez bookings report exported to CSV.
+ * Exports without a rent column fall back to the booking total less taxes.
+ */
+export const ownerRezAdapter: ReservationImportAdapter = {
+  source: 'ownerrez',
+  label: 'OwnerRez bookings report',
+  requiredHeaders: ['property', 'arrival', 'departure'],
+  parseRow: (row) => {
+    const listingName = row.text('Property')
+
+    const isCanceled = /cancel/i.test(row.text('Status'))
+    if (isCanceled && row.amount('Total') === 0) {
+      return { listingName, skipReason: 'Canceled booking' }
+    }
+
+    const checkIn = row.date('Arrival')
+    const nights = row.amount('Nights')
+    const rent = row.amount('Rent')
+    const cleaningFee = row.amount('Cleaning Fee', 'Cleaning')
+    const taxes = row.amount('Taxes', 'Tax')
+
+    return {
+      listingName,
+      income: {
+        guest: row.text('Guest', 'Guest Name'),
+        checkIn,
+        checkOut: row.date('Departure') || addNights(checkIn, nights),
+        days: nights,
+        platform: row.text('Channel', 'Source'),
+        grossRevenue:
+          rent !== 0 ? rent + cleaningFee : row.amount('Total') - taxes,
+        cleaningFee,
+        platformFee: Math.abs(row.amount('Channel Fee', 'Commission')),
+      },
+      booking: {
+        externalId: row.text('Booking #', 'Booking ID', 'ID'),
+        taxes,
+        isCancelled: isCanceled,
+        bookedAt: row.date('Booked', 'Booked On', 'Booking Date'),
+      },
+      adjustments: [],
+    }
+  },
+}
@@ -0,0 +1,143 @@
+import * as XLSX from 'xlsx'
+import type {
+  ImportedAdjustment,
+  ImportedBooking,
+  ImportedIncome,
+} from '~/lib/OwnerStatement/reservation-import'
+import dayjs from '~/lib/utils/day'
+
+export const RESERVATION_IMPORT_SOURCES = [
+  'hostaway',
+  'airbnb',
+  'vrbo',
+  'guesty',
+  'ownerrez',
+] as const
+
+export type ReservationImportSource =
+  (typeof RESERVATION_IMPORT_SOURCES)[number]
+
+export type AdapterRowResult =
+  | {
+      listingName: string
+      income: ImportedIncome | null
+      booking?: ImportedBooking
+      adjustments: ImportedAdjustment[]
+    }
+  | { listingName: string; skipReason: string }
+
+/**
+ * Turns one row of a channel or PMS export into the statement income and
+ * adjustment shapes. Host fee and gross income are applied later from the
+ * property's management agreement.
+ */
+export interface ReservationImportAdapter {
+  source: ReservationImportSource
+  label: string
+  // Normalized headers that must all be present for the file to match
+  requiredHeaders: string[]
+  parseRow: (row: ImportRow) => AdapterRowResult
+}
+
+export interface ImportRow {
+  text: (...columns: string[]) => string
+  amount: (...columns: string[]) => number
+  date: (...columns: string[]) => string
+}
+
+/**
+ * Header comparison ignores case, spacing and punctuation so "Check-in Date",
+ * "CHECK IN DATE" and "check_in_date" are the same column.
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Cells are strings, numbers or booleans once read with raw: true
+function cellText(value: unknown): string {
+  return typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+    ? String(value).trim()
+    : ''
+}
+
+/**
+ * Parse an amount from a spreadsheet or CSV cell, returning 0 for invalid values.
+ * Handles currency symbols, thousands separators and (negative) accounting format.
+ */
+function parseAmount(value: unknown): number {
+  if (typeof value === 'number') return isNaN(value) ? 0 : value
+
+  const text = cellText(value)
+  if (!text) return 0
+
+  const isNegative = /^\(.*\)$/.test(text)
+  const parsed = Number(text.replace(/[()$€£,\s]/g, ''))
+  if (isNaN(parsed)) return 0
+  return isNegative ? -parsed : parsed
+}
+
+// Strict parsing, so zero-padded variants are listed separately
+const DATE_FORMATS = [
+  'MM/DD/YYYY',
+  'M/D/YYYY',
+  'MM/DD/YY',
+  'M/D/YY',
+  'YYYY-MM-DD',
+  'YYYY-MM-DD HH:mm:ss',
+  'YYYY-MM-DDTHH:mm:ss',
+  'MMM D, YYYY',
+  'D MMM YYYY',
+]
+
+/**
+ * Parse a date cell to YYYY-MM-DD. Accepts Date objects, Excel serial numbers
+ * and the text formats the supported exports use.
+ */
+function parseDate(value: unknown): string {
+  if (!value) return ''
+
+  if (value instanceof Date) {
+    return dayjs(value).format('YYYY-MM-DD')
+  }
+
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value)
+    return parsed
+      ? dayjs(new Date(parsed.y, parsed.m - 1, parsed.d)).format('YYYY-MM-DD')
+      : ''
+  }
+
+  const dateStr = cellText(value)
+  const parsed = dayjs(dateStr, DATE_FORMATS, true)
+  return parsed.isValid() ? parsed.format('YYYY-MM-DD') : dateStr
+}
+
+export function createImportRow(raw: Record<string, unknown>): ImportRow {
+  const values = new Map<string, unknown>()
+  for (const [header, value] of Object.entries(raw)) {
+    values.set(normalizeHeader(header), value)
+  }
+
+  // First non-empty value among the column names an export may use
+  const get = (columns: string[]): unknown =>
+    columns
+      .map((column) => values.get(normalizeHeader(column)))
+      .find((value) => value !== undefined && value !== null && value !== '')
+
+  return {
+    text: (...columns) => cellText(get(columns)),
+    amount: (...columns) => parseAmount(get(columns)),
+    date: (...columns) => parseDate(get(columns)),
+  }
+}
+
+/**
+ * Check-out date from check-in and nights, for exports that only list one.
+ */
+export function addNights(checkIn: string, nights: number): string {
+  if (!checkIn || !nights) return ''
+  const start = dayjs(checkIn, 'YYYY-MM-DD', true)
+  return start.isValid() ? start.add(nights, 'day').format('YYYY-MM-DD') : ''
+}
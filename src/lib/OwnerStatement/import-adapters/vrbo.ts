@@ -0,0 +1,63 @@
+import { type ReservationImportAdapter, addNights } from './types'
+
+/**
+ * VRBO payout CSV (Financial reporting > Payouts > Export).
+ * Lines without a stay, such as refunds and damage claims, become adjustments.
+ */
+export const vrboAdapter: ReservationImportAdapter = {
+  source: 'vrbo',
+  label: 'VRBO payouts',
+  requiredHeaders: ['reservationid', 'payoutamount'],
+  parseRow: (row) => {
+    const listingName = row.text('Property name', 'Property', 'Listing')
+    const checkIn = row.date('Check-in date', 'Check-in', 'Arrival date')
+    const nights = row.amount('Nights', 'Number of nights')
+    const checkOut =
+      row.date('Check-out date', 'Check-out', 'Departure date') ||
+      addNights(checkIn, nights)
+    const grossBooking = row.amount('Gross booking amount', 'Gross amount')
+    const taxes = row.amount('Tax', 'Taxes', 'Lodging tax')
+
+    if (grossBooking === 0) {
+      const payout = row.amount('Payout amount')
+      if (payout === 0) {
+        return { listingName, skipReason: 'No booking or payout amount' }
+      }
+      return {
+        listingName,
+        income: null,
+        adjustments: [
+          {
+            description: row.text('Payment type', 'Type') || 'VRBO Adjustment',
+            amount: payout,
+            checkIn: checkIn || undefined,
+            checkOut: checkOut || undefined,
+          },
+        ],
+      }
+    }
+
+    return {
+      listingName,
+      income: {
+        guest: row.text('Traveler name', 'Guest name', 'Guest'),
+        checkIn,
+        checkOut,
+        days: nights,
+        platform: 'VRBO',
+        grossRevenue: grossBooking - taxes,
+        cleaningFee: row.amount('Cleaning fee'),
+        platformFee:
+          Math.abs(row.amount('Commission')) +
+          Math.abs(row.amount('Payment processing fee')),
+      },
+      booking: {
+        externalId: row.text('Reservation ID'),
+        taxes,
+        isCancelled: /cancel/i.test(row.text('Status', 'Reservation status')),
+        bookedAt: row.date('Booking date', 'Booked date'),
+      },
+      adjustments: [],
+    }
+  },
+}
@@ -0,0 +1,99 @@
+import type { ManagementAgreement, Prisma } from '@prisma/client'
+
+// Fee terms used when a property has no agreement covering the statement month
+export const DEFAULT_MANAGEMENT_FEE_PERCENT = 15
+
+export const MINIMUM_FEE_ADJUSTMENT_DESCRIPTION = 'Management Fee Minimum'
+
+export interface ManagementFeeRules {
+  feePercent: number
+  minimumMonthlyFee: number
+  excludeCleaningFees: boolean
+  deductPlatformFees: boolean
+  reserveTarget: number
+}
+
+export const DEFAULT_MANAGEMENT_FEE_RULES: ManagementFeeRules = {
+  feePercent: DEFAULT_MANAGEMENT_FEE_PERCENT,
+  minimumMonthlyFee: 0,
+  excludeCleaningFees: false,
+  deductPlatformFees: false,
+  reserveTarget: 0,
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+export function toManagementFeeRules(
+  agreement: Pick<
+    ManagementAgreement,
+    | 'feePercent'
+    | 'minimumMonthlyFee'
+    | 'excludeCleaningFees'
+    | 'deductPlatformFees'
+    | 'reserveTarget'
+  > | null
+): ManagementFeeRules {
+  if (!agreement) return DEFAULT_MANAGEMENT_FEE_RULES
+
+  return {
+    feePercent: Number(agreement.feePercent.toString()) || 0,
+    minimumMonthlyFee: Number(agreement.minimumMonthlyFee.toString()) || 0,
+    excludeCleaningFees: agreement.excludeCleaningFees,
+    deductPlatformFees: agreement.deductPlatformFees,
+    reserveTarget: Number(agreement.reserveTarget.toString()) || 0,
+  }
+}
+
+/**
+ * Computes the host fee and the owner's gross income for one booking.
+ * The fee base starts at gross revenue and optionally drops cleaning fees
+ * and channel fees, depending on the agreement.
+ */
+export function calculateIncomeFees(
+  income: { grossRevenue: number; platformFee: number; cleaningFee?: number },
+  rules: ManagementFeeRules
+): { hostFee: number; grossIncome: number } {
+  let feeBase = income.grossRevenue
+  if (rules.excludeCleaningFees) feeBase -= income.cleaningFee ?? 0
+  if (rules.deductPlatformFees) feeBase -= income.platformFee
+
+  const hostFee = roundCurrency(Math.max(feeBase, 0) * (rules.feePercent / 100))
+
+  return {
+    hostFee,
+    grossIncome: roundCurrency(
+      income.grossRevenue - hostFee - income.platformFee
+    ),
+  }
+}
+
+// Amount still owed when the month's host fees fall below the agreed minimum
+export function calculateMinimumFeeShortfall(
+  totalHostFees: number,
+  rules: ManagementFeeRules
+): number {
+  if (rules.minimumMonthlyFee <= 0) return 0
+  return roundCurrency(Math.max(rules.minimumMonthlyFee - totalHostFees, 0))
+}
+
+/**
+ * Loads the fee rules for a property's statement month. The agreement in
+ * effect on the first day of the month wins; falls back to the default 15%.
+ */
+export async function getManagementFeeRules(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  statementMonth: Date
+): Promise<ManagementFeeRules> {
+  const agreement = await db.managementAgreement.findFirst({
+    where: {
+      propertyId,
+      deletedAt: null,
+      effectiveFrom: { lte: statementMonth },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: statementMonth } }],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  })
+
+  return toManagementFeeRules(agreement)
+}
@@ -0,0 +1,113 @@
+import type { OwnerStatementStatus, Prisma } from '@prisma/client'
+
+// Running balance per property: each statement's net adds to what the owner is
+// owed, payouts take it away, and a negative ending balance opens the next
+// statement as a carryover adjustment.
+
+export const CARRYOVER_ADJUSTMENT_DESCRIPTION = 'Balance Carried Forward'
+
+export interface BalanceLedgerRow {
+  statementId: string
+  statementMonth: Date
+  status: OwnerStatementStatus
+  beginningBalance: number
+  grandTotal: number
+  statementNet: number // Grand total without the carried-forward line
+  payouts: number
+  endingBalance: number
+}
+
+export const balanceLedgerSelect = {
+  id: true,
+  statementMonth: true,
+  status: true,
+  grandTotal: true,
+  adjustments: { where: { isCarryover: true }, select: { amount: true } },
+  payouts: {
+    where: { deletedAt: null, status: { not: 'FAILED' } },
+    select: { amount: true },
+  },
+} satisfies Prisma.OwnerStatementSelect
+
+type LedgerStatement = Prisma.OwnerStatementGetPayload<{
+  select: typeof balanceLedgerSelect
+}>
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+// Expects statements for a single property
+export function buildBalanceLedger(
+  statements: LedgerStatement[]
+): BalanceLedgerRow[] {
+  const sorted = [...statements].sort(
+    (a, b) => a.statementMonth.getTime() - b.statementMonth.getTime()
+  )
+
+  let balance = 0
+  return sorted.map((statement) => {
+    const carryover = statement.adjustments.reduce(
+      (sum, adjustment) => sum + toAmount(adjustment.amount),
+      0
+    )
+    const payouts = roundCents(
+      statement.payouts.reduce(
+        (sum, payout) => sum + toAmount(payout.amount),
+        0
+      )
+    )
+    const grandTotal = toAmount(statement.grandTotal)
+    const statementNet = roundCents(grandTotal - carryover)
+    const beginningBalance = balance
+    balance = roundCents(beginningBalance + statementNet - payouts)
+
+    return {
+      statementId: statement.id,
+      statementMonth: statement.statementMonth,
+      status: statement.status,
+      beginningBalance,
+      grandTotal,
+      statementNet,
+      payouts,
+      endingBalance: balance,
+    }
+  })
+}
+
+export async function getBalanceLedger(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  options: { before?: Date } = {}
+): Promise<BalanceLedgerRow[]> {
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      propertyId,
+      deletedAt: null,
+      ...(options.before && { statementMonth: { lt: options.before } }),
+    },
+    select: balanceLedgerSelect,
+    orderBy: { statementMonth: 'asc' },
+  })
+
+  return buildBalanceLedger(statements)
+}
+
+/**
+ * Deficit to open a statement month with: the ending balance of the latest
+ * earlier statement when it is negative, otherwise zero. Positive balances are
+ * still owed to the owner and are paid out rather than carried.
+ */
+export async function getCarryoverAmount(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  statementMonth: Date
+): Promise<number> {
+  const ledger = await getBalanceLedger(db, propertyId, {
+    before: statementMonth,
+  })
+  const endingBalance = ledger.at(-1)?.endingBalance ?? 0
+
+  return endingBalance < 0 ? endingBalance : 0
+}
@@ -0,0 +1,200 @@
+import type { OwnerPayoutStatus, Prisma } from '@prisma/client'
+import { isValidRoutingNumber } from '~/lib/OwnerStatement/ach-file'
+import {
+  getOwnershipShares,
+  splitAmount,
+} from '~/lib/OwnerStatement/ownership-split'
+import dayjs from '~/lib/utils/day'
+
+export interface PayoutReconciliation {
+  grandTotal: number
+  paid: number // Pending and paid payouts; failed ones are left out
+  outstanding: number
+  isOverpaid: boolean // Paid beyond the grand total, usually a payout made twice
+  // Two payouts of the same amount to the same payee for the same statement
+  hasDuplicatePayout: boolean
+}
+
+export interface PayoutRunLine {
+  statementId: string
+  propertyName: string
+  ownerId: string
+  ownerName: string
+  amount: number // What is still owed to this owner for the statement
+  // Why the owner can't be paid by ACH in this run, if they can't
+  skipReason: string | null
+  bank: {
+    routingNumber: string
+    accountNumber: string
+    accountType: 'checking' | 'savings'
+  } | null
+}
+
+export interface PayoutRunStatement {
+  statementId: string
+  propertyName: string
+  reconciliation: PayoutReconciliation
+  lines: PayoutRunLine[]
+}
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+export function reconcilePayouts(
+  grandTotal: number,
+  payouts: Array<{
+    amount: { toString(): string }
+    status: OwnerPayoutStatus
+    ownerId: string | null
+    ownerStatementId: string
+  }>
+): PayoutReconciliation {
+  const counted = payouts.filter((payout) => payout.status !== 'FAILED')
+  const paid = roundCents(
+    counted.reduce((sum, payout) => sum + toAmount(payout.amount), 0)
+  )
+  const seen = new Set<string>()
+  const hasDuplicatePayout = counted.some((payout) => {
+    const key = [
+      payout.ownerStatementId,
+      payout.ownerId ?? '',
+      toAmount(payout.amount).toFixed(2),
+    ].join(':')
+    if (seen.has(key)) return true
+    seen.add(key)
+    return false
+  })
+
+  return {
+    grandTotal,
+    paid,
+    outstanding: roundCents(Math.max(grandTotal - paid, 0)),
+    isOverpaid: paid > 0 && paid - grandTotal > 0.005,
+    hasDuplicatePayout,
+  }
+}
+
+/**
+ * Plans paying out a month's approved statements. Each statement's unpaid
+ * balance is split between its owners; owners paid by check or without usable
+ * bank details stay in the list with a skip reason so nothing goes missing.
+ */
+export async function getPayoutRun(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  statementMonth: Date
+): Promise<PayoutRunStatement[]> {
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      statementMonth: {
+        gte: statementMonth,
+        lte: dayjs.utc(statementMonth).endOf('month').toDate(),
+      },
+      status: 'APPROVED',
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      grandTotal: true,
+      property: { select: { name: true } },
+      payouts: {
+        where: { deletedAt: null },
+        select: {
+          amount: true,
+          status: true,
+          ownerId: true,
+          ownerStatementId: true,
+        },
+      },
+    },
+    orderBy: { property: { name: 'asc' } },
+  })
+
+  const run: PayoutRunStatement[] = []
+
+  for (const statement of statements) {
+    const reconciliation = reconcilePayouts(
+      toAmount(statement.grandTotal),
+      statement.payouts
+    )
+    const shares = await getOwnershipShares(
+      db,
+      statement.propertyId,
+      statementMonth
+    )
+    const owners = await db.owner.findMany({
+      where: { id: { in: shares.map((share) => share.ownerId) } },
+      select: {
+        id: true,
+        payoutMethod: true,
+        bankRoutingNumber: true,
+        bankAccountNumber: true,
+        bankAccountType: true,
+      },
+    })
+
+    // Whatever was paid to an owner comes off their share first, and the
+    // statement's outstanding balance caps the rest
+    let remaining = reconciliation.outstanding
+    const lines = splitAmount(reconciliation.grandTotal, shares).map(
+      (share): PayoutRunLine => {
+        const paidToOwner = statement.payouts
+          .filter(
+            (payout) =>
+              payout.ownerId === share.ownerId && payout.status !== 'FAILED'
+          )
+          .reduce((sum, payout) => sum + toAmount(payout.amount), 0)
+        const amount = roundCents(
+          Math.min(Math.max(share.amount - paidToOwner, 0), remaining)
+        )
+        remaining = roundCents(remaining - amount)
+
+        const owner = owners.find((item) => item.id === share.ownerId)
+        const accountType =
+          owner?.bankAccountType === 'savings'
+            ? 'savings'
+            : owner?.bankAccountType === 'checking'
+              ? 'checking'
+              : null
+        const bank: PayoutRunLine['bank'] =
+          owner?.bankRoutingNumber && owner.bankAccountNumber && accountType
+            ? {
+                routingNumber: owner.bankRoutingNumber,
+                accountNumber: owner.bankAccountNumber,
+                accountType,
+              }
+            : null
+
+        let skipReason: string | null = null
+        if (amount <= 0) skipReason = 'Nothing owed'
+        else if (owner?.payoutMethod !== 'ACH') skipReason = 'Paid by check'
+        else if (!bank) skipReason = 'Missing bank details'
+        else if (!isValidRoutingNumber(bank.routingNumber))
+          skipReason = 'Invalid routing number'
+
+        return {
+          statementId: statement.id,
+          propertyName: statement.property.name,
+          ownerId: share.ownerId,
+          ownerName: share.ownerName,
+          amount,
+          skipReason,
+          bank: skipReason ? null : bank,
+        }
+      }
+    )
+
+    run.push({
+      statementId: statement.id,
+      propertyName: statement.property.name,
+      reconciliation,
+      lines,
+    })
+  }
+
+  return run
+}
@@ -0,0 +1,118 @@
+import type { Prisma } from '@prisma/client'
+
+// Each property's reserve is the running total of its reserve adjustments.
+// Adjustments are stored from the owner's side, so a contribution of -100
+// adds 100 to the reserve and a drawdown of +100 takes it back out.
+
+export const RESERVE_CONTRIBUTION_DESCRIPTION = 'Contribution to Reserve'
+export const RESERVE_DRAWDOWN_DESCRIPTION = 'Paid from Reserve'
+
+export interface ReserveStatus {
+  target: number
+  openingBalance: number
+  contributions: number
+  drawdowns: number
+  closingBalance: number
+}
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+/**
+ * How much of a statement's net to hold back: enough to bring the reserve up
+ * to its target, never more than the statement has available.
+ */
+export function calculateReserveContribution({
+  target,
+  balance,
+  available,
+}: {
+  target: number
+  balance: number
+  available: number
+}): number {
+  if (target <= 0 || available <= 0) return 0
+  return roundCents(Math.min(Math.max(target - balance, 0), available))
+}
+
+// Reserve balance from statements before (or through) a month
+export async function getReserveBalance(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  range: { before: Date } | { through: Date }
+): Promise<number> {
+  const result = await db.ownerStatementAdjustment.aggregate({
+    _sum: { amount: true },
+    where: {
+      reserveEntry: { not: null },
+      ownerStatement: {
+        propertyId,
+        deletedAt: null,
+        statementMonth:
+          'before' in range ? { lt: range.before } : { lte: range.through },
+      },
+    },
+  })
+
+  return roundCents(-toAmount(result._sum.amount))
+}
+
+// Reserve balances for many properties as of the end of a month
+export async function getReserveBalances(
+  db: Prisma.TransactionClient,
+  propertyIds: string[],
+  through: Date
+): Promise<Map<string, number>> {
+  const adjustments = await db.ownerStatementAdjustment.findMany({
+    where: {
+      reserveEntry: { not: null },
+      ownerStatement: {
+        propertyId: { in: propertyIds },
+        deletedAt: null,
+        statementMonth: { lte: through },
+      },
+    },
+    select: { amount: true, ownerStatement: { select: { propertyId: true } } },
+  })
+
+  const balances = new Map<string, number>()
+  for (const adjustment of adjustments) {
+    const { propertyId } = adjustment.ownerStatement
+    balances.set(
+      propertyId,
+      roundCents((balances.get(propertyId) ?? 0) - toAmount(adjustment.amount))
+    )
+  }
+  return balances
+}
+
+export function toReserveStatus(
+  target: number,
+  openingBalance: number,
+  adjustments: Array<{
+    amount: { toString(): string }
+    reserveEntry: string | null
+  }>
+): ReserveStatus {
+  const sumOf = (entry: string) =>
+    roundCents(
+      adjustments
+        .filter((adjustment) => adjustment.reserveEntry === entry)
+        .reduce(
+          (sum, adjustment) => sum + Math.abs(toAmount(adjustment.amount)),
+          0
+        )
+    )
+  const contributions = sumOf('CONTRIBUTION')
+  const drawdowns = sumOf('DRAWDOWN')
+
+  return {
+    target,
+    openingBalance,
+    contributions,
+    drawdowns,
+    closingBalance: roundCents(openingBalance + contributions - drawdowns),
+  }
+}
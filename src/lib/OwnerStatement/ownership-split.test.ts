@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type OwnerShareRule,
+  sharesAddUpToWhole,
+  splitAmount,
+} from '~/lib/OwnerStatement/ownership-split'
+
+const share = (ownerId: string, percent: number): OwnerShareRule => ({
+  ownerId,
+  ownerName: ownerId.toUpperCase(),
+  percent,
+})
+
+const total = (parts: Array<{ amount: number }>) =>
+  Math.round(parts.reduce((sum, part) => sum + part.amount * 100, 0))
+
+describe('splitAmount', () => {
+  it('splits evenly when the shares divide the total', () => {
+    expect(
+      splitAmount(100, [share('a', 50), share('b', 50)]).map((part) => ({
+        ownerId: part.ownerId,
+        amount: part.amount,
+      }))
+    ).toEqual([
+      { ownerId: 'a', amount: 50 },
+      { ownerId: 'b', amount: 50 },
+    ])
+  })
+
+  it('gives the leftover cents to the largest remainders', () => {
+    const parts = splitAmount(0.1, [share('b', 43), share('a', 57)])
+    expect(parts.map((part) => [part.ownerId, part.amount])).toEqual([
+      ['b', 0.04],
+      ['a', 0.06],
+    ])
+  })
+
+  it('breaks equal remainders by percent, then owner id', () => {
+    expect(
+      splitAmount(0.1, [share('a', 45), share('b', 55)]).map(
+        (part) => part.amount
+      )
+    ).toEqual([0.04, 0.06])
+
+    const parts = splitAmount(0.02, [
+      share('c', 100 / 3),
+      share('a', 100 / 3),
+      share('b', 100 / 3),
+    ])
+    expect(parts.map((part) => [part.ownerId, part.amount])).toEqual([
+      ['c', 0],
+      ['a', 0.01],
+      ['b', 0.01],
+    ])
+  })
+
+  it('always adds back up to the total', () => {
+    const shares = [share('a', 45), share('b', 35), share('c', 20)]
+    for (const amount of [0.01, 0.07, 1.99, 333.33, 1234.57, 9999.99]) {
+      expect(total(splitAmount(amount, shares))).toBe(Math.round(amount * 100))
+    }
+  })
+
+  it('splits negative totals the same way as positive ones', () => {
+    const parts = splitAmount(-100, [share('a', 70), share('b', 30)])
+    expect(parts.map((part) => part.amount)).toEqual([-70, -30])
+    expect(total(splitAmount(-0.05, [share('a', 50), share('b', 50)]))).toBe(-5)
+  })
+
+  it('returns nothing without shares', () => {
+    expect(splitAmount(100, [])).toEqual([])
+    expect(splitAmount(100, [share('a', 0)])).toEqual([])
+  })
+})
+
+describe('sharesAddUpToWhole', () => {
+  it('allows float noise around 100%', () => {
+    expect(sharesAddUpToWhole([100 / 3, 100 / 3, 100 / 3])).toBe(true)
+    expect(sharesAddUpToWhole([60, 40])).toBe(true)
+    expect(sharesAddUpToWhole([60, 39.9])).toBe(false)
+  })
+})
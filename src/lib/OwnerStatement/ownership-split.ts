@@ -0,0 +1,114 @@
+import type { Prisma } from '@prisma/client'
+
+export interface OwnerShareRule {
+  ownerId: string
+  ownerName: string
+  percent: number
+}
+
+export interface OwnerShareAmount extends OwnerShareRule {
+  amount: number
+}
+
+// Shares are compared in thousandths of a percent to absorb float noise
+const PERCENT_TOLERANCE = 0.001
+
+export function sharesAddUpToWhole(percents: number[]): boolean {
+  const total = percents.reduce((sum, percent) => sum + percent, 0)
+  return Math.abs(total - 100) < PERCENT_TOLERANCE
+}
+
+/**
+ * Divides an amount between co-owners to the cent. Every owner first gets
+ * their share rounded toward zero; the leftover cents then go one at a time
+ * to the largest fractional remainders, ties broken by larger percent and
+ * then owner id. The parts always add up to the total and the same inputs
+ * always give the same split.
+ */
+export function splitAmount(
+  total: number,
+  shares: OwnerShareRule[]
+): OwnerShareAmount[] {
+  const percentTotal = shares.reduce((sum, share) => sum + share.percent, 0)
+  if (shares.length === 0 || percentTotal <= 0) return []
+
+  const totalCents = Math.round(total * 100)
+  const sign = totalCents < 0 ? -1 : 1
+  const absoluteCents = Math.abs(totalCents)
+
+  const parts = shares.map((share) => {
+    const exact = (absoluteCents * share.percent) / percentTotal
+    const cents = Math.floor(exact + 1e-9)
+    // Rounded so equal remainders compare equal despite float noise
+    return { share, cents, remainder: Math.round((exact - cents) * 1e6) }
+  })
+
+  let leftover =
+    absoluteCents - parts.reduce((sum, part) => sum + part.cents, 0)
+  const byRemainder = [...parts].sort(
+    (a, b) =>
+      b.remainder - a.remainder ||
+      b.share.percent - a.share.percent ||
+      a.share.ownerId.localeCompare(b.share.ownerId)
+  )
+  for (const part of byRemainder) {
+    if (leftover <= 0) break
+    part.cents += 1
+    leftover -= 1
+  }
+
+  return parts.map(({ share, cents }) => ({
+    ...share,
+    amount: (sign * cents) / 100,
+  }))
+}
+
+/**
+ * Loads who owns a property for a statement month. The split in effect on the
+ * first day of the month wins; without one the property's owner holds 100%.
+ * Returns an empty list when the property has no owner on file.
+ */
+export async function getOwnershipShares(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  statementMonth: Date
+): Promise<OwnerShareRule[]> {
+  const split = await db.ownershipSplit.findFirst({
+    where: {
+      propertyId,
+      deletedAt: null,
+      effectiveFrom: { lte: statementMonth },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: statementMonth } }],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+    include: {
+      shares: {
+        include: { owner: { select: { name: true } } },
+        orderBy: [{ percent: 'desc' }, { ownerId: 'asc' }],
+      },
+    },
+  })
+
+  if (split) {
+    return split.shares.map((share) => ({
+      ownerId: share.ownerId,
+      ownerName: share.owner.name,
+      percent: Number(share.percent.toString()) || 0,
+    }))
+  }
+
+  const property = await db.property.findUnique({
+    where: { id: propertyId },
+    select: { owner: { select: { id: true, name: true, deletedAt: true } } },
+  })
+
+  if (!property?.owner || property.owner.deletedAt) return []
+
+  return [
+    {
+      ownerId: property.owner.id,
+      ownerName: property.owner.name,
+      percent: 100,
+    },
+  ]
+}
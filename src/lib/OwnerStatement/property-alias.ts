@@ -0,0 +1,45 @@
+import type { Prisma } from '@prisma/client'
+import { RESERVATION_IMPORT_SOURCES } from '~/lib/OwnerStatement/import-adapters/types'
+
+// Alternate names a property goes by in imports (reservation listings, vendor invoices)
+
+export const PROPERTY_ALIAS_SOURCES = [
+  ...RESERVATION_IMPORT_SOURCES,
+  'vendor',
+  'manual',
+] as const
+
+export type PropertyAliasSource = (typeof PROPERTY_ALIAS_SOURCES)[number]
+
+// Normalized alias -> property ID
+export type PropertyAliasMap = Map<string, string>
+
+/**
+ * Normalize a listing or property name for matching.
+ * Hostaway suffixes relisted units with (OLD)/(NEW).
+ */
+export function normalizePropertyName(name: string): string {
+  return name
+    .replace(/\s*\((OLD|NEW)\)\s*$/i, '')
+    .replace(/\s+/g, '')
+    .toLowerCase()
+}
+
+export async function getPropertyAliasMap(
+  db: Prisma.TransactionClient,
+  orgId: string
+): Promise<PropertyAliasMap> {
+  const aliases = await db.propertyAlias.findMany({
+    where: { managementGroupId: orgId, property: { deletedAt: null } },
+    select: { normalizedAlias: true, propertyId: true },
+  })
+
+  return new Map(aliases.map((a) => [a.normalizedAlias, a.propertyId]))
+}
+
+export function findAliasedPropertyId(
+  name: string,
+  aliases: PropertyAliasMap
+): string | undefined {
+  return aliases.get(normalizePropertyName(name))
+}
@@ -0,0 +1,206 @@
+import type { PropertyMatchResult } from '~/lib/ai/ai'
+
+// Deterministic property matching on names and addresses. Runs before the
+// LLM and stands in for it when no AI key is configured or the call fails.
+
+export interface MatchableProperty {
+  id: string
+  name: string
+  address?: string | null
+}
+
+// Local matches at or above this are trusted without asking the LLM
+export const CONFIDENT_MATCH_SCORE = 0.85
+// Same floor the LLM prompt uses for partial matches
+export const MIN_MATCH_SCORE = 0.5
+// The best candidate must beat the runner-up by this much to count
+const MIN_MATCH_MARGIN = 0.1
+
+const STREET_SUFFIXES: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  av: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  terrace: 'ter',
+  circle: 'cir',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  trail: 'trl',
+  square: 'sq',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+}
+
+const STOP_WORDS = new Set(['the', 'at', 'of', 'and'])
+
+const UNIT_PATTERN =
+  /(?:\b(?:unit|apt|apartment|suite|ste|no)\b\.?\s*#?|#)\s*([a-z0-9-]+)/
+
+interface NormalizedName {
+  text: string
+  tokens: string[]
+  unit: string | null
+}
+
+/**
+ * Lowercase, drop (OLD)/(NEW) tags and punctuation, pull out the unit number
+ * and abbreviate street suffixes, so "123 Main Street, Apt #4 (OLD)" and
+ * "123 main st unit 4" normalize the same way.
+ */
+export function normalizeForMatching(value: string): NormalizedName {
+  let text = value
+    .toLowerCase()
+    .replace(/\((old|new)\)/g, ' ')
+    .replace(/[.,'’]/g, '')
+
+  const unitMatch = UNIT_PATTERN.exec(text)
+  const unit = unitMatch?.[1]?.replace(/-/g, '') ?? null
+  if (unitMatch) text = text.replace(unitMatch[0], ' ')
+
+  const tokens = text
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map((token) => STREET_SUFFIXES[token] ?? token)
+
+  return { text: tokens.join(' '), tokens, unit }
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest
+}
+
+// Typos only count on longer words so "st" never matches "dr"
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true
+  return a.length >= 4 && b.length >= 4 && editSimilarity(a, b) >= 0.75
+}
+
+/**
+ * Dice coefficient over tokens, tolerating small typos. When every token of
+ * the shorter name appears in the longer one (a street address without the
+ * city, a name with the address appended) the overlap counts for slightly
+ * less than an exact match.
+ */
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (!a.length || !b.length) return 0
+
+  const remaining = [...b]
+  let shared = 0
+  for (const token of a) {
+    const index = remaining.findIndex((other) => tokensMatch(token, other))
+    if (index !== -1) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+  const dice = (2 * shared) / (a.length + b.length)
+  const shorter = Math.min(a.length, b.length)
+  return shorter >= 2 && shared === shorter ? Math.max(dice, 0.9) : dice
+}
+
+function scoreNames(a: NormalizedName, b: NormalizedName): number {
+  // Different units in the same building are different properties
+  if (a.unit && b.unit && a.unit !== b.unit) return 0
+  if (!a.text || !b.text) return 0
+
+  const score =
+    a.text === b.text
+      ? 0.95
+      : Math.max(
+          tokenSimilarity(a.tokens, b.tokens),
+          editSimilarity(a.text, b.text)
+        )
+
+  // A unit on only one side is a weaker signal than a matching unit
+  return a.unit !== b.unit ? score * 0.8 : score
+}
+
+interface ScoredCandidate {
+  propertyId: string
+  score: number
+  field: 'name' | 'address'
+}
+
+function scoreProperty(
+  importName: NormalizedName,
+  property: MatchableProperty
+): ScoredCandidate {
+  const nameScore = scoreNames(importName, normalizeForMatching(property.name))
+  const addressScore = property.address
+    ? scoreNames(importName, normalizeForMatching(property.address))
+    : 0
+
+  return addressScore > nameScore
+    ? { propertyId: property.id, score: addressScore, field: 'address' }
+    : { propertyId: property.id, score: nameScore, field: 'name' }
+}
+
+/**
+ * Match import names against properties without calling an LLM. Names whose
+ * best candidate is below minScore, or too close to the runner-up to tell
+ * apart, are returned as unmatched.
+ */
+export function matchPropertiesLocally({
+  importProperties,
+  databaseProperties,
+  minScore = CONFIDENT_MATCH_SCORE,
+}: {
+  importProperties: string[]
+  databaseProperties: MatchableProperty[]
+  minScore?: number
+}): PropertyMatchResult {
+  const result: PropertyMatchResult = { matches: {}, unmatched: [] }
+
+  for (const importProp of importProperties) {
+    const normalized = normalizeForMatching(importProp)
+    const [best, runnerUp] = databaseProperties
+      .map((property) => scoreProperty(normalized, property))
+      .sort((a, b) => b.score - a.score)
+
+    if (
+      !best ||
+      best.score < minScore ||
+      (runnerUp && best.score - runnerUp.score < MIN_MATCH_MARGIN)
+    ) {
+      result.unmatched.push(importProp)
+      continue
+    }
+
+    result.matches[importProp] = {
+      propertyId: best.propertyId,
+      confidence: Math.round(best.score * 100) / 100,
+      reason: `fuzzy ${best.field} match`,
+    }
+  }
+
+  return result
+}
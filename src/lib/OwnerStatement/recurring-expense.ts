@@ -0,0 +1,116 @@
+import type {
+  Prisma,
+  RecurringExpenseAmountType,
+  RecurringExpenseFrequency,
+} from '@prisma/client'
+import dayjs from '~/lib/utils/day'
+
+// Expenses that repeat every month or every few months, added from templates
+// when a month's statements are created from a reservation import.
+
+export const RECURRING_EXPENSE_FREQUENCIES = [
+  'MONTHLY',
+  'QUARTERLY',
+  'SEMIANNUALLY',
+  'ANNUALLY',
+] as const satisfies readonly RecurringExpenseFrequency[]
+
+export const RECURRING_EXPENSE_FREQUENCY_LABELS: Record<
+  RecurringExpenseFrequency,
+  string
+> = {
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  SEMIANNUALLY: 'Every 6 months',
+  ANNUALLY: 'Annually',
+}
+
+const FREQUENCY_MONTHS: Record<RecurringExpenseFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMIANNUALLY: 6,
+  ANNUALLY: 12,
+}
+
+export interface RecurringExpenseTerms {
+  amountType: RecurringExpenseAmountType
+  amount: { toString(): string }
+  frequency: RecurringExpenseFrequency
+  startMonth: Date
+  endMonth: Date | null
+}
+
+export interface PlannedRecurringExpense {
+  date: string // YYYY-MM-DD, the first of the statement month
+  description: string
+  vendor: string
+  amount: number
+  category: string | null
+  recurringExpenseTemplateId: string
+}
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+// Whether the template falls due in the month, counting from its start month
+export function isRecurringExpenseDue(
+  template: RecurringExpenseTerms,
+  month: Date
+): boolean {
+  const current = dayjs.utc(month).startOf('month')
+  const start = dayjs.utc(template.startMonth).startOf('month')
+  if (current.isBefore(start)) return false
+  if (template.endMonth && current.isAfter(dayjs.utc(template.endMonth))) {
+    return false
+  }
+
+  return (
+    current.diff(start, 'month') % FREQUENCY_MONTHS[template.frequency] === 0
+  )
+}
+
+/**
+ * The expense amount for a statement. Percentage templates take their share
+ * of the statement's total income, and come to nothing when there is none.
+ */
+export function recurringExpenseAmount(
+  template: Pick<RecurringExpenseTerms, 'amountType' | 'amount'>,
+  totalIncome: number
+): number {
+  const amount = Number(template.amount.toString()) || 0
+  if (template.amountType === 'FIXED') return roundCents(amount)
+  return roundCents((Math.max(totalIncome, 0) * amount) / 100)
+}
+
+/**
+ * Expenses from the property's templates that are due in the month. Amounts
+ * that come to nothing are left off.
+ */
+export async function getRecurringExpenses(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  month: Date,
+  totalIncome: number
+): Promise<PlannedRecurringExpense[]> {
+  const start = dayjs.utc(month).startOf('month')
+  const templates = await db.recurringExpenseTemplate.findMany({
+    where: {
+      deletedAt: null,
+      properties: { some: { propertyId } },
+      startMonth: { lte: start.toDate() },
+      OR: [{ endMonth: null }, { endMonth: { gte: start.toDate() } }],
+    },
+    orderBy: [{ vendor: 'asc' }, { description: 'asc' }],
+  })
+
+  return templates
+    .filter((template) => isRecurringExpenseDue(template, start.toDate()))
+    .map((template) => ({
+      date: start.format('YYYY-MM-DD'),
+      description: template.description,
+      vendor: template.vendor,
+      amount: recurringExpenseAmount(template, totalIncome),
+      category: template.category,
+      recurringExpenseTemplateId: template.id,
+    }))
+    .filter((expense) => expense.amount > 0)
+}
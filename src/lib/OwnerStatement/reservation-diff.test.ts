@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type DiffIncome,
+  type ExistingIncomeLine,
+  type ReimportedStay,
+  diffReservations,
+  reservationChangeDescription,
+  reservationChangeKey,
+} from '~/lib/OwnerStatement/reservation-diff'
+import type { ImportedBooking } from '~/lib/OwnerStatement/reservation-import'
+
+const income = (overrides: Partial<DiffIncome> = {}): DiffIncome => ({
+  checkIn: '2025-03-10',
+  checkOut: '2025-03-14',
+  days: 4,
+  platform: 'Airbnb',
+  guest: 'Jane Guest',
+  grossRevenue: 800,
+  cleaningFee: 100,
+  hostFee: 160,
+  platformFee: 24,
+  grossIncome: 616,
+  ...overrides,
+})
+
+const booking = (
+  externalId: string,
+  overrides: Partial<ImportedBooking> = {}
+): ImportedBooking => ({
+  externalId,
+  taxes: 0,
+  isCancelled: false,
+  bookedAt: '',
+  ...overrides,
+})
+
+const line = (
+  id: string,
+  externalId: string | null,
+  overrides: Partial<ExistingIncomeLine> = {}
+): ExistingIncomeLine => ({
+  id,
+  reservationId: externalId ? `reservation-${externalId}` : null,
+  reservationExternalId: externalId,
+  fromOtherSource: false,
+  fromOtherMonth: false,
+  ...income(overrides),
+})
+
+const reimport = (
+  externalId: string,
+  overrides: Partial<DiffIncome> = {},
+  bookingOverrides: Partial<ImportedBooking> = {}
+): ReimportedStay => {
+  const value = income(overrides)
+  return {
+    income: value,
+    stay: value,
+    booking: booking(externalId, bookingOverrides),
+  }
+}
+
+describe('diffReservations', () => {
+  it('finds nothing when the file matches the statement', () => {
+    expect(diffReservations([line('1', 'HM1')], [reimport('HM1')])).toEqual([])
+  })
+
+  it('reports stays new to the file as added', () => {
+    const [change] = diffReservations([], [reimport('HM2')])
+
+    expect(change).toMatchObject({
+      kind: 'ADDED',
+      externalId: 'HM2',
+      incomeId: null,
+      before: null,
+      revenueDelta: 800,
+      ownerIncomeDelta: 616,
+    })
+  })
+
+  it('lists the fields that changed with the difference to the owner', () => {
+    const [change] = diffReservations(
+      [line('1', 'HM1')],
+      [
+        reimport('HM1', {
+          checkOut: '2025-03-15',
+          days: 5,
+          grossRevenue: 1000,
+          hostFee: 200,
+          grossIncome: 770.1,
+        }),
+      ]
+    )
+
+    expect(change).toMatchObject({
+      kind: 'CHANGED',
+      incomeId: '1',
+      reservationId: 'reservation-HM1',
+      changedFields: [
+        'checkOut',
+        'days',
+        'grossRevenue',
+        'hostFee',
+        'grossIncome',
+      ],
+      revenueDelta: 200,
+      ownerIncomeDelta: 154.1,
+    })
+  })
+
+  it('ignores differences below half a cent', () => {
+    expect(
+      diffReservations(
+        [line('1', 'HM1')],
+        [reimport('HM1', { grossRevenue: 800.004, guest: ' Jane Guest ' })]
+      )
+    ).toEqual([])
+  })
+
+  it('treats refunded cancellations and stays missing from the file as cancelled', () => {
+    const changes = diffReservations(
+      [line('1', 'HM1'), line('2', 'HM2', { guest: 'Sam Stayer' })],
+      [
+        reimport(
+          'HM1',
+          { grossRevenue: 0, hostFee: 0, platformFee: 0, grossIncome: 0 },
+          { isCancelled: true }
+        ),
+      ]
+    )
+
+    expect(
+      changes.map((change) => [
+        change.kind,
+        change.incomeId,
+        change.after,
+        change.ownerIncomeDelta,
+      ])
+    ).toEqual([
+      ['CANCELLED', '1', null, -616],
+      ['CANCELLED', '2', null, -616],
+    ])
+  })
+
+  it('keeps cancellations that still paid as changes', () => {
+    const [change] = diffReservations(
+      [line('1', 'HM1')],
+      [
+        reimport(
+          'HM1',
+          { days: 0, grossRevenue: 200, hostFee: 40, grossIncome: 154 },
+          { isCancelled: true }
+        ),
+      ]
+    )
+
+    expect(change?.kind).toBe('CHANGED')
+    expect(change?.ownerIncomeDelta).toBe(-462)
+  })
+
+  it('leaves lines entered by hand and refunded stays it never saw alone', () => {
+    expect(
+      diffReservations(
+        [line('1', null, { guest: 'Walk In', platform: 'Direct' })],
+        [
+          reimport(
+            'HM3',
+            { guest: 'Another Guest', grossRevenue: 0, grossIncome: 0 },
+            { isCancelled: true }
+          ),
+        ]
+      )
+    ).toEqual([])
+  })
+
+  it('only cancels missing stays the file could have held', () => {
+    const changes = diffReservations(
+      [
+        line('1', 'HM1', { fromOtherSource: true }),
+        line('2', 'HM2', { fromOtherMonth: true }),
+        line('3', 'HM3', { fromOtherSource: true, grossRevenue: 700 }),
+      ],
+      [reimport('HM3')]
+    )
+
+    expect(changes.map((change) => [change.kind, change.incomeId])).toEqual([
+      ['CHANGED', '3'],
+    ])
+  })
+
+  it('matches lines saved before reservations by platform, dates and guest', () => {
+    const [change] = diffReservations(
+      [line('1', null)],
+      [{ ...reimport('HM1', { grossRevenue: 900 }), booking: null }]
+    )
+
+    expect(change).toMatchObject({ kind: 'CHANGED', incomeId: '1' })
+  })
+})
+
+describe('reservationChangeKey', () => {
+  it('is the same for the same change and differs when the stay changes again', () => {
+    const diff = (grossIncome: number) =>
+      diffReservations(
+        [line('1', 'HM1')],
+        [reimport('HM1', { grossIncome })]
+      )[0]!
+
+    expect(reservationChangeKey(diff(700))).toBe(
+      reservationChangeKey(diff(700))
+    )
+    expect(reservationChangeKey(diff(700))).not.toBe(
+      reservationChangeKey(diff(650))
+    )
+  })
+
+  it('keys cancellations by the stay alone and names it in the adjustment', () => {
+    const [change] = diffReservations([line('1', 'HM1')], [])
+
+    expect(reservationChangeKey(change!)).toBe('CANCELLED|HM1')
+    expect(change?.key).toBe('CANCELLED|HM1')
+    expect(reservationChangeDescription(change!)).toBe(
+      'Cancelled stay: Jane Guest (2025-03-10 to 2025-03-14)'
+    )
+  })
+})
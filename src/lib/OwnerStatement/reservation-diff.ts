@@ -0,0 +1,201 @@
+import type { OwnerStatementStatus } from '@prisma/client'
+import { reservationExternalId } from '~/lib/OwnerStatement/reservation'
+import type {
+  ImportedBooking,
+  ImportedIncome,
+} from '~/lib/OwnerStatement/reservation-import'
+
+// Compares a re-imported file with the income lines already on a month's
+// statements, matching lines to stays by reservation ID.
+
+export type ReservationChangeKind = 'ADDED' | 'CHANGED' | 'CANCELLED'
+
+export type DiffIncome = ImportedIncome & {
+  hostFee: number
+  grossIncome: number
+}
+
+export interface ReservationChange {
+  kind: ReservationChangeKind
+  key: string // From reservationChangeKey, for choosing which changes to apply
+  externalId: string
+  incomeId: string | null // Existing statement line, none for added stays
+  reservationId: string | null
+  before: DiffIncome | null
+  after: DiffIncome | null
+  changedFields: Array<keyof DiffIncome>
+  revenueDelta: number
+  ownerIncomeDelta: number // Change in gross income, what the owner is paid
+}
+
+export interface PropertyReservationDiff {
+  propertyId: string
+  propertyName: string
+  statementId: string
+  status: OwnerStatementStatus
+  isLocked: boolean // Changes go on as adjustment lines instead of edits
+  changes: ReservationChange[]
+  revenueDelta: number
+  ownerIncomeDelta: number
+}
+
+export interface ExistingIncomeLine extends DiffIncome {
+  id: string
+  reservationId: string | null
+  reservationExternalId: string | null
+  fromOtherSource: boolean // Reservation last imported from another source or platform
+  fromOtherMonth: boolean // Share of a stay imported with another month
+}
+
+export interface ReimportedStay {
+  income: DiffIncome // This month's line, or its share of a longer stay
+  stay: ImportedIncome // The whole stay as exported
+  booking: ImportedBooking | null
+}
+
+const COMPARED_FIELDS = [
+  'checkIn',
+  'checkOut',
+  'days',
+  'platform',
+  'guest',
+  'grossRevenue',
+  'cleaningFee',
+  'hostFee',
+  'platformFee',
+  'grossIncome',
+] as const satisfies ReadonlyArray<keyof DiffIncome>
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+function changedFields(before: DiffIncome, after: DiffIncome) {
+  return COMPARED_FIELDS.filter((field) => {
+    const a = before[field]
+    const b = after[field]
+    return typeof a === 'number' && typeof b === 'number'
+      ? Math.abs(a - b) >= 0.005
+      : String(a).trim() !== String(b).trim()
+  })
+}
+
+/**
+ * Added, changed and cancelled stays for one statement. Lines match on the
+ * reservation they were imported from, falling back to platform, dates and
+ * guest for lines imported before reservations were saved. A line from a
+ * reservation that is missing from the file, or is now cancelled with
+ * nothing paid, counts as cancelled. Lines entered by hand are never touched,
+ * and lines the file couldn't have held (another source's or platform's
+ * reservations, or shares of stays imported with another month) aren't
+ * cancelled for being missing.
+ */
+export function diffReservations(
+  existing: ExistingIncomeLine[],
+  reimported: ReimportedStay[]
+): ReservationChange[] {
+  const unmatched = new Map(existing.map((line) => [line.id, line]))
+  const changes: Array<Omit<ReservationChange, 'key'>> = []
+
+  for (const { income, stay, booking } of reimported) {
+    const externalId = reservationExternalId(stay, booking)
+    const fallbackId = reservationExternalId(stay, null)
+    const line =
+      [...unmatched.values()].find(
+        (item) => item.reservationExternalId === externalId
+      ) ??
+      [...unmatched.values()].find(
+        (item) =>
+          !item.reservationExternalId &&
+          reservationExternalId(item, null) === fallbackId
+      )
+    const isCancelled = !!booking?.isCancelled && income.grossRevenue === 0
+
+    if (!line) {
+      if (isCancelled) continue
+      changes.push({
+        kind: 'ADDED',
+        externalId,
+        incomeId: null,
+        reservationId: null,
+        before: null,
+        after: income,
+        changedFields: [],
+        revenueDelta: roundCents(income.grossRevenue),
+        ownerIncomeDelta: roundCents(income.grossIncome),
+      })
+      continue
+    }
+
+    unmatched.delete(line.id)
+    const fields = isCancelled ? [] : changedFields(line, income)
+    if (!isCancelled && !fields.length) continue
+
+    changes.push({
+      kind: isCancelled ? 'CANCELLED' : 'CHANGED',
+      externalId,
+      incomeId: line.id,
+      reservationId: line.reservationId,
+      before: line,
+      after: isCancelled ? null : income,
+      changedFields: fields,
+      revenueDelta: roundCents(
+        (isCancelled ? 0 : income.grossRevenue) - line.grossRevenue
+      ),
+      ownerIncomeDelta: roundCents(
+        (isCancelled ? 0 : income.grossIncome) - line.grossIncome
+      ),
+    })
+  }
+
+  for (const line of unmatched.values()) {
+    if (!line.reservationId || line.fromOtherSource || line.fromOtherMonth) {
+      continue
+    }
+    changes.push({
+      kind: 'CANCELLED',
+      externalId:
+        line.reservationExternalId ?? reservationExternalId(line, null),
+      incomeId: line.id,
+      reservationId: line.reservationId,
+      before: line,
+      after: null,
+      changedFields: [],
+      revenueDelta: roundCents(-line.grossRevenue),
+      ownerIncomeDelta: roundCents(-line.grossIncome),
+    })
+  }
+
+  return changes.map((change) => ({
+    ...change,
+    key: reservationChangeKey(change),
+  }))
+}
+
+// Description for the adjustment line a change becomes on a locked statement
+export function reservationChangeDescription(change: ReservationChange) {
+  const income = change.after ?? change.before
+  const stay = income
+    ? `${income.guest} (${income.checkIn} to ${income.checkOut})`
+    : ''
+  const label =
+    change.kind === 'ADDED'
+      ? 'Added stay'
+      : change.kind === 'CANCELLED'
+        ? 'Cancelled stay'
+        : 'Changed stay'
+  return `${label}: ${stay}`
+}
+
+/**
+ * Identifies a change once it has been recorded as an adjustment. The key
+ * holds the stay's new values, so a later edit to the same stay is a new
+ * change while re-importing the same file finds nothing left to apply.
+ */
+export function reservationChangeKey(
+  change: Pick<ReservationChange, 'kind' | 'externalId' | 'after'>
+) {
+  const { after } = change
+  const values = after
+    ? COMPARED_FIELDS.map((field) => String(after[field]))
+    : []
+  return [change.kind, change.externalId, ...values].join('|')
+}
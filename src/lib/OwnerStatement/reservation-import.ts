@@ -0,0 +1,175 @@
+import * as XLSX from 'xlsx'
+import {
+  type ReservationImportSource,
+  createImportRow,
+  detectReservationImportAdapter,
+  getReservationImportAdapter,
+} from '~/lib/OwnerStatement/import-adapters'
+import { normalizePropertyName } from '~/lib/OwnerStatement/property-alias'
+import type { PropertyReservationDiff } from '~/lib/OwnerStatement/reservation-diff'
+
+// Server-side parsing of reservation exports and shared preview types
+
+export interface ImportedIncome {
+  checkIn: string
+  checkOut: string
+  days: number
+  platform: string
+  guest: string
+  grossRevenue: number
+  cleaningFee: number
+  platformFee: number
+}
+
+// Booking details kept on the reservation rather than the statement line
+export interface ImportedBooking {
+  externalId: string // Confirmation code or reservation ID; blank if the export has none
+  taxes: number
+  isCancelled: boolean
+  bookedAt: string // YYYY-MM-DD, blank if the export doesn't say
+}
+
+export interface ImportedAdjustment {
+  checkIn?: string
+  checkOut?: string
+  description: string
+  amount: number
+}
+
+export interface ParsedReservationRow {
+  rowNumber: number
+  listingName: string
+  // Null for rows that only carry adjustments, e.g. Airbnb resolutions
+  income: ImportedIncome | null
+  booking: ImportedBooking | null
+  adjustments: ImportedAdjustment[]
+}
+
+export interface SkippedImportRow {
+  rowNumber: number
+  listingName: string
+  reason: string
+}
+
+export interface ParsedReservationFile {
+  source: ReservationImportSource
+  rows: ParsedReservationRow[]
+  skipped: SkippedImportRow[]
+}
+
+export interface MatchedListingPreview {
+  propertyId: string
+  propertyName: string
+  listingNames: string[]
+  reservationCount: number
+  proratedStayCount: number // Stays crossing into another month, split by night
+  hasExistingStatement: boolean
+  // Added from the property's recurring expense templates
+  recurringExpenses: Array<{
+    vendor: string
+    description: string
+    amount: number
+  }>
+  totals: {
+    grossRevenue: number
+    hostFee: number
+    platformFee: number
+    totalIncome: number
+    totalExpenses: number
+    totalAdjustments: number
+    grandTotal: number
+  }
+}
+
+export interface UnmatchedListingPreview {
+  listingName: string
+  reservationCount: number
+  grossRevenue: number
+}
+
+export interface ReservationImportPreview {
+  importId: string
+  source: ReservationImportSource
+  sourceLabel: string
+  fileName: string
+  statementMonth: Date
+  matched: MatchedListingPreview[]
+  unmatched: UnmatchedListingPreview[]
+  skipped: SkippedImportRow[]
+  prorateReservations: boolean
+  // Differences from statements already created for the month
+  changes: PropertyReservationDiff[]
+}
+
+/**
+ * Parse the first sheet of a reservation export (.xlsx or .csv) into
+ * reservation rows, using the adapter for the stored source or the one whose
+ * headers match. Returns null when no adapter recognizes the file.
+ * Rows without a listing or without any reservation data are reported as skipped.
+ */
+export function parseReservationFile(
+  data: Buffer,
+  source?: string
+): ParsedReservationFile | null {
+  // raw keeps CSV cells as text so each adapter parses amounts and dates itself
+  const workbook = XLSX.read(data, { type: 'buffer', raw: true })
+  const sheetName = workbook.SheetNames[0]
+  if (!sheetName) throw new Error('No sheet found')
+  const worksheet = workbook.Sheets[sheetName]
+  if (!worksheet) throw new Error('No worksheet found')
+
+  const [headerRow] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+  })
+  const adapter = source
+    ? getReservationImportAdapter(source)
+    : detectReservationImportAdapter((headerRow ?? []).map(String))
+  if (!adapter) return null
+
+  const rawRows: Record<string, unknown>[] = XLSX.utils.sheet_to_json(
+    worksheet,
+    { defval: '' }
+  )
+  const rows: ParsedReservationRow[] = []
+  const skipped: SkippedImportRow[] = []
+
+  rawRows.forEach((raw, index) => {
+    // Header is row 1 in the spreadsheet
+    const rowNumber = index + 2
+    const result = adapter.parseRow(createImportRow(raw))
+    const { listingName } = result
+
+    if ('skipReason' in result) {
+      skipped.push({ rowNumber, listingName, reason: result.skipReason })
+      return
+    }
+
+    if (!normalizePropertyName(listingName)) {
+      skipped.push({ rowNumber, listingName, reason: 'Missing listing name' })
+      return
+    }
+
+    const { income, booking, adjustments } = result
+    const hasReservationData =
+      !!income &&
+      (!!income.checkIn || !!income.checkOut || income.grossRevenue !== 0)
+    if (!hasReservationData && adjustments.length === 0) {
+      skipped.push({
+        rowNumber,
+        listingName,
+        reason: 'No reservation dates or revenue',
+      })
+      return
+    }
+
+    rows.push({
+      rowNumber,
+      listingName,
+      income: hasReservationData ? income : null,
+      booking: hasReservationData ? (booking ?? null) : null,
+      adjustments,
+    })
+  })
+
+  return { source: adapter.source, rows, skipped }
+}
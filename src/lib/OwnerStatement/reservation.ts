@@ -0,0 +1,94 @@
+import type { Prisma } from '@prisma/client'
+import { normalizeBookingChannel } from '~/lib/OwnerStatement/booking-channel'
+import type {
+  ImportedBooking,
+  ImportedIncome,
+} from '~/lib/OwnerStatement/reservation-import'
+import dayjs from '~/lib/utils/day'
+
+// Reservations as their own records, upserted from each import by the
+// channel's reservation ID so re-importing a month updates them in place.
+
+const STAY_DATE_FORMAT = 'YYYY-MM-DD'
+
+const parseStayDate = (value: string) =>
+  dayjs.utc(value, STAY_DATE_FORMAT, true)
+
+/**
+ * The channel's reservation ID, or a stand-in built from the stay itself for
+ * exports without one. The stand-in changes if the dates or guest do, so an
+ * altered stay from such an export is saved as a new reservation.
+ */
+export function reservationExternalId(
+  income: ImportedIncome,
+  booking: ImportedBooking | null
+): string {
+  const externalId = booking?.externalId.trim()
+  if (externalId) return externalId
+
+  return [income.platform, income.checkIn, income.checkOut, income.guest]
+    .map((part) => part.trim().toLowerCase())
+    .join('|')
+}
+
+/**
+ * Saves an imported stay as the property's reservation, updating the one with
+ * the same external ID if it exists. Returns null for stays whose dates can't
+ * be read, which stay on the statement without a reservation.
+ */
+export async function upsertImportedReservation(
+  tx: Prisma.TransactionClient,
+  {
+    managementGroupId,
+    propertyId,
+    statementImportId,
+    income,
+    booking,
+  }: {
+    managementGroupId: string
+    propertyId: string
+    statementImportId: string
+    income: ImportedIncome
+    booking: ImportedBooking | null
+  }
+): Promise<string | null> {
+  const checkIn = parseStayDate(income.checkIn)
+  const checkOut = parseStayDate(income.checkOut)
+  if (!checkIn.isValid() || !checkOut.isValid()) return null
+  const bookedAt = parseStayDate(booking?.bookedAt ?? '')
+
+  const externalId = reservationExternalId(income, booking)
+  const isCancelled = booking?.isCancelled ?? false
+  const existing = await tx.reservation.findUnique({
+    where: { propertyId_externalId: { propertyId, externalId } },
+    select: { cancelledAt: true },
+  })
+
+  const data = {
+    platform: income.platform,
+    channel: normalizeBookingChannel(income.platform),
+    guest: income.guest,
+    checkIn: checkIn.toDate(),
+    checkOut: checkOut.toDate(),
+    nights: income.days || checkOut.diff(checkIn, 'day'),
+    grossRevenue: income.grossRevenue,
+    cleaningFee: income.cleaningFee,
+    platformFee: income.platformFee,
+    taxes: booking?.taxes ?? 0,
+    status: isCancelled ? ('CANCELLED' as const) : ('CONFIRMED' as const),
+    // Keep the first time the cancellation was seen
+    cancelledAt: isCancelled ? (existing?.cancelledAt ?? new Date()) : null,
+    statementImportId,
+    // Left as it was when this export doesn't include booking dates
+    bookedAt: bookedAt.isValid() ? bookedAt.toDate() : undefined,
+  }
+
+  const reservation = await tx.reservation.upsert({
+    where: { propertyId_externalId: { propertyId, externalId } },
+    create: { managementGroupId, propertyId, externalId, ...data },
+    update: data,
+    select: { id: true },
+  })
+
+  return reservation.id
+}
@@ -0,0 +1,49 @@
+// Links from imported expenses back to the invoice or spreadsheet they came from
+
+export interface ExpenseSourceLink {
+  sourceDocument?: { id: string; fileName: string } | null
+  sourceReference?: string | null
+}
+
+export function getSourceDocumentUrl(sourceDocumentId: string) {
+  return `/api/source-documents/${sourceDocumentId}`
+}
+
+export function pageReference(page: unknown): string | null {
+  return typeof page === 'number' && Number.isInteger(page) && page > 0
+    ? `Page ${page}`
+    : null
+}
+
+export function rowReference(row: number): string {
+  return `Row ${row}`
+}
+
+/**
+ * Each source document behind a statement's expenses, with the pages or rows
+ * the expenses were read from, for listing receipts.
+ */
+export function listSourceDocuments(expenses: ExpenseSourceLink[]) {
+  const documents = new Map<
+    string,
+    { id: string; fileName: string; references: string[] }
+  >()
+
+  for (const expense of expenses) {
+    if (!expense.sourceDocument) continue
+
+    const document = documents.get(expense.sourceDocument.id) ?? {
+      ...expense.sourceDocument,
+      references: [],
+    }
+    if (
+      expense.sourceReference &&
+      !document.references.includes(expense.sourceReference)
+    ) {
+      document.references.push(expense.sourceReference)
+    }
+    documents.set(document.id, document)
+  }
+
+  return [...documents.values()]
+}
@@ -0,0 +1,408 @@
+import type {
+  BookingChannel,
+  OwnerStatementChangeSource,
+  Prisma,
+  ReserveEntryType,
+} from '@prisma/client'
+
+// Audit trail for statement contents. Every mutation of incomes, expenses,
+// adjustments or notes records a revision holding the statement as it was
+// before the change plus field-level entries describing what changed.
+
+export const CHANGE_SOURCE_LABELS: Record<OwnerStatementChangeSource, string> =
+  {
+    MANUAL_EDIT: 'Manual edit',
+    RESERVATION_IMPORT: 'Reservation import',
+    VENDOR_PDF: 'Vendor PDF import',
+    VENDOR_EXCEL: 'Vendor Excel import',
+    RESTORE: 'Restored revision',
+  }
+
+export type AuditSection = 'incomes' | 'expenses' | 'adjustments' | 'statement'
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE'
+
+export const AUDIT_SECTION_LABELS: Record<AuditSection, string> = {
+  incomes: 'Income',
+  expenses: 'Expense',
+  adjustments: 'Adjustment',
+  statement: 'Statement',
+}
+
+type SnapshotValue = string | number | boolean | null
+
+export interface SnapshotIncome {
+  id: string
+  checkIn: string
+  checkOut: string
+  days: number
+  platform: string
+  guest: string
+  grossRevenue: number
+  cleaningFee: number
+  hostFee: number
+  platformFee: number
+  grossIncome: number
+  // Missing from revisions recorded before the links were kept
+  channel?: BookingChannel
+  reservationId?: string | null
+  proratedStayId?: string | null
+}
+
+export interface SnapshotExpense {
+  id: string
+  date: string
+  description: string
+  vendor: string
+  amount: number
+  lineDescription: string | null
+  quantity: number | null
+  unitPrice: number | null
+  category: string | null
+  sourceDocumentId: string | null
+  sourceReference: string | null
+}
+
+export interface SnapshotAdjustment {
+  id: string
+  checkIn: string | null
+  checkOut: string | null
+  description: string
+  amount: number
+  isMinimumFee: boolean
+  isCarryover: boolean
+  reserveEntry: ReserveEntryType | null
+  // Missing from revisions recorded before re-imported changes were kept
+  reservationId?: string | null
+  reservationChange?: string | null
+}
+
+// Whole-statement state stored on each revision, with decimals as numbers
+export interface StatementSnapshot {
+  notes: string | null
+  incomes: SnapshotIncome[]
+  expenses: SnapshotExpense[]
+  adjustments: SnapshotAdjustment[]
+}
+
+export interface AuditEntryInput {
+  section: AuditSection
+  itemId: string | null
+  action: AuditAction
+  field: string | null
+  oldValue: SnapshotValue | Record<string, SnapshotValue>
+  newValue: SnapshotValue | Record<string, SnapshotValue>
+}
+
+export const EMPTY_STATEMENT_SNAPSHOT: StatementSnapshot = {
+  notes: null,
+  incomes: [],
+  expenses: [],
+  adjustments: [],
+}
+
+const toNumber = (value: Prisma.Decimal | number) => Number(value.toString())
+const toOptionalNumber = (value: Prisma.Decimal | number | null) =>
+  value === null ? null : toNumber(value)
+
+const snapshotInclude = {
+  incomes: true,
+  expenses: true,
+  adjustments: true,
+} satisfies Prisma.OwnerStatementInclude
+
+type StatementWithItems = Prisma.OwnerStatementGetPayload<{
+  include: typeof snapshotInclude
+}>
+
+export function toStatementSnapshot(
+  statement: StatementWithItems
+): StatementSnapshot {
+  return {
+    notes: statement.notes,
+    incomes: statement.incomes.map((income) => ({
+      id: income.id,
+      checkIn: income.checkIn,
+      checkOut: income.checkOut,
+      days: income.days,
+      platform: income.platform,
+      guest: income.guest,
+      grossRevenue: toNumber(income.grossRevenue),
+      cleaningFee: toNumber(income.cleaningFee),
+      hostFee: toNumber(income.hostFee),
+      platformFee: toNumber(income.platformFee),
+      grossIncome: toNumber(income.grossIncome),
+      channel: income.channel,
+      reservationId: income.reservationId,
+      proratedStayId: income.proratedStayId,
+    })),
+    expenses: statement.expenses.map((expense) => ({
+      id: expense.id,
+      date: expense.date,
+      description: expense.description,
+      vendor: expense.vendor,
+      amount: toNumber(expense.amount),
+      lineDescription: expense.lineDescription,
+      quantity: toOptionalNumber(expense.quantity),
+      unitPrice: toOptionalNumber(expense.unitPrice),
+      category: expense.category,
+      sourceDocumentId: expense.sourceDocumentId,
+      sourceReference: expense.sourceReference,
+    })),
+    adjustments: statement.adjustments.map((adjustment) => ({
+      id: adjustment.id,
+      checkIn: adjustment.checkIn,
+      checkOut: adjustment.checkOut,
+      description: adjustment.description,
+      amount: toNumber(adjustment.amount),
+      isMinimumFee: adjustment.isMinimumFee,
+      isCarryover: adjustment.isCarryover,
+      reserveEntry: adjustment.reserveEntry,
+      reservationId: adjustment.reservationId,
+      reservationChange: adjustment.reservationChange,
+    })),
+  }
+}
+
+export async function loadStatementSnapshots(
+  tx: Prisma.TransactionClient,
+  statementIds: string[]
+): Promise<Map<string, StatementSnapshot>> {
+  const statements = await tx.ownerStatement.findMany({
+    where: { id: { in: statementIds } },
+    include: snapshotInclude,
+  })
+
+  return new Map(
+    statements.map((statement) => [
+      statement.id,
+      toStatementSnapshot(statement),
+    ])
+  )
+}
+
+type SnapshotItem = { id: string } & Record<string, SnapshotValue>
+
+function withoutId({ id: _id, ...fields }: SnapshotItem) {
+  return fields
+}
+
+function diffItems(
+  section: Exclude<AuditSection, 'statement'>,
+  before: SnapshotItem[],
+  after: SnapshotItem[]
+): AuditEntryInput[] {
+  const entries: AuditEntryInput[] = []
+  const afterById = new Map(after.map((item) => [item.id, item]))
+  const pairs: Array<[SnapshotItem, SnapshotItem]> = []
+  const removed: SnapshotItem[] = []
+
+  for (const item of before) {
+    const match = afterById.get(item.id)
+    if (match) {
+      pairs.push([item, match])
+      afterById.delete(item.id)
+    } else {
+      removed.push(item)
+    }
+  }
+
+  // Whole-statement saves and the minimum fee, carryover and reserve syncs
+  // recreate rows under new ids, so leftover rows are paired in order and
+  // recorded as field edits
+  const added = [...afterById.values()]
+  const isRebuiltRow: Array<(item: SnapshotItem) => boolean> = [
+    (item) => item.isMinimumFee === true,
+    (item) => item.isCarryover === true,
+    (item) => item.reserveEntry === 'CONTRIBUTION',
+  ]
+  for (const matches of isRebuiltRow) {
+    const removedIndex = removed.findIndex(matches)
+    const addedIndex = added.findIndex(matches)
+    if (removedIndex !== -1 && addedIndex !== -1) {
+      pairs.push([
+        removed.splice(removedIndex, 1)[0]!,
+        added.splice(addedIndex, 1)[0]!,
+      ])
+    }
+  }
+  while (removed.length && added.length) {
+    pairs.push([removed.shift()!, added.shift()!])
+  }
+
+  for (const [oldItem, newItem] of pairs) {
+    for (const field of Object.keys(withoutId(newItem))) {
+      const oldValue = oldItem[field] ?? null
+      const newValue = newItem[field] ?? null
+      if (oldValue !== newValue) {
+        entries.push({
+          section,
+          itemId: newItem.id,
+          action: 'UPDATE',
+          field,
+          oldValue,
+          newValue,
+        })
+      }
+    }
+  }
+
+  for (const item of removed) {
+    entries.push({
+      section,
+      itemId: item.id,
+      action: 'DELETE',
+      field: null,
+      oldValue: withoutId(item),
+      newValue: null,
+    })
+  }
+
+  for (const item of added) {
+    entries.push({
+      section,
+      itemId: item.id,
+      action: 'CREATE',
+      field: null,
+      oldValue: null,
+      newValue: withoutId(item),
+    })
+  }
+
+  return entries
+}
+
+export function diffStatementSnapshots(
+  before: StatementSnapshot,
+  after: StatementSnapshot
+): AuditEntryInput[] {
+  const entries: AuditEntryInput[] = []
+
+  if ((before.notes ?? '') !== (after.notes ?? '')) {
+    entries.push({
+      section: 'statement',
+      itemId: null,
+      action: 'UPDATE',
+      field: 'notes',
+      oldValue: before.notes,
+      newValue: after.notes,
+    })
+  }
+
+  return [
+    ...entries,
+    ...diffItems(
+      'incomes',
+      before.incomes as unknown as SnapshotItem[],
+      after.incomes as unknown as SnapshotItem[]
+    ),
+    ...diffItems(
+      'expenses',
+      before.expenses as unknown as SnapshotItem[],
+      after.expenses as unknown as SnapshotItem[]
+    ),
+    ...diffItems(
+      'adjustments',
+      before.adjustments as unknown as SnapshotItem[],
+      after.adjustments as unknown as SnapshotItem[]
+    ),
+  ]
+}
+
+/**
+ * Append a revision when the statement actually changed. Returns null for
+ * no-op edits so the history only lists real changes.
+ */
+export async function recordStatementRevision(
+  tx: Prisma.TransactionClient,
+  {
+    statementId,
+    source,
+    changedBy,
+    before,
+    after,
+  }: {
+    statementId: string
+    source: OwnerStatementChangeSource
+    changedBy: string
+    before: StatementSnapshot
+    after: StatementSnapshot
+  }
+) {
+  const entries = diffStatementSnapshots(before, after)
+  if (entries.length === 0) return null
+
+  return tx.ownerStatementRevision.create({
+    data: {
+      ownerStatementId: statementId,
+      source,
+      changedBy,
+      snapshot: before as unknown as Prisma.InputJsonObject,
+      entries: {
+        create: entries.map((entry) => ({
+          ...entry,
+          oldValue: entry.oldValue ?? undefined,
+          newValue: entry.newValue ?? undefined,
+        })),
+      },
+    },
+  })
+}
+
+/**
+ * Run a change inside a transaction and record a revision for each of the
+ * given statements from snapshots taken before and after it.
+ */
+export async function auditStatementChanges<T>(
+  tx: Prisma.TransactionClient,
+  {
+    statementIds,
+    source,
+    changedBy,
+  }: {
+    statementIds: string[]
+    source: OwnerStatementChangeSource
+    changedBy: string
+  },
+  change: () => Promise<T>
+): Promise<T> {
+  const before = await loadStatementSnapshots(tx, statementIds)
+  const result = await change()
+  const after = await loadStatementSnapshots(tx, statementIds)
+
+  for (const statementId of statementIds) {
+    await recordStatementRevision(tx, {
+      statementId,
+      source,
+      changedBy,
+      before: before.get(statementId) ?? EMPTY_STATEMENT_SNAPSHOT,
+      after: after.get(statementId) ?? EMPTY_STATEMENT_SNAPSHOT,
+    })
+  }
+
+  return result
+}
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  notes: 'notes',
+  checkIn: 'check-in',
+  checkOut: 'check-out',
+  grossRevenue: 'gross revenue',
+  cleaningFee: 'cleaning fee',
+  hostFee: 'host fee',
+  platformFee: 'platform fee',
+  grossIncome: 'gross income',
+  reservationId: 'reservation',
+  proratedStayId: 'prorated stay',
+  lineDescription: 'line item',
+  unitPrice: 'unit price',
+  sourceDocumentId: 'source document',
+  sourceReference: 'source reference',
+  isMinimumFee: 'minimum fee',
+  isCarryover: 'carried forward',
+  reserveEntry: 'reserve',
+  reservationChange: 'reservation change',
+}
+
+export function getAuditFieldLabel(field: string): string {
+  return AUDIT_FIELD_LABELS[field] ?? field
+}
@@ -0,0 +1,71 @@
+import type { OwnerStatementStatus } from '@prisma/client'
+
+// Shared status workflow rules for owner statements (used by server and UI)
+
+export const STATEMENT_STATUSES = [
+  'DRAFT',
+  'IN_REVIEW',
+  'APPROVED',
+  'SENT',
+] as const satisfies readonly OwnerStatementStatus[]
+
+export const STATEMENT_STATUS_LABELS: Record<OwnerStatementStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  APPROVED: 'Approved',
+  SENT: 'Sent',
+}
+
+export const STATEMENT_STATUS_BADGE_CLASSES: Record<
+  OwnerStatementStatus,
+  string
+> = {
+  DRAFT:
+    'border-transparent bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+  IN_REVIEW:
+    'border-transparent bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  APPROVED:
+    'border-transparent bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  SENT: 'border-transparent bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+}
+
+// Forward moves through the lifecycle. Anything leaving a locked status is a reopen.
+const FORWARD_TRANSITIONS: Record<
+  OwnerStatementStatus,
+  OwnerStatementStatus[]
+> = {
+  DRAFT: ['IN_REVIEW'],
+  IN_REVIEW: ['DRAFT', 'APPROVED'],
+  APPROVED: ['SENT'],
+  SENT: [],
+}
+
+// Approved and sent statements can only be edited after an explicit reopen
+const LOCKED_STATUSES: OwnerStatementStatus[] = ['APPROVED', 'SENT']
+
+export function isStatementLocked(status: OwnerStatementStatus): boolean {
+  return LOCKED_STATUSES.includes(status)
+}
+
+export function isReopenTransition(
+  from: OwnerStatementStatus,
+  to: OwnerStatementStatus
+): boolean {
+  return isStatementLocked(from) && !isStatementLocked(to)
+}
+
+export function getAllowedTransitions(
+  from: OwnerStatementStatus
+): OwnerStatementStatus[] {
+  const reopenTargets: OwnerStatementStatus[] = isStatementLocked(from)
+    ? ['DRAFT', 'IN_REVIEW']
+    : []
+  return [...FORWARD_TRANSITIONS[from], ...reopenTargets]
+}
+
+export function canTransition(
+  from: OwnerStatementStatus,
+  to: OwnerStatementStatus
+): boolean {
+  return getAllowedTransitions(from).includes(to)
+}
@@ -0,0 +1,237 @@
+import type { Prisma } from '@prisma/client'
+import {
+  MINIMUM_FEE_ADJUSTMENT_DESCRIPTION,
+  calculateMinimumFeeShortfall,
+  getManagementFeeRules,
+} from '~/lib/OwnerStatement/management-fee'
+import {
+  CARRYOVER_ADJUSTMENT_DESCRIPTION,
+  getCarryoverAmount,
+} from '~/lib/OwnerStatement/owner-balance'
+import {
+  RESERVE_CONTRIBUTION_DESCRIPTION,
+  calculateReserveContribution,
+  getReserveBalance,
+} from '~/lib/OwnerStatement/owner-reserve'
+
+// Statement totals, and the lines rewritten whenever a statement's contents
+// change: the minimum fee, the carried-forward deficit and the reserve
+// contribution. Every path that edits statement lines recalculates here.
+
+type Amount = Prisma.Decimal | number | null | undefined
+
+const toAmount = (value: Amount) => Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+export function calculateStatementTotals(
+  incomes: Array<{ grossIncome: Amount }>,
+  expenses: Array<{ amount: Amount }>,
+  adjustments: Array<{ amount: Amount }>
+) {
+  const sum = (values: Amount[]) =>
+    values.reduce<number>((total, value) => total + toAmount(value), 0)
+
+  const totalIncome = sum(incomes.map((income) => income.grossIncome))
+  const totalExpenses = sum(expenses.map((expense) => expense.amount))
+  const totalAdjustments = sum(
+    adjustments.map((adjustment) => adjustment.amount)
+  )
+
+  return {
+    totalIncome: roundCents(totalIncome),
+    totalExpenses: roundCents(totalExpenses),
+    totalAdjustments: roundCents(totalAdjustments),
+    grandTotal: roundCents(totalIncome - totalExpenses + totalAdjustments),
+  }
+}
+
+// Keeps the minimum management fee adjustment in line with the statement's host fees
+async function syncMinimumFeeAdjustment(
+  tx: Prisma.TransactionClient,
+  statementId: string
+) {
+  const statement = await tx.ownerStatement.findUnique({
+    where: { id: statementId },
+    select: {
+      propertyId: true,
+      statementMonth: true,
+      incomes: { select: { hostFee: true } },
+    },
+  })
+
+  if (!statement) return
+
+  const rules = await getManagementFeeRules(
+    tx,
+    statement.propertyId,
+    statement.statementMonth
+  )
+  const totalHostFees = statement.incomes.reduce(
+    (sum, income) => sum + (parseFloat(income.hostFee.toString()) || 0),
+    0
+  )
+  const shortfall = calculateMinimumFeeShortfall(totalHostFees, rules)
+
+  await tx.ownerStatementAdjustment.deleteMany({
+    where: { ownerStatementId: statementId, isMinimumFee: true },
+  })
+
+  if (shortfall > 0) {
+    await tx.ownerStatementAdjustment.create({
+      data: {
+        ownerStatementId: statementId,
+        description: MINIMUM_FEE_ADJUSTMENT_DESCRIPTION,
+        amount: -shortfall,
+        isMinimumFee: true,
+      },
+    })
+  }
+}
+
+// Opens the statement with the previous month's deficit, if there was one.
+// Refreshed whenever the statement is recalculated.
+async function syncCarryoverAdjustment(
+  tx: Prisma.TransactionClient,
+  statementId: string
+) {
+  const statement = await tx.ownerStatement.findUnique({
+    where: { id: statementId },
+    select: { propertyId: true, statementMonth: true },
+  })
+
+  if (!statement) return
+
+  const carryover = await getCarryoverAmount(
+    tx,
+    statement.propertyId,
+    statement.statementMonth
+  )
+
+  await tx.ownerStatementAdjustment.deleteMany({
+    where: { ownerStatementId: statementId, isCarryover: true },
+  })
+
+  if (carryover < 0) {
+    await tx.ownerStatementAdjustment.create({
+      data: {
+        ownerStatementId: statementId,
+        description: CARRYOVER_ADJUSTMENT_DESCRIPTION,
+        amount: carryover,
+        isCarryover: true,
+      },
+    })
+  }
+}
+
+// Holds back enough of the statement's net to top the reserve up to the
+// agreement's target. Runs after the other syncs so it sees the final net.
+async function syncReserveContribution(
+  tx: Prisma.TransactionClient,
+  statementId: string
+) {
+  const statement = await tx.ownerStatement.findUnique({
+    where: { id: statementId },
+    select: {
+      propertyId: true,
+      statementMonth: true,
+      incomes: { select: { grossIncome: true } },
+      expenses: { select: { amount: true } },
+      adjustments: { select: { amount: true, reserveEntry: true } },
+    },
+  })
+
+  if (!statement) return
+
+  const rules = await getManagementFeeRules(
+    tx,
+    statement.propertyId,
+    statement.statementMonth
+  )
+  const openingBalance = await getReserveBalance(tx, statement.propertyId, {
+    before: statement.statementMonth,
+  })
+  const sum = (items: Array<{ toString(): string }>) =>
+    items.reduce<number>(
+      (total, item) => total + (parseFloat(item.toString()) || 0),
+      0
+    )
+
+  const drawdowns = sum(
+    statement.adjustments
+      .filter((adjustment) => adjustment.reserveEntry === 'DRAWDOWN')
+      .map((adjustment) => adjustment.amount)
+  )
+  const available =
+    sum(statement.incomes.map((income) => income.grossIncome)) -
+    sum(statement.expenses.map((expense) => expense.amount)) +
+    sum(
+      statement.adjustments
+        .filter((adjustment) => !adjustment.reserveEntry)
+        .map((adjustment) => adjustment.amount)
+    )
+  const contribution = calculateReserveContribution({
+    target: rules.reserveTarget,
+    balance: openingBalance - drawdowns,
+    available,
+  })
+
+  await tx.ownerStatementAdjustment.deleteMany({
+    where: { ownerStatementId: statementId, reserveEntry: 'CONTRIBUTION' },
+  })
+
+  if (contribution > 0) {
+    await tx.ownerStatementAdjustment.create({
+      data: {
+        ownerStatementId: statementId,
+        description: RESERVE_CONTRIBUTION_DESCRIPTION,
+        amount: -contribution,
+        reserveEntry: 'CONTRIBUTION',
+      },
+    })
+  }
+}
+
+/**
+ * Rewrites the statement's managed adjustment lines and saves its totals.
+ * Returns the statement with its lines.
+ */
+export async function recalculateStatementTotals(
+  tx: Prisma.TransactionClient,
+  statementId: string,
+  userId: string
+) {
+  await syncMinimumFeeAdjustment(tx, statementId)
+  await syncCarryoverAdjustment(tx, statementId)
+  await syncReserveContribution(tx, statementId)
+
+  const [incomes, expenses, adjustments] = await Promise.all([
+    tx.ownerStatementIncome.findMany({
+      where: { ownerStatementId: statementId },
+      select: { grossIncome: true },
+    }),
+    tx.ownerStatementExpense.findMany({
+      where: { ownerStatementId: statementId },
+      select: { amount: true },
+    }),
+    tx.ownerStatementAdjustment.findMany({
+      where: { ownerStatementId: statementId },
+      select: { amount: true },
+    }),
+  ])
+
+  return tx.ownerStatement.update({
+    where: { id: statementId },
+    data: {
+      ...calculateStatementTotals(incomes, expenses, adjustments),
+      updatedAt: new Date(),
+      updatedBy: userId,
+    },
+    include: {
+      property: true,
+      incomes: true,
+      expenses: true,
+      adjustments: true,
+    },
+  })
+}
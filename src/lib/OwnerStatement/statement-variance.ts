@@ -0,0 +1,272 @@
+import type { OwnerStatementStatus, Prisma } from '@prisma/client'
+import dayjs from '~/lib/utils/day'
+import { formatCurrency } from '~/lib/utils/format'
+
+// Compares each statement for a month with the same property's earlier
+// statements and lists what looks out of line, for review before approval.
+
+export const DEFAULT_INCOME_DROP_PERCENT = 20
+
+// Months of earlier statements looked at, enough to include the same month
+// last year
+const HISTORY_MONTHS = 12
+
+// Earlier months of expenses needed before a typical range is worked out
+const MIN_EXPENSE_HISTORY = 3
+
+// A vendor on each of this many months straight before is a recurring expense
+const RECURRING_MONTHS = 3
+
+export type VarianceFindingKind =
+  | 'INCOME_DROP'
+  | 'NEW_VENDOR'
+  | 'EXPENSE_ABOVE_RANGE'
+  | 'MISSING_RECURRING_EXPENSE'
+
+export interface VarianceFinding {
+  key: string // Stable across reviews, used to tick the finding off
+  kind: VarianceFindingKind
+  message: string
+  amount: number | null
+}
+
+export interface StatementVarianceReview {
+  statementId: string
+  propertyId: string
+  propertyName: string
+  status: OwnerStatementStatus
+  findings: Array<VarianceFinding & { isChecked: boolean }>
+}
+
+export interface VarianceStatement {
+  statementMonth: Date
+  totalIncome: Prisma.Decimal | null
+  expenses: Array<{ vendor: string; amount: Prisma.Decimal }>
+}
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+const money = (value: number) =>
+  formatCurrency(value, 'USD', { centsToDollars: false })
+
+const vendorKey = (vendor: string) => vendor.trim().toLowerCase()
+
+const monthKey = (date: Date) => dayjs.utc(date).format('YYYY-MM')
+
+// Expense totals by vendor, keyed by the lowercased name
+function vendorTotals(statement: VarianceStatement) {
+  const totals = new Map<string, { vendor: string; amount: number }>()
+  for (const expense of statement.expenses) {
+    const key = vendorKey(expense.vendor)
+    if (!key) continue
+    const total = totals.get(key) ?? {
+      vendor: expense.vendor.trim(),
+      amount: 0,
+    }
+    total.amount += toAmount(expense.amount)
+    totals.set(key, total)
+  }
+  return totals
+}
+
+const expenseTotal = (statement: VarianceStatement) =>
+  statement.expenses.reduce((sum, expense) => sum + toAmount(expense.amount), 0)
+
+function incomeDropFinding(
+  current: VarianceStatement,
+  previous: VarianceStatement | undefined,
+  period: 'previous-month' | 'previous-year',
+  incomeDropPercent: number
+): VarianceFinding[] {
+  if (!previous) return []
+  const before = toAmount(previous.totalIncome)
+  const after = toAmount(current.totalIncome)
+  if (before <= 0) return []
+
+  const drop = ((before - after) / before) * 100
+  if (drop <= incomeDropPercent) return []
+
+  const label =
+    period === 'previous-month'
+      ? dayjs.utc(previous.statementMonth).format('MMMM')
+      : dayjs.utc(previous.statementMonth).format('MMMM YYYY')
+  return [
+    {
+      key: `INCOME_DROP:${period}`,
+      kind: 'INCOME_DROP',
+      message: `Income down ${drop.toFixed(1)}% from ${label} (${money(before)} to ${money(after)})`,
+      amount: roundCents(after - before),
+    },
+  ]
+}
+
+/**
+ * Findings for one statement against the property's statements from the
+ * months before it. Needs no history to run; each check is skipped when there
+ * isn't enough to compare with.
+ */
+export function findStatementVariances(
+  current: VarianceStatement,
+  history: VarianceStatement[],
+  incomeDropPercent = DEFAULT_INCOME_DROP_PERCENT
+): VarianceFinding[] {
+  const month = dayjs.utc(current.statementMonth).startOf('month')
+  const byMonth = new Map(
+    history.map((statement) => [monthKey(statement.statementMonth), statement])
+  )
+  const findings: VarianceFinding[] = [
+    ...incomeDropFinding(
+      current,
+      byMonth.get(month.subtract(1, 'month').format('YYYY-MM')),
+      'previous-month',
+      incomeDropPercent
+    ),
+    ...incomeDropFinding(
+      current,
+      byMonth.get(month.subtract(1, 'year').format('YYYY-MM')),
+      'previous-year',
+      incomeDropPercent
+    ),
+  ]
+
+  const currentVendors = vendorTotals(current)
+
+  if (history.length) {
+    const seen = new Set(
+      history.flatMap((statement) => [...vendorTotals(statement).keys()])
+    )
+    for (const [key, { vendor, amount }] of currentVendors) {
+      if (seen.has(key)) continue
+      findings.push({
+        key: `NEW_VENDOR:${key}`,
+        kind: 'NEW_VENDOR',
+        message: `New vendor ${vendor} (${money(amount)})`,
+        amount: roundCents(amount),
+      })
+    }
+  }
+
+  if (history.length >= MIN_EXPENSE_HISTORY) {
+    const totals = history.map(expenseTotal)
+    const mean = totals.reduce((sum, total) => sum + total, 0) / totals.length
+    const deviation = Math.sqrt(
+      totals.reduce((sum, total) => sum + (total - mean) ** 2, 0) /
+        totals.length
+    )
+    // Above both the usual spread and every month on record
+    const upper = Math.max(mean + 2 * deviation, ...totals)
+    const total = expenseTotal(current)
+    if (total - upper >= 0.005) {
+      findings.push({
+        key: 'EXPENSE_ABOVE_RANGE',
+        kind: 'EXPENSE_ABOVE_RANGE',
+        message: `Expenses of ${money(total)} are above the usual range (average ${money(mean)}, highest ${money(Math.max(...totals))})`,
+        amount: roundCents(total - mean),
+      })
+    }
+  }
+
+  const recentMonths = Array.from({ length: RECURRING_MONTHS }, (_, index) =>
+    byMonth.get(month.subtract(index + 1, 'month').format('YYYY-MM'))
+  )
+  if (recentMonths.every(Boolean)) {
+    const recent = recentMonths.map((statement) => vendorTotals(statement!))
+    for (const [key, { vendor }] of recent[0]!) {
+      if (currentVendors.has(key)) continue
+      if (!recent.every((vendors) => vendors.has(key))) continue
+
+      const average =
+        recent.reduce((sum, vendors) => sum + vendors.get(key)!.amount, 0) /
+        recent.length
+      findings.push({
+        key: `MISSING_RECURRING_EXPENSE:${key}`,
+        kind: 'MISSING_RECURRING_EXPENSE',
+        message: `No ${vendor} expense this month, billed each of the last ${RECURRING_MONTHS} months (usually ${money(average)})`,
+        amount: roundCents(average),
+      })
+    }
+  }
+
+  return findings
+}
+
+/**
+ * The review checklist for every statement in the month that has findings,
+ * with the findings already ticked off marked as checked.
+ */
+export async function getStatementVarianceReviews(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  month: Date,
+  incomeDropPercent = DEFAULT_INCOME_DROP_PERCENT
+): Promise<StatementVarianceReview[]> {
+  const start = dayjs.utc(month).startOf('month')
+  const expenseSelect = { select: { vendor: true, amount: true } }
+
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      deletedAt: null,
+      statementMonth: {
+        gte: start.toDate(),
+        lte: start.endOf('month').toDate(),
+      },
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      status: true,
+      statementMonth: true,
+      totalIncome: true,
+      property: { select: { name: true } },
+      expenses: expenseSelect,
+      varianceChecks: { select: { findingKey: true } },
+    },
+  })
+
+  const history = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      deletedAt: null,
+      propertyId: { in: statements.map((statement) => statement.propertyId) },
+      statementMonth: {
+        gte: start.subtract(HISTORY_MONTHS, 'month').toDate(),
+        lt: start.toDate(),
+      },
+    },
+    select: {
+      propertyId: true,
+      statementMonth: true,
+      totalIncome: true,
+      expenses: expenseSelect,
+    },
+  })
+
+  return statements
+    .map((statement) => {
+      const checked = new Set(
+        statement.varianceChecks.map((check) => check.findingKey)
+      )
+      const findings = findStatementVariances(
+        statement,
+        history.filter((item) => item.propertyId === statement.propertyId),
+        incomeDropPercent
+      )
+
+      return {
+        statementId: statement.id,
+        propertyId: statement.propertyId,
+        propertyName: statement.property.name,
+        status: statement.status,
+        findings: findings.map((finding) => ({
+          ...finding,
+          isChecked: checked.has(finding.key),
+        })),
+      }
+    })
+    .filter((review) => review.findings.length)
+    .sort((a, b) => a.propertyName.localeCompare(b.propertyName))
+}
@@ -0,0 +1,359 @@
+import type { Prisma } from '@prisma/client'
+import type { ImportedIncome } from '~/lib/OwnerStatement/reservation-import'
+import { prorateStay } from '~/lib/OwnerStatement/stay-proration'
+import dayjs from '~/lib/utils/day'
+
+// Occupancy and rate metrics from owner statement income lines. Each figure
+// covers the properties with a statement for the month; blocked nights, such
+// as owner stays, come out of the nights available.
+
+export interface StayMetrics {
+  availableNights: number
+  blockedNights: number
+  bookedNights: number
+  bookings: number
+  revenue: number // Gross revenue on the statements for the month's nights, with fees
+  occupancy: number | null // Share of available nights booked, 0 to 1
+  adr: number | null // Average daily rate, stay revenue per booked night
+  revpar: number | null // Stay revenue per available night
+  averageLengthOfStay: number | null // Nights per booking, over the whole stay
+  // Days from booking to check-in, for reservations whose export had a booking date
+  averageLeadTime: number | null
+}
+
+export interface PerformanceComparison {
+  current: StayMetrics | null
+  previousMonth: StayMetrics | null
+  previousYear: StayMetrics | null
+}
+
+export interface PropertyPerformance extends PerformanceComparison {
+  propertyId: string
+  propertyName: string
+}
+
+export interface PortfolioPerformance {
+  month: string // YYYY-MM
+  properties: PropertyPerformance[]
+  portfolio: PerformanceComparison
+}
+
+interface MetricsTotals {
+  nightsInMonth: number
+  blockedNights: number
+  bookedNights: number
+  bookings: number
+  revenue: number
+  stayRevenue: number // Revenue for the booked nights, leaving out fee-only lines
+  stayNights: number // Full length of each booking, including nights in other months
+  leadTimes: number[]
+}
+
+const STAY_DATE_FORMAT = 'YYYY-MM-DD'
+
+const toAmount = (value: { toString(): string } | null) =>
+  Number(value?.toString() ?? 0) || 0
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+const ratio = (value: number, total: number) =>
+  total > 0 ? value / total : null
+
+function toStayMetrics(totals: MetricsTotals): StayMetrics {
+  const availableNights = Math.max(
+    totals.nightsInMonth - totals.blockedNights,
+    0
+  )
+  const adr = ratio(totals.stayRevenue, totals.bookedNights)
+  const revpar = ratio(totals.stayRevenue, availableNights)
+  const leadTime = ratio(
+    totals.leadTimes.reduce((sum, days) => sum + days, 0),
+    totals.leadTimes.length
+  )
+
+  return {
+    availableNights,
+    blockedNights: totals.blockedNights,
+    bookedNights: totals.bookedNights,
+    bookings: totals.bookings,
+    revenue: roundCents(totals.revenue),
+    occupancy: ratio(totals.bookedNights, availableNights),
+    adr: adr === null ? null : roundCents(adr),
+    revpar: revpar === null ? null : roundCents(revpar),
+    averageLengthOfStay: ratio(totals.stayNights, totals.bookings),
+    averageLeadTime: leadTime === null ? null : Math.round(leadTime),
+  }
+}
+
+/**
+ * Nights in the month covered by at least one block. Overlapping blocks
+ * count each night once.
+ */
+export function blockedNightsInMonth(
+  blocks: Array<{ startDate: Date; endDate: Date }>,
+  month: Date
+): number {
+  const start = dayjs.utc(month).startOf('month')
+  const end = start.add(1, 'month')
+  const nights = new Set<string>()
+
+  for (const block of blocks) {
+    let night = dayjs.utc(block.startDate)
+    if (night.isBefore(start)) night = start
+    const last = dayjs.utc(block.endDate)
+    while (night.isBefore(last) && night.isBefore(end)) {
+      nights.add(night.format('YYYY-MM-DD'))
+      night = night.add(1, 'day')
+    }
+  }
+
+  return nights.size
+}
+
+/**
+ * The line's nights that fall in the month. Without proration a stay crossing
+ * the month's edge is one line, so the nights outside the month are left out.
+ * Lines whose dates can't be read keep their days.
+ */
+function stayNightsInMonth(
+  income: { checkIn: string; checkOut: string; days: number },
+  month: Date
+): number {
+  const checkIn = dayjs.utc(income.checkIn, STAY_DATE_FORMAT, true)
+  const checkOut = dayjs.utc(income.checkOut, STAY_DATE_FORMAT, true)
+  if (!checkIn.isValid() || !checkOut.isValid()) return income.days
+
+  const start = dayjs.utc(month).startOf('month')
+  const end = start.add(1, 'month')
+  const first = checkIn.isBefore(start) ? start : checkIn
+  const last = checkOut.isAfter(end) ? end : checkOut
+  return Math.min(Math.max(last.diff(first, 'day'), 0), income.days)
+}
+
+/**
+ * The line's revenue for its nights in the month, split by nights the same
+ * way imports prorate a stay. Lines without nights, such as cancellation
+ * fees, keep their whole amount.
+ */
+function stayRevenueInMonth(
+  income: Omit<
+    ImportedIncome,
+    'grossRevenue' | 'cleaningFee' | 'platformFee'
+  > & {
+    grossRevenue: Prisma.Decimal
+    cleaningFee: Prisma.Decimal
+    platformFee: Prisma.Decimal
+  },
+  month: Date
+): number {
+  const revenue = toAmount(income.grossRevenue)
+  if (income.days <= 0) return revenue
+
+  const portions = prorateStay({
+    ...income,
+    grossRevenue: revenue,
+    cleaningFee: toAmount(income.cleaningFee),
+    platformFee: toAmount(income.platformFee),
+  })
+  if (!portions) return revenue
+
+  const monthKey = dayjs.utc(month).format('YYYY-MM')
+  return (
+    portions.find((portion) => portion.month === monthKey)?.income
+      .grossRevenue ?? 0
+  )
+}
+
+async function getMonthTotals(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  month: Date
+): Promise<Map<string, { propertyName: string; totals: MetricsTotals }>> {
+  const start = dayjs.utc(month).startOf('month')
+  const end = start.add(1, 'month')
+
+  const statements = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId,
+      deletedAt: null,
+      statementMonth: {
+        gte: start.toDate(),
+        lte: start.endOf('month').toDate(),
+      },
+    },
+    select: {
+      propertyId: true,
+      property: { select: { name: true } },
+      incomes: {
+        select: {
+          checkIn: true,
+          checkOut: true,
+          days: true,
+          platform: true,
+          guest: true,
+          grossRevenue: true,
+          cleaningFee: true,
+          platformFee: true,
+          proratedStay: { select: { nights: true } },
+          reservation: {
+            select: {
+              id: true,
+              checkIn: true,
+              nights: true,
+              bookedAt: true,
+              status: true,
+            },
+          },
+        },
+      },
+    },
+  })
+
+  const blocks = await db.propertyBlock.findMany({
+    where: {
+      propertyId: { in: statements.map((statement) => statement.propertyId) },
+      startDate: { lt: end.toDate() },
+      endDate: { gt: start.toDate() },
+    },
+    select: { propertyId: true, startDate: true, endDate: true },
+  })
+
+  const byProperty = new Map<
+    string,
+    { propertyName: string; totals: MetricsTotals }
+  >()
+
+  for (const statement of statements) {
+    // Cancelled stays with nothing paid didn't use the property
+    const lines = statement.incomes
+      .filter(
+        (income) =>
+          !(
+            income.reservation?.status === 'CANCELLED' &&
+            toAmount(income.grossRevenue) === 0
+          )
+      )
+      .map((income) => ({
+        ...income,
+        nights: stayNightsInMonth(income, start.toDate()),
+        revenue: stayRevenueInMonth(income, start.toDate()),
+      }))
+    const stays = lines.filter((income) => income.nights > 0)
+
+    // A reservation split across lines still counts one lead time
+    const leadTimes = new Map<string, number>()
+    for (const { reservation } of stays) {
+      if (!reservation?.bookedAt) continue
+      const days = dayjs
+        .utc(reservation.checkIn)
+        .diff(dayjs.utc(reservation.bookedAt), 'day')
+      if (days >= 0) leadTimes.set(reservation.id, days)
+    }
+
+    byProperty.set(statement.propertyId, {
+      propertyName: statement.property.name,
+      totals: {
+        nightsInMonth: start.daysInMonth(),
+        blockedNights: blockedNightsInMonth(
+          blocks.filter((block) => block.propertyId === statement.propertyId),
+          start.toDate()
+        ),
+        bookedNights: stays.reduce((sum, income) => sum + income.nights, 0),
+        bookings: stays.length,
+        revenue: lines.reduce((sum, income) => sum + income.revenue, 0),
+        stayRevenue: stays.reduce((sum, income) => sum + income.revenue, 0),
+        stayNights: stays.reduce(
+          (sum, income) =>
+            sum +
+            (income.proratedStay?.nights ??
+              income.reservation?.nights ??
+              income.days),
+          0
+        ),
+        leadTimes: [...leadTimes.values()],
+      },
+    })
+  }
+
+  return byProperty
+}
+
+function combineTotals(totals: MetricsTotals[]): MetricsTotals | null {
+  if (!totals.length) return null
+
+  return totals.reduce<MetricsTotals>(
+    (sum, item) => ({
+      nightsInMonth: sum.nightsInMonth + item.nightsInMonth,
+      blockedNights: sum.blockedNights + item.blockedNights,
+      bookedNights: sum.bookedNights + item.bookedNights,
+      bookings: sum.bookings + item.bookings,
+      revenue: sum.revenue + item.revenue,
+      stayRevenue: sum.stayRevenue + item.stayRevenue,
+      stayNights: sum.stayNights + item.stayNights,
+      leadTimes: [...sum.leadTimes, ...item.leadTimes],
+    }),
+    {
+      nightsInMonth: 0,
+      blockedNights: 0,
+      bookedNights: 0,
+      bookings: 0,
+      revenue: 0,
+      stayRevenue: 0,
+      stayNights: 0,
+      leadTimes: [],
+    }
+  )
+}
+
+/**
+ * Metrics for each property with a statement in the month, and for the
+ * portfolio as a whole, next to the month before and the same month a year
+ * earlier.
+ */
+export async function getPortfolioPerformance(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  month: Date
+): Promise<PortfolioPerformance> {
+  const current = dayjs.utc(month).startOf('month')
+  const [currentTotals, previousMonthTotals, previousYearTotals] =
+    await Promise.all([
+      getMonthTotals(db, managementGroupId, current.toDate()),
+      getMonthTotals(
+        db,
+        managementGroupId,
+        current.subtract(1, 'month').toDate()
+      ),
+      getMonthTotals(
+        db,
+        managementGroupId,
+        current.subtract(1, 'year').toDate()
+      ),
+    ])
+
+  const metricsFor = (totals: MetricsTotals | null | undefined) =>
+    totals ? toStayMetrics(totals) : null
+
+  const properties = [...currentTotals.entries()]
+    .map(([propertyId, { propertyName, totals }]) => ({
+      propertyId,
+      propertyName,
+      current: toStayMetrics(totals),
+      previousMonth: metricsFor(previousMonthTotals.get(propertyId)?.totals),
+      previousYear: metricsFor(previousYearTotals.get(propertyId)?.totals),
+    }))
+    .sort((a, b) => a.propertyName.localeCompare(b.propertyName))
+
+  const portfolioTotals = (totals: Map<string, { totals: MetricsTotals }>) =>
+    metricsFor(combineTotals([...totals.values()].map((item) => item.totals)))
+
+  return {
+    month: current.format('YYYY-MM'),
+    properties,
+    portfolio: {
+      current: portfolioTotals(currentTotals),
+      previousMonth: portfolioTotals(previousMonthTotals),
+      previousYear: portfolioTotals(previousYearTotals),
+    },
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import type { ImportedIncome } from '~/lib/OwnerStatement/reservation-import'
+import {
+  monthDateRange,
+  prorateStay,
+} from '~/lib/OwnerStatement/stay-proration'
+
+const stay = (overrides: Partial<ImportedIncome>): ImportedIncome => ({
+  checkIn: '2025-01-28',
+  checkOut: '2025-02-04',
+  days: 7,
+  platform: 'Airbnb',
+  guest: 'Jane Guest',
+  grossRevenue: 700,
+  cleaningFee: 70,
+  platformFee: 21,
+  ...overrides,
+})
+
+const cents = (values: number[]) =>
+  Math.round(values.reduce((sum, value) => sum + value * 100, 0))
+
+describe('prorateStay', () => {
+  it('gives each night to the month it starts in', () => {
+    const portions = prorateStay(stay({}))
+
+    expect(portions?.map(({ month, income }) => [month, income])).toEqual([
+      [
+        '2025-01',
+        expect.objectContaining({
+          checkIn: '2025-01-28',
+          checkOut: '2025-02-01',
+          days: 4,
+          grossRevenue: 400,
+          cleaningFee: 40,
+          platformFee: 12,
+        }),
+      ],
+      [
+        '2025-02',
+        expect.objectContaining({
+          checkIn: '2025-02-01',
+          checkOut: '2025-02-04',
+          days: 3,
+          grossRevenue: 300,
+          cleaningFee: 30,
+          platformFee: 9,
+        }),
+      ],
+    ])
+  })
+
+  it('leaves stays within one month alone', () => {
+    expect(
+      prorateStay(stay({ checkIn: '2025-01-03', checkOut: '2025-01-10' }))
+    ).toBeNull()
+    // Checking out on the 1st means the last night is still in January
+    expect(
+      prorateStay(stay({ checkIn: '2025-01-28', checkOut: '2025-02-01' }))
+    ).toBeNull()
+  })
+
+  it('covers every month of a long stay, including leap-year February', () => {
+    const portions = prorateStay(
+      stay({ checkIn: '2024-01-31', checkOut: '2024-03-02', days: 31 })
+    )
+
+    expect(portions?.map(({ month, income }) => [month, income.days])).toEqual([
+      ['2024-01', 1],
+      ['2024-02', 29],
+      ['2024-03', 1],
+    ])
+  })
+
+  it('crosses the year end', () => {
+    const portions = prorateStay(
+      stay({ checkIn: '2024-12-30', checkOut: '2025-01-02', days: 3 })
+    )
+
+    expect(portions?.map((portion) => portion.month)).toEqual([
+      '2024-12',
+      '2025-01',
+    ])
+  })
+
+  it('keeps the rounding remainder so the portions add up to the stay', () => {
+    const portions = prorateStay(
+      stay({
+        checkIn: '2025-03-30',
+        checkOut: '2025-04-02',
+        days: 3,
+        grossRevenue: 100,
+        cleaningFee: 0.05,
+        platformFee: 3.01,
+      })
+    )!
+
+    expect(portions.map(({ income }) => income.grossRevenue)).toEqual([
+      66.67, 33.33,
+    ])
+    expect(cents(portions.map(({ income }) => income.grossRevenue))).toBe(10000)
+    expect(cents(portions.map(({ income }) => income.cleaningFee))).toBe(5)
+    expect(cents(portions.map(({ income }) => income.platformFee))).toBe(301)
+  })
+
+  it('skips stays whose dates cannot be read', () => {
+    expect(prorateStay(stay({ checkIn: '01/28/2025' }))).toBeNull()
+    expect(
+      prorateStay(stay({ checkIn: '2025-02-04', checkOut: '2025-01-28' }))
+    ).toBeNull()
+  })
+})
+
+describe('monthDateRange', () => {
+  it('runs from the first of the month to the first of the next', () => {
+    expect(monthDateRange(new Date(Date.UTC(2025, 11, 15)))).toEqual({
+      start: '2025-12-01',
+      end: '2026-01-01',
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import type { ImportedIncome } from '~/lib/OwnerStatement/reservation-import'
+import dayjs from '~/lib/utils/day'
+
+// Splits a stay that crosses a month boundary into one income line per month,
+// by night. A night belongs to the month it starts in, so a Jan 28 to Feb 4
+// stay is four January nights and three February nights.
+
+export interface StayPortion {
+  month: string // YYYY-MM
+  income: ImportedIncome
+}
+
+const DATE_FORMAT = 'YYYY-MM-DD'
+
+const parseStayDate = (value: string) => dayjs.utc(value, DATE_FORMAT, true)
+
+// Cumulative rounding so the portions always add back up to the total
+function splitByNights(total: number, nights: number[]): number[] {
+  const totalCents = Math.round(total * 100)
+  const totalNights = nights.reduce((sum, count) => sum + count, 0)
+  let counted = 0
+  let allocated = 0
+
+  return nights.map((count) => {
+    counted += count
+    const cents = Math.round((totalCents * counted) / totalNights) - allocated
+    allocated += cents
+    return cents / 100
+  })
+}
+
+/**
+ * The stay's share of each month it touches, or null when it sits within one
+ * month or its dates can't be read.
+ */
+export function prorateStay(income: ImportedIncome): StayPortion[] | null {
+  const checkIn = parseStayDate(income.checkIn)
+  const checkOut = parseStayDate(income.checkOut)
+  if (!checkIn.isValid() || !checkOut.isValid()) return null
+  if (!checkOut.isAfter(checkIn)) return null
+
+  const lastNight = checkOut.subtract(1, 'day')
+  if (checkIn.isSame(lastNight, 'month')) return null
+
+  const ranges: Array<{
+    start: dayjs.Dayjs
+    end: dayjs.Dayjs
+    nights: number
+  }> = []
+  let start = checkIn
+  while (start.isBefore(checkOut)) {
+    const nextMonth = start.add(1, 'month').startOf('month')
+    const end = nextMonth.isBefore(checkOut) ? nextMonth : checkOut
+    ranges.push({ start, end, nights: end.diff(start, 'day') })
+    start = end
+  }
+
+  const nights = ranges.map((range) => range.nights)
+  const grossRevenue = splitByNights(income.grossRevenue, nights)
+  const cleaningFee = splitByNights(income.cleaningFee, nights)
+  const platformFee = splitByNights(income.platformFee, nights)
+
+  return ranges.map((range, index) => ({
+    month: range.start.format('YYYY-MM'),
+    income: {
+      ...income,
+      checkIn: range.start.format(DATE_FORMAT),
+      checkOut: range.end.format(DATE_FORMAT),
+      days: range.nights,
+      grossRevenue: grossRevenue[index] ?? 0,
+      cleaningFee: cleaningFee[index] ?? 0,
+      platformFee: platformFee[index] ?? 0,
+    },
+  }))
+}
+
+// First and last day of a statement month as stay dates, for overlap queries
+export function monthDateRange(statementMonth: Date): {
+  start: string
+  end: string
+} {
+  const month = dayjs.utc(statementMonth).startOf('month')
+  return {
+    start: month.format(DATE_FORMAT),
+    end: month.add(1, 'month').format(DATE_FORMAT),
+  }
+}
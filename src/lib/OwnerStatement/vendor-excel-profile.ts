@@ -0,0 +1,152 @@
+import * as XLSX from 'xlsx'
+import dayjs from '~/lib/utils/day'
+
+// Column layouts for vendor expense spreadsheets, guessed from headers or
+// loaded from a saved VendorImportProfile
+
+export const VENDOR_EXPENSE_FIELDS = [
+  'property',
+  'date',
+  'description',
+  'vendor',
+  'amount',
+] as const
+
+export type VendorExpenseField = (typeof VENDOR_EXPENSE_FIELDS)[number]
+
+// Field -> zero-based column index, null when the sheet has no such column
+export type VendorColumnMapping = Record<VendorExpenseField, number | null>
+
+export const SIGN_CONVENTIONS = ['positive', 'negative'] as const
+
+export type SignConvention = (typeof SIGN_CONVENTIONS)[number]
+
+export const SIGN_CONVENTION_LABELS: Record<SignConvention, string> = {
+  positive: 'Expenses are positive amounts',
+  negative: 'Expenses are negative amounts',
+}
+
+export const VENDOR_DATE_FORMATS = [
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+  'YYYY-MM-DD',
+  'M/D/YY',
+  'D/M/YY',
+] as const
+
+export interface VendorSheetLayout {
+  headerRowOffset: number
+  columnMapping: VendorColumnMapping
+  dateFormat: string | null
+  signConvention: SignConvention
+  vendorName: string | null
+  defaultDescription: string | null
+}
+
+export function normalizeSheetHeaders(row: unknown[] | undefined): string[] {
+  const headers = (row ?? []).map((cell) =>
+    typeof cell === 'string' || typeof cell === 'number'
+      ? String(cell).trim().toLowerCase()
+      : ''
+  )
+  while (headers.length > 0 && !headers[headers.length - 1]) headers.pop()
+  return headers
+}
+
+/**
+ * Guess the layout from a header row containing "property", "date",
+ * "description", "vendor" and "amount".
+ */
+export function guessSheetLayout(rows: unknown[][]): VendorSheetLayout {
+  const headers = normalizeSheetHeaders(rows[0])
+  const findColumn = (field: VendorExpenseField) => {
+    const index = headers.findIndex((h) => h.includes(field))
+    return index === -1 ? null : index
+  }
+
+  return {
+    headerRowOffset: 0,
+    columnMapping: {
+      property: findColumn('property'),
+      date: findColumn('date'),
+      description: findColumn('description'),
+      vendor: findColumn('vendor'),
+      amount: findColumn('amount'),
+    },
+    dateFormat: null,
+    signConvention: 'positive',
+    vendorName: null,
+    defaultDescription: null,
+  }
+}
+
+// Strip a saved profile down to its layout
+export function toSheetLayout(profile: VendorSheetLayout): VendorSheetLayout {
+  return {
+    headerRowOffset: profile.headerRowOffset,
+    columnMapping: profile.columnMapping,
+    dateFormat: profile.dateFormat,
+    signConvention: profile.signConvention,
+    vendorName: profile.vendorName,
+    defaultDescription: profile.defaultDescription,
+  }
+}
+
+/**
+ * Fields the layout can't fill. Description and vendor may come from the
+ * layout's defaults instead of a column.
+ */
+export function getMissingFields(
+  layout: VendorSheetLayout
+): VendorExpenseField[] {
+  return VENDOR_EXPENSE_FIELDS.filter((field) => {
+    if (layout.columnMapping[field] !== null) return false
+    if (field === 'description') return !layout.defaultDescription
+    if (field === 'vendor') return !layout.vendorName
+    return true
+  })
+}
+
+/**
+ * The saved profile whose header row matches the sheet at the profile's offset
+ */
+export function findMatchingProfile<
+  T extends { headerRowOffset: number; headers: string[] },
+>(rows: unknown[][], profiles: T[]): T | undefined {
+  return profiles.find((profile) => {
+    const headers = normalizeSheetHeaders(rows[profile.headerRowOffset])
+    return (
+      headers.length > 0 &&
+      headers.length === profile.headers.length &&
+      headers.every((header, index) => header === profile.headers[index])
+    )
+  })
+}
+
+/**
+ * Read a date cell with the layout's format and return it as YYYY-MM-DD.
+ * Returns null when the cell doesn't match the format.
+ */
+export function parseVendorDate(
+  cell: unknown,
+  dateFormat: string
+): string | null {
+  if (typeof cell === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(cell)
+    return parsed
+      ? dayjs(new Date(parsed.y, parsed.m - 1, parsed.d)).format('YYYY-MM-DD')
+      : null
+  }
+  if (cell instanceof Date) return dayjs(cell).format('YYYY-MM-DD')
+  if (typeof cell !== 'string') return null
+
+  const parsed = dayjs(cell.trim(), dateFormat, true)
+  return parsed.isValid() ? parsed.format('YYYY-MM-DD') : null
+}
+
+export function applySignConvention(
+  amount: number,
+  signConvention: SignConvention
+): number {
+  return signConvention === 'negative' ? -amount : amount
+}
@@ -0,0 +1,131 @@
+import { type Prisma } from '@prisma/client'
+import { after } from 'next/server'
+import { processVendorPdf } from '~/lib/OwnerStatement/vendor-pdf-processing'
+import { qstash } from '~/lib/qstash/qstash'
+import { db } from '~/server/db'
+import { storeSourceDocument } from '~/server/document-storage'
+
+// Queueing and execution of background vendor PDF import jobs
+
+export const VENDOR_IMPORT_JOB_RUN_PATH = '/api/vendor-import/jobs/run'
+
+// A job still extracting or matching after this long is assumed to have died
+const STALE_JOB_MS = 10 * 60 * 1000
+
+/**
+ * Hand a queued job to QStash, or run it in this process after the response
+ * is sent when QStash is not configured (local development and tests).
+ */
+export async function enqueueVendorImportJob(jobId: string, baseUrl: string) {
+  if (!qstash) {
+    after(() => runVendorImportJob(jobId))
+    return
+  }
+
+  await qstash.publishJSON({
+    url: `${baseUrl}${VENDOR_IMPORT_JOB_RUN_PATH}`,
+    body: { jobId },
+    retries: 2,
+  })
+}
+
+/**
+ * Claim the job so duplicate deliveries don't process it twice. Stale jobs
+ * left mid-run by a crashed worker can be claimed again.
+ */
+async function claimJob(jobId: string): Promise<boolean> {
+  const { count } = await db.vendorImportJob.updateMany({
+    where: {
+      id: jobId,
+      OR: [
+        { status: 'QUEUED' },
+        {
+          status: { in: ['EXTRACTING', 'MATCHING'] },
+          updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) },
+        },
+      ],
+    },
+    data: {
+      status: 'EXTRACTING',
+      progressMessage: 'Starting...',
+      attempts: { increment: 1 },
+      startedAt: new Date(),
+    },
+  })
+
+  return count > 0
+}
+
+export async function runVendorImportJob(jobId: string): Promise<void> {
+  if (!(await claimJob(jobId))) return
+
+  const job = await db.vendorImportJob.findUniqueOrThrow({
+    where: { id: jobId },
+  })
+
+  try {
+    // Keep the invoice so imported expenses can link back to it. A retried
+    // job reuses the copy saved on its first attempt.
+    let sourceDocumentId = job.sourceDocumentId
+    if (!sourceDocumentId) {
+      await db.vendorImportJob.update({
+        where: { id: jobId },
+        data: { progressMessage: 'Saving invoice...' },
+      })
+      const sourceDocument = await storeSourceDocument(db, {
+        managementGroupId: job.managementGroupId,
+        createdBy: job.createdBy,
+        file: {
+          fileName: job.fileName,
+          mimeType: 'application/pdf',
+          data: Buffer.from(job.fileData),
+        },
+      })
+      sourceDocumentId = sourceDocument.id
+      await db.vendorImportJob.update({
+        where: { id: jobId },
+        data: { sourceDocumentId },
+      })
+    }
+
+    const preview = await processVendorPdf(
+      {
+        managementGroupId: job.managementGroupId,
+        statementMonth: job.statementMonth,
+        vendor: job.vendor,
+        description: job.description,
+        pdfBase64: Buffer.from(job.fileData).toString('base64'),
+      },
+      async (status, progressMessage) => {
+        await db.vendorImportJob.update({
+          where: { id: jobId },
+          data: { status, progressMessage },
+        })
+      }
+    )
+
+    await db.vendorImportJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'READY_FOR_REVIEW',
+        progressMessage: null,
+        result: {
+          ...preview,
+          sourceDocumentId,
+        } as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    })
+  } catch (error) {
+    console.error(`Vendor import job ${jobId} failed:`, error)
+    await db.vendorImportJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'FAILED',
+        progressMessage: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date(),
+      },
+    })
+  }
+}
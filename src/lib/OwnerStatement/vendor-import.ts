@@ -1,3 +1,5 @@
+import type { VendorImportJobStatus } from '@prisma/client'
+
 // Shared types for vendor import preview functionality
 
 export interface VendorImportExpense {
@@ -5,6 +7,12 @@ export interface VendorImportExpense {
   description: string
   vendor: string
   amount: number
+  // Line item detail read from PDF invoices, editable in the preview
+  lineDescription?: string | null
+  quantity?: number | null
+  unitPrice?: number | null
+  category?: string | null // ExpenseCategory key
+  sourceReference?: string | null // Page or row in the source document
 }
 
 export interface MatchedPropertyPreview {
@@ -26,6 +34,7 @@ export interface UnmatchedPropertyPreview {
 }
 
 export interface VendorImportPreview {
+  sourceDocumentId?: string | null // Retained copy of the uploaded file
   matched: MatchedPropertyPreview[]
   unmatched: UnmatchedPropertyPreview[]
   summary: {
@@ -38,6 +47,58 @@ export interface VendorImportPreview {
   }
 }
 
+function sumExpenses(expenses: VendorImportExpense[]) {
+  return parseFloat(
+    expenses.reduce((sum, expense) => sum + expense.amount, 0).toFixed(2)
+  )
+}
+
+/**
+ * Recompute property and summary totals, after extraction or after the
+ * user edits line items in the preview.
+ */
+export function summarizeVendorImportPreview(
+  matched: MatchedPropertyPreview[],
+  unmatched: UnmatchedPropertyPreview[]
+): VendorImportPreview {
+  const totaledMatched = matched.map((match) => ({
+    ...match,
+    totalAmount: sumExpenses(match.expenses),
+  }))
+  const totaledUnmatched = unmatched.map((unmatch) => ({
+    ...unmatch,
+    totalAmount: sumExpenses(unmatch.expenses),
+  }))
+
+  const totalMatchedAmount = totaledMatched.reduce(
+    (sum, m) => sum + m.totalAmount,
+    0
+  )
+  const totalUnmatchedAmount = totaledUnmatched.reduce(
+    (sum, u) => sum + u.totalAmount,
+    0
+  )
+
+  return {
+    matched: totaledMatched,
+    unmatched: totaledUnmatched,
+    summary: {
+      totalMatchedProperties: totaledMatched.length,
+      totalUnmatchedProperties: totaledUnmatched.length,
+      totalMatchedExpenses: totaledMatched.reduce(
+        (sum, m) => sum + m.expenses.length,
+        0
+      ),
+      totalUnmatchedExpenses: totaledUnmatched.reduce(
+        (sum, u) => sum + u.expenses.length,
+        0
+      ),
+      totalMatchedAmount: parseFloat(totalMatchedAmount.toFixed(2)),
+      totalUnmatchedAmount: parseFloat(totalUnmatchedAmount.toFixed(2)),
+    },
+  }
+}
+
 export interface VendorImportPreviewResponse {
   success: true
   preview: VendorImportPreview
@@ -46,6 +107,8 @@ export interface VendorImportPreviewResponse {
 // Confirmation types for when user approves the preview
 export interface VendorImportConfirmRequest {
   currentStatementId: string
+  jobId?: string // Background job the preview came from
+  sourceDocumentId?: string | null // Linked to every created expense
   approvedMatches: MatchedPropertyPreview[] // Only the matches the user approved
 }
 
@@ -55,3 +118,39 @@ export interface VendorImportConfirmResponse {
   updatedPropertiesCount: number
   updatedProperties: string[]
 }
+
+// Background processing of vendor PDFs
+
+export interface VendorImportJobStartResponse {
+  success: true
+  jobId: string
+}
+
+export const VENDOR_IMPORT_JOB_STATUS_LABELS: Record<
+  VendorImportJobStatus,
+  string
+> = {
+  QUEUED: 'Queued',
+  EXTRACTING: 'Extracting',
+  MATCHING: 'Matching',
+  READY_FOR_REVIEW: 'Ready for review',
+  FAILED: 'Failed',
+}
+
+export function isVendorImportJobFinished(status: VendorImportJobStatus) {
+  return status === 'READY_FOR_REVIEW' || status === 'FAILED'
+}
+
+export interface VendorImportJobView {
+  id: string
+  ownerStatementId: string
+  vendor: string
+  description: string
+  fileName: string
+  status: VendorImportJobStatus
+  progressMessage: string | null
+  error: string | null
+  preview: VendorImportPreview | null
+  createdAt: Date | null
+  completedAt: Date | null
+}
@@ -0,0 +1,307 @@
+import type { VendorImportJobStatus } from '@prisma/client'
+import {
+  getExpenseCategories,
+  suggestExpenseCategories,
+} from '~/lib/OwnerStatement/expense-category'
+import { getPropertyAliasMap } from '~/lib/OwnerStatement/property-alias'
+import { pageReference } from '~/lib/OwnerStatement/source-document'
+import { VendorCache } from '~/lib/OwnerStatement/vendor-cache'
+import {
+  type MatchedPropertyPreview,
+  type UnmatchedPropertyPreview,
+  type VendorImportExpense,
+  type VendorImportPreview,
+  summarizeVendorImportPreview,
+} from '~/lib/OwnerStatement/vendor-import'
+import { type PropertyMatchResult, matchPropertiesWithGPT } from '~/lib/ai/ai'
+import { geminiFlashModel } from '~/lib/gemini/gemini'
+import { parseJsonField } from '~/lib/utils/json'
+import { db } from '~/server/db'
+
+// Gemini extraction and GPT property matching for a vendor invoice PDF
+
+export interface VendorPdfInput {
+  managementGroupId: string
+  statementMonth: Date
+  vendor: string
+  description: string
+  pdfBase64: string
+}
+
+interface ExtractedLineItem {
+  date?: string
+  amount: number
+  description?: string
+  quantity?: number | null
+  unitPrice?: number | null
+  category?: string | null
+  page?: number | null
+}
+
+export type VendorPdfProgress = (
+  status: Extract<VendorImportJobStatus, 'EXTRACTING' | 'MATCHING'>,
+  message: string
+) => Promise<void>
+
+function toOptionalText(value: unknown): string | null {
+  const text = typeof value === 'string' ? value.trim() : ''
+  return text.length ? text : null
+}
+
+// The model sometimes returns quantities as strings or zero for "not shown"
+function toOptionalNumber(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value
+  return typeof parsed === 'number' && isFinite(parsed) && parsed !== 0
+    ? parsed
+    : null
+}
+
+/**
+ * Extract expenses from the PDF and match them to the month's statements.
+ * Throws with a user-facing message when extraction or matching fails.
+ */
+export async function processVendorPdf(
+  input: VendorPdfInput,
+  onProgress: VendorPdfProgress
+): Promise<VendorImportPreview> {
+  const monthKey = `${input.statementMonth.getUTCFullYear()}-${String(input.statementMonth.getUTCMonth() + 1).padStart(2, '0')}`
+
+  // Get cached month properties
+  let monthStatements = await VendorCache.getMonthStatements(
+    input.managementGroupId,
+    monthKey
+  )
+  if (!monthStatements) {
+    monthStatements = await db.ownerStatement.findMany({
+      where: {
+        managementGroupId: input.managementGroupId,
+        statementMonth: input.statementMonth,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        property: {
+          select: {
+            id: true,
+            name: true,
+            locationInfo: true,
+          },
+        },
+      },
+    })
+
+    // Cache for future requests
+    await VendorCache.setMonthStatements(
+      input.managementGroupId,
+      monthKey,
+      monthStatements
+    )
+  }
+
+  // AI Processing
+  await onProgress('EXTRACTING', 'Extracting expenses from the PDF...')
+  if (!geminiFlashModel) {
+    throw new Error('AI service unavailable')
+  }
+
+  // Prepare property data for GPT matching (includes names and addresses)
+  const databaseProperties = monthStatements
+    .map((s: any) => s.property)
+    .filter(Boolean)
+    .map((property: any) => ({
+      id: property.id,
+      name: property.name,
+      address:
+        (property.locationInfo as { address?: string } | null)?.address ?? null,
+    }))
+
+  // Lines are categorised from the group's own list, falling back to the
+  // vendor's usual category when the line doesn't say
+  const categories = await getExpenseCategories(db, input.managementGroupId)
+  const categoryKeys = new Set(categories.map((category) => category.key))
+  const vendorCategory = (
+    await suggestExpenseCategories(db, input.managementGroupId, [input.vendor])
+  )[input.vendor]
+
+  const prompt = `You are an expert data extraction assistant specializing in property management invoices.
+You will receive a PDF invoice file. Invoices can vary significantly in format, including tables, lists, or less structured text.
+You will also receive a list of known properties relevant to this invoice context:
+
+KNOWN PROPERTIES:
+${databaseProperties
+  .map(
+    (prop) =>
+      `- Name: "${prop.name}"${prop.address ? ` | Address: "${prop.address}"` : ''}`
+  )
+  .join('\n')}
+
+Your task is to extract expense line items from the PDF and associate them with the correct property from the KNOWN PROPERTIES list.
+
+For each expense line item you can confidently match to a property in the KNOWN list, extract ONLY the following details:
+1.  "date": The date the expense occurred or was invoiced. Look for columns labeled 'Date', 'Service Date', or similar. Format as YYYY-MM-DD if possible, otherwise use the exact format found. If no date is available for a line item, you may omit the "date" field or provide an empty string.
+2.  "amount": The cost of the specific line item. Look for columns labeled 'Amount', 'Cost', 'Price', 'Total', or similar. Provide this as a number, removing any currency symbols ($, £, etc.).
+3.  "description": The line item's own description as written on the invoice (e.g. "Replace kitchen faucet cartridge"). Keep it short and leave out the property name. Use an empty string if the line has no description.
+4.  "quantity": The quantity or hours billed for the line, as a number, or null if not shown.
+5.  "unitPrice": The price per unit or hourly rate, as a number, or null if not shown.
+6.  "category": The best fitting category for the line, exactly one of the keys: ${categories.map((c) => `"${c.key}" (${c.name})`).join(', ')}.
+7.  "page": The 1-based page number of the PDF the line appears on.
+
+Crucially:
+-   Identify the property associated with each expense. The property name or address might be in a dedicated column ('Property', 'Address', 'Location'), listed near the line item(s), or mentioned as a header for a section.
+-   Match the identified property name/address from the invoice to the *closest* property in the provided KNOWN PROPERTIES list using either the name OR address.
+-   The output JSON keys MUST be exact matches of the property NAMES from the KNOWN PROPERTIES list.
+
+Format your response STRICTLY as a JSON object where:
+- Each key is a property name taken *exactly* from the provided KNOWN PROPERTIES list.
+- Each value is an array of expense objects for that property, containing ONLY the extracted fields: {"date": "...", "amount": ..., "description": "...", "quantity": ..., "unitPrice": ..., "category": "...", "page": ...}.
+
+Example Output (assuming "Sunset Villa" and "Ocean View Condo" were in the known list):
+{
+"Sunset Villa": [{"date": "2024-05-15", "amount": 120.00, "description": "Replace kitchen faucet cartridge", "quantity": 1.5, "unitPrice": 80.00, "category": "repairs", "page": 1}],
+"Ocean View Condo": [{"date": "2024-05-10", "amount": 350.50, "description": "Deep clean after checkout", "quantity": null, "unitPrice": null, "category": "cleaning", "page": 1}, {"date": "", "amount": 85.00, "description": "", "quantity": null, "unitPrice": null, "category": "other", "page": 2}]
+}
+
+Note: If a date is missing or unclear, you may provide an empty string for the "date" field, and the system will automatically assign an appropriate date.
+
+Important Considerations:
+-   Some invoices might list multiple expenses under a single property header. Group these correctly.
+-   Some invoices might have line items that don't clearly belong to any property or don't match any property in the KNOWN PROPERTIES list. OMIT these line items entirely from your output.
+-   If no expense line items can be successfully extracted and matched to any property in the KNOWN list, return an empty JSON object {}.
+-   Focus solely on extracting the requested fields per matched property. Do not extract vendors or other details into the JSON output.
+-   Respond ONLY with the raw JSON object. Do not include explanations, apologies, markdown formatting, or any text outside the JSON structure.`
+
+  const aiResult = await geminiFlashModel.generateContent([
+    prompt,
+    {
+      inlineData: {
+        mimeType: 'application/pdf',
+        data: input.pdfBase64,
+      },
+    },
+  ])
+
+  // Parse AI response
+  const jsonText = aiResult.response?.text() ?? '{}'
+  const jsonMatch = /\{[\s\S]*\}/.exec(jsonText)
+  const extractedJson = jsonMatch ? jsonMatch[0] : '{}'
+
+  const expensesMap = parseJsonField<Record<string, ExtractedLineItem[]>>(
+    extractedJson,
+    { defaultValue: {} }
+  )
+
+  if (!expensesMap || Object.keys(expensesMap).length === 0) {
+    throw new Error('No property expenses found in PDF')
+  }
+
+  // Use cached GPT matching for better performance
+  const extractedPropertyNames = Object.keys(expensesMap).map((name) =>
+    name.trim()
+  )
+
+  await onProgress('MATCHING', 'Matching properties...')
+  const gptMatchResult: PropertyMatchResult = { matches: {}, unmatched: [] }
+  const aliases = await getPropertyAliasMap(db, input.managementGroupId)
+
+  try {
+    // Process in chunks of 10 properties to avoid GPT overload
+    const CHUNK_SIZE = 10
+    const chunks = []
+    for (let i = 0; i < extractedPropertyNames.length; i += CHUNK_SIZE) {
+      chunks.push(extractedPropertyNames.slice(i, i + CHUNK_SIZE))
+    }
+
+    // Process each chunk
+    for (const chunk of chunks) {
+      const chunkResult = await matchPropertiesWithGPT({
+        importProperties: chunk,
+        databaseProperties: databaseProperties.map((p) => ({
+          id: p.id,
+          name: p.name.trim(),
+          address: p.address,
+        })),
+        aliases,
+      })
+
+      // Combine results
+      gptMatchResult.matches = {
+        ...gptMatchResult.matches,
+        ...chunkResult.matches,
+      }
+      gptMatchResult.unmatched = [
+        ...gptMatchResult.unmatched,
+        ...chunkResult.unmatched,
+      ]
+    }
+  } catch (error) {
+    console.error('GPT matching failed:', error)
+    throw new Error('Property matching service failed. Please try again.')
+  }
+
+  // Process all expenses for preview
+  const defaultDate = new Date(input.statementMonth)
+  defaultDate.setUTCDate(15)
+  const defaultDateStr = defaultDate.toISOString().split('T')[0]!
+
+  // Prepare preview data
+  const matched: MatchedPropertyPreview[] = []
+  const unmatched: UnmatchedPropertyPreview[] = []
+
+  for (const [extractedPropertyName, extractedExpenses] of Object.entries(
+    expensesMap
+  )) {
+    // Check if GPT matched this property (using trimmed name for lookup)
+    const trimmedPropertyName = extractedPropertyName.trim()
+    const match = gptMatchResult.matches[trimmedPropertyName]
+
+    const expenses = extractedExpenses.map((exp): VendorImportExpense => ({
+      date: exp.date ?? defaultDateStr,
+      description: input.description,
+      vendor: input.vendor,
+      amount: exp.amount,
+      lineDescription: toOptionalText(exp.description),
+      quantity: toOptionalNumber(exp.quantity),
+      unitPrice: toOptionalNumber(exp.unitPrice),
+      category:
+        exp.category && categoryKeys.has(exp.category)
+          ? exp.category
+          : (vendorCategory ?? null),
+      sourceReference: pageReference(exp.page),
+    }))
+
+    if (match) {
+      // Property was matched
+      const dbProperty = databaseProperties.find(
+        (p) => p.id === match.propertyId
+      )
+      if (dbProperty && expenses.length > 0) {
+        const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount, 0)
+
+        matched.push({
+          property: {
+            id: dbProperty.id,
+            name: dbProperty.name,
+            address: dbProperty.address,
+          },
+          confidence: match.confidence,
+          reason: match.reason,
+          expenses,
+          totalAmount: parseFloat(totalAmount.toFixed(2)),
+        })
+      }
+    } else {
+      // Property was not matched
+      if (expenses.length > 0) {
+        const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount, 0)
+
+        unmatched.push({
+          propertyName: trimmedPropertyName,
+          expenses,
+          totalAmount: parseFloat(totalAmount.toFixed(2)),
+        })
+      }
+    }
+  }
+
+  return summarizeVendorImportPreview(matched, unmatched)
+}
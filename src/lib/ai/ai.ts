@@ -1,6 +1,15 @@
 import { openai } from '@ai-sdk/openai'
 import { generateObject, generateText } from 'ai'
 import { z } from 'zod'
+import { env } from '~/env'
+import {
+  type PropertyAliasMap,
+  findAliasedPropertyId,
+} from '~/lib/OwnerStatement/property-alias'
+import {
+  MIN_MATCH_SCORE,
+  matchPropertiesLocally,
+} from '~/lib/OwnerStatement/property-matcher'
 
 export const model = openai('gpt-4o')
 
@@ -61,6 +70,7 @@ export type PropertyMatchResult = z.infer<typeof propertyMatchSchema>
 export async function matchPropertiesWithGPT({
   importProperties,
   databaseProperties,
+  aliases,
 }: {
   importProperties: string[]
   databaseProperties: Array<{
@@ -68,11 +78,23 @@ export async function matchPropertiesWithGPT({
     name: string
     address?: string | null
   }>
+  aliases?: PropertyAliasMap
 }): Promise<PropertyMatchResult> {
   const exactMatches: Record<string, any> = {}
   const remainingProperties: string[] = []
 
   for (const importProp of importProperties) {
+    // Saved aliases win, but only for properties that are candidates here
+    const aliasedId = aliases && findAliasedPropertyId(importProp, aliases)
+    if (aliasedId && databaseProperties.some((p) => p.id === aliasedId)) {
+      exactMatches[importProp] = {
+        propertyId: aliasedId,
+        confidence: 1.0,
+        reason: 'saved alias',
+      }
+      continue
+    }
+
     const exactMatch = databaseProperties.find(
       (dbProp) =>
         dbProp.name.trim().toLowerCase() === importProp.trim().toLowerCase()
@@ -89,20 +111,45 @@ export async function matchPropertiesWithGPT({
     }
   }
 
-  if (remainingProperties.length === 0) {
+  // Deterministic pass first, so only ambiguous names reach the model
+  const localResult = matchPropertiesLocally({
+    importProperties: remainingProperties,
+    databaseProperties,
+  })
+  Object.assign(exactMatches, localResult.matches)
+  const ambiguousProperties = localResult.unmatched
+
+  if (ambiguousProperties.length === 0) {
     return {
       matches: exactMatches,
       unmatched: [],
     }
   }
 
+  // Offline fallback: accept the best local candidate at the prompt's floor
+  const matchLocallyOnly = (): PropertyMatchResult => {
+    const fallback = matchPropertiesLocally({
+      importProperties: ambiguousProperties,
+      databaseProperties,
+      minScore: MIN_MATCH_SCORE,
+    })
+    return {
+      matches: { ...exactMatches, ...fallback.matches },
+      unmatched: fallback.unmatched,
+    }
+  }
+
+  if (!env.OPENAI_API_KEY) {
+    return matchLocallyOnly()
+  }
+
   const prompt = `Match property names from import data to database properties.
 
 DATABASE PROPERTIES:
 ${databaseProperties.map((p) => `"${p.name}" (ID: ${p.id})`).join('\n')}
 
 IMPORT PROPERTIES:
-${remainingProperties.map((prop) => `"${prop}"`).join('\n')}
+${ambiguousProperties.map((prop) => `"${prop}"`).join('\n')}
 
 MATCHING RULES:
 1. Exact matches get confidence 1.0
@@ -143,10 +190,7 @@ Return JSON format:
     return finalResult
   } catch (error) {
     console.error('❌ GPT matching failed:', error)
-    return {
-      matches: exactMatches,
-      unmatched: remainingProperties,
-    }
+    return matchLocallyOnly()
   }
 }
 
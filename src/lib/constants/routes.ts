@@ -12,6 +12,7 @@ export const ROUTES = {
     INVOICE: '/dashboard/properties/:propertyId/invoice/:invoiceId',
     OWNER_STATEMENTS: '/dashboard/owner-statements',
     INVOICES: '/dashboard/invoices',
+    CHANNELS: '/dashboard/channels',
   },
 } as const
 
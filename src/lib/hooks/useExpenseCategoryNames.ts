@@ -0,0 +1,26 @@
+'use client'
+
+import { useMemo } from 'react'
+import { api } from '~/trpc/react'
+
+/**
+ * Category names by key for statement PDFs, or null when the management
+ * group lists expenses without grouping them by category.
+ */
+export function useExpenseCategoryNames(
+  enabled = true
+): Record<string, string> | null {
+  const { data } = api.expenseCategory.getMany.useQuery(undefined, {
+    enabled,
+  })
+
+  return useMemo(
+    () =>
+      data?.groupExpensesByCategory
+        ? Object.fromEntries(
+            data.categories.map((category) => [category.key, category.name])
+          )
+        : null,
+    [data]
+  )
+}
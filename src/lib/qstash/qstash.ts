@@ -0,0 +1,7 @@
+import { Client } from '@upstash/qstash'
+import { env } from '~/env'
+
+// Null when QStash is not configured; background jobs then run in-process
+export const qstash = env.QSTASH_TOKEN
+  ? new Client({ token: env.QSTASH_TOKEN })
+  : null
@@ -0,0 +1,18 @@
+/**
+ * Read a file as base64 for upload to the server
+ */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.readAsDataURL(file)
+    reader.onload = () => {
+      const base64String = (reader.result as string)?.split(',')[1]
+      if (!base64String) {
+        reject(new Error('Failed to read file'))
+        return
+      }
+      resolve(base64String)
+    }
+    reader.onerror = () => reject(new Error('Error reading file'))
+  })
+}
@@ -1,10 +1,21 @@
 import { createCallerFactory, createTRPCRouter } from '~/server/api/trpc'
 
+import { expenseCategoryRouter } from './routers/expenseCategory'
 import { invoiceRouter } from './routers/invoice'
 import { invoiceItemRouter } from './routers/invoiceItem'
+import { managementAgreementRouter } from './routers/managementAgreement'
 import { managementGroupItemsRouter } from './routers/managementGroupItems'
+import { ownerRouter } from './routers/owner'
+import { ownerPayoutRouter } from './routers/ownerPayout'
 import { ownerStatementRouter } from './routers/ownerStatement'
+import { ownershipSplitRouter } from './routers/ownershipSplit'
 import { propertyRouter } from './routers/property'
+import { propertyAliasRouter } from './routers/propertyAlias'
+import { propertyBlockRouter } from './routers/propertyBlock'
+import { recurringExpenseRouter } from './routers/recurringExpense'
+import { statementVarianceRouter } from './routers/statementVariance'
+import { vendorImportJobRouter } from './routers/vendorImportJob'
+import { vendorImportProfileRouter } from './routers/vendorImportProfile'
 
 /**
  * This is the primary router for your server.
@@ -17,6 +28,17 @@ export const appRouter = createTRPCRouter({
   managementGroupItems: managementGroupItemsRouter,
   invoiceItem: invoiceItemRouter,
   ownerStatement: ownerStatementRouter,
+  managementAgreement: managementAgreementRouter,
+  propertyAlias: propertyAliasRouter,
+  propertyBlock: propertyBlockRouter,
+  vendorImportProfile: vendorImportProfileRouter,
+  vendorImportJob: vendorImportJobRouter,
+  owner: ownerRouter,
+  ownershipSplit: ownershipSplitRouter,
+  ownerPayout: ownerPayoutRouter,
+  statementVariance: statementVarianceRouter,
+  recurringExpense: recurringExpenseRouter,
+  expenseCategory: expenseCategoryRouter,
 })
 
 // export type definition of API
@@ -0,0 +1,222 @@
+import { type Prisma } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  SCHEDULE_E_LINES,
+  getExpenseCategories,
+  seedExpenseCategories,
+} from '~/lib/OwnerStatement/expense-category'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+const categoryTermsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  scheduleELine: z.enum(SCHEDULE_E_LINES).nullable().optional(),
+})
+
+export const createCategorySchema = categoryTermsSchema
+
+export const updateCategorySchema = categoryTermsSchema.extend({
+  key: z.string(),
+})
+
+export const deleteCategorySchema = z.object({
+  key: z.string(),
+})
+
+// A key from the name, e.g. "HOA Dues" to "hoa_dues"
+const toCategoryKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'category'
+
+async function findCategory(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  key: string
+) {
+  const category = await db.expenseCategory.findUnique({
+    where: { managementGroupId_key: { managementGroupId: orgId, key } },
+  })
+
+  if (!category || category.deletedAt) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Expense category not found',
+    })
+  }
+
+  return category
+}
+
+export const expenseCategoryRouter = createTRPCRouter({
+  getMany: protectedProcedure.query(async ({ ctx }) => {
+    const { orgId } = ctx.auth
+
+    if (!orgId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'No organization selected',
+      })
+    }
+
+    const [categories, settings] = await Promise.all([
+      getExpenseCategories(ctx.db, orgId),
+      ctx.db.managementGroup.findUnique({
+        where: { id: orgId },
+        select: { groupExpensesByCategory: true },
+      }),
+    ])
+
+    return {
+      categories,
+      groupExpensesByCategory: settings?.groupExpensesByCategory ?? false,
+    }
+  }),
+
+  create: protectedProcedure
+    .input(createCategorySchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await seedExpenseCategories(tx, orgId, userId)
+
+        const existing = await tx.expenseCategory.findMany({
+          where: { managementGroupId: orgId },
+          select: { key: true, name: true, deletedAt: true },
+        })
+
+        if (
+          existing.some(
+            (category) =>
+              !category.deletedAt &&
+              category.name.toLowerCase() === input.name.toLowerCase()
+          )
+        ) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `There is already a category named ${input.name}`,
+          })
+        }
+
+        // A removed category with the same key comes back under the new name
+        const baseKey = toCategoryKey(input.name)
+        const removed = existing.find(
+          (category) => category.key === baseKey && category.deletedAt
+        )
+        if (removed) {
+          return tx.expenseCategory.update({
+            where: {
+              managementGroupId_key: { managementGroupId: orgId, key: baseKey },
+            },
+            data: {
+              name: input.name,
+              scheduleELine: input.scheduleELine ?? null,
+              deletedAt: null,
+              updatedBy: userId,
+            },
+          })
+        }
+
+        const keys = new Set(existing.map((category) => category.key))
+        let key = baseKey
+        for (let suffix = 2; keys.has(key); suffix++) {
+          key = `${baseKey}_${suffix}`
+        }
+
+        return tx.expenseCategory.create({
+          data: {
+            managementGroupId: orgId,
+            key,
+            name: input.name,
+            scheduleELine: input.scheduleELine ?? null,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+        })
+      })
+    }),
+
+  // Renaming keeps the key, so expenses already in the category follow it
+  update: protectedProcedure
+    .input(updateCategorySchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await seedExpenseCategories(tx, orgId, userId)
+        const category = await findCategory(tx, orgId, input.key)
+
+        return tx.expenseCategory.update({
+          where: { id: category.id },
+          data: {
+            name: input.name,
+            scheduleELine: input.scheduleELine ?? null,
+            updatedBy: userId,
+          },
+        })
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteCategorySchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      // Expenses keep the category, and reports still show its name
+      await ctx.db.$transaction(async (tx) => {
+        await seedExpenseCategories(tx, orgId, userId)
+        const category = await findCategory(tx, orgId, input.key)
+
+        await tx.expenseCategory.update({
+          where: { id: category.id },
+          data: { deletedAt: new Date(), updatedBy: userId },
+        })
+      })
+
+      return { success: true }
+    }),
+
+  // Whether statement PDFs list expenses under their category
+  updateSettings: protectedProcedure
+    .input(z.object({ groupExpensesByCategory: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return ctx.db.managementGroup.update({
+        where: { id: orgId },
+        data: { groupExpensesByCategory: input.groupExpensesByCategory },
+        select: { groupExpensesByCategory: true },
+      })
+    }),
+})
@@ -123,7 +123,7 @@ export const invoiceRouter = createTRPCRouter({
               select: {
                 name: true,
                 locationInfo: true,
-                owner: true,
+                owner: { select: { name: true, email: true, phone: true } },
               },
             },
             images: {
@@ -0,0 +1,252 @@
+import { type ManagementAgreement, type Prisma } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { getUsersDisplayInfo } from '~/lib/utils/clerk'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export interface ManagementAgreementWithUser extends Omit<
+  ManagementAgreement,
+  'feePercent' | 'minimumMonthlyFee' | 'reserveTarget'
+> {
+  feePercent: number
+  minimumMonthlyFee: number
+  reserveTarget: number
+  updatedByName: string
+}
+
+const agreementTermsSchema = z
+  .object({
+    feePercent: z
+      .number()
+      .min(0, 'Fee must be positive')
+      .max(100, 'Fee cannot exceed 100%'),
+    minimumMonthlyFee: z.number().min(0, 'Minimum fee must be positive'),
+    excludeCleaningFees: z.boolean().default(false),
+    deductPlatformFees: z.boolean().default(false),
+    reserveTarget: z
+      .number()
+      .min(0, 'Reserve target must be positive')
+      .default(0),
+    effectiveFrom: z.date(),
+    effectiveTo: z.date().nullable().optional(),
+    notes: z.string().optional(),
+  })
+  .refine(
+    (data) => !data.effectiveTo || data.effectiveTo >= data.effectiveFrom,
+    {
+      message: 'End date must be on or after the start date',
+      path: ['effectiveTo'],
+    }
+  )
+
+export const createAgreementSchema = z.intersection(
+  z.object({ propertyId: z.string() }),
+  agreementTermsSchema
+)
+
+export const updateAgreementSchema = z.intersection(
+  z.object({ id: z.string() }),
+  agreementTermsSchema
+)
+
+export const deleteAgreementSchema = z.object({
+  id: z.string(),
+})
+
+// Agreements for one property may not cover the same month twice
+async function assertNoOverlap(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  effectiveFrom: Date,
+  effectiveTo: Date | null | undefined,
+  excludeId?: string
+) {
+  const overlapping = await db.managementAgreement.findFirst({
+    where: {
+      propertyId,
+      deletedAt: null,
+      ...(excludeId && { id: { not: excludeId } }),
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: effectiveFrom } }],
+      ...(effectiveTo && { effectiveFrom: { lte: effectiveTo } }),
+    },
+  })
+
+  if (overlapping) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message:
+        'Another agreement is already in effect for part of this period. End it before starting a new one.',
+    })
+  }
+}
+
+export const managementAgreementRouter = createTRPCRouter({
+  getMany: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }): Promise<ManagementAgreementWithUser[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const agreements = await ctx.db.managementAgreement.findMany({
+        where: {
+          propertyId: input.propertyId,
+          managementGroupId: orgId,
+          deletedAt: null,
+        },
+        orderBy: { effectiveFrom: 'desc' },
+      })
+
+      const userInfo = await getUsersDisplayInfo([
+        ...new Set(agreements.map((agreement) => agreement.updatedBy)),
+      ])
+
+      return agreements.map((agreement) => ({
+        ...agreement,
+        feePercent: Number(agreement.feePercent),
+        minimumMonthlyFee: Number(agreement.minimumMonthlyFee),
+        reserveTarget: Number(agreement.reserveTarget),
+        updatedByName:
+          userInfo.get(agreement.updatedBy)?.name ?? 'Unknown User',
+      }))
+    }),
+
+  create: protectedProcedure
+    .input(createAgreementSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (property?.managementGroupId !== orgId || property.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertNoOverlap(
+          tx,
+          input.propertyId,
+          input.effectiveFrom,
+          input.effectiveTo
+        )
+
+        return tx.managementAgreement.create({
+          data: {
+            managementGroupId: orgId,
+            propertyId: input.propertyId,
+            feePercent: input.feePercent,
+            minimumMonthlyFee: input.minimumMonthlyFee,
+            excludeCleaningFees: input.excludeCleaningFees,
+            deductPlatformFees: input.deductPlatformFees,
+            reserveTarget: input.reserveTarget,
+            effectiveFrom: input.effectiveFrom,
+            effectiveTo: input.effectiveTo ?? null,
+            notes: input.notes ?? null,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+        })
+      })
+    }),
+
+  update: protectedProcedure
+    .input(updateAgreementSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.managementAgreement.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, propertyId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Management agreement not found',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertNoOverlap(
+          tx,
+          existing.propertyId,
+          input.effectiveFrom,
+          input.effectiveTo,
+          input.id
+        )
+
+        return tx.managementAgreement.update({
+          where: { id: input.id },
+          data: {
+            feePercent: input.feePercent,
+            minimumMonthlyFee: input.minimumMonthlyFee,
+            excludeCleaningFees: input.excludeCleaningFees,
+            deductPlatformFees: input.deductPlatformFees,
+            reserveTarget: input.reserveTarget,
+            effectiveFrom: input.effectiveFrom,
+            effectiveTo: input.effectiveTo ?? null,
+            notes: input.notes ?? null,
+            updatedBy: userId,
+          },
+        })
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteAgreementSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.managementAgreement.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Management agreement not found',
+        })
+      }
+
+      await ctx.db.managementAgreement.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date(), updatedBy: userId },
+      })
+
+      return { success: true }
+    }),
+})
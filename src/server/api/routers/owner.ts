@@ -0,0 +1,299 @@
+import { type Owner } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  type AnnualOwnerReport,
+  build1099MiscCsv,
+  getAnnualOwnerReports,
+} from '~/lib/OwnerStatement/annual-owner-report'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+// Bank account and tax ID are never sent back in full, only their last digits
+export interface OwnerWithProperties extends Omit<
+  Owner,
+  'bankAccountNumber' | 'taxId'
+> {
+  bankAccountLast4: string | null
+  taxIdLast4: string | null
+  properties: Array<{ id: string; name: string }>
+}
+
+export interface AnnualOwnerReportSummary extends Omit<
+  AnnualOwnerReport,
+  'taxId'
+> {
+  taxIdLast4: string | null
+}
+
+const yearSchema = z.number().int().min(2000).max(2100)
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => (value?.length ? value : null))
+
+// Sensitive numbers: left blank on edit to keep the value on file
+const optionalDigits = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .transform((value) => value.replace(/[\s-]/g, ''))
+    .refine((value) => value === '' || pattern.test(value), message)
+    .optional()
+
+const ownerDetailsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z
+    .string()
+    .trim()
+    .email()
+    .or(z.literal(''))
+    .optional()
+    .transform((value) => (value?.length ? value : null)),
+  phone: optionalText,
+  address: optionalText,
+  payoutMethod: z.enum(['ACH', 'CHECK']).default('CHECK'),
+  bankName: optionalText,
+  bankRoutingNumber: optionalDigits(
+    /^\d{9}$/,
+    'Routing number must be 9 digits'
+  ),
+  bankAccountNumber: optionalDigits(
+    /^\d{4,17}$/,
+    'Account number must be 4 to 17 digits'
+  ),
+  bankAccountType: z.enum(['checking', 'savings']).nullable().optional(),
+  taxIdType: z.enum(['SSN', 'EIN']).nullable().optional(),
+  taxId: optionalDigits(/^\d{9}$/, 'Tax ID must be 9 digits'),
+})
+
+export const createOwnerSchema = ownerDetailsSchema
+export const updateOwnerSchema = ownerDetailsSchema.extend({ id: z.string() })
+
+const lastFour = (value: string | null) => (value ? value.slice(-4) : null)
+
+function toOwnerWithProperties(
+  owner: Owner & { properties: Array<{ id: string; name: string }> }
+): OwnerWithProperties {
+  const { bankAccountNumber, taxId, ...rest } = owner
+  return {
+    ...rest,
+    bankAccountLast4: lastFour(bankAccountNumber),
+    taxIdLast4: lastFour(taxId),
+  }
+}
+
+// Blank sensitive fields on update keep what is already stored
+function withoutBlankSecrets<
+  T extends {
+    bankRoutingNumber?: string
+    bankAccountNumber?: string
+    taxId?: string
+  },
+>(details: T) {
+  const { bankRoutingNumber, bankAccountNumber, taxId, ...rest } = details
+  return {
+    ...rest,
+    ...(bankRoutingNumber ? { bankRoutingNumber } : {}),
+    ...(bankAccountNumber ? { bankAccountNumber } : {}),
+    ...(taxId ? { taxId } : {}),
+  }
+}
+
+const propertiesInclude = {
+  properties: {
+    where: { deletedAt: null },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  },
+} as const
+
+export const ownerRouter = createTRPCRouter({
+  getMany: protectedProcedure.query(
+    async ({ ctx }): Promise<OwnerWithProperties[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const owners = await ctx.db.owner.findMany({
+        where: { managementGroupId: orgId, deletedAt: null },
+        include: propertiesInclude,
+        orderBy: { name: 'asc' },
+      })
+
+      return owners.map(toOwnerWithProperties)
+    }
+  ),
+
+  getOne: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }): Promise<OwnerWithProperties> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const owner = await ctx.db.owner.findUnique({
+        where: { id: input.id },
+        include: propertiesInclude,
+      })
+
+      if (owner?.managementGroupId !== orgId || owner.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner not found',
+        })
+      }
+
+      return toOwnerWithProperties(owner)
+    }),
+
+  create: protectedProcedure
+    .input(createOwnerSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const owner = await ctx.db.owner.create({
+        data: {
+          ...withoutBlankSecrets(input),
+          managementGroupId: orgId,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      })
+
+      return owner.id
+    }),
+
+  update: protectedProcedure
+    .input(updateOwnerSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const { id, ...details } = input
+      const existing = await ctx.db.owner.findUnique({
+        where: { id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner not found',
+        })
+      }
+
+      await ctx.db.owner.update({
+        where: { id },
+        data: { ...withoutBlankSecrets(details), updatedBy: userId },
+      })
+
+      return id
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        const existing = await tx.owner.findUnique({
+          where: { id: input.id },
+          select: { managementGroupId: true, deletedAt: true },
+        })
+
+        if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Owner not found',
+          })
+        }
+
+        // Properties stay, they just no longer have an owner on file
+        await tx.property.updateMany({
+          where: { ownerId: input.id, managementGroupId: orgId },
+          data: { ownerId: null, updatedBy: userId },
+        })
+
+        await tx.owner.update({
+          where: { id: input.id },
+          data: { deletedAt: new Date(), updatedBy: userId },
+        })
+
+        return { success: true }
+      })
+    }),
+
+  // Calendar-year totals per owner for the year-end tax package
+  getAnnualReport: protectedProcedure
+    .input(z.object({ year: yearSchema }))
+    .query(async ({ ctx, input }): Promise<AnnualOwnerReportSummary[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const reports = await getAnnualOwnerReports(ctx.db, orgId, input.year)
+
+      return reports.map(({ taxId, ...report }) => ({
+        ...report,
+        taxIdLast4: lastFour(taxId),
+      }))
+    }),
+
+  // The filing software needs full tax IDs, so the CSV is built on the server
+  export1099Csv: protectedProcedure
+    .input(z.object({ year: yearSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const reports = await getAnnualOwnerReports(ctx.db, orgId, input.year)
+
+      return {
+        fileName: `1099-MISC-${input.year}.csv`,
+        contents: build1099MiscCsv(reports),
+      }
+    }),
+})
@@ -0,0 +1,483 @@
+import { type OwnerPayout } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  type AchOriginator,
+  buildAchFile,
+  isValidRoutingNumber,
+} from '~/lib/OwnerStatement/ach-file'
+import {
+  type BalanceLedgerRow,
+  getBalanceLedger,
+} from '~/lib/OwnerStatement/owner-balance'
+import {
+  type PayoutReconciliation,
+  type PayoutRunLine,
+  getPayoutRun,
+  reconcilePayouts,
+} from '~/lib/OwnerStatement/owner-payout'
+import dayjs from '~/lib/utils/day'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export interface BalanceLedgerRowWithPayouts extends BalanceLedgerRow {
+  payoutRecords: Array<Omit<OwnerPayout, 'amount'> & { amount: number }>
+  reconciliation: PayoutReconciliation
+}
+
+// Bank details stay on the server; the preview only shows the last digits
+export interface PayoutRunPreviewLine extends Omit<PayoutRunLine, 'bank'> {
+  accountLast4: string | null
+}
+
+export interface PayoutRunPreview {
+  statements: Array<{
+    statementId: string
+    propertyName: string
+    reconciliation: PayoutReconciliation
+    lines: PayoutRunPreviewLine[]
+  }>
+  readyCount: number
+  readyTotal: number
+}
+
+const monthSchema = z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format')
+
+export const createPayoutSchema = z.object({
+  ownerStatementId: z.string(),
+  amount: z.number().positive('Amount must be more than zero'),
+  method: z.enum(['ACH', 'CHECK']).default('CHECK'),
+  status: z.enum(['PENDING', 'PAID', 'FAILED']).default('PAID'),
+  paidAt: z.date(),
+  reference: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value) => (value?.length ? value : null)),
+  notes: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value) => (value?.length ? value : null)),
+})
+
+export const deletePayoutSchema = z.object({
+  id: z.string(),
+})
+
+export const updatePayoutStatusSchema = z.object({
+  id: z.string(),
+  status: z.enum(['PENDING', 'PAID', 'FAILED']),
+})
+
+export const achOriginatorSchema = z.object({
+  companyName: z.string().trim().min(1, 'Company name is required'),
+  companyId: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9 ]{1,10}$/, 'Company ID must be up to 10 characters'),
+  originRoutingNumber: z
+    .string()
+    .trim()
+    .refine(isValidRoutingNumber, 'Bank routing number is not valid'),
+  originBankName: z.string().trim().min(1, 'Bank name is required'),
+})
+
+export const createAchBatchSchema = z.object({
+  month: monthSchema,
+  effectiveDate: z.date(),
+  originator: achOriginatorSchema,
+})
+
+const roundCents = (value: number) => parseFloat(value.toFixed(2))
+
+export const ownerPayoutRouter = createTRPCRouter({
+  // Month-by-month running balance for a property, newest first
+  getBalanceLedger: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }): Promise<BalanceLedgerRowWithPayouts[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true },
+      })
+
+      if (property?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      const [ledger, payouts] = await Promise.all([
+        getBalanceLedger(ctx.db, input.propertyId),
+        ctx.db.ownerPayout.findMany({
+          where: {
+            deletedAt: null,
+            ownerStatement: { propertyId: input.propertyId, deletedAt: null },
+          },
+          orderBy: { paidAt: 'asc' },
+        }),
+      ])
+
+      return ledger
+        .map((row) => {
+          const rowPayouts = payouts.filter(
+            (payout) => payout.ownerStatementId === row.statementId
+          )
+          return {
+            ...row,
+            payoutRecords: rowPayouts.map((payout) => ({
+              ...payout,
+              amount: Number(payout.amount),
+            })),
+            reconciliation: reconcilePayouts(row.grandTotal, rowPayouts),
+          }
+        })
+        .reverse()
+    }),
+
+  create: protectedProcedure
+    .input(createPayoutSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.ownerStatementId },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (statement?.managementGroupId !== orgId || statement.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      return ctx.db.ownerPayout.create({
+        data: {
+          ...input,
+          managementGroupId: orgId,
+          createdBy: userId,
+        },
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deletePayoutSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.ownerPayout.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Payout not found',
+        })
+      }
+
+      await ctx.db.ownerPayout.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date() },
+      })
+
+      return { success: true }
+    }),
+
+  updateStatus: protectedProcedure
+    .input(updatePayoutStatusSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.ownerPayout.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Payout not found',
+        })
+      }
+
+      return ctx.db.ownerPayout.update({
+        where: { id: input.id },
+        data: { status: input.status },
+      })
+    }),
+
+  // Originator details saved from the last ACH batch
+  getAchOriginator: protectedProcedure.query(
+    async ({ ctx }): Promise<AchOriginator | null> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const group = await ctx.db.managementGroup.findUnique({
+        where: { id: orgId },
+        select: {
+          achCompanyName: true,
+          achCompanyId: true,
+          achOriginRoutingNumber: true,
+          achOriginBankName: true,
+        },
+      })
+
+      if (!group?.achOriginRoutingNumber) return null
+
+      return {
+        companyName: group.achCompanyName ?? '',
+        companyId: group.achCompanyId ?? '',
+        originRoutingNumber: group.achOriginRoutingNumber,
+        originBankName: group.achOriginBankName ?? '',
+      }
+    }
+  ),
+
+  // What a batch for the month would pay, and why anyone is left out
+  getPayoutRun: protectedProcedure
+    .input(z.object({ month: monthSchema }))
+    .query(async ({ ctx, input }): Promise<PayoutRunPreview> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const run = await getPayoutRun(
+        ctx.db,
+        orgId,
+        dayjs.utc(input.month).startOf('month').toDate()
+      )
+      const ready = run.flatMap((statement) =>
+        statement.lines.filter((line) => !line.skipReason)
+      )
+
+      return {
+        statements: run.map((statement) => ({
+          ...statement,
+          lines: statement.lines.map(({ bank, ...line }) => ({
+            ...line,
+            accountLast4: bank ? bank.accountNumber.slice(-4) : null,
+          })),
+        })),
+        readyCount: ready.length,
+        readyTotal: roundCents(
+          ready.reduce((sum, line) => sum + line.amount, 0)
+        ),
+      }
+    }),
+
+  getBatches: protectedProcedure
+    .input(z.object({ month: monthSchema }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statementMonth = dayjs.utc(input.month).startOf('month')
+      const batches = await ctx.db.ownerPayoutBatch.findMany({
+        where: {
+          managementGroupId: orgId,
+          statementMonth: {
+            gte: statementMonth.toDate(),
+            lte: statementMonth.endOf('month').toDate(),
+          },
+        },
+        // The file holds full account numbers, so it's only sent on download
+        select: {
+          id: true,
+          statementMonth: true,
+          effectiveDate: true,
+          fileName: true,
+          entryCount: true,
+          totalAmount: true,
+          createdAt: true,
+          createdBy: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return batches.map((batch) => ({
+        ...batch,
+        totalAmount: Number(batch.totalAmount),
+      }))
+    }),
+
+  getBatchFile: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const batch = await ctx.db.ownerPayoutBatch.findFirst({
+        where: { id: input.id, managementGroupId: orgId },
+        select: { fileName: true, fileContents: true },
+      })
+
+      if (!batch) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'ACH file not found',
+        })
+      }
+
+      return batch
+    }),
+
+  /**
+   * Pays every ready line of the month's payout run in one NACHA file. Each
+   * entry is recorded as a pending ACH payout, so running the batch again only
+   * picks up what is still owed.
+   */
+  createAchBatch: protectedProcedure
+    .input(createAchBatchSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const statementMonth = dayjs.utc(input.month).startOf('month')
+
+      return ctx.db.$transaction(async (tx) => {
+        const run = await getPayoutRun(tx, orgId, statementMonth.toDate())
+        const ready = run.flatMap((statement) =>
+          statement.lines.flatMap((line) =>
+            line.bank && !line.skipReason ? [{ ...line, bank: line.bank }] : []
+          )
+        )
+
+        if (!ready.length) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'No approved statements are ready to pay by ACH',
+          })
+        }
+
+        const earlierEntries = await tx.ownerPayoutBatch.aggregate({
+          where: { managementGroupId: orgId },
+          _sum: { entryCount: true },
+        })
+
+        const file = buildAchFile({
+          originator: input.originator,
+          effectiveDate: input.effectiveDate,
+          descriptiveDate: statementMonth.format('MMM YY'),
+          firstTraceSequence: (earlierEntries._sum.entryCount ?? 0) + 1,
+          entries: ready.map((line) => ({
+            name: line.ownerName,
+            routingNumber: line.bank.routingNumber,
+            accountNumber: line.bank.accountNumber,
+            accountType: line.bank.accountType,
+            amount: line.amount,
+            individualId: line.propertyName,
+          })),
+        })
+        const fileName = `owner-payouts-${statementMonth.format('YYYY-MM')}-${dayjs().format('YYYYMMDDHHmm')}.ach`
+
+        await tx.managementGroup.update({
+          where: { id: orgId },
+          data: {
+            achCompanyName: input.originator.companyName,
+            achCompanyId: input.originator.companyId,
+            achOriginRoutingNumber: input.originator.originRoutingNumber,
+            achOriginBankName: input.originator.originBankName,
+          },
+        })
+
+        const batch = await tx.ownerPayoutBatch.create({
+          data: {
+            managementGroupId: orgId,
+            statementMonth: statementMonth.toDate(),
+            effectiveDate: input.effectiveDate,
+            fileName,
+            fileContents: file.contents,
+            entryCount: file.entryCount,
+            totalAmount: file.totalAmount,
+            createdBy: userId,
+          },
+        })
+
+        await tx.ownerPayout.createMany({
+          data: ready.map((line, index) => ({
+            managementGroupId: orgId,
+            ownerStatementId: line.statementId,
+            ownerId: line.ownerId,
+            batchId: batch.id,
+            amount: line.amount,
+            method: 'ACH' as const,
+            status: 'PENDING' as const,
+            paidAt: input.effectiveDate,
+            reference: file.traceNumbers[index] ?? null,
+            createdBy: userId,
+          })),
+        })
+
+        return {
+          batchId: batch.id,
+          fileName,
+          fileContents: file.contents,
+          entryCount: file.entryCount,
+          totalAmount: file.totalAmount,
+        }
+      })
+    }),
+})
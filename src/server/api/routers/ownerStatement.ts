@@ -1,13 +1,107 @@
-import type { Prisma } from '@prisma/client'
+import type { OwnerStatementStatus, Prisma } from '@prisma/client'
 import { TRPCError } from '@trpc/server'
 import { z } from 'zod'
+import {
+  normalizeBookingChannel,
+  withBookingChannel,
+} from '~/lib/OwnerStatement/booking-channel'
+import {
+  sumStatementTotals,
+  toStatementTotals,
+} from '~/lib/OwnerStatement/consolidated-statement'
+import {
+  findUnknownExpenseCategories,
+  suggestExpenseCategories,
+} from '~/lib/OwnerStatement/expense-category'
+import {
+  RESERVATION_IMPORT_ADAPTERS,
+  getReservationImportAdapter,
+} from '~/lib/OwnerStatement/import-adapters'
+import {
+  MINIMUM_FEE_ADJUSTMENT_DESCRIPTION,
+  type ManagementFeeRules,
+  calculateIncomeFees,
+  calculateMinimumFeeShortfall,
+  getManagementFeeRules,
+} from '~/lib/OwnerStatement/management-fee'
+import {
+  CARRYOVER_ADJUSTMENT_DESCRIPTION,
+  getCarryoverAmount,
+} from '~/lib/OwnerStatement/owner-balance'
+import {
+  RESERVE_CONTRIBUTION_DESCRIPTION,
+  RESERVE_DRAWDOWN_DESCRIPTION,
+  type ReserveStatus,
+  calculateReserveContribution,
+  getReserveBalance,
+  toReserveStatus,
+} from '~/lib/OwnerStatement/owner-reserve'
+import {
+  type OwnerShareAmount,
+  getOwnershipShares,
+  splitAmount,
+} from '~/lib/OwnerStatement/ownership-split'
+import {
+  type PropertyAliasMap,
+  findAliasedPropertyId,
+  getPropertyAliasMap,
+  normalizePropertyName,
+} from '~/lib/OwnerStatement/property-alias'
+import {
+  type PlannedRecurringExpense,
+  getRecurringExpenses,
+} from '~/lib/OwnerStatement/recurring-expense'
+import {
+  reservationExternalId,
+  upsertImportedReservation,
+} from '~/lib/OwnerStatement/reservation'
+import {
+  type PropertyReservationDiff,
+  diffReservations,
+  reservationChangeDescription,
+} from '~/lib/OwnerStatement/reservation-diff'
+import {
+  type ImportedAdjustment,
+  type ImportedBooking,
+  type ImportedIncome,
+  type ParsedReservationFile,
+  type ReservationImportPreview,
+  type UnmatchedListingPreview,
+  parseReservationFile,
+} from '~/lib/OwnerStatement/reservation-import'
+import {
+  EMPTY_STATEMENT_SNAPSHOT,
+  type StatementSnapshot,
+  auditStatementChanges,
+  loadStatementSnapshots,
+  recordStatementRevision,
+  toStatementSnapshot,
+} from '~/lib/OwnerStatement/statement-audit'
+import {
+  STATEMENT_STATUSES,
+  STATEMENT_STATUS_LABELS,
+  canTransition,
+  isReopenTransition,
+  isStatementLocked,
+} from '~/lib/OwnerStatement/statement-status'
+import {
+  calculateStatementTotals,
+  recalculateStatementTotals,
+} from '~/lib/OwnerStatement/statement-totals'
+import {
+  monthDateRange,
+  prorateStay,
+} from '~/lib/OwnerStatement/stay-proration'
 import { VendorCache } from '~/lib/OwnerStatement/vendor-cache'
 import type {
   MatchedPropertyPreview,
   UnmatchedPropertyPreview,
   VendorImportPreviewResponse,
 } from '~/lib/OwnerStatement/vendor-import'
-import { matchPropertiesWithGPT } from '~/lib/ai/ai'
+import { type PropertyMatchResult, matchPropertiesWithGPT } from '~/lib/ai/ai'
+import { getUsersDisplayInfo } from '~/lib/utils/clerk'
+import dayjs from '~/lib/utils/day'
+import { storeSourceDocument } from '~/server/document-storage'
 
 import { createTRPCRouter, protectedProcedure } from '../trpc'
 
@@ -73,31 +167,54 @@ async function getCachedGPTMatching(
     id: string
     name: string
     address: string | null
-  }>
-) {
+  }>,
+  aliases: PropertyAliasMap
+): Promise<PropertyMatchResult> {
+  // Saved aliases are resolved outside the cache so new mappings apply immediately
+  const aliasMatches: PropertyMatchResult['matches'] = {}
+  const remainingNames: string[] = []
+  for (const name of importPropertyNames) {
+    const aliasedId = findAliasedPropertyId(name, aliases)
+    if (aliasedId && databaseProperties.some((p) => p.id === aliasedId)) {
+      aliasMatches[name] = {
+        propertyId: aliasedId,
+        confidence: 1.0,
+        reason: 'saved alias',
+      }
+    } else {
+      remainingNames.push(name)
+    }
+  }
+
+  if (remainingNames.length === 0) {
+    return { matches: aliasMatches, unmatched: [] }
+  }
+
   // Try cache first
-  const cached = await VendorCache.getGPTMappings(
-    importPropertyNames,
+  let gptResult = await VendorCache.getGPTMappings(
+    remainingNames,
     databaseProperties
   )
-  if (cached) {
-    return cached
-  }
 
-  // Call GPT
-  const gptResult = await matchPropertiesWithGPT({
-    importProperties: importPropertyNames,
-    databaseProperties,
-  })
+  if (!gptResult) {
+    // Call GPT
+    gptResult = await matchPropertiesWithGPT({
+      importProperties: remainingNames,
+      databaseProperties,
+    })
 
-  // Cache result
-  await VendorCache.setGPTMappings(
-    importPropertyNames,
-    databaseProperties,
-    gptResult
-  )
+    // Cache result
+    await VendorCache.setGPTMappings(
+      remainingNames,
+      databaseProperties,
+      gptResult
+    )
+  }
 
-  return gptResult
+  return {
+    matches: { ...gptResult.matches, ...aliasMatches },
+    unmatched: gptResult.unmatched,
+  }
 }
 
 /**
@@ -120,6 +237,7 @@ const incomeSchema = z.object({
   platform: z.string(),
   guest: z.string(),
   grossRevenue: z.number(),
+  cleaningFee: z.number().optional(),
   hostFee: z.number(),
   platformFee: z.number(),
   grossIncome: z.number(),
@@ -130,6 +248,12 @@ const expenseSchema = z.object({
   description: z.string(),
   vendor: z.string(),
   amount: z.number(),
+  lineDescription: z.string().nullable().optional(),
+  quantity: z.number().nullable().optional(),
+  unitPrice: z.number().nullable().optional(),
+  category: z.string().nullable().optional(),
+  sourceDocumentId: z.string().nullable().optional(),
+  sourceReference: z.string().nullable().optional(),
 })
 
 const adjustmentSchema = z.object({
@@ -139,43 +263,6 @@ const adjustmentSchema = z.object({
   amount: z.number(),
 })
 
-function calculateTotals(
-  incomes: z.infer<typeof incomeSchema>[],
-  expenses: z.infer<typeof expenseSchema>[],
-  adjustments: z.infer<typeof adjustmentSchema>[]
-) {
-  // Ensure all values are properly converted to numbers, handling Decimal objects
-  const safeParseDecimal = (value: any): number => {
-    if (value === null || value === undefined) return 0
-    if (typeof value === 'object' && value.toString) {
-      return parseFloat(value.toString()) || 0
-    }
-    return parseFloat(String(value)) || 0
-  }
-
-  const totalIncome = incomes.reduce(
-    (sum, i) => sum + safeParseDecimal(i.grossIncome),
-    0
-  )
-  const totalExpenses = expenses.reduce(
-    (sum, e) => sum + safeParseDecimal(e.amount),
-    0
-  )
-  const totalAdjustments = adjustments.reduce(
-    (sum, a) => sum + safeParseDecimal(a.amount),
-    0
-  )
-
-  return {
-    totalIncome: parseFloat(totalIncome.toFixed(2)),
-    totalExpenses: parseFloat(totalExpenses.toFixed(2)),
-    totalAdjustments: parseFloat(totalAdjustments.toFixed(2)),
-    grandTotal: parseFloat(
-      (totalIncome - totalExpenses + totalAdjustments).toFixed(2)
-    ),
-  }
-}
-
 function validateTotals(
   provided: {
     totalIncome: number
@@ -222,72 +309,160 @@ function validateTotals(
   }
 }
 
-async function recalculateStatementTotals(
-  tx: Prisma.TransactionClient,
-  statementId: string,
-  userId: string
-) {
-  const [incomes, expenses, adjustments] = await Promise.all([
-    tx.ownerStatementIncome.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-    tx.ownerStatementExpense.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-    tx.ownerStatementAdjustment.findMany({
-      where: { ownerStatementId: statementId },
-    }),
-  ])
+// Key of an imported stay within its property, for finding its booking and
+// prorated stay among the rows read from the same file
+const stayKey = (propertyId: string, stay: ImportedIncome) =>
+  [propertyId, stay.checkIn, stay.checkOut, stay.guest, stay.platform].join('|')
 
-  // Use the same safe decimal parsing as in calculateTotals
-  const safeParseDecimal = (value: any): number => {
-    if (value === null || value === undefined) return 0
-    if (typeof value === 'object' && value.toString) {
-      return parseFloat(value.toString()) || 0
-    }
-    return parseFloat(String(value)) || 0
+/**
+ * Saves a stay crossing a month boundary once per reservation, so importing
+ * it from the next month's report links to it instead of adding it again.
+ * The latest report has the current dates and amounts for the stay, so a
+ * rebooked stay replaces the row rather than adding a second one.
+ */
+async function saveProratedStay(
+  tx: Prisma.TransactionClient,
+  {
+    managementGroupId,
+    propertyId,
+    statementImportId,
+    stay,
+    reservationId,
+  }: {
+    managementGroupId: string
+    propertyId: string
+    statementImportId: string
+    stay: ImportedIncome
+    reservationId: string | null | undefined
+  }
+): Promise<string> {
+  const data = {
+    checkIn: stay.checkIn,
+    checkOut: stay.checkOut,
+    nights: stay.days,
+    platform: stay.platform,
+    guest: stay.guest,
+    grossRevenue: stay.grossRevenue,
+    cleaningFee: stay.cleaningFee,
+    platformFee: stay.platformFee,
+    statementImportId,
+    reservationId,
+  }
+  const stayFields = {
+    propertyId,
+    checkIn: stay.checkIn,
+    checkOut: stay.checkOut,
+    guest: stay.guest,
+    platform: stay.platform,
   }
 
-  const totals = calculateTotals(
-    incomes.map((i) => ({
-      checkIn: i.checkIn,
-      checkOut: i.checkOut,
-      days: i.days,
-      platform: i.platform,
-      guest: i.guest,
-      grossRevenue: safeParseDecimal(i.grossRevenue),
-      hostFee: safeParseDecimal(i.hostFee),
-      platformFee: safeParseDecimal(i.platformFee),
-      grossIncome: safeParseDecimal(i.grossIncome),
-    })),
-    expenses.map((e) => ({
-      date: e.date,
-      description: e.description,
-      vendor: e.vendor,
-      amount: safeParseDecimal(e.amount),
-    })),
-    adjustments.map((a) => ({
-      checkIn: a.checkIn ?? undefined,
-      checkOut: a.checkOut ?? undefined,
-      description: a.description,
-      amount: safeParseDecimal(a.amount),
+  // Stays saved before the reservation was known are matched on their dates
+  const existing =
+    (reservationId
+      ? await tx.proratedStay.findUnique({
+          where: { reservationId },
+          select: { id: true },
+        })
+      : null) ??
+    (await tx.proratedStay.findFirst({
+      where: { ...stayFields, reservationId: null },
+      select: { id: true },
     }))
-  )
 
-  return tx.ownerStatement.update({
+  if (existing) {
+    await tx.proratedStay.update({ where: { id: existing.id }, data })
+    return existing.id
+  }
+
+  const created = await tx.proratedStay.create({
+    data: { managementGroupId, propertyId, ...data },
+    select: { id: true },
+  })
+  return created.id
+}
+
+// Drops the prorated stay of a reservation the file now has within one month
+async function removeProratedStay(
+  tx: Prisma.TransactionClient,
+  reservationId: string | null | undefined
+) {
+  if (!reservationId) return
+  await tx.proratedStay.deleteMany({ where: { reservationId } })
+}
+
+// Adds this month's share of any prorated stay the statement doesn't have a
+// line for yet. Lines already on the statement are left as they are, and
+// cancelled reservations add nothing.
+async function syncProratedStays(
+  tx: Prisma.TransactionClient,
+  statementId: string
+): Promise<number> {
+  const statement = await tx.ownerStatement.findUnique({
     where: { id: statementId },
-    data: {
-      ...totals,
-      updatedAt: new Date(),
-      updatedBy: userId,
+    select: {
+      propertyId: true,
+      statementMonth: true,
+      incomes: { select: { proratedStayId: true } },
     },
-    include: {
-      property: true,
-      incomes: true,
-      expenses: true,
-      adjustments: true,
+  })
+
+  if (!statement) return 0
+
+  const { start, end } = monthDateRange(statement.statementMonth)
+  const linked = new Set(
+    statement.incomes.map((income) => income.proratedStayId)
+  )
+  const stays = await tx.proratedStay.findMany({
+    where: {
+      propertyId: statement.propertyId,
+      checkIn: { lt: end },
+      checkOut: { gt: start },
+      OR: [
+        { reservationId: null },
+        { reservation: { status: { not: 'CANCELLED' } } },
+      ],
     },
   })
+  const missing = stays.filter((stay) => !linked.has(stay.id))
+
+  if (!missing.length) return 0
+
+  const rules = await getManagementFeeRules(
+    tx,
+    statement.propertyId,
+    statement.statementMonth
+  )
+  const month = dayjs.utc(statement.statementMonth).format('YYYY-MM')
+  const data = missing.flatMap((stay) => {
+    const portion = prorateStay({
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      days: stay.nights,
+      platform: stay.platform,
+      guest: stay.guest,
+      grossRevenue: Number(stay.grossRevenue),
+      cleaningFee: Number(stay.cleaningFee),
+      platformFee: Number(stay.platformFee),
+    })?.find((item) => item.month === month)
+
+    if (!portion) return []
+
+    return [
+      {
+        ...withBookingChannel(portion.income),
+        ...calculateIncomeFees(portion.income, rules),
+        ownerStatementId: statementId,
+        proratedStayId: stay.id,
+        reservationId: stay.reservationId,
+      },
+    ]
+  })
+
+  if (data.length) {
+    await tx.ownerStatementIncome.createMany({ data })
+  }
+
+  return data.length
 }
 
 function prepareUpdateData(
@@ -303,7 +478,9 @@ function prepareUpdateData(
           message: `${field} must be a string`,
         })
       }
-      return { [field]: value }
+      return field === 'platform'
+        ? { platform: value, channel: normalizeBookingChannel(value) }
+        : { [field]: value }
     }
     if (field === 'days') {
       if (typeof value !== 'number' || !Number.isInteger(value)) {
@@ -315,7 +492,13 @@ function prepareUpdateData(
       return { [field]: value }
     }
     if (
-      ['grossRevenue', 'hostFee', 'platformFee', 'grossIncome'].includes(field)
+      [
+        'grossRevenue',
+        'cleaningFee',
+        'hostFee',
+        'platformFee',
+        'grossIncome',
+      ].includes(field)
     ) {
       if (typeof value !== 'number') {
         throw new TRPCError({
@@ -346,6 +529,15 @@ function prepareUpdateData(
       }
       return { [field]: value }
     }
+    if (['lineDescription', 'category'].includes(field)) {
+      if (value !== null && typeof value !== 'string') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `${field} must be a string or null`,
+        })
+      }
+      return { [field]: value }
+    }
   }
 
   if (section === 'adjustments') {
@@ -384,16 +576,615 @@ function prepareUpdateData(
   })
 }
 
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024
+const MAX_BATCH_STATEMENTS = 100
+
+// Statements can only be imported for the past two years up to the current month
+function assertImportableMonth(statementMonth: Date) {
+  const now = new Date()
+  const twoYearsAgo = new Date(now.getFullYear() - 2, now.getMonth(), 1)
+
+  if (statementMonth > now) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Cannot create statements for future months',
+    })
+  }
+
+  if (statementMonth < twoYearsAgo) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Cannot create statements for months older than 2 years',
+    })
+  }
+}
+
+function parseStoredImportFile(
+  fileData: Buffer,
+  source?: string
+): ParsedReservationFile {
+  let parsed: ParsedReservationFile | null
+  try {
+    parsed = parseReservationFile(fileData, source)
+  } catch (error) {
+    console.error('Reservation import parse failed:', error)
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message:
+        'Could not read the import file. Please upload the original .xlsx or .csv export.',
+    })
+  }
+
+  if (!parsed) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Unrecognized export format. Supported formats: ${RESERVATION_IMPORT_ADAPTERS.map(
+        (adapter) => adapter.label
+      ).join(', ')}.`,
+    })
+  }
+
+  return parsed
+}
+
+function sumAmounts<T extends string>(
+  items: Array<Record<T, number>>,
+  key: T
+): number {
+  return parseFloat(items.reduce((sum, item) => sum + item[key], 0).toFixed(2))
+}
+
+// Income as planned for the import month; stay is the full reservation when
+// the line is only this month's share of it
+type PlannedIncome = ImportedIncome & { stay?: ImportedIncome }
+
+interface PlannedStatement {
+  propertyId: string
+  propertyName: string
+  listingNames: string[]
+  incomes: Array<PlannedIncome & { hostFee: number; grossIncome: number }>
+  // Due from the property's recurring expense templates
+  expenses: PlannedRecurringExpense[]
+  adjustments: Array<
+    ImportedAdjustment & {
+      isMinimumFee?: boolean
+      isCarryover?: boolean
+      reserveEntry?: 'CONTRIBUTION'
+    }
+  >
+  totals: ReturnType<typeof calculateStatementTotals>
+  // Every stay in the file for the property, saved as reservations
+  reservations: Array<{
+    income: ImportedIncome
+    booking: ImportedBooking | null
+  }>
+  // Reservations crossing a month boundary, split across those months
+  proratedStays: ImportedIncome[]
+}
+
+function applyManagementFees(
+  incomes: PlannedIncome[],
+  adjustments: ImportedAdjustment[],
+  rules: ManagementFeeRules
+): Pick<PlannedStatement, 'incomes' | 'adjustments'> {
+  const incomesWithFees = incomes.map((income) => ({
+    ...income,
+    ...calculateIncomeFees(income, rules),
+  }))
+  const shortfall = calculateMinimumFeeShortfall(
+    incomesWithFees.reduce((sum, income) => sum + income.hostFee, 0),
+    rules
+  )
+
+  return {
+    incomes: incomesWithFees,
+    adjustments:
+      shortfall > 0
+        ? [
+            ...adjustments,
+            {
+              description: MINIMUM_FEE_ADJUSTMENT_DESCRIPTION,
+              amount: -shortfall,
+              isMinimumFee: true,
+            },
+          ]
+        : adjustments,
+  }
+}
+
+/**
+ * Groups parsed reservation rows by property and applies each property's
+ * management agreement. Used for both the preview and statement creation so
+ * the numbers the user approves are the numbers that get saved. With
+ * proration on, stays crossing a month boundary only bring the import
+ * month's nights; the other months get theirs when the statement is created.
+ */
+async function planImportedStatements(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  statementMonth: Date,
+  parsed: ParsedReservationFile
+): Promise<{
+  statements: PlannedStatement[]
+  unmatched: UnmatchedListingPreview[]
+  prorateReservations: boolean
+}> {
+  const properties = await db.property.findMany({
+    where: { managementGroupId: orgId, deletedAt: null },
+    select: { id: true, name: true },
+  })
+  const propertyMap = new Map(
+    properties.map((p) => [normalizePropertyName(p.name), p])
+  )
+  const propertiesById = new Map(properties.map((p) => [p.id, p]))
+  const aliases = await getPropertyAliasMap(db, orgId)
+  const settings = await db.managementGroup.findUnique({
+    where: { id: orgId },
+    select: { prorateReservations: true },
+  })
+  const prorateReservations = settings?.prorateReservations ?? false
+  const month = dayjs.utc(statementMonth).format('YYYY-MM')
+
+  const grouped = new Map<
+    string,
+    {
+      property: { id: string; name: string }
+      listingNames: Set<string>
+      incomes: PlannedIncome[]
+      adjustments: ImportedAdjustment[]
+      reservations: PlannedStatement['reservations']
+      proratedStays: ImportedIncome[]
+    }
+  >()
+  const unmatched = new Map<string, UnmatchedListingPreview>()
+
+  for (const row of parsed.rows) {
+    const aliasedId = findAliasedPropertyId(row.listingName, aliases)
+    const property =
+      (aliasedId && propertiesById.get(aliasedId)) ??
+      propertyMap.get(normalizePropertyName(row.listingName))
+
+    if (!property) {
+      const entry = unmatched.get(row.listingName) ?? {
+        listingName: row.listingName,
+        reservationCount: 0,
+        grossRevenue: 0,
+      }
+      if (row.income) {
+        entry.reservationCount += 1
+        entry.grossRevenue = parseFloat(
+          (entry.grossRevenue + row.income.grossRevenue).toFixed(2)
+        )
+      }
+      unmatched.set(row.listingName, entry)
+      continue
+    }
+
+    const entry = grouped.get(property.id) ?? {
+      property,
+      listingNames: new Set<string>(),
+      incomes: [],
+      adjustments: [],
+      reservations: [],
+      proratedStays: [],
+    }
+    entry.listingNames.add(row.listingName)
+    if (row.income) {
+      entry.reservations.push({ income: row.income, booking: row.booking })
+      const portions =
+        prorateReservations && !row.booking?.isCancelled
+          ? prorateStay(row.income)
+          : null
+
+      if (row.booking?.isCancelled) {
+        // A cancelled booking only brings what the guest still paid, with no
+        // nights, and nothing at all when it was fully refunded
+        if (row.income.grossRevenue !== 0) {
+          entry.incomes.push({ ...row.income, days: 0 })
+        }
+      } else if (portions) {
+        entry.proratedStays.push(row.income)
+        const portion = portions.find((item) => item.month === month)
+        if (portion) entry.incomes.push({ ...portion.income, stay: row.income })
+      } else {
+        entry.incomes.push(row.income)
+      }
+    }
+    entry.adjustments.push(...row.adjustments)
+    grouped.set(property.id, entry)
+  }
+
+  const statements = await Promise.all(
+    [...grouped.values()].map(async (group) => {
+      const rules = await getManagementFeeRules(
+        db,
+        group.property.id,
+        statementMonth
+      )
+      const { incomes, adjustments } = applyManagementFees(
+        group.incomes,
+        group.adjustments,
+        rules
+      )
+      const expenses = await getRecurringExpenses(
+        db,
+        group.property.id,
+        statementMonth,
+        calculateStatementTotals(incomes, [], []).totalIncome
+      )
+      const carryover = await getCarryoverAmount(
+        db,
+        group.property.id,
+        statementMonth
+      )
+      const withCarryover =
+        carryover < 0
+          ? [
+              ...adjustments,
+              {
+                description: CARRYOVER_ADJUSTMENT_DESCRIPTION,
+                amount: carryover,
+                isCarryover: true,
+              },
+            ]
+          : adjustments
+      const contribution = calculateReserveContribution({
+        target: rules.reserveTarget,
+        balance: await getReserveBalance(db, group.property.id, {
+          before: statementMonth,
+        }),
+        available: calculateStatementTotals(incomes, expenses, withCarryover)
+          .grandTotal,
+      })
+      const withReserve =
+        contribution > 0
+          ? [
+              ...withCarryover,
+              {
+                description: RESERVE_CONTRIBUTION_DESCRIPTION,
+                amount: -contribution,
+                reserveEntry: 'CONTRIBUTION' as const,
+              },
+            ]
+          : withCarryover
+
+      return {
+        propertyId: group.property.id,
+        propertyName: group.property.name,
+        listingNames: [...group.listingNames],
+        incomes,
+        expenses,
+        adjustments: withReserve,
+        totals: calculateStatementTotals(incomes, expenses, withReserve),
+        reservations: group.reservations,
+        proratedStays: group.proratedStays,
+      }
+    })
+  )
+
+  return {
+    statements: statements.sort((a, b) =>
+      a.propertyName.localeCompare(b.propertyName)
+    ),
+    unmatched: [...unmatched.values()],
+    prorateReservations,
+  }
+}
+
+/**
+ * What re-importing the file would change on statements that already exist
+ * for the month, per property. Statements for properties missing from the
+ * file are compared too, so their imported stays show as cancelled. Only
+ * stays last imported from the same source and platform count as cancelled
+ * when the file leaves them out, and a share of a stay imported with another
+ * month never does. Properties without changes are left out. Changes
+ * already recorded as adjustments on a locked statement aren't offered again,
+ * and a later change to the same stay only brings the difference from what
+ * was recorded.
+ */
+async function getReservationDiffs(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  statementMonth: Date,
+  source: string,
+  statements: PlannedStatement[]
+): Promise<PropertyReservationDiff[]> {
+  const existing = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId: orgId,
+      statementMonth,
+      deletedAt: null,
+      OR: [
+        {
+          propertyId: {
+            in: statements.map((statement) => statement.propertyId),
+          },
+        },
+        { incomes: { some: { reservationId: { not: null } } } },
+      ],
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      status: true,
+      property: { select: { name: true } },
+      incomes: {
+        include: {
+          reservation: {
+            select: {
+              externalId: true,
+              platform: true,
+              statementImportId: true,
+            },
+          },
+          proratedStay: { select: { statementImportId: true } },
+        },
+      },
+      adjustments: {
+        where: { reservationChange: { not: null } },
+        select: {
+          amount: true,
+          reservationChange: true,
+          reservation: { select: { externalId: true } },
+        },
+      },
+    },
+  })
+  const plannedByProperty = new Map(
+    statements.map((statement) => [statement.propertyId, statement])
+  )
+
+  const importIds = existing
+    .flatMap((statement) =>
+      statement.incomes.flatMap((line) => [
+        line.reservation?.statementImportId,
+        line.proratedStay?.statementImportId,
+      ])
+    )
+    .filter((id): id is string => !!id)
+  const imports = new Map(
+    (
+      await db.statementImport.findMany({
+        where: { managementGroupId: orgId, id: { in: importIds } },
+        select: { id: true, source: true, statementMonth: true },
+      })
+    ).map((item) => [item.id, item])
+  )
+  const platformKey = (platform: string) => platform.trim().toLowerCase()
+  const filePlatforms = new Set(
+    statements.flatMap((statement) =>
+      statement.reservations.map(({ income }) => platformKey(income.platform))
+    )
+  )
+  const importOf = (id: string | null) => (id ? imports.get(id) : undefined)
+  const isThisMonth = (date: Date | undefined) =>
+    !!date && dayjs.utc(date).isSame(dayjs.utc(statementMonth), 'month')
+
+  return existing
+    .flatMap((statement) => {
+      const planned = plannedByProperty.get(statement.propertyId)
+      const isLocked = isStatementLocked(statement.status)
+
+      const bookings = new Map(
+        (planned?.reservations ?? []).map(({ income, booking }) => [
+          stayKey(statement.propertyId, income),
+          booking,
+        ])
+      )
+      const diffed = diffReservations(
+        statement.incomes.map((line) => ({
+          id: line.id,
+          reservationId: line.reservationId,
+          reservationExternalId: line.reservation?.externalId ?? null,
+          fromOtherSource:
+            !!line.reservation &&
+            (importOf(line.reservation.statementImportId)?.source !== source ||
+              !filePlatforms.has(platformKey(line.reservation.platform))),
+          fromOtherMonth:
+            !!line.proratedStay &&
+            !isThisMonth(
+              importOf(line.proratedStay.statementImportId)?.statementMonth
+            ),
+          checkIn: line.checkIn,
+          checkOut: line.checkOut,
+          days: line.days,
+          platform: line.platform,
+          guest: line.guest,
+          grossRevenue: Number(line.grossRevenue),
+          cleaningFee: Number(line.cleaningFee),
+          hostFee: Number(line.hostFee),
+          platformFee: Number(line.platformFee),
+          grossIncome: Number(line.grossIncome),
+        })),
+        (planned?.incomes ?? []).map(({ stay, ...income }) => ({
+          income,
+          stay: stay ?? income,
+          booking:
+            bookings.get(stayKey(statement.propertyId, stay ?? income)) ?? null,
+        }))
+      )
+
+      const recorded = new Set(
+        statement.adjustments.map((adjustment) => adjustment.reservationChange)
+      )
+      const changes = isLocked
+        ? diffed
+            .filter((change) => !recorded.has(change.key))
+            .map((change) => {
+              const alreadyRecorded = statement.adjustments
+                .filter(
+                  (adjustment) =>
+                    adjustment.reservation?.externalId === change.externalId
+                )
+                .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0)
+              return {
+                ...change,
+                ownerIncomeDelta: parseFloat(
+                  (change.ownerIncomeDelta - alreadyRecorded).toFixed(2)
+                ),
+              }
+            })
+        : diffed
+
+      if (!changes.length) return []
+
+      return [
+        {
+          propertyId: statement.propertyId,
+          propertyName: planned?.propertyName ?? statement.property.name,
+          statementId: statement.id,
+          status: statement.status,
+          isLocked,
+          changes,
+          revenueDelta: sumAmounts(changes, 'revenueDelta'),
+          ownerIncomeDelta: sumAmounts(changes, 'ownerIncomeDelta'),
+        },
+      ]
+    })
+    .sort((a, b) => a.propertyName.localeCompare(b.propertyName))
+}
+
+async function buildReservationImportPreview(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  statementImport: {
+    id: string
+    source: string
+    fileName: string
+    statementMonth: Date
+    fileData: Uint8Array
+  }
+): Promise<ReservationImportPreview> {
+  const parsed = parseStoredImportFile(
+    Buffer.from(statementImport.fileData),
+    statementImport.source
+  )
+  const plan = await planImportedStatements(
+    db,
+    orgId,
+    statementImport.statementMonth,
+    parsed
+  )
+
+  const existing = await db.ownerStatement.findMany({
+    where: {
+      managementGroupId: orgId,
+      statementMonth: statementImport.statementMonth,
+      deletedAt: null,
+    },
+    select: { propertyId: true },
+  })
+  const existingPropertyIds = new Set(existing.map((s) => s.propertyId))
+  const changes = await getReservationDiffs(
+    db,
+    orgId,
+    statementImport.statementMonth,
+    statementImport.source,
+    plan.statements
+  )
+
+  return {
+    importId: statementImport.id,
+    source: parsed.source,
+    sourceLabel:
+      getReservationImportAdapter(parsed.source)?.label ?? parsed.source,
+    fileName: statementImport.fileName,
+    statementMonth: statementImport.statementMonth,
+    matched: plan.statements.map((statement) => ({
+      propertyId: statement.propertyId,
+      propertyName: statement.propertyName,
+      listingNames: statement.listingNames,
+      reservationCount: statement.incomes.length,
+      proratedStayCount: statement.proratedStays.length,
+      hasExistingStatement: existingPropertyIds.has(statement.propertyId),
+      recurringExpenses: statement.expenses.map((expense) => ({
+        vendor: expense.vendor,
+        description: expense.description,
+        amount: expense.amount,
+      })),
+      totals: {
+        grossRevenue: sumAmounts(statement.incomes, 'grossRevenue'),
+        hostFee: sumAmounts(statement.incomes, 'hostFee'),
+        platformFee: sumAmounts(statement.incomes, 'platformFee'),
+        totalIncome: statement.totals.totalIncome,
+        totalExpenses: statement.totals.totalExpenses,
+        totalAdjustments: statement.totals.totalAdjustments,
+        grandTotal: statement.totals.grandTotal,
+      },
+    })),
+    unmatched: plan.unmatched,
+    skipped: parsed.skipped,
+    prorateReservations: plan.prorateReservations,
+    changes,
+  }
+}
+
+// Approved and sent statements must be reopened before any content changes
+function assertStatementEditable(statement: { status: OwnerStatementStatus }) {
+  if (isStatementLocked(statement.status)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Statement is ${STATEMENT_STATUS_LABELS[statement.status].toLowerCase()} and locked. Reopen it with a reason before making changes.`,
+    })
+  }
+}
+
+async function assertExpenseCategories(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  categories: Array<string | null | undefined>
+) {
+  const unknown = await findUnknownExpenseCategories(
+    db,
+    managementGroupId,
+    categories
+  )
+  if (unknown.length) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Unknown expense category: ${unknown.join(', ')}`,
+    })
+  }
+}
+
+// Expenses without a category get the one the vendor's earlier expenses were most often given
+async function withSuggestedCategories<
+  T extends { vendor: string; category?: string | null },
+>(
+  db: Prisma.TransactionClient,
+  managementGroupId: string,
+  expenses: T[]
+): Promise<Array<T & { category: string | null }>> {
+  const uncategorised = expenses.filter((expense) => !expense.category)
+  if (!uncategorised.length) {
+    return expenses.map((expense) => ({
+      ...expense,
+      category: expense.category ?? null,
+    }))
+  }
+
+  const suggestions = await suggestExpenseCategories(
+    db,
+    managementGroupId,
+    uncategorised.map((expense) => expense.vendor)
+  )
+  return expenses.map((expense) => ({
+    ...expense,
+    category: expense.category ?? suggestions[expense.vendor] ?? null,
+  }))
+}
+
 export const ownerStatementRouter = createTRPCRouter({
   getMany: protectedProcedure
     .input(
       z.object({
         propertyId: z.string().optional(),
         month: z.string().optional(), // YYYY-MM
+        status: z.enum(STATEMENT_STATUSES).optional(),
       })
     )
     .query(async ({ ctx, input }) => {
-      const { propertyId, month } = input
+      const { propertyId, month, status } = input
       const { orgId } = ctx.auth
 
       if (!orgId) {
@@ -408,6 +1199,7 @@ export const ownerStatementRouter = createTRPCRouter({
           managementGroupId: orgId,
           deletedAt: null,
           ...(propertyId && { propertyId }),
+          ...(status && { status }),
         },
         include: { property: true },
         orderBy: [{ property: { name: 'asc' } }, { statementMonth: 'desc' }],
@@ -442,7 +1234,11 @@ export const ownerStatementRouter = createTRPCRouter({
         include: {
           property: true,
           incomes: true,
-          expenses: true,
+          expenses: {
+            include: {
+              sourceDocument: { select: { id: true, fileName: true } },
+            },
+          },
           adjustments: true,
         },
       })
@@ -464,6 +1260,101 @@ export const ownerStatementRouter = createTRPCRouter({
       return statement
     }),
 
+  // Each co-owner's portion of the grand total, per the split in effect that month
+  getOwnerShares: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(
+      async ({
+        ctx,
+        input,
+      }): Promise<{ grandTotal: number; shares: OwnerShareAmount[] }> => {
+        const { orgId } = ctx.auth
+
+        if (!orgId) {
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'No organization selected',
+          })
+        }
+
+        const statement = await ctx.db.ownerStatement.findUnique({
+          where: { id: input.id },
+          select: {
+            managementGroupId: true,
+            propertyId: true,
+            statementMonth: true,
+            grandTotal: true,
+          },
+        })
+
+        if (statement?.managementGroupId !== orgId) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Owner statement not found',
+          })
+        }
+
+        const grandTotal = Number(statement.grandTotal?.toString() ?? 0) || 0
+        const shares = await getOwnershipShares(
+          ctx.db,
+          statement.propertyId,
+          statement.statementMonth
+        )
+
+        return { grandTotal, shares: splitAmount(grandTotal, shares) }
+      }
+    ),
+
+  getReserveStatus: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }): Promise<ReserveStatus> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.id },
+        select: {
+          managementGroupId: true,
+          propertyId: true,
+          statementMonth: true,
+          adjustments: {
+            where: { reserveEntry: { not: null } },
+            select: { amount: true, reserveEntry: true },
+          },
+        },
+      })
+
+      if (statement?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      const [rules, openingBalance] = await Promise.all([
+        getManagementFeeRules(
+          ctx.db,
+          statement.propertyId,
+          statement.statementMonth
+        ),
+        getReserveBalance(ctx.db, statement.propertyId, {
+          before: statement.statementMonth,
+        }),
+      ])
+
+      return toReserveStatus(
+        rules.reserveTarget,
+        openingBalance,
+        statement.adjustments
+      )
+    }),
+
   getManyWithDetails: protectedProcedure
     .input(
       z.object({
@@ -491,7 +1382,11 @@ export const ownerStatementRouter = createTRPCRouter({
         include: {
           property: true,
           incomes: true,
-          expenses: true,
+          expenses: {
+            include: {
+              sourceDocument: { select: { id: true, fileName: true } },
+            },
+          },
           adjustments: true,
         },
         orderBy: [{ property: { name: 'asc' } }, { statementMonth: 'desc' }],
@@ -509,6 +1404,99 @@ export const ownerStatementRouter = createTRPCRouter({
       return statements
     }),
 
+  getConsolidatedForOwner: protectedProcedure
+    .input(
+      z.object({
+        ownerId: z.string(),
+        month: z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format'),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const owner = await ctx.db.owner.findUnique({
+        where: { id: input.ownerId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          address: true,
+          managementGroupId: true,
+          deletedAt: true,
+        },
+      })
+
+      if (owner?.managementGroupId !== orgId || owner.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner not found',
+        })
+      }
+
+      const statementMonth = dayjs.utc(input.month).startOf('month')
+
+      const properties = await ctx.db.property.findMany({
+        where: { ownerId: owner.id, managementGroupId: orgId, deletedAt: null },
+        select: {
+          id: true,
+          name: true,
+          ownerStatements: {
+            where: {
+              deletedAt: null,
+              statementMonth: {
+                gte: statementMonth.toDate(),
+                lte: statementMonth.endOf('month').toDate(),
+              },
+            },
+            include: {
+              incomes: true,
+              expenses: {
+                include: {
+                  sourceDocument: { select: { id: true, fileName: true } },
+                },
+              },
+              adjustments: true,
+            },
+            take: 1,
+          },
+        },
+        orderBy: { name: 'asc' },
+      })
+
+      const sections = properties.flatMap((property) =>
+        property.ownerStatements.map((statement) => ({
+          propertyId: property.id,
+          propertyName: property.name,
+          statement,
+          totals: toStatementTotals(statement),
+        }))
+      )
+
+      return {
+        owner: {
+          id: owner.id,
+          name: owner.name,
+          email: owner.email,
+          phone: owner.phone,
+          address: owner.address,
+        },
+        statementMonth: statementMonth.toDate(),
+        sections,
+        propertiesWithoutStatement: properties
+          .filter((property) => property.ownerStatements.length === 0)
+          .map((property) => ({ id: property.id, name: property.name })),
+        totals: sumStatementTotals(sections.map((section) => section.totals)),
+      }
+    }),
+
   create: protectedProcedure
     .input(
       z.object({
@@ -534,7 +1522,7 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
-      const calculated = calculateTotals(
+      const calculated = calculateStatementTotals(
         input.incomes,
         input.expenses,
         input.adjustments
@@ -549,25 +1537,53 @@ export const ownerStatementRouter = createTRPCRouter({
         calculated
       )
 
-      return ctx.db.ownerStatement.create({
-        data: {
-          managementGroupId: orgId,
-          propertyId: input.propertyId,
-          statementMonth: input.statementMonth,
-          notes: input.notes,
-          createdBy: userId,
-          updatedBy: userId,
-          ...calculated,
-          incomes: { create: input.incomes },
-          expenses: { create: input.expenses },
-          adjustments: { create: input.adjustments },
-        },
-        include: {
-          property: true,
-          incomes: true,
-          expenses: true,
-          adjustments: true,
-        },
+      return ctx.db.$transaction(async (tx) => {
+        await assertExpenseCategories(
+          tx,
+          orgId,
+          input.expenses.map((expense) => expense.category)
+        )
+        const expenses = await withSuggestedCategories(
+          tx,
+          orgId,
+          input.expenses
+        )
+
+        const created = await tx.ownerStatement.create({
+          data: {
+            managementGroupId: orgId,
+            propertyId: input.propertyId,
+            statementMonth: input.statementMonth,
+            notes: input.notes,
+            createdBy: userId,
+            updatedBy: userId,
+            ...calculated,
+            incomes: { create: input.incomes.map(withBookingChannel) },
+            expenses: { create: expenses },
+            adjustments: { create: input.adjustments },
+          },
+          include: {
+            property: true,
+            incomes: true,
+            expenses: true,
+            adjustments: true,
+          },
+        })
+
+        // Stays imported with a neighbouring month bring their nights here
+        const statement = (await syncProratedStays(tx, created.id))
+          ? await recalculateStatementTotals(tx, created.id, userId)
+          : created
+
+        await recordStatementRevision(tx, {
+          statementId: statement.id,
+          source: 'MANUAL_EDIT',
+          changedBy: userId,
+          before: EMPTY_STATEMENT_SNAPSHOT,
+          after: toStatementSnapshot(statement),
+        })
+
+        return statement
       })
     }),
 
@@ -576,9 +1592,11 @@ export const ownerStatementRouter = createTRPCRouter({
       z.object({
         id: z.string(),
         notes: z.string().optional(),
-        incomes: z.array(incomeSchema),
-        expenses: z.array(expenseSchema),
-        adjustments: z.array(adjustmentSchema),
+        incomes: z.array(incomeSchema.extend({ id: z.string().optional() })),
+        expenses: z.array(expenseSchema.extend({ id: z.string().optional() })),
+        adjustments: z.array(
+          adjustmentSchema.extend({ id: z.string().optional() })
+        ),
         totalIncome: z.number(),
         totalExpenses: z.number(),
         totalAdjustments: z.number(),
@@ -595,7 +1613,7 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
-      const calculated = calculateTotals(
+      const calculated = calculateStatementTotals(
         input.incomes,
         input.expenses,
         input.adjustments
@@ -613,7 +1631,7 @@ export const ownerStatementRouter = createTRPCRouter({
       return ctx.db.$transaction(async (tx) => {
         const existing = await tx.ownerStatement.findUnique({
           where: { id: input.id },
-          select: { managementGroupId: true },
+          select: { managementGroupId: true, status: true },
         })
 
         if (!existing) {
@@ -630,36 +1648,98 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        // Delete existing nested items
-        await Promise.all([
-          tx.ownerStatementIncome.deleteMany({
-            where: { ownerStatementId: input.id },
-          }),
-          tx.ownerStatementExpense.deleteMany({
-            where: { ownerStatementId: input.id },
-          }),
-          tx.ownerStatementAdjustment.deleteMany({
-            where: { ownerStatementId: input.id },
-          }),
-        ])
+        assertStatementEditable(existing)
+        await assertExpenseCategories(
+          tx,
+          orgId,
+          input.expenses.map((expense) => expense.category)
+        )
 
-        return tx.ownerStatement.update({
-          where: { id: input.id },
-          data: {
-            notes: input.notes,
-            updatedBy: userId,
-            ...calculated,
-            incomes: { create: input.incomes },
-            expenses: { create: input.expenses },
-            adjustments: { create: input.adjustments },
-          },
-          include: {
-            property: true,
-            incomes: true,
-            expenses: true,
-            adjustments: true,
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.id],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
           },
-        })
+          async () => {
+            // Items sent with an id are updated in place, keeping their
+            // reservation and prorated stay links and the minimum fee,
+            // carryover and reserve flags. Items left out are deleted.
+            const keptIds = (items: Array<{ id?: string }>) =>
+              items.flatMap((item) => (item.id ? [item.id] : []))
+
+            await Promise.all([
+              tx.ownerStatementIncome.deleteMany({
+                where: {
+                  ownerStatementId: input.id,
+                  id: { notIn: keptIds(input.incomes) },
+                },
+              }),
+              tx.ownerStatementExpense.deleteMany({
+                where: {
+                  ownerStatementId: input.id,
+                  id: { notIn: keptIds(input.expenses) },
+                },
+              }),
+              tx.ownerStatementAdjustment.deleteMany({
+                where: {
+                  ownerStatementId: input.id,
+                  id: { notIn: keptIds(input.adjustments) },
+                },
+              }),
+            ])
+
+            // Ids from another statement are added as new items
+            for (const { id, ...income } of input.incomes) {
+              const data = withBookingChannel(income)
+              const updated = id
+                ? await tx.ownerStatementIncome.updateMany({
+                    where: { id, ownerStatementId: input.id },
+                    data,
+                  })
+                : null
+              if (!updated?.count) {
+                await tx.ownerStatementIncome.create({
+                  data: { ...data, ownerStatementId: input.id },
+                })
+              }
+            }
+            for (const { id, ...expense } of input.expenses) {
+              const updated = id
+                ? await tx.ownerStatementExpense.updateMany({
+                    where: { id, ownerStatementId: input.id },
+                    data: expense,
+                  })
+                : null
+              if (!updated?.count) {
+                await tx.ownerStatementExpense.create({
+                  data: { ...expense, ownerStatementId: input.id },
+                })
+              }
+            }
+            for (const { id, ...adjustment } of input.adjustments) {
+              const updated = id
+                ? await tx.ownerStatementAdjustment.updateMany({
+                    where: { id, ownerStatementId: input.id },
+                    data: adjustment,
+                  })
+                : null
+              if (!updated?.count) {
+                await tx.ownerStatementAdjustment.create({
+                  data: { ...adjustment, ownerStatementId: input.id },
+                })
+              }
+            }
+
+            await tx.ownerStatement.update({
+              where: { id: input.id },
+              data: { notes: input.notes, updatedBy: userId },
+            })
+
+            return recalculateStatementTotals(tx, input.id, userId)
+          }
+        )
       })
     }),
 
@@ -695,7 +1775,9 @@ export const ownerStatementRouter = createTRPCRouter({
                 select: {
                   managementGroupId: true,
                   id: true,
+                  propertyId: true,
                   statementMonth: true,
+                  status: true,
                 },
               },
             },
@@ -710,6 +1792,7 @@ export const ownerStatementRouter = createTRPCRouter({
                   managementGroupId: true,
                   id: true,
                   statementMonth: true,
+                  status: true,
                 },
               },
             },
@@ -724,6 +1807,7 @@ export const ownerStatementRouter = createTRPCRouter({
                   managementGroupId: true,
                   id: true,
                   statementMonth: true,
+                  status: true,
                 },
               },
             },
@@ -745,41 +1829,92 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        const updateData = prepareUpdateData(
-          input.section,
-          input.field,
-          input.value
-        )
+        assertStatementEditable(item.ownerStatement)
 
-        // Update the item
-        if (input.section === 'incomes') {
-          await tx.ownerStatementIncome.update({
-            where: { id: input.id },
-            data: updateData,
-          })
-        } else if (input.section === 'expenses') {
-          await tx.ownerStatementExpense.update({
-            where: { id: input.id },
-            data: updateData,
-          })
-        } else {
-          await tx.ownerStatementAdjustment.update({
-            where: { id: input.id },
-            data: updateData,
-          })
-        }
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [statementId],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
+          },
+          async () => {
+            const updateData = prepareUpdateData(
+              input.section,
+              input.field,
+              input.value
+            )
 
-        const updatedStatement = await recalculateStatementTotals(
-          tx,
-          statementId,
-          userId
-        )
+            // Update the item
+            if (input.section === 'incomes') {
+              const updatedIncome = await tx.ownerStatementIncome.update({
+                where: { id: input.id },
+                data: updateData,
+              })
 
-        // Invalidate cache after successful update
-        const monthKey = `${item.ownerStatement.statementMonth.getUTCFullYear()}-${String(item.ownerStatement.statementMonth.getUTCMonth() + 1).padStart(2, '0')}`
-        await VendorCache.invalidateMonth(orgId, monthKey)
+              // Fee base changed, so re-apply the property's management agreement
+              if (
+                ['grossRevenue', 'cleaningFee', 'platformFee'].includes(
+                  input.field
+                )
+              ) {
+                const rules = await getManagementFeeRules(
+                  tx,
+                  item.ownerStatement.propertyId,
+                  item.ownerStatement.statementMonth
+                )
+                await tx.ownerStatementIncome.update({
+                  where: { id: input.id },
+                  data: calculateIncomeFees(
+                    {
+                      grossRevenue: Number(
+                        updatedIncome.grossRevenue.toString()
+                      ),
+                      cleaningFee: Number(updatedIncome.cleaningFee.toString()),
+                      platformFee: Number(updatedIncome.platformFee.toString()),
+                    },
+                    rules
+                  ),
+                })
+              }
+            } else if (input.section === 'expenses') {
+              if (input.field === 'category') {
+                await assertExpenseCategories(tx, orgId, [updateData.category])
+              }
+              // A vendor entered on an uncategorised line suggests its category
+              const [suggested] =
+                input.field === 'vendor' && !item.category
+                  ? await withSuggestedCategories(tx, orgId, [
+                      { vendor: String(updateData.vendor) },
+                    ])
+                  : []
+
+              await tx.ownerStatementExpense.update({
+                where: { id: input.id },
+                data: suggested?.category
+                  ? { ...updateData, category: suggested.category }
+                  : updateData,
+              })
+            } else {
+              await tx.ownerStatementAdjustment.update({
+                where: { id: input.id },
+                data: updateData,
+              })
+            }
+
+            const updatedStatement = await recalculateStatementTotals(
+              tx,
+              statementId,
+              userId
+            )
+
+            // Invalidate cache after successful update
+            const monthKey = `${item.ownerStatement.statementMonth.getUTCFullYear()}-${String(item.ownerStatement.statementMonth.getUTCMonth() + 1).padStart(2, '0')}`
+            await VendorCache.invalidateMonth(orgId, monthKey)
 
-        return updatedStatement
+            return updatedStatement
+          }
+        )
       })
 
       return result
@@ -805,7 +1940,7 @@ export const ownerStatementRouter = createTRPCRouter({
       return ctx.db.$transaction(async (tx) => {
         const existing = await tx.ownerStatement.findUnique({
           where: { id: input.id },
-          select: { managementGroupId: true, deletedAt: true },
+          select: { managementGroupId: true, deletedAt: true, status: true },
         })
 
         if (!existing) {
@@ -829,13 +1964,25 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        return tx.ownerStatement.update({
-          where: { id: input.id },
-          data: {
-            notes: input.notes,
-            updatedBy: userId,
+        assertStatementEditable(existing)
+
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.id],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
           },
-        })
+          async () => {
+            return tx.ownerStatement.update({
+              where: { id: input.id },
+              data: {
+                notes: input.notes,
+                updatedBy: userId,
+              },
+            })
+          }
+        )
       })
     }),
 
@@ -854,7 +2001,7 @@ export const ownerStatementRouter = createTRPCRouter({
       return ctx.db.$transaction(async (tx) => {
         const statement = await tx.ownerStatement.findUnique({
           where: { id: input.id },
-          select: { managementGroupId: true, deletedAt: true },
+          select: { managementGroupId: true, deletedAt: true, status: true },
         })
 
         if (!statement) {
@@ -878,6 +2025,8 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
+        assertStatementEditable(statement)
+
         await tx.ownerStatement.update({
           where: { id: input.id },
           data: {
@@ -890,22 +2039,331 @@ export const ownerStatementRouter = createTRPCRouter({
       })
     }),
 
-  createMonthlyBatch: protectedProcedure
+  previewReservationImport: protectedProcedure
     .input(
       z.object({
         statementMonth: z.date(),
-        hostawayData: z
-          .array(
-            z.object({
-              propertyId: z.string(),
-              propertyName: z.string(),
-              incomes: z.array(incomeSchema),
-              expenses: z.array(expenseSchema).optional().default([]),
-              adjustments: z.array(adjustmentSchema).optional().default([]),
-              notes: z.string().optional(),
-            })
+        fileName: z.string().min(1),
+        fileBase64: z
+          .string()
+          .min(1, 'File is empty')
+          .max(
+            Math.ceil((MAX_IMPORT_FILE_BYTES * 4) / 3),
+            'File is too large to import'
+          ),
+      })
+    )
+    .mutation(async ({ ctx, input }): Promise<ReservationImportPreview> => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      assertImportableMonth(input.statementMonth)
+
+      const fileData = Buffer.from(input.fileBase64, 'base64')
+      // Fail on unreadable or unrecognized files before storing them
+      const { source } = parseStoredImportFile(fileData)
+
+      // Keep the original upload so statements are created from this exact file
+      const statementImport = await ctx.db.statementImport.create({
+        data: {
+          managementGroupId: orgId,
+          source,
+          statementMonth: input.statementMonth,
+          fileName: input.fileName,
+          fileData,
+          createdBy: userId,
+        },
+      })
+
+      return buildReservationImportPreview(ctx.db, orgId, statementImport)
+    }),
+
+  // Rebuilds the preview for a stored import, e.g. after mapping an unmatched listing
+  getReservationImportPreview: protectedProcedure
+    .input(z.object({ importId: z.string() }))
+    .query(async ({ ctx, input }): Promise<ReservationImportPreview> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statementImport = await ctx.db.statementImport.findUnique({
+        where: { id: input.importId },
+      })
+
+      if (statementImport?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Import not found',
+        })
+      }
+
+      return buildReservationImportPreview(ctx.db, orgId, statementImport)
+    }),
+
+  // Whether imported stays that cross a month boundary are split by night
+  updateImportSettings: protectedProcedure
+    .input(z.object({ prorateReservations: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return ctx.db.managementGroup.update({
+        where: { id: orgId },
+        data: { prorateReservations: input.prorateReservations },
+        select: { prorateReservations: true },
+      })
+    }),
+
+  /**
+   * Applies the chosen changes from a re-imported file to the month's
+   * existing statements: changed stays are updated, added stays get lines and
+   * cancelled ones are removed. Approved and sent statements keep their lines
+   * and get an adjustment for each change instead.
+   */
+  applyReservationChanges: protectedProcedure
+    .input(
+      z.object({
+        importId: z.string(),
+        changes: z.array(
+          z.object({ statementId: z.string(), key: z.string() })
+        ),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const statementImport = await ctx.db.statementImport.findUnique({
+        where: { id: input.importId },
+      })
+
+      if (statementImport?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Import not found',
+        })
+      }
+
+      const { statementMonth } = statementImport
+      const plan = await planImportedStatements(
+        ctx.db,
+        orgId,
+        statementMonth,
+        parseStoredImportFile(
+          Buffer.from(statementImport.fileData),
+          statementImport.source
+        )
+      )
+
+      return ctx.db.$transaction(
+        async (tx) => {
+          const selected = new Set(
+            input.changes.map((change) => `${change.statementId}:${change.key}`)
           )
-          .max(100, 'Cannot create more than 100 statements at once'), // Rate limiting
+          const diffs = (
+            await getReservationDiffs(
+              tx,
+              orgId,
+              statementMonth,
+              statementImport.source,
+              plan.statements
+            )
+          ).flatMap((diff) => {
+            const changes = diff.changes.filter((change) =>
+              selected.has(`${diff.statementId}:${change.key}`)
+            )
+            if (!changes.length) return []
+
+            // Stays whose change was left out keep their saved reservation
+            const skipped = new Set(
+              diff.changes
+                .filter((change) => !changes.includes(change))
+                .map((change) => change.externalId)
+            )
+            return [{ ...diff, changes, skipped }]
+          })
+
+          if (diffs.length === 0) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'No reservation changes to apply',
+            })
+          }
+
+          let lineCount = 0
+          let adjustmentCount = 0
+
+          for (const diff of diffs) {
+            const planned = plan.statements.find(
+              (statement) => statement.propertyId === diff.propertyId
+            )
+
+            // Keep the saved reservations and prorated stays in step with
+            // the file
+            const proratedKeys = new Set(
+              (planned?.proratedStays ?? []).map((stay) =>
+                stayKey(diff.propertyId, stay)
+              )
+            )
+            const reservationIds = new Map<string, string>()
+            const proratedStayIds = new Map<string, string>()
+            for (const { income, booking } of planned?.reservations ?? []) {
+              const externalId = reservationExternalId(income, booking)
+              if (diff.skipped.has(externalId)) continue
+
+              const reservationId = await upsertImportedReservation(tx, {
+                managementGroupId: orgId,
+                propertyId: diff.propertyId,
+                statementImportId: statementImport.id,
+                income,
+                booking,
+              })
+              if (reservationId) reservationIds.set(externalId, reservationId)
+
+              if (proratedKeys.has(stayKey(diff.propertyId, income))) {
+                proratedStayIds.set(
+                  externalId,
+                  await saveProratedStay(tx, {
+                    managementGroupId: orgId,
+                    propertyId: diff.propertyId,
+                    statementImportId: statementImport.id,
+                    stay: income,
+                    reservationId,
+                  })
+                )
+              } else {
+                await removeProratedStay(tx, reservationId)
+              }
+            }
+
+            await auditStatementChanges(
+              tx,
+              {
+                statementIds: [diff.statementId],
+                source: 'RESERVATION_IMPORT',
+                changedBy: userId,
+              },
+              async () => {
+                let lockedDelta = 0
+
+                for (const change of diff.changes) {
+                  // Stays that dropped out of the file were cancelled
+                  if (change.kind === 'CANCELLED' && change.reservationId) {
+                    await tx.reservation.updateMany({
+                      where: { id: change.reservationId, cancelledAt: null },
+                      data: { status: 'CANCELLED', cancelledAt: new Date() },
+                    })
+                  }
+
+                  const reservationId =
+                    reservationIds.get(change.externalId) ??
+                    change.reservationId
+
+                  if (diff.isLocked) {
+                    if (change.ownerIncomeDelta === 0) continue
+                    const income = change.after ?? change.before
+                    await tx.ownerStatementAdjustment.create({
+                      data: {
+                        ownerStatementId: diff.statementId,
+                        checkIn: income?.checkIn,
+                        checkOut: income?.checkOut,
+                        description: reservationChangeDescription(change),
+                        amount: change.ownerIncomeDelta,
+                        reservationId,
+                        reservationChange: change.key,
+                      },
+                    })
+                    lockedDelta += change.ownerIncomeDelta
+                    adjustmentCount += 1
+                    continue
+                  }
+
+                  const proratedStayId = proratedStayIds.get(change.externalId)
+                  if (change.kind === 'CANCELLED' && change.incomeId) {
+                    await tx.ownerStatementIncome.delete({
+                      where: { id: change.incomeId },
+                    })
+                  } else if (change.after && change.incomeId) {
+                    await tx.ownerStatementIncome.update({
+                      where: { id: change.incomeId },
+                      data: {
+                        ...withBookingChannel(change.after),
+                        reservationId,
+                        proratedStayId,
+                      },
+                    })
+                  } else if (change.after) {
+                    await tx.ownerStatementIncome.create({
+                      data: {
+                        ...withBookingChannel(change.after),
+                        ownerStatementId: diff.statementId,
+                        reservationId,
+                        proratedStayId,
+                      },
+                    })
+                  }
+                  lineCount += 1
+                }
+
+                // Locked statements keep their minimum fee, carryover and
+                // reserve lines, so only the new adjustments are added on
+                if (diff.isLocked) {
+                  if (lockedDelta !== 0) {
+                    await tx.ownerStatement.update({
+                      where: { id: diff.statementId },
+                      data: {
+                        totalAdjustments: { increment: lockedDelta },
+                        grandTotal: { increment: lockedDelta },
+                        updatedBy: userId,
+                      },
+                    })
+                  }
+                } else {
+                  await recalculateStatementTotals(tx, diff.statementId, userId)
+                }
+              }
+            )
+          }
+
+          return {
+            statementCount: diffs.length,
+            lineCount,
+            adjustmentCount,
+          }
+        },
+        {
+          timeout: 15000, // 15 seconds timeout (Accelerate limit)
+        }
+      )
+    }),
+
+  createMonthlyBatch: protectedProcedure
+    .input(
+      z.object({
+        importId: z.string(),
         skipExisting: z.boolean().default(true),
       })
     )
@@ -919,45 +2377,43 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
-      // Validate statement month is not in the future or too far in the past
-      const now = new Date()
-      const statementMonth = new Date(input.statementMonth)
-      const twoYearsAgo = new Date(now.getFullYear() - 2, now.getMonth(), 1)
+      const statementImport = await ctx.db.statementImport.findUnique({
+        where: { id: input.importId },
+      })
 
-      if (statementMonth > now) {
+      if (statementImport?.managementGroupId !== orgId) {
         throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Cannot create statements for future months',
+          code: 'NOT_FOUND',
+          message: 'Import not found',
         })
       }
 
-      if (statementMonth < twoYearsAgo) {
+      if (statementImport.confirmedAt) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: 'Cannot create statements for months older than 2 years',
+          message:
+            'Statements were already created from this import. Upload the file again to re-import.',
         })
       }
 
-      // Validate that all properties belong to the organization
-      const propertyIds = input.hostawayData.map((data) => data.propertyId)
-      const validProperties = await ctx.db.property.findMany({
-        where: {
-          id: { in: propertyIds },
-          managementGroupId: orgId,
-          deletedAt: null,
-        },
-        select: { id: true, name: true },
-      })
+      const { statementMonth } = statementImport
+      assertImportableMonth(statementMonth)
 
-      const validPropertyIds = new Set(validProperties.map((p) => p.id))
-      const invalidProperties = input.hostawayData.filter(
-        (data) => !validPropertyIds.has(data.propertyId)
+      // Re-parse the stored original rather than trusting anything from the client
+      const plan = await planImportedStatements(
+        ctx.db,
+        orgId,
+        statementMonth,
+        parseStoredImportFile(
+          Buffer.from(statementImport.fileData),
+          statementImport.source
+        )
       )
 
-      if (invalidProperties.length > 0) {
+      if (plan.statements.length > MAX_BATCH_STATEMENTS) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: `Invalid properties: ${invalidProperties.map((p) => p.propertyName).join(', ')}`,
+          message: `Cannot create more than ${MAX_BATCH_STATEMENTS} statements at once`,
         })
       }
 
@@ -965,12 +2421,13 @@ export const ownerStatementRouter = createTRPCRouter({
         async (tx) => {
           let existingCount = 0
           let replacedCount = 0
+          let plannedStatements = plan.statements
 
           if (input.skipExisting) {
             const existing = await tx.ownerStatement.findMany({
               where: {
                 managementGroupId: orgId,
-                statementMonth: input.statementMonth,
+                statementMonth,
                 deletedAt: null,
               },
               select: {
@@ -983,27 +2440,41 @@ export const ownerStatementRouter = createTRPCRouter({
             const existingPropertyIds = new Set(
               existing.map((s) => s.propertyId)
             )
-            input.hostawayData = input.hostawayData.filter(
-              (data) => !existingPropertyIds.has(data.propertyId)
+            plannedStatements = plannedStatements.filter(
+              (statement) => !existingPropertyIds.has(statement.propertyId)
             )
           } else {
             // If not skipping existing, soft delete all existing statements for this month
             const existingToReplace = await tx.ownerStatement.findMany({
               where: {
                 managementGroupId: orgId,
-                statementMonth: input.statementMonth,
+                statementMonth,
                 deletedAt: null,
               },
-              select: { id: true },
+              select: {
+                id: true,
+                status: true,
+                property: { select: { name: true } },
+              },
             })
 
+            const lockedStatements = existingToReplace.filter((s) =>
+              isStatementLocked(s.status)
+            )
+            if (lockedStatements.length > 0) {
+              throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `Cannot replace approved or sent statements: ${lockedStatements.map((s) => s.property.name).join(', ')}. Reopen them first.`,
+              })
+            }
+
             replacedCount = existingToReplace.length
 
             if (replacedCount > 0) {
               await tx.ownerStatement.updateMany({
                 where: {
                   managementGroupId: orgId,
-                  statementMonth: input.statementMonth,
+                  statementMonth,
                   deletedAt: null,
                 },
                 data: {
@@ -1014,7 +2485,7 @@ export const ownerStatementRouter = createTRPCRouter({
             }
           }
 
-          if (input.hostawayData.length === 0) {
+          if (plannedStatements.length === 0) {
             throw new TRPCError({
               code: 'BAD_REQUEST',
               message: input.skipExisting
@@ -1023,36 +2494,178 @@ export const ownerStatementRouter = createTRPCRouter({
             })
           }
 
-          const statements = await Promise.all(
-            input.hostawayData.map(async (data) => {
-              const totals = calculateTotals(
-                data.incomes,
-                data.expenses,
-                data.adjustments
+          // Re-imported reservations are updated rather than added again
+          const reservationIds = new Map<string, string>()
+          for (const statement of plannedStatements) {
+            const proratedKeys = new Set(
+              statement.proratedStays.map((stay) =>
+                stayKey(statement.propertyId, stay)
+              )
+            )
+            for (const { income, booking } of statement.reservations) {
+              const reservationId = await upsertImportedReservation(tx, {
+                managementGroupId: orgId,
+                propertyId: statement.propertyId,
+                statementImportId: statementImport.id,
+                income,
+                booking,
+              })
+              if (reservationId) {
+                reservationIds.set(
+                  stayKey(statement.propertyId, income),
+                  reservationId
+                )
+              }
+              if (!proratedKeys.has(stayKey(statement.propertyId, income))) {
+                await removeProratedStay(tx, reservationId)
+              }
+            }
+          }
+
+          const proratedStayIds = new Map<string, string>()
+          for (const statement of plannedStatements) {
+            for (const stay of statement.proratedStays) {
+              const reservationId = reservationIds.get(
+                stayKey(statement.propertyId, stay)
+              )
+              const proratedStayId = await saveProratedStay(tx, {
+                managementGroupId: orgId,
+                propertyId: statement.propertyId,
+                statementImportId: statementImport.id,
+                stay,
+                reservationId,
+              })
+              proratedStayIds.set(
+                stayKey(statement.propertyId, stay),
+                proratedStayId
               )
+            }
+          }
 
-              return tx.ownerStatement.create({
+          const statements = await Promise.all(
+            plannedStatements.map(async (statement) =>
+              tx.ownerStatement.create({
                 data: {
                   managementGroupId: orgId,
-                  propertyId: data.propertyId,
-                  statementMonth: input.statementMonth,
-                  notes: data.notes ?? '',
+                  propertyId: statement.propertyId,
+                  statementMonth,
+                  statementImportId: statementImport.id,
+                  notes: '',
                   createdBy: userId,
                   updatedBy: userId,
-                  ...totals,
-                  incomes: { create: data.incomes },
-                  expenses: { create: data.expenses },
-                  adjustments: { create: data.adjustments },
+                  ...statement.totals,
+                  incomes: {
+                    create: statement.incomes.map(({ stay, ...income }) => ({
+                      ...withBookingChannel(income),
+                      proratedStayId: stay
+                        ? proratedStayIds.get(
+                            stayKey(statement.propertyId, stay)
+                          )
+                        : undefined,
+                      reservationId: reservationIds.get(
+                        stayKey(statement.propertyId, stay ?? income)
+                      ),
+                    })),
+                  },
+                  expenses: { create: statement.expenses },
+                  adjustments: { create: statement.adjustments },
                 },
                 include: { property: true },
               })
-            })
+            )
+          )
+
+          // Pick up this month's share of stays imported with earlier months
+          for (const statement of statements) {
+            if (await syncProratedStays(tx, statement.id)) {
+              await recalculateStatementTotals(tx, statement.id, userId)
+            }
+          }
+
+          // Imported statements start their history from an empty statement
+          const snapshots = await loadStatementSnapshots(
+            tx,
+            statements.map((statement) => statement.id)
           )
+          for (const [statementId, snapshot] of snapshots) {
+            await recordStatementRevision(tx, {
+              statementId,
+              source: 'RESERVATION_IMPORT',
+              changedBy: userId,
+              before: EMPTY_STATEMENT_SNAPSHOT,
+              after: snapshot,
+            })
+          }
+
+          // Other months' shares go onto those statements if they are still
+          // open. Months without a statement get theirs when it is created.
+          const otherMonths = new Map<string, Date>()
+          for (const statement of plannedStatements) {
+            for (const stay of statement.proratedStays) {
+              for (const portion of prorateStay(stay) ?? []) {
+                const month = dayjs.utc(portion.month).startOf('month')
+                if (month.isSame(statementMonth)) continue
+                otherMonths.set(
+                  `${statement.propertyId}|${portion.month}`,
+                  month.toDate()
+                )
+              }
+            }
+          }
+
+          let proratedUpdatedCount = 0
+          let proratedLockedCount = 0
+          let proratedPendingCount = 0
+          for (const [key, month] of otherMonths) {
+            const [propertyId] = key.split('|')
+            const other = await tx.ownerStatement.findFirst({
+              where: {
+                managementGroupId: orgId,
+                propertyId,
+                statementMonth: month,
+                deletedAt: null,
+              },
+              select: { id: true, status: true },
+            })
+
+            if (!other) {
+              proratedPendingCount += 1
+            } else if (isStatementLocked(other.status)) {
+              proratedLockedCount += 1
+            } else {
+              await auditStatementChanges(
+                tx,
+                {
+                  statementIds: [other.id],
+                  source: 'RESERVATION_IMPORT',
+                  changedBy: userId,
+                },
+                async () => {
+                  if (await syncProratedStays(tx, other.id)) {
+                    proratedUpdatedCount += 1
+                    await recalculateStatementTotals(tx, other.id, userId)
+                  }
+                }
+              )
+            }
+          }
+
+          await tx.statementImport.update({
+            where: { id: statementImport.id },
+            data: { confirmedAt: new Date(), confirmedBy: userId },
+          })
 
           return {
             createdCount: statements.length,
             existingCount,
             replacedCount,
+            proratedUpdatedCount,
+            proratedLockedCount,
+            proratedPendingCount,
+            recurringExpenseCount: plannedStatements.reduce(
+              (sum, statement) => sum + statement.expenses.length,
+              0
+            ),
             firstStatementId: statements[0]?.id,
             createdStatements: statements,
           }
@@ -1067,6 +2680,8 @@ export const ownerStatementRouter = createTRPCRouter({
     .input(
       z.object({
         currentStatementId: z.string(),
+        fileName: z.string().min(1),
+        fileBase64: z.string().min(1),
         expenses: z.array(
           z.object({
             property: z.string(),
@@ -1074,6 +2689,7 @@ export const ownerStatementRouter = createTRPCRouter({
             description: z.string(),
             vendor: z.string(),
             amount: z.number(),
+            sourceReference: z.string().optional(),
           })
         ),
       })
@@ -1126,6 +2742,8 @@ export const ownerStatementRouter = createTRPCRouter({
         ...new Set(input.expenses.map((expense) => expense.property)),
       ]
 
+      const aliases = await getPropertyAliasMap(ctx.db, orgId)
+
       // Use cached GPT matching
       let gptMatchResult
       try {
@@ -1135,7 +2753,8 @@ export const ownerStatementRouter = createTRPCRouter({
             id: p.id,
             name: p.name,
             address: p.address,
-          }))
+          })),
+          aliases
         )
       } catch (error) {
         console.error('GPT matching failed:', error)
@@ -1186,6 +2805,26 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
+      // Keep the spreadsheet so confirmed expenses can link back to their rows
+      const sourceDocument = await storeSourceDocument(ctx.db, {
+        managementGroupId: orgId,
+        createdBy: userId,
+        file: {
+          fileName: input.fileName,
+          mimeType: input.fileName.toLowerCase().endsWith('.xls')
+            ? 'application/vnd.ms-excel'
+            : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          data: Buffer.from(input.fileBase64, 'base64'),
+        },
+      })
+
+      // Each line starts with the category the vendor is usually given
+      const suggestedCategories = await suggestExpenseCategories(
+        ctx.db,
+        orgId,
+        input.expenses.map((expense) => expense.vendor)
+      )
+
       // Prepare preview data
       const matched: MatchedPropertyPreview[] = []
       const unmatched: UnmatchedPropertyPreview[] = []
@@ -1225,6 +2864,8 @@ export const ownerStatementRouter = createTRPCRouter({
               description: exp.description,
               vendor: exp.vendor,
               amount: exp.amount,
+              category: suggestedCategories[exp.vendor] ?? null,
+              sourceReference: exp.sourceReference ?? null,
             })),
             totalAmount: parseFloat(totalAmount.toFixed(2)),
           })
@@ -1245,6 +2886,8 @@ export const ownerStatementRouter = createTRPCRouter({
               description: exp.description,
               vendor: exp.vendor,
               amount: exp.amount,
+              category: suggestedCategories[exp.vendor] ?? null,
+              sourceReference: exp.sourceReference ?? null,
             })),
             totalAmount: parseFloat(totalAmount.toFixed(2)),
           })
@@ -1274,6 +2917,7 @@ export const ownerStatementRouter = createTRPCRouter({
       return {
         success: true,
         preview: {
+          sourceDocumentId: sourceDocument.id,
           matched,
           unmatched,
           summary: {
@@ -1298,9 +2942,102 @@ export const ownerStatementRouter = createTRPCRouter({
         platform: z.string().default(''),
         guest: z.string().default(''),
         grossRevenue: z.number().default(0),
-        hostFee: z.number().default(0),
+        cleaningFee: z.number().default(0),
+        // Omit to calculate from the property's management agreement
+        hostFee: z.number().optional(),
         platformFee: z.number().default(0),
-        grossIncome: z.number().default(0),
+        grossIncome: z.number().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      // Verify statement ownership
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.ownerStatementId },
+        select: {
+          managementGroupId: true,
+          status: true,
+          propertyId: true,
+          statementMonth: true,
+        },
+      })
+
+      if (!statement || statement.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Access denied',
+        })
+      }
+
+      assertStatementEditable(statement)
+
+      return ctx.db.$transaction(async (tx) => {
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.ownerStatementId],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
+          },
+          async () => {
+            const rules = await getManagementFeeRules(
+              tx,
+              statement.propertyId,
+              statement.statementMonth
+            )
+            // A host fee passed in replaces the agreement's, and the owner's
+            // income follows whichever fee is saved
+            const hostFee =
+              input.hostFee ?? calculateIncomeFees(input, rules).hostFee
+            const grossIncome =
+              input.grossIncome ??
+              parseFloat(
+                (input.grossRevenue - hostFee - input.platformFee).toFixed(2)
+              )
+
+            const newIncome = await tx.ownerStatementIncome.create({
+              data: {
+                ownerStatementId: input.ownerStatementId,
+                checkIn: input.checkIn,
+                checkOut: input.checkOut,
+                days: input.days,
+                platform: input.platform,
+                channel: normalizeBookingChannel(input.platform),
+                guest: input.guest,
+                grossRevenue: input.grossRevenue,
+                cleaningFee: input.cleaningFee,
+                hostFee,
+                platformFee: input.platformFee,
+                grossIncome,
+              },
+            })
+
+            // Recalculate statement totals
+            await recalculateStatementTotals(tx, input.ownerStatementId, userId)
+
+            return newIncome
+          }
+        )
+      })
+    }),
+
+  createExpenseItem: protectedProcedure
+    .input(
+      z.object({
+        ownerStatementId: z.string(),
+        date: z.string().default(''),
+        description: z.string().default(''),
+        vendor: z.string().default(''),
+        amount: z.number().default(0),
+        category: z.string().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -1316,7 +3053,7 @@ export const ownerStatementRouter = createTRPCRouter({
       // Verify statement ownership
       const statement = await ctx.db.ownerStatement.findUnique({
         where: { id: input.ownerStatementId },
-        select: { managementGroupId: true },
+        select: { managementGroupId: true, status: true },
       })
 
       if (!statement || statement.managementGroupId !== orgId) {
@@ -1326,36 +3063,47 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
+      assertStatementEditable(statement)
+
       return ctx.db.$transaction(async (tx) => {
-        const newIncome = await tx.ownerStatementIncome.create({
-          data: {
-            ownerStatementId: input.ownerStatementId,
-            checkIn: input.checkIn,
-            checkOut: input.checkOut,
-            days: input.days,
-            platform: input.platform,
-            guest: input.guest,
-            grossRevenue: input.grossRevenue,
-            hostFee: input.hostFee,
-            platformFee: input.platformFee,
-            grossIncome: input.grossIncome,
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.ownerStatementId],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
           },
-        })
+          async () => {
+            await assertExpenseCategories(tx, orgId, [input.category])
+            const [expense] = await withSuggestedCategories(tx, orgId, [input])
+
+            const newExpense = await tx.ownerStatementExpense.create({
+              data: {
+                ownerStatementId: input.ownerStatementId,
+                date: input.date,
+                description: input.description,
+                vendor: input.vendor,
+                amount: input.amount,
+                category: expense!.category ?? null,
+              },
+            })
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(tx, input.ownerStatementId, userId)
+            // Recalculate statement totals
+            await recalculateStatementTotals(tx, input.ownerStatementId, userId)
 
-        return newIncome
+            return newExpense
+          }
+        )
       })
     }),
 
-  createExpenseItem: protectedProcedure
+  createAdjustmentItem: protectedProcedure
     .input(
       z.object({
         ownerStatementId: z.string(),
-        date: z.string().default(''),
+        checkIn: z.string().optional(),
+        checkOut: z.string().optional(),
         description: z.string().default(''),
-        vendor: z.string().default(''),
         amount: z.number().default(0),
       })
     )
@@ -1372,7 +3120,7 @@ export const ownerStatementRouter = createTRPCRouter({
       // Verify statement ownership
       const statement = await ctx.db.ownerStatement.findUnique({
         where: { id: input.ownerStatementId },
-        select: { managementGroupId: true },
+        select: { managementGroupId: true, status: true },
       })
 
       if (!statement || statement.managementGroupId !== orgId) {
@@ -1382,32 +3130,43 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
+      assertStatementEditable(statement)
+
       return ctx.db.$transaction(async (tx) => {
-        const newExpense = await tx.ownerStatementExpense.create({
-          data: {
-            ownerStatementId: input.ownerStatementId,
-            date: input.date,
-            description: input.description,
-            vendor: input.vendor,
-            amount: input.amount,
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.ownerStatementId],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
           },
-        })
+          async () => {
+            const newAdjustment = await tx.ownerStatementAdjustment.create({
+              data: {
+                ownerStatementId: input.ownerStatementId,
+                checkIn: input.checkIn,
+                checkOut: input.checkOut,
+                description: input.description,
+                amount: input.amount,
+              },
+            })
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(tx, input.ownerStatementId, userId)
+            // Recalculate statement totals
+            await recalculateStatementTotals(tx, input.ownerStatementId, userId)
 
-        return newExpense
+            return newAdjustment
+          }
+        )
       })
     }),
 
-  createAdjustmentItem: protectedProcedure
+  // Covers part of the statement's expenses from the property's reserve
+  drawFromReserve: protectedProcedure
     .input(
       z.object({
         ownerStatementId: z.string(),
-        checkIn: z.string().optional(),
-        checkOut: z.string().optional(),
-        description: z.string().default(''),
-        amount: z.number().default(0),
+        amount: z.number().positive('Amount must be more than zero'),
+        description: z.string().trim().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -1420,34 +3179,73 @@ export const ownerStatementRouter = createTRPCRouter({
         })
       }
 
-      // Verify statement ownership
       const statement = await ctx.db.ownerStatement.findUnique({
         where: { id: input.ownerStatementId },
-        select: { managementGroupId: true },
+        select: {
+          managementGroupId: true,
+          status: true,
+          propertyId: true,
+          statementMonth: true,
+        },
       })
 
-      if (!statement || statement.managementGroupId !== orgId) {
+      if (statement?.managementGroupId !== orgId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Access denied',
         })
       }
 
+      assertStatementEditable(statement)
+
       return ctx.db.$transaction(async (tx) => {
-        const newAdjustment = await tx.ownerStatementAdjustment.create({
-          data: {
-            ownerStatementId: input.ownerStatementId,
-            checkIn: input.checkIn,
-            checkOut: input.checkOut,
-            description: input.description,
-            amount: input.amount,
+        const [openingBalance, drawn] = await Promise.all([
+          getReserveBalance(tx, statement.propertyId, {
+            before: statement.statementMonth,
+          }),
+          tx.ownerStatementAdjustment.aggregate({
+            _sum: { amount: true },
+            where: {
+              ownerStatementId: input.ownerStatementId,
+              reserveEntry: 'DRAWDOWN',
+            },
+          }),
+        ])
+        const available = parseFloat(
+          (openingBalance - Number(drawn._sum.amount ?? 0)).toFixed(2)
+        )
+
+        if (input.amount > available) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Only $${available.toFixed(2)} is available in the reserve`,
+          })
+        }
+
+        return auditStatementChanges(
+          tx,
+          {
+            statementIds: [input.ownerStatementId],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
           },
-        })
+          async () => {
+            const drawdown = await tx.ownerStatementAdjustment.create({
+              data: {
+                ownerStatementId: input.ownerStatementId,
+                description: input.description?.length
+                  ? input.description
+                  : RESERVE_DRAWDOWN_DESCRIPTION,
+                amount: input.amount,
+                reserveEntry: 'DRAWDOWN',
+              },
+            })
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(tx, input.ownerStatementId, userId)
+            await recalculateStatementTotals(tx, input.ownerStatementId, userId)
 
-        return newAdjustment
+            return drawdown
+          }
+        )
       })
     }),
 
@@ -1469,7 +3267,7 @@ export const ownerStatementRouter = createTRPCRouter({
           where: { id: input.id },
           include: {
             ownerStatement: {
-              select: { managementGroupId: true, id: true },
+              select: { managementGroupId: true, id: true, status: true },
             },
           },
         })
@@ -1488,19 +3286,31 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        // Delete the income item
-        await tx.ownerStatementIncome.delete({
-          where: { id: input.id },
-        })
+        assertStatementEditable(incomeItem.ownerStatement)
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(
+        return auditStatementChanges(
           tx,
-          incomeItem.ownerStatement.id,
-          userId
-        )
+          {
+            statementIds: [incomeItem.ownerStatement.id],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
+          },
+          async () => {
+            // Delete the income item
+            await tx.ownerStatementIncome.delete({
+              where: { id: input.id },
+            })
 
-        return { success: true }
+            // Recalculate statement totals
+            await recalculateStatementTotals(
+              tx,
+              incomeItem.ownerStatement.id,
+              userId
+            )
+
+            return { success: true }
+          }
+        )
       })
     }),
 
@@ -1522,7 +3332,7 @@ export const ownerStatementRouter = createTRPCRouter({
           where: { id: input.id },
           include: {
             ownerStatement: {
-              select: { managementGroupId: true, id: true },
+              select: { managementGroupId: true, id: true, status: true },
             },
           },
         })
@@ -1541,19 +3351,31 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        // Delete the expense item
-        await tx.ownerStatementExpense.delete({
-          where: { id: input.id },
-        })
+        assertStatementEditable(expenseItem.ownerStatement)
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(
+        return auditStatementChanges(
           tx,
-          expenseItem.ownerStatement.id,
-          userId
-        )
+          {
+            statementIds: [expenseItem.ownerStatement.id],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
+          },
+          async () => {
+            // Delete the expense item
+            await tx.ownerStatementExpense.delete({
+              where: { id: input.id },
+            })
 
-        return { success: true }
+            // Recalculate statement totals
+            await recalculateStatementTotals(
+              tx,
+              expenseItem.ownerStatement.id,
+              userId
+            )
+
+            return { success: true }
+          }
+        )
       })
     }),
 
@@ -1575,7 +3397,7 @@ export const ownerStatementRouter = createTRPCRouter({
           where: { id: input.id },
           include: {
             ownerStatement: {
-              select: { managementGroupId: true, id: true },
+              select: { managementGroupId: true, id: true, status: true },
             },
           },
         })
@@ -1594,19 +3416,31 @@ export const ownerStatementRouter = createTRPCRouter({
           })
         }
 
-        // Delete the adjustment item
-        await tx.ownerStatementAdjustment.delete({
-          where: { id: input.id },
-        })
+        assertStatementEditable(adjustmentItem.ownerStatement)
 
-        // Recalculate statement totals
-        await recalculateStatementTotals(
+        return auditStatementChanges(
           tx,
-          adjustmentItem.ownerStatement.id,
-          userId
-        )
+          {
+            statementIds: [adjustmentItem.ownerStatement.id],
+            source: 'MANUAL_EDIT',
+            changedBy: userId,
+          },
+          async () => {
+            // Delete the adjustment item
+            await tx.ownerStatementAdjustment.delete({
+              where: { id: input.id },
+            })
 
-        return { success: true }
+            // Recalculate statement totals
+            await recalculateStatementTotals(
+              tx,
+              adjustmentItem.ownerStatement.id,
+              userId
+            )
+
+            return { success: true }
+          }
+        )
       })
     }),
 
@@ -1638,6 +3472,8 @@ export const ownerStatementRouter = createTRPCRouter({
           select: {
             id: true,
             statementMonth: true,
+            status: true,
+            property: { select: { name: true } },
           },
         })
 
@@ -1656,6 +3492,16 @@ export const ownerStatementRouter = createTRPCRouter({
           }
         }
 
+        const lockedStatements = statementsToDelete.filter((s) =>
+          isStatementLocked(s.status)
+        )
+        if (lockedStatements.length > 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Cannot delete approved or sent statements: ${lockedStatements.map((s) => s.property.name).join(', ')}. Reopen them first.`,
+          })
+        }
+
         // Soft delete all statements
         const statementIds = statementsToDelete.map((s) => s.id)
         await tx.ownerStatement.updateMany({
@@ -1675,4 +3521,345 @@ export const ownerStatementRouter = createTRPCRouter({
         }
       })
     }),
+
+  updateStatus: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        status: z.enum(STATEMENT_STATUSES),
+        reason: z.string().trim().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        const existing = await tx.ownerStatement.findUnique({
+          where: { id: input.id },
+          select: { managementGroupId: true, deletedAt: true, status: true },
+        })
+
+        if (!existing || existing.deletedAt) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Owner statement not found',
+          })
+        }
+
+        if (existing.managementGroupId !== orgId) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Access denied',
+          })
+        }
+
+        if (!canTransition(existing.status, input.status)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Cannot move statement from ${STATEMENT_STATUS_LABELS[existing.status]} to ${STATEMENT_STATUS_LABELS[input.status]}`,
+          })
+        }
+
+        if (
+          isReopenTransition(existing.status, input.status) &&
+          !input.reason
+        ) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message:
+              'A reason is required to reopen an approved or sent statement',
+          })
+        }
+
+        const now = new Date()
+
+        await tx.ownerStatementStatusChange.create({
+          data: {
+            ownerStatementId: input.id,
+            fromStatus: existing.status,
+            toStatus: input.status,
+            reason: input.reason ?? null,
+            changedBy: userId,
+            changedAt: now,
+          },
+        })
+
+        return tx.ownerStatement.update({
+          where: { id: input.id },
+          data: {
+            status: input.status,
+            statusChangedAt: now,
+            statusChangedBy: userId,
+            updatedBy: userId,
+          },
+        })
+      })
+    }),
+
+  getStatusHistory: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.id },
+        select: {
+          managementGroupId: true,
+          statusChanges: { orderBy: { changedAt: 'desc' } },
+        },
+      })
+
+      if (statement?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      const userIds = [
+        ...new Set(statement.statusChanges.map((c) => c.changedBy)),
+      ]
+      const userMap = await getUsersDisplayInfo(userIds)
+
+      return statement.statusChanges.map((change) => ({
+        ...change,
+        changedByName: userMap.get(change.changedBy)?.name ?? 'Unknown User',
+      }))
+    }),
+
+  getHistory: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.id },
+        select: {
+          managementGroupId: true,
+          revisions: {
+            orderBy: { changedAt: 'desc' },
+            select: {
+              id: true,
+              source: true,
+              changedBy: true,
+              changedAt: true,
+              entries: true,
+            },
+          },
+        },
+      })
+
+      if (statement?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      const userIds = [...new Set(statement.revisions.map((r) => r.changedBy))]
+      const userMap = await getUsersDisplayInfo(userIds)
+
+      return statement.revisions.map((revision) => ({
+        ...revision,
+        changedByName: userMap.get(revision.changedBy)?.name ?? 'Unknown User',
+      }))
+    }),
+
+  restoreRevision: protectedProcedure
+    .input(z.object({ revisionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        const revision = await tx.ownerStatementRevision.findUnique({
+          where: { id: input.revisionId },
+          include: {
+            ownerStatement: {
+              select: {
+                id: true,
+                managementGroupId: true,
+                statementMonth: true,
+                deletedAt: true,
+                status: true,
+              },
+            },
+          },
+        })
+
+        if (
+          !revision ||
+          revision.ownerStatement.deletedAt ||
+          revision.ownerStatement.managementGroupId !== orgId
+        ) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Revision not found',
+          })
+        }
+
+        const statement = revision.ownerStatement
+        assertStatementEditable(statement)
+
+        // The revision holds the statement as it was before that change
+        const snapshot = revision.snapshot as unknown as StatementSnapshot
+
+        // Source documents may have been removed since the snapshot was taken
+        const sourceDocumentIds = [
+          ...new Set(
+            snapshot.expenses
+              .map((expense) => expense.sourceDocumentId)
+              .filter((id): id is string => id !== null)
+          ),
+        ]
+        const existingDocuments = new Set(
+          (
+            await tx.sourceDocument.findMany({
+              where: { id: { in: sourceDocumentIds } },
+              select: { id: true },
+            })
+          ).map((document) => document.id)
+        )
+
+        // Likewise the reservations and prorated stays lines were linked to
+        const [existingReservations, existingProratedStays] = await Promise.all(
+          [
+            tx.reservation
+              .findMany({
+                where: {
+                  id: {
+                    in: [...snapshot.incomes, ...snapshot.adjustments].flatMap(
+                      (item) => (item.reservationId ? [item.reservationId] : [])
+                    ),
+                  },
+                },
+                select: { id: true },
+              })
+              .then((rows) => new Set(rows.map((row) => row.id))),
+            tx.proratedStay
+              .findMany({
+                where: {
+                  id: {
+                    in: snapshot.incomes.flatMap((income) =>
+                      income.proratedStayId ? [income.proratedStayId] : []
+                    ),
+                  },
+                },
+                select: { id: true },
+              })
+              .then((rows) => new Set(rows.map((row) => row.id))),
+          ]
+        )
+
+        const restored = await auditStatementChanges(
+          tx,
+          {
+            statementIds: [statement.id],
+            source: 'RESTORE',
+            changedBy: userId,
+          },
+          async () => {
+            await Promise.all([
+              tx.ownerStatementIncome.deleteMany({
+                where: { ownerStatementId: statement.id },
+              }),
+              tx.ownerStatementExpense.deleteMany({
+                where: { ownerStatementId: statement.id },
+              }),
+              tx.ownerStatementAdjustment.deleteMany({
+                where: { ownerStatementId: statement.id },
+              }),
+            ])
+
+            await tx.ownerStatementIncome.createMany({
+              data: snapshot.incomes.map((income) => ({
+                ...income,
+                ownerStatementId: statement.id,
+                channel:
+                  income.channel ?? normalizeBookingChannel(income.platform),
+                reservationId:
+                  income.reservationId &&
+                  existingReservations.has(income.reservationId)
+                    ? income.reservationId
+                    : null,
+                proratedStayId:
+                  income.proratedStayId &&
+                  existingProratedStays.has(income.proratedStayId)
+                    ? income.proratedStayId
+                    : null,
+              })),
+            })
+            await tx.ownerStatementExpense.createMany({
+              data: snapshot.expenses.map((expense) => ({
+                ...expense,
+                ownerStatementId: statement.id,
+                sourceDocumentId:
+                  expense.sourceDocumentId &&
+                  existingDocuments.has(expense.sourceDocumentId)
+                    ? expense.sourceDocumentId
+                    : null,
+              })),
+            })
+            // Minimum fee, carryover and reserve contribution lines are
+            // rebuilt by the recalculation below
+            await tx.ownerStatementAdjustment.createMany({
+              data: snapshot.adjustments
+                .filter(
+                  (adjustment) =>
+                    !adjustment.isMinimumFee &&
+                    !adjustment.isCarryover &&
+                    adjustment.reserveEntry !== 'CONTRIBUTION'
+                )
+                .map((adjustment) => ({
+                  ...adjustment,
+                  ownerStatementId: statement.id,
+                  reservationId:
+                    adjustment.reservationId &&
+                    existingReservations.has(adjustment.reservationId)
+                      ? adjustment.reservationId
+                      : null,
+                })),
+            })
+            await tx.ownerStatement.update({
+              where: { id: statement.id },
+              data: { notes: snapshot.notes },
+            })
+
+            return recalculateStatementTotals(tx, statement.id, userId)
+          }
+        )
+
+        const monthKey = `${statement.statementMonth.getUTCFullYear()}-${String(statement.statementMonth.getUTCMonth() + 1).padStart(2, '0')}`
+        await VendorCache.invalidateMonth(orgId, monthKey)
+
+        return restored
+      })
+    }),
 })
@@ -0,0 +1,287 @@
+import { type OwnershipSplit, type Prisma } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { sharesAddUpToWhole } from '~/lib/OwnerStatement/ownership-split'
+import { getUsersDisplayInfo } from '~/lib/utils/clerk'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export interface OwnershipSplitWithShares extends OwnershipSplit {
+  shares: Array<{ ownerId: string; ownerName: string; percent: number }>
+  updatedByName: string
+}
+
+const splitTermsSchema = z
+  .object({
+    shares: z
+      .array(
+        z.object({
+          ownerId: z.string(),
+          percent: z
+            .number()
+            .gt(0, 'Each share must be more than 0%')
+            .max(100, 'A share cannot exceed 100%'),
+        })
+      )
+      .min(1, 'Add at least one owner'),
+    effectiveFrom: z.date(),
+    effectiveTo: z.date().nullable().optional(),
+    notes: z.string().optional(),
+  })
+  .refine(
+    (data) => !data.effectiveTo || data.effectiveTo >= data.effectiveFrom,
+    {
+      message: 'End date must be on or after the start date',
+      path: ['effectiveTo'],
+    }
+  )
+  .refine(
+    (data) => sharesAddUpToWhole(data.shares.map((share) => share.percent)),
+    { message: 'Shares must add up to 100%', path: ['shares'] }
+  )
+  .refine(
+    (data) =>
+      new Set(data.shares.map((share) => share.ownerId)).size ===
+      data.shares.length,
+    { message: 'Each owner can only appear once', path: ['shares'] }
+  )
+
+export const createSplitSchema = z.intersection(
+  z.object({ propertyId: z.string() }),
+  splitTermsSchema
+)
+
+export const updateSplitSchema = z.intersection(
+  z.object({ id: z.string() }),
+  splitTermsSchema
+)
+
+export const deleteSplitSchema = z.object({
+  id: z.string(),
+})
+
+// Splits for one property may not cover the same month twice
+async function assertNoOverlap(
+  db: Prisma.TransactionClient,
+  propertyId: string,
+  effectiveFrom: Date,
+  effectiveTo: Date | null | undefined,
+  excludeId?: string
+) {
+  const overlapping = await db.ownershipSplit.findFirst({
+    where: {
+      propertyId,
+      deletedAt: null,
+      ...(excludeId && { id: { not: excludeId } }),
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: effectiveFrom } }],
+      ...(effectiveTo && { effectiveFrom: { lte: effectiveTo } }),
+    },
+  })
+
+  if (overlapping) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message:
+        'Another ownership split is already in effect for part of this period. End it before starting a new one.',
+    })
+  }
+}
+
+async function assertOwnersInOrg(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  ownerIds: string[]
+) {
+  const count = await db.owner.count({
+    where: { id: { in: ownerIds }, managementGroupId: orgId, deletedAt: null },
+  })
+
+  if (count !== ownerIds.length) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'One or more owners were not found',
+    })
+  }
+}
+
+export const ownershipSplitRouter = createTRPCRouter({
+  getMany: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }): Promise<OwnershipSplitWithShares[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const splits = await ctx.db.ownershipSplit.findMany({
+        where: {
+          propertyId: input.propertyId,
+          managementGroupId: orgId,
+          deletedAt: null,
+        },
+        include: {
+          shares: {
+            include: { owner: { select: { name: true } } },
+            orderBy: [{ percent: 'desc' }, { ownerId: 'asc' }],
+          },
+        },
+        orderBy: { effectiveFrom: 'desc' },
+      })
+
+      const userInfo = await getUsersDisplayInfo([
+        ...new Set(splits.map((split) => split.updatedBy)),
+      ])
+
+      return splits.map((split) => ({
+        ...split,
+        shares: split.shares.map((share) => ({
+          ownerId: share.ownerId,
+          ownerName: share.owner.name,
+          percent: Number(share.percent),
+        })),
+        updatedByName: userInfo.get(split.updatedBy)?.name ?? 'Unknown User',
+      }))
+    }),
+
+  create: protectedProcedure
+    .input(createSplitSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (property?.managementGroupId !== orgId || property.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertOwnersInOrg(
+          tx,
+          orgId,
+          input.shares.map((share) => share.ownerId)
+        )
+        await assertNoOverlap(
+          tx,
+          input.propertyId,
+          input.effectiveFrom,
+          input.effectiveTo
+        )
+
+        return tx.ownershipSplit.create({
+          data: {
+            managementGroupId: orgId,
+            propertyId: input.propertyId,
+            effectiveFrom: input.effectiveFrom,
+            effectiveTo: input.effectiveTo ?? null,
+            notes: input.notes ?? null,
+            createdBy: userId,
+            updatedBy: userId,
+            shares: { create: input.shares },
+          },
+        })
+      })
+    }),
+
+  update: protectedProcedure
+    .input(updateSplitSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.ownershipSplit.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, propertyId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Ownership split not found',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertOwnersInOrg(
+          tx,
+          orgId,
+          input.shares.map((share) => share.ownerId)
+        )
+        await assertNoOverlap(
+          tx,
+          existing.propertyId,
+          input.effectiveFrom,
+          input.effectiveTo,
+          input.id
+        )
+
+        // Shares are replaced as a set so they always add up to 100%
+        await tx.ownershipShare.deleteMany({ where: { splitId: input.id } })
+
+        return tx.ownershipSplit.update({
+          where: { id: input.id },
+          data: {
+            effectiveFrom: input.effectiveFrom,
+            effectiveTo: input.effectiveTo ?? null,
+            notes: input.notes ?? null,
+            updatedBy: userId,
+            shares: { create: input.shares },
+          },
+        })
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteSplitSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.ownershipSplit.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Ownership split not found',
+        })
+      }
+
+      await ctx.db.ownershipSplit.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date(), updatedBy: userId },
+      })
+
+      return { success: true }
+    }),
+})
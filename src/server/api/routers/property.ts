@@ -5,10 +5,24 @@ import {
   type OwnerStatementAdjustment,
   type OwnerStatementExpense,
   type OwnerStatementIncome,
+  type Prisma,
   type Property,
 } from '@prisma/client'
 import { TRPCError } from '@trpc/server'
 import { z } from 'zod'
+import {
+  type ChannelMix,
+  getChannelMix,
+} from '~/lib/OwnerStatement/channel-mix'
+import { getManagementFeeRules } from '~/lib/OwnerStatement/management-fee'
+import {
+  getReserveBalance,
+  getReserveBalances,
+} from '~/lib/OwnerStatement/owner-reserve'
+import {
+  type PortfolioPerformance,
+  getPortfolioPerformance,
+} from '~/lib/OwnerStatement/stay-metrics'
 import { getUsersDisplayInfo } from '~/lib/utils/clerk'
 import dayjs from '~/lib/utils/day'
 
@@ -24,12 +38,19 @@ export const locationInfoSchema = z.object({
   timezone: z.string().optional(),
 })
 
-export const ownerSchema = z.object({
-  name: z.string().optional(),
-  email: z.string().optional(),
-  phone: z.string().optional(),
-  address: z.string().optional(),
-})
+// Owner contact details shown alongside a property. Payout and tax details
+// stay on the owner router.
+export const ownerContactSelect = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  address: true,
+} as const
+
+export type OwnerContact = Prisma.OwnerGetPayload<{
+  select: typeof ownerContactSelect
+}>
 
 export const editLocationSchema = z.object({
   propertyId: z.string(),
@@ -39,11 +60,9 @@ export const editLocationSchema = z.object({
   postalCode: z.string().optional(),
 })
 
-export const editOwnerSchema = z.object({
+export const setOwnerSchema = z.object({
   propertyId: z.string(),
-  name: z.string().optional(),
-  email: z.string().email().optional(),
-  phone: z.string().optional(),
+  ownerId: z.string().nullable(),
 })
 
 export const deletePropertySchema = z.object({
@@ -52,7 +71,7 @@ export const deletePropertySchema = z.object({
 
 export type ParsedProperty = Property & {
   locationInfo: z.infer<typeof locationInfoSchema> | null
-  owner: z.infer<typeof ownerSchema> | null
+  owner: OwnerContact | null
   invoices: Array<{
     id: string
     invoiceDate: Date
@@ -71,7 +90,7 @@ export type ParsedProperty = Property & {
 // Combined type for getMany output
 export type PropertyOverview = Property & {
   locationInfo: z.infer<typeof locationInfoSchema> | null
-  owner: z.infer<typeof ownerSchema> | null
+  owner: OwnerContact | null
   totalInvoicesCount: number
   latestInvoiceDate: Date | null // Present when no month filter
   monthlyInvoiceTotal: number // Present when month filter is applied (or 0)
@@ -87,6 +106,7 @@ type PropertyWithMonthlyData = Property & {
         adjustments: OwnerStatementAdjustment[]
       })
     | null
+  reserveBalance: number // As of the end of the month
 }
 
 export const propertyRouter = createTRPCRouter({
@@ -115,6 +135,7 @@ export const propertyRouter = createTRPCRouter({
           name: 'asc',
         },
         include: {
+          owner: { select: ownerContactSelect },
           invoices: {
             where: {
               deletedAt: null,
@@ -147,7 +168,6 @@ export const propertyRouter = createTRPCRouter({
         locationInfo: property.locationInfo as z.infer<
           typeof locationInfoSchema
         > | null,
-        owner: property.owner as z.infer<typeof ownerSchema> | null,
         invoices: property.invoices.map((invoice) => {
           const userInfo = userMap.get(invoice.updatedBy)!
           return {
@@ -190,6 +210,7 @@ export const propertyRouter = createTRPCRouter({
           deletedAt: null,
         },
         include: {
+          owner: { select: ownerContactSelect },
           _count: {
             select: {
               invoices: {
@@ -251,7 +272,6 @@ export const propertyRouter = createTRPCRouter({
           locationInfo: property.locationInfo as z.infer<
             typeof locationInfoSchema
           > | null,
-          owner: property.owner as z.infer<typeof ownerSchema> | null,
           totalInvoicesCount: property._count.invoices,
           latestInvoiceDate: latestInvoiceDate,
           monthlyInvoiceTotal: monthlyInvoiceTotal,
@@ -328,13 +348,72 @@ export const propertyRouter = createTRPCRouter({
         })[]
       })[]
 
+      const reserveBalances = await getReserveBalances(
+        ctx.db,
+        typedProperties.map((property) => property.id),
+        endDate
+      )
+
       return typedProperties.map((property) => ({
         ...property,
         monthlyInvoices: property.invoices,
         monthlyOwnerStatement: property.ownerStatements[0] ?? null,
+        reserveBalance: reserveBalances.get(property.id) ?? 0,
       }))
     }),
 
+  // Occupancy, ADR and RevPAR for the month, with the month and year before
+  getPerformance: protectedProcedure
+    .input(
+      z.object({
+        month: z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format'),
+      })
+    )
+    .query(async ({ ctx, input }): Promise<PortfolioPerformance> => {
+      const { orgId } = ctx.auth
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return getPortfolioPerformance(
+        ctx.db,
+        orgId,
+        dayjs.utc(input.month).startOf('month').toDate()
+      )
+    }),
+
+  getChannelMix: protectedProcedure
+    .input(
+      z
+        .object({
+          from: z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format'),
+          to: z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format'),
+          propertyId: z.string().optional(),
+        })
+        .refine((data) => data.from <= data.to, {
+          message: 'The first month must not be after the last',
+          path: ['to'],
+        })
+    )
+    .query(async ({ ctx, input }): Promise<ChannelMix> => {
+      const { orgId } = ctx.auth
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return getChannelMix(ctx.db, orgId, {
+        from: dayjs.utc(input.from).startOf('month').toDate(),
+        to: dayjs.utc(input.to).startOf('month').toDate(),
+        propertyId: input.propertyId,
+      })
+    }),
+
   create: protectedProcedure.mutation(async ({ ctx }) => {
     const { orgId, userId } = ctx.auth
 
@@ -405,8 +484,46 @@ export const propertyRouter = createTRPCRouter({
       })
     }),
 
-  editOwner: protectedProcedure
-    .input(editOwnerSchema)
+  // Current reserve balance and the target from today's agreement
+  getReserve: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true },
+      })
+
+      if (property?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      const now = dayjs.utc().toDate()
+      const [rules, balance] = await Promise.all([
+        getManagementFeeRules(
+          ctx.db,
+          input.propertyId,
+          dayjs.utc().startOf('month').toDate()
+        ),
+        getReserveBalance(ctx.db, input.propertyId, { through: now }),
+      ])
+
+      return { target: rules.reserveTarget, balance }
+    }),
+
+  setOwner: protectedProcedure
+    .input(setOwnerSchema)
     .mutation(async ({ ctx, input }) => {
       const { orgId, userId } = ctx.auth
 
@@ -417,10 +534,18 @@ export const propertyRouter = createTRPCRouter({
         })
       }
 
-      const ownerInfo = {
-        name: input.name,
-        email: input.email,
-        phone: input.phone,
+      if (input.ownerId) {
+        const owner = await ctx.db.owner.findUnique({
+          where: { id: input.ownerId },
+          select: { managementGroupId: true, deletedAt: true },
+        })
+
+        if (owner?.managementGroupId !== orgId || owner.deletedAt) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Owner not found',
+          })
+        }
       }
 
       return ctx.db.property.update({
@@ -429,7 +554,7 @@ export const propertyRouter = createTRPCRouter({
           managementGroupId: orgId,
         },
         data: {
-          owner: ownerInfo,
+          ownerId: input.ownerId,
           updatedBy: userId,
           updatedAt: new Date(),
         },
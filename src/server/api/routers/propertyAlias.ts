@@ -0,0 +1,125 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  PROPERTY_ALIAS_SOURCES,
+  normalizePropertyName,
+} from '~/lib/OwnerStatement/property-alias'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export const createAliasSchema = z.object({
+  propertyId: z.string(),
+  alias: z.string().trim().min(1, 'Alias is required'),
+  source: z.enum(PROPERTY_ALIAS_SOURCES).default('manual'),
+})
+
+export const deleteAliasSchema = z.object({
+  id: z.string(),
+})
+
+export const propertyAliasRouter = createTRPCRouter({
+  getMany: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return ctx.db.propertyAlias.findMany({
+        where: { propertyId: input.propertyId, managementGroupId: orgId },
+        orderBy: { alias: 'asc' },
+      })
+    }),
+
+  // Saving an alias that already exists re-points it to the given property
+  create: protectedProcedure
+    .input(createAliasSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true, deletedAt: true, name: true },
+      })
+
+      if (property?.managementGroupId !== orgId || property.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      const normalizedAlias = normalizePropertyName(input.alias)
+
+      if (normalizedAlias === normalizePropertyName(property.name)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Alias matches the property name already',
+        })
+      }
+
+      return ctx.db.propertyAlias.upsert({
+        where: {
+          managementGroupId_normalizedAlias: {
+            managementGroupId: orgId,
+            normalizedAlias,
+          },
+        },
+        create: {
+          managementGroupId: orgId,
+          propertyId: input.propertyId,
+          alias: input.alias,
+          normalizedAlias,
+          source: input.source,
+          createdBy: userId,
+        },
+        update: {
+          propertyId: input.propertyId,
+          alias: input.alias,
+          source: input.source,
+          createdBy: userId,
+        },
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteAliasSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const alias = await ctx.db.propertyAlias.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true },
+      })
+
+      if (alias?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Alias not found',
+        })
+      }
+
+      await ctx.db.propertyAlias.delete({ where: { id: input.id } })
+
+      return { success: true }
+    }),
+})
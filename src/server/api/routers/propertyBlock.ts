@@ -0,0 +1,107 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export const createBlockSchema = z
+  .object({
+    propertyId: z.string(),
+    startDate: z.date(),
+    endDate: z.date(),
+    reason: z.enum(['OWNER_STAY', 'MAINTENANCE']).default('OWNER_STAY'),
+    notes: z.string().trim().optional(),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: 'End date must be after the start date',
+    path: ['endDate'],
+  })
+
+export const deleteBlockSchema = z.object({
+  id: z.string(),
+})
+
+export const propertyBlockRouter = createTRPCRouter({
+  getMany: protectedProcedure
+    .input(z.object({ propertyId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return ctx.db.propertyBlock.findMany({
+        where: { propertyId: input.propertyId, managementGroupId: orgId },
+        orderBy: { startDate: 'desc' },
+      })
+    }),
+
+  create: protectedProcedure
+    .input(createBlockSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const property = await ctx.db.property.findUnique({
+        where: { id: input.propertyId },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (property?.managementGroupId !== orgId || property.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Property not found',
+        })
+      }
+
+      return ctx.db.propertyBlock.create({
+        data: {
+          managementGroupId: orgId,
+          propertyId: input.propertyId,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          reason: input.reason,
+          notes: input.notes ?? null,
+          createdBy: userId,
+        },
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteBlockSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const block = await ctx.db.propertyBlock.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true },
+      })
+
+      if (block?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Blocked dates not found',
+        })
+      }
+
+      await ctx.db.propertyBlock.delete({ where: { id: input.id } })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,254 @@
+import { type Prisma, type RecurringExpenseTemplate } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import { findUnknownExpenseCategories } from '~/lib/OwnerStatement/expense-category'
+import { RECURRING_EXPENSE_FREQUENCIES } from '~/lib/OwnerStatement/recurring-expense'
+import dayjs from '~/lib/utils/day'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export interface RecurringExpenseTemplateWithProperties extends Omit<
+  RecurringExpenseTemplate,
+  'amount'
+> {
+  amount: number
+  properties: Array<{ propertyId: string; propertyName: string }>
+}
+
+const monthSchema = z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format')
+
+const templateTermsSchema = z
+  .object({
+    propertyIds: z.array(z.string()).min(1, 'Select at least one property'),
+    vendor: z.string().trim().min(1, 'Vendor is required'),
+    description: z.string().trim().min(1, 'Description is required'),
+    amountType: z.enum(['FIXED', 'PERCENT_OF_INCOME']).default('FIXED'),
+    amount: z.number().gt(0, 'Amount must be more than 0'),
+    category: z.string().nullable().optional(),
+    frequency: z.enum(RECURRING_EXPENSE_FREQUENCIES).default('MONTHLY'),
+    startMonth: monthSchema,
+    endMonth: monthSchema.nullable().optional(),
+  })
+  .refine((data) => data.amountType === 'FIXED' || data.amount <= 100, {
+    message: 'A percentage cannot exceed 100%',
+    path: ['amount'],
+  })
+  .refine((data) => !data.endMonth || data.endMonth >= data.startMonth, {
+    message: 'End month must be on or after the start month',
+    path: ['endMonth'],
+  })
+
+export const createTemplateSchema = templateTermsSchema
+
+export const updateTemplateSchema = z.intersection(
+  z.object({ id: z.string() }),
+  templateTermsSchema
+)
+
+export const deleteTemplateSchema = z.object({
+  id: z.string(),
+})
+
+type TemplateTerms = z.infer<typeof templateTermsSchema>
+
+const toMonthDate = (month: string) =>
+  dayjs.utc(month).startOf('month').toDate()
+
+function templateData(input: TemplateTerms) {
+  return {
+    vendor: input.vendor,
+    description: input.description,
+    amountType: input.amountType,
+    amount: input.amount,
+    category: input.category ?? null,
+    frequency: input.frequency,
+    startMonth: toMonthDate(input.startMonth),
+    endMonth: input.endMonth ? toMonthDate(input.endMonth) : null,
+  }
+}
+
+async function assertPropertiesInOrg(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  propertyIds: string[]
+) {
+  const count = await db.property.count({
+    where: {
+      id: { in: [...new Set(propertyIds)] },
+      managementGroupId: orgId,
+      deletedAt: null,
+    },
+  })
+
+  if (count !== new Set(propertyIds).size) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'One or more properties were not found',
+    })
+  }
+}
+
+async function assertExpenseCategory(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  category: string | null | undefined
+) {
+  const unknown = await findUnknownExpenseCategories(db, orgId, [category])
+
+  if (unknown.length) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Expense category not found',
+    })
+  }
+}
+
+export const recurringExpenseRouter = createTRPCRouter({
+  getMany: protectedProcedure.query(
+    async ({ ctx }): Promise<RecurringExpenseTemplateWithProperties[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const templates = await ctx.db.recurringExpenseTemplate.findMany({
+        where: { managementGroupId: orgId, deletedAt: null },
+        include: {
+          properties: {
+            where: { property: { deletedAt: null } },
+            include: { property: { select: { name: true } } },
+          },
+        },
+        orderBy: [{ vendor: 'asc' }, { description: 'asc' }],
+      })
+
+      return templates.map((template) => ({
+        ...template,
+        amount: Number(template.amount),
+        properties: template.properties
+          .map((link) => ({
+            propertyId: link.propertyId,
+            propertyName: link.property.name,
+          }))
+          .sort((a, b) => a.propertyName.localeCompare(b.propertyName)),
+      }))
+    }
+  ),
+
+  create: protectedProcedure
+    .input(createTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertPropertiesInOrg(tx, orgId, input.propertyIds)
+        await assertExpenseCategory(tx, orgId, input.category)
+
+        return tx.recurringExpenseTemplate.create({
+          data: {
+            managementGroupId: orgId,
+            ...templateData(input),
+            createdBy: userId,
+            updatedBy: userId,
+            properties: {
+              create: [...new Set(input.propertyIds)].map((propertyId) => ({
+                propertyId,
+              })),
+            },
+          },
+        })
+      })
+    }),
+
+  update: protectedProcedure
+    .input(updateTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.recurringExpenseTemplate.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring expense not found',
+        })
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        await assertPropertiesInOrg(tx, orgId, input.propertyIds)
+        await assertExpenseCategory(tx, orgId, input.category)
+
+        // Properties are replaced as a set
+        await tx.recurringExpenseProperty.deleteMany({
+          where: { templateId: input.id },
+        })
+
+        return tx.recurringExpenseTemplate.update({
+          where: { id: input.id },
+          data: {
+            ...templateData(input),
+            updatedBy: userId,
+            properties: {
+              create: [...new Set(input.propertyIds)].map((propertyId) => ({
+                propertyId,
+              })),
+            },
+          },
+        })
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.recurringExpenseTemplate.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring expense not found',
+        })
+      }
+
+      // Expenses already added to statements stay as they are
+      await ctx.db.recurringExpenseTemplate.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date(), updatedBy: userId },
+      })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,94 @@
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  DEFAULT_INCOME_DROP_PERCENT,
+  type StatementVarianceReview,
+  getStatementVarianceReviews,
+} from '~/lib/OwnerStatement/statement-variance'
+import dayjs from '~/lib/utils/day'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export const statementVarianceRouter = createTRPCRouter({
+  getMany: protectedProcedure
+    .input(
+      z.object({
+        month: z.string().regex(/^\d{4}-\d{2}$/, 'Invalid month format'),
+        incomeDropPercent: z
+          .number()
+          .min(0)
+          .max(100)
+          .default(DEFAULT_INCOME_DROP_PERCENT),
+      })
+    )
+    .query(async ({ ctx, input }): Promise<StatementVarianceReview[]> => {
+      const { orgId } = ctx.auth
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      return getStatementVarianceReviews(
+        ctx.db,
+        orgId,
+        dayjs.utc(input.month).startOf('month').toDate(),
+        input.incomeDropPercent
+      )
+    }),
+
+  setChecked: protectedProcedure
+    .input(
+      z.object({
+        statementId: z.string(),
+        findingKey: z.string().min(1),
+        checked: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.statementId },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+      if (statement?.managementGroupId !== orgId || statement.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      const where = {
+        ownerStatementId_findingKey: {
+          ownerStatementId: input.statementId,
+          findingKey: input.findingKey,
+        },
+      }
+
+      if (!input.checked) {
+        await ctx.db.ownerStatementVarianceCheck.deleteMany({
+          where: where.ownerStatementId_findingKey,
+        })
+        return { checked: false }
+      }
+
+      await ctx.db.ownerStatementVarianceCheck.upsert({
+        where,
+        create: {
+          ownerStatementId: input.statementId,
+          findingKey: input.findingKey,
+          checkedBy: userId,
+        },
+        update: {},
+      })
+      return { checked: true }
+    }),
+})
@@ -0,0 +1,149 @@
+import { type Prisma } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  type VendorImportJobView,
+  type VendorImportPreview,
+  isVendorImportJobFinished,
+} from '~/lib/OwnerStatement/vendor-import'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+const jobViewSelect = {
+  id: true,
+  managementGroupId: true,
+  ownerStatementId: true,
+  vendor: true,
+  description: true,
+  fileName: true,
+  status: true,
+  progressMessage: true,
+  error: true,
+  result: true,
+  createdAt: true,
+  completedAt: true,
+} satisfies Prisma.VendorImportJobSelect
+
+function toJobView(
+  job: Prisma.VendorImportJobGetPayload<{ select: typeof jobViewSelect }>
+): VendorImportJobView {
+  return {
+    id: job.id,
+    ownerStatementId: job.ownerStatementId,
+    vendor: job.vendor,
+    description: job.description,
+    fileName: job.fileName,
+    status: job.status,
+    progressMessage: job.progressMessage,
+    error: job.error,
+    preview: job.result as VendorImportPreview | null,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  }
+}
+
+export const vendorImportJobRouter = createTRPCRouter({
+  // Polled by the vendor import modal until the job finishes
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }): Promise<VendorImportJobView> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const job = await ctx.db.vendorImportJob.findUnique({
+        where: { id: input.id },
+        select: jobViewSelect,
+      })
+
+      if (job?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Import job not found',
+        })
+      }
+
+      return toJobView(job)
+    }),
+
+  // Unconfirmed jobs for the statement's month, so users can come back to them
+  getOpenForMonth: protectedProcedure
+    .input(z.object({ ownerStatementId: z.string() }))
+    .query(async ({ ctx, input }): Promise<VendorImportJobView[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const statement = await ctx.db.ownerStatement.findUnique({
+        where: { id: input.ownerStatementId },
+        select: { managementGroupId: true, statementMonth: true },
+      })
+
+      if (statement?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Owner statement not found',
+        })
+      }
+
+      const jobs = await ctx.db.vendorImportJob.findMany({
+        where: {
+          managementGroupId: orgId,
+          statementMonth: statement.statementMonth,
+          confirmedAt: null,
+        },
+        select: jobViewSelect,
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      })
+
+      return jobs.map(toJobView)
+    }),
+
+  // Remove a failed or unwanted job from the open list
+  dismiss: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const job = await ctx.db.vendorImportJob.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, status: true },
+      })
+
+      if (job?.managementGroupId !== orgId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Import job not found',
+        })
+      }
+
+      if (!isVendorImportJobFinished(job.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Wait for the import to finish processing',
+        })
+      }
+
+      await ctx.db.vendorImportJob.delete({ where: { id: input.id } })
+
+      return { success: true }
+    }),
+})
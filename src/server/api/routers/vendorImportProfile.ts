@@ -0,0 +1,207 @@
+import { type Prisma, type VendorImportProfile } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { z } from 'zod'
+import {
+  SIGN_CONVENTIONS,
+  type SignConvention,
+  type VendorColumnMapping,
+  normalizeSheetHeaders,
+} from '~/lib/OwnerStatement/vendor-excel-profile'
+
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+
+export interface VendorImportProfileWithMapping extends Omit<
+  VendorImportProfile,
+  'columnMapping' | 'signConvention'
+> {
+  columnMapping: VendorColumnMapping
+  signConvention: SignConvention
+}
+
+const columnIndexSchema = z.number().int().min(0).nullable()
+
+// Blank text is stored as null
+const optionalTextSchema = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => (value?.length ? value : null))
+
+const profileLayoutSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required'),
+  vendorName: optionalTextSchema,
+  headerRowOffset: z.number().int().min(0).max(50),
+  headers: z.array(z.string()).min(1, 'Header row is empty'),
+  columnMapping: z.object({
+    property: z.number().int().min(0),
+    date: z.number().int().min(0),
+    description: columnIndexSchema,
+    vendor: columnIndexSchema,
+    amount: z.number().int().min(0),
+  }),
+  dateFormat: optionalTextSchema,
+  signConvention: z.enum(SIGN_CONVENTIONS).default('positive'),
+  defaultDescription: optionalTextSchema,
+})
+
+export const createProfileSchema = profileLayoutSchema
+
+export const updateProfileSchema = z.intersection(
+  z.object({ id: z.string() }),
+  profileLayoutSchema
+)
+
+export const deleteProfileSchema = z.object({
+  id: z.string(),
+})
+
+function toProfileData(input: z.infer<typeof profileLayoutSchema>) {
+  return {
+    name: input.name,
+    vendorName: input.vendorName,
+    headerRowOffset: input.headerRowOffset,
+    headers: normalizeSheetHeaders(input.headers),
+    columnMapping: input.columnMapping,
+    dateFormat: input.dateFormat,
+    signConvention: input.signConvention,
+    defaultDescription: input.defaultDescription,
+  }
+}
+
+async function assertUniqueName(
+  db: Prisma.TransactionClient,
+  orgId: string,
+  name: string,
+  excludeId?: string
+) {
+  const existing = await db.vendorImportProfile.findFirst({
+    where: {
+      managementGroupId: orgId,
+      deletedAt: null,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  })
+
+  if (existing) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `A mapping profile named "${name}" already exists`,
+    })
+  }
+}
+
+export const vendorImportProfileRouter = createTRPCRouter({
+  getMany: protectedProcedure.query(
+    async ({ ctx }): Promise<VendorImportProfileWithMapping[]> => {
+      const { orgId } = ctx.auth
+
+      if (!orgId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'No organization selected',
+        })
+      }
+
+      const profiles = await ctx.db.vendorImportProfile.findMany({
+        where: { managementGroupId: orgId, deletedAt: null },
+        orderBy: { name: 'asc' },
+      })
+
+      return profiles.map((profile) => ({
+        ...profile,
+        columnMapping: profile.columnMapping as VendorColumnMapping,
+        signConvention: profile.signConvention as SignConvention,
+      }))
+    }
+  ),
+
+  create: protectedProcedure
+    .input(createProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      await assertUniqueName(ctx.db, orgId, input.name)
+
+      return ctx.db.vendorImportProfile.create({
+        data: {
+          ...toProfileData(input),
+          managementGroupId: orgId,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      })
+    }),
+
+  update: protectedProcedure
+    .input(updateProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.vendorImportProfile.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Mapping profile not found',
+        })
+      }
+
+      await assertUniqueName(ctx.db, orgId, input.name, input.id)
+
+      return ctx.db.vendorImportProfile.update({
+        where: { id: input.id },
+        data: { ...toProfileData(input), updatedBy: userId },
+      })
+    }),
+
+  delete: protectedProcedure
+    .input(deleteProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { orgId, userId } = ctx.auth
+
+      if (!orgId || !userId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        })
+      }
+
+      const existing = await ctx.db.vendorImportProfile.findUnique({
+        where: { id: input.id },
+        select: { managementGroupId: true, deletedAt: true },
+      })
+
+      if (existing?.managementGroupId !== orgId || existing.deletedAt) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Mapping profile not found',
+        })
+      }
+
+      await ctx.db.vendorImportProfile.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date(), updatedBy: userId },
+      })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,118 @@
+import { type Prisma } from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { env } from '~/env'
+import { utapi } from '~/server/uploadthing'
+
+// Pluggable storage for imported source documents (vendor invoices and
+// spreadsheets). The backend is chosen with DOCUMENT_STORAGE.
+
+export type DocumentStorageBackend = 'uploadthing' | 'local'
+
+export interface StoredFile {
+  fileName: string
+  mimeType: string
+  data: Buffer
+}
+
+// Either a URL to redirect to or the file contents to stream back
+export type DocumentDownload = { url: string } | { data: Buffer }
+
+export interface DocumentStorage {
+  backend: DocumentStorageBackend
+  put: (managementGroupId: string, file: StoredFile) => Promise<string>
+  get: (storageKey: string) => Promise<DocumentDownload>
+}
+
+const uploadthingStorage: DocumentStorage = {
+  backend: 'uploadthing',
+  put: async (_managementGroupId, file) => {
+    const result = await utapi.uploadFiles(
+      new File([new Uint8Array(file.data)], file.fileName, {
+        type: file.mimeType,
+      })
+    )
+    if (result.error) {
+      throw new Error(
+        `Failed to store ${file.fileName}: ${result.error.message}`
+      )
+    }
+    return result.data.key
+  },
+  get: async (storageKey) => {
+    const { ufsUrl } = await utapi.getSignedURL(storageKey)
+    return { url: ufsUrl }
+  },
+}
+
+// Keys are relative paths under LOCAL_STORAGE_DIR, so never trust ".." in them
+function resolveLocalPath(storageKey: string) {
+  const root = path.resolve(env.LOCAL_STORAGE_DIR)
+  const filePath = path.resolve(root, storageKey)
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage key')
+  }
+  return filePath
+}
+
+const localStorage: DocumentStorage = {
+  backend: 'local',
+  put: async (managementGroupId, file) => {
+    const safeName = file.fileName.replace(/[^\w.-]+/g, '_')
+    const storageKey = `${managementGroupId}/${randomUUID()}-${safeName}`
+    const filePath = resolveLocalPath(storageKey)
+
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, file.data)
+    return storageKey
+  },
+  get: async (storageKey) => ({
+    data: await readFile(resolveLocalPath(storageKey)),
+  }),
+}
+
+const DOCUMENT_STORAGES: Record<DocumentStorageBackend, DocumentStorage> = {
+  uploadthing: uploadthingStorage,
+  local: localStorage,
+}
+
+/**
+ * Storage for new documents comes from DOCUMENT_STORAGE. Existing documents
+ * are read back from the backend recorded when they were stored.
+ */
+export function getDocumentStorage(
+  backend: string = env.DOCUMENT_STORAGE
+): DocumentStorage {
+  if (!(backend in DOCUMENT_STORAGES)) {
+    throw new Error(`Unknown document storage "${backend}"`)
+  }
+  return DOCUMENT_STORAGES[backend as DocumentStorageBackend]
+}
+
+/**
+ * Keep an uploaded import file and record it so expenses can link back to it
+ */
+export async function storeSourceDocument(
+  db: Prisma.TransactionClient,
+  {
+    managementGroupId,
+    createdBy,
+    file,
+  }: { managementGroupId: string; createdBy: string; file: StoredFile }
+) {
+  const storage = getDocumentStorage()
+  const storageKey = await storage.put(managementGroupId, file)
+
+  return db.sourceDocument.create({
+    data: {
+      managementGroupId,
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      size: file.data.length,
+      storage: storage.backend,
+      storageKey,
+      createdBy,
+    },
+  })
+}